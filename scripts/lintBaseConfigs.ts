@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import * as yaml from 'js-yaml';
+import { formatLintFinding, lintRangeConfig } from '../src/tools/rangeConfigLint.js';
+
+/**
+ * Lint every range config shipped in base-configs/, so a base config that does not parse or
+ * would not deploy is caught before it is synced to users.
+ *
+ * Usage: npm run lint-base-configs [-- <dir>]
+ */
+
+const BASE_CONFIGS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'base-configs');
+const CONFIG_EXTENSIONS = ['.yml', '.yaml'];
+
+const dir = process.argv[2] ? path.resolve(process.argv[2]) : BASE_CONFIGS_DIR;
+const files = fs.readdirSync(dir).filter(file => CONFIG_EXTENSIONS.includes(path.extname(file).toLowerCase())).sort();
+let failed = 0;
+
+for (const file of files) {
+  let config: unknown;
+  try {
+    config = yaml.load(fs.readFileSync(path.join(dir, file), 'utf-8'));
+  } catch (error: any) {
+    failed++;
+    console.log(`FAIL ${file}\n  YAML parse error: ${error.message.split('\n')[0]}`);
+    continue;
+  }
+
+  const report = lintRangeConfig(config);
+  if (report.errorCount > 0) failed++;
+  console.log(`${report.errorCount > 0 ? 'FAIL' : 'ok  '} ${file}`);
+  for (const finding of report.findings) {
+    console.log(`  ${finding.severity}: ${formatLintFinding(finding)}`);
+  }
+}
+
+console.log(`\n${files.length} base config(s) checked, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
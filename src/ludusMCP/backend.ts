@@ -0,0 +1,207 @@
+import { Logger } from '../utils/logger.js';
+import { loadMcpConfigFile } from '../utils/contentSources.js';
+
+/**
+ * How Ludus operations reach the server.
+ *
+ * cli:  spawn the `ludus` binary (default; needs the CLI installed)
+ * rest: call the Ludus REST API directly (no CLI needed)
+ *
+ * Selected by the `backend` section of the MCP config file (~/.ludus-mcp/config.yml):
+ *
+ *   backend:
+ *     type: rest                  # cli (default) or rest
+ *     url: https://10.2.0.1:8080  # optional; default: the WireGuard URL or the SSH tunnel ports
+ *     verify_tls: false           # only used with url
+ *     fallback_to_cli: true       # retry through the CLI when the API cannot be reached (default: true)
+ *     timeout_seconds: 60
+ *
+ * and overridden by LUDUS_MCP_BACKEND, LUDUS_MCP_API_URL, LUDUS_MCP_API_VERIFY_TLS and
+ * LUDUS_MCP_BACKEND_FALLBACK.
+ */
+
+/**
+ * Kind of a failed command, classified from the Ludus error message or HTTP status (see commandErrors.ts)
+ */
+export type LudusErrorKind =
+  | 'auth'
+  | 'not_found'
+  | 'permission_denied'
+  | 'connection_refused'
+  | 'range_busy'
+  | 'validation'
+  | 'unknown';
+
+export interface CommandResult {
+  success: boolean;
+  data?: any;
+  message: string;      // output on success, the Ludus error message on failure
+  rawOutput?: string;
+  timedOut?: boolean;   // killed at its timeout; output is what arrived until then
+  exitCode?: number;    // CLI exit code (not set for REST calls or commands that never ran)
+  stdout?: string;
+  stderr?: string;
+  errorKind?: LudusErrorKind;  // set on failures
+}
+
+export type LudusBackendType = 'cli' | 'rest';
+
+export interface BackendOptions {
+  type: LudusBackendType;
+  url?: string;              // fixed API URL (e.g. a mock server) instead of the connection method's endpoints
+  verifyTls: boolean;
+  fallbackToCli: boolean;
+  timeoutMs: number;
+  source: 'default' | 'config file' | 'environment';
+}
+
+export interface DeployRangeOptions {
+  user?: string;
+  configPath?: string;
+  force?: boolean;
+  tags?: string;
+  limit?: string;
+  onlyRoles?: string;
+  verboseAnsible?: boolean;
+  rangeId?: string;
+}
+
+export interface SnapshotCreateOptions {
+  user?: string;
+  vmIds?: string;
+  description?: string;
+  includeRAM?: boolean;
+  rangeId?: string;
+}
+
+export interface TestingRuleOptions {
+  domains?: string;
+  ips?: string;
+  user?: string;
+  rangeId?: string;
+}
+
+/**
+ * Ludus operations shared by the CLI wrapper and the REST client. Arguments mirror the CLI flags;
+ * comma-separated lists (vmNames, vmIds, onlyRoles, domains, ips) are passed through as given.
+ */
+export interface LudusBackend {
+  // Range
+  listUserRanges(user?: string): Promise<CommandResult>;
+  listAllRanges(): Promise<CommandResult>;
+  getRangeStatus(user?: string, rangeId?: string): Promise<CommandResult>;
+  deployRange(options?: DeployRangeOptions): Promise<CommandResult>;
+  getTags(user?: string, rangeId?: string): Promise<CommandResult>;
+  abortRange(user?: string, rangeId?: string): Promise<CommandResult>;
+  destroyRange(user?: string, noPrompt?: boolean, rangeId?: string): Promise<CommandResult>;
+  getRangeConfig(user?: string, rangeId?: string): Promise<CommandResult>;
+  setRangeConfig(configPath: string, user?: string, force?: boolean, rangeId?: string): Promise<CommandResult>;
+  getRangeLogs(user?: string, follow?: boolean, rangeId?: string): Promise<CommandResult>;
+  powerOnRange(user?: string, vmNames?: string, rangeId?: string): Promise<CommandResult>;
+  powerOffRange(user?: string, vmNames?: string, rangeId?: string): Promise<CommandResult>;
+
+  // Snapshots
+  listSnapshots(user?: string, rangeId?: string): Promise<CommandResult>;
+  createSnapshot(name: string, options?: SnapshotCreateOptions): Promise<CommandResult>;
+  revertSnapshot(name: string, user?: string, vmIds?: string, rangeId?: string): Promise<CommandResult>;
+  removeSnapshot(name: string, user?: string, vmIds?: string, rangeId?: string): Promise<CommandResult>;
+
+  // Testing
+  startTesting(user?: string, rangeId?: string): Promise<CommandResult>;
+  stopTesting(user?: string, force?: boolean, rangeId?: string): Promise<CommandResult>;
+  allowTesting(options: TestingRuleOptions): Promise<CommandResult>;
+  denyTesting(options: TestingRuleOptions): Promise<CommandResult>;
+
+  // Templates
+  listTemplates(): Promise<CommandResult>;
+  buildTemplates(names?: string, parallel?: number): Promise<CommandResult>;
+  getTemplateStatus(): Promise<CommandResult>;
+  getTemplateLogs(): Promise<CommandResult>;
+  removeTemplate(name: string): Promise<CommandResult>;
+
+  // Users
+  getUserInfo(user?: string): Promise<CommandResult>;
+  listAllUsers(): Promise<CommandResult>;
+  addUser(name: string, userId: string, isAdmin?: boolean): Promise<CommandResult>;
+  removeUser(userId: string): Promise<CommandResult>;
+  getUserApiKey(userId: string): Promise<CommandResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+function parseBoolean(value: unknown, where: string): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && /^(true|yes|1)$/i.test(value.trim())) return true;
+  if (typeof value === 'string' && /^(false|no|0)$/i.test(value.trim())) return false;
+  throw new Error(`${where}: expected true or false, got ${JSON.stringify(value)}`);
+}
+
+function parseBackendType(value: unknown, where: string): LudusBackendType {
+  const type = typeof value === 'string' ? value.trim().toLowerCase() : value;
+  if (type === 'cli' || type === 'rest') return type;
+  throw new Error(`${where}: backend type must be "cli" or "rest", got ${JSON.stringify(value)}`);
+}
+
+function parseUrl(value: unknown, where: string): string {
+  if (typeof value !== 'string' || !/^https?:\/\//i.test(value.trim())) {
+    throw new Error(`${where}: url must start with http:// or https://, got ${JSON.stringify(value)}`);
+  }
+  return value.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Resolve the backend from defaults, the config file and the environment. An invalid value is
+ * reported and ignored, so a typo falls back to the CLI instead of breaking every tool.
+ */
+export function resolveBackendOptions(logger?: Logger): BackendOptions {
+  const options: BackendOptions = {
+    type: 'cli',
+    verifyTls: false,
+    fallbackToCli: true,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    source: 'default'
+  };
+
+  const apply = (where: string, values: { type?: unknown; url?: unknown; verifyTls?: unknown; fallback?: unknown; timeoutSeconds?: unknown }, source: BackendOptions['source']) => {
+    try {
+      if (values.type !== undefined) options.type = parseBackendType(values.type, where);
+      if (values.url !== undefined) options.url = parseUrl(values.url, where);
+      if (values.verifyTls !== undefined) options.verifyTls = parseBoolean(values.verifyTls, `${where} verify_tls`);
+      if (values.fallback !== undefined) options.fallbackToCli = parseBoolean(values.fallback, `${where} fallback_to_cli`);
+      if (values.timeoutSeconds !== undefined) {
+        const seconds = Number(values.timeoutSeconds);
+        if (!Number.isFinite(seconds) || seconds <= 0) {
+          throw new Error(`${where}: timeout_seconds must be a positive number, got ${JSON.stringify(values.timeoutSeconds)}`);
+        }
+        options.timeoutMs = seconds * 1000;
+      }
+      if (Object.values(values).some(value => value !== undefined)) {
+        options.source = source;
+      }
+    } catch (error) {
+      logger?.warn('Ignoring invalid backend setting', { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const fileConfig = loadMcpConfigFile(logger).backend;
+  if (typeof fileConfig === 'string') {
+    apply('config file backend', { type: fileConfig }, 'config file');
+  } else if (fileConfig && typeof fileConfig === 'object') {
+    apply('config file backend', {
+      type: fileConfig.type,
+      url: fileConfig.url,
+      verifyTls: fileConfig.verify_tls,
+      fallback: fileConfig.fallback_to_cli,
+      timeoutSeconds: fileConfig.timeout_seconds
+    }, 'config file');
+  }
+
+  apply('environment', {
+    type: process.env.LUDUS_MCP_BACKEND || undefined,
+    url: process.env.LUDUS_MCP_API_URL || undefined,
+    verifyTls: process.env.LUDUS_MCP_API_VERIFY_TLS || undefined,
+    fallback: process.env.LUDUS_MCP_BACKEND_FALLBACK || undefined
+  }, 'environment');
+
+  return options;
+}
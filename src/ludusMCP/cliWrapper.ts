@@ -5,27 +5,99 @@ import * as path from 'path';
 import { Logger } from '../utils/logger.js';
 import { LudusConfig } from './interactiveSetup.js';
 import { LudusSSHTunnelManager, type SSHTunnelConfig } from './sshTunnelManager.js';
+import {
+  BackendOptions,
+  CommandResult,
+  DeployRangeOptions,
+  LudusBackend,
+  SnapshotCreateOptions,
+  TestingRuleOptions,
+  resolveBackendOptions
+} from './backend.js';
+import { LudusApiUnavailableError, LudusRestClient, RestEndpoint } from './restClient.js';
+import { CommandCancelledError, CommandQueue, OutputListener, currentOutputListener, currentSignal, runInvocation } from './commandQueue.js';
+import { CommandTimeoutProfile, LudusConfig as LudusCliConfig } from './config.js';
+import { classifyLudusError, extractLudusError } from './commandErrors.js';
+
+export type { CommandResult } from './backend.js';
+
+export interface ExecuteOptions {
+  workingDirectory?: string;   // default: ~/.ludus-mcp
+  signal?: AbortSignal;        // default: the signal of the tool call in progress
+  onOutput?: OutputListener;   // default: the output listener of the tool call in progress
+  timeoutProfile?: CommandTimeoutProfile;  // default: chosen from the command
+}
 
-export interface CommandResult {
-  success: boolean;
-  data?: any;
-  message: string;
-  rawOutput?: string;
+// Ludus CLI flag selecting one of a user's ranges (servers with multiple ranges per user)
+const RANGE_ID_FLAG = '--range-id';
+
+// Commands running at once / waiting before new ones are refused
+const MAX_CONCURRENT_COMMANDS = 4;
+const MAX_QUEUED_COMMANDS = 32;
+
+// Commands that only read state; everything else is serialized per user
+const READ_ONLY_COMMANDS = [
+  'version',
+  'range list', 'range status', 'range logs', 'range gettags', 'range config get', 'range rdp', 'range etc-hosts', 'range access list',
+  'snapshot list',
+  'templates list', 'templates status', 'templates logs',
+  'users list', 'users apikey', 'users wireguard', 'user wireguard',
+  'ansible role list', 'ansible list',
+  'group list', 'group members list', 'group ranges list'
+];
+
+// REST backend operations that only read state; the others are serialized per user like mutating commands
+const READ_ONLY_OPERATIONS = [
+  'listUserRanges', 'listAllRanges', 'getTags', 'getRangeStatus', 'getRangeConfig', 'getRangeLogs',
+  'listSnapshots',
+  'listTemplates', 'getTemplateStatus', 'getTemplateLogs',
+  'getUserInfo', 'listAllUsers', 'getUserApiKey'
+];
+
+// Commands that can take minutes: uploads, downloads, builds and large outputs ('long' timeout)
+const LONG_RUNNING_COMMANDS = [
+  'range deploy', 'range rm', 'range config get', 'range config set', 'range logs',
+  'snapshot create', 'snapshot revert', 'snapshot rm',
+  'testing start', 'testing stop',
+  'templates build', 'templates add', 'templates logs',
+  'ansible role add', 'ansible collection add'
+];
+
+// Log commands that keep running while following output ('stream' timeout)
+const FOLLOW_COMMANDS = ['range logs', 'templates logs'];
+
+/**
+ * The session's current range and the user it belongs to (undefined: the configured user)
+ */
+export interface CurrentRange {
+  rangeId: string;
+  user?: string;
 }
 
-export class LudusCliWrapper {
+export class LudusCliWrapper implements LudusBackend {
   private logger: Logger;
   private config: LudusConfig;
+  private currentRange: CurrentRange | undefined; // per-session default for one user's range-scoped commands
   private sshTunnelPid: number | null = null;
   private sshTunnelPort: number = 8081;
   private regularTunnelPid: number | null = null; // For port 8080
   private tunnelManager?: LudusSSHTunnelManager;
   private baseCwd: string;
+  private backendOptions: BackendOptions;
+  private restClient?: LudusRestClient; // set when the REST backend is selected; CLI otherwise
+  private commandQueue: CommandQueue;
+  private commandTimeouts: Record<CommandTimeoutProfile, number>;
 
   constructor(logger: Logger, config: LudusConfig) {
     this.logger = logger;
     this.config = config;
     this.baseCwd = path.join(os.homedir(), '.ludus-mcp');
+    this.backendOptions = resolveBackendOptions(logger);
+    this.commandQueue = new CommandQueue(logger, MAX_CONCURRENT_COMMANDS, MAX_QUEUED_COMMANDS);
+    this.commandTimeouts = new LudusCliConfig(logger).getCommandTimeouts();
+    if (this.backendOptions.type === 'rest') {
+      this.restClient = new LudusRestClient(logger, admin => this.resolveRestEndpoint(admin), this.backendOptions.timeoutMs);
+    }
     
     // Ensure base directory exists
     this.ensureBaseDirectory();
@@ -37,6 +109,10 @@ export class LudusCliWrapper {
       workingDirectory: process.cwd(),
       baseCwd: this.baseCwd,
       connectionMethod: this.config.connectionMethod,
+      backend: this.backendOptions.type,
+      backendSource: this.backendOptions.source,
+      apiUrl: this.backendOptions.url,
+      fallbackToCli: this.backendOptions.fallbackToCli,
       sshAuthMethod: this.config.sshAuthMethod,
       pathEnv: process.env.PATH?.substring(0, 500) + '...', // First 500 chars of PATH
       userProfile: process.env.USERPROFILE || process.env.HOME,
@@ -155,46 +231,198 @@ export class LudusCliWrapper {
     // From docs/cli.md: "To use the `add` or `rm` commands, the admin API endpoint must be used."
     
     const adminCommands = [
-      'users add',   // Create new users - requires admin endpoint
-      'users rm'     // Remove users - requires admin endpoint
+      'users add',            // Create new users - requires admin endpoint
+      'users rm',             // Remove users - requires admin endpoint
+      'group create',         // Create groups - admin only
+      'group delete',         // Delete groups - admin only
+      'range access grant',   // Share one user's range with another user - admin only
+      'range access revoke'   // Stop sharing a range - admin only
     ];
 
     // ALL other commands use regular endpoint (port 8080) including:
     // - users apikey, users list, users wireguard, users creds
-    // - ALL range operations (even with --user flag)
+    // - group list and group members/ranges (group managers may run these)
+    // - range access list
+    // - ALL other range operations (even with --user flag)
     // - ALL template operations  
     // - ALL other operations
-    return adminCommands.some(adminCmd => command.includes(adminCmd));
+    // Match on the leading subcommand so flag values (e.g. a group named "users add") cannot change the route
+    return adminCommands.some(adminCmd => command === adminCmd || command.startsWith(`${adminCmd} `));
+  }
+
+  /**
+   * Range selection arguments: the explicit range ID, else the session's current range when the
+   * command acts on the user that range belongs to
+   */
+  rangeArgs(rangeId?: string, user?: string): string[] {
+    const selected = this.selectedRange(rangeId, user);
+    return selected ? [RANGE_ID_FLAG, selected] : [];
+  }
+
+  private selectedRange(rangeId?: string, user?: string): string | undefined {
+    if (rangeId) {
+      return rangeId;
+    }
+    return this.currentRange && this.sameUser(this.currentRange.user, user) ? this.currentRange.rangeId : undefined;
+  }
+
+  private sameUser(a?: string, b?: string): boolean {
+    return (a || this.config.adminUser || '') === (b || this.config.adminUser || '');
+  }
+
+  // Same selection as an optional property, for the option objects of the REST client
+  private rangeOption(rangeId?: string, user?: string): { rangeId?: string } {
+    const selected = this.selectedRange(rangeId, user);
+    return selected ? { rangeId: selected } : {};
+  }
+
+  /**
+   * Build arguments for `testing allow` / `testing deny`
+   */
+  private buildTestingRuleArgs(action: 'allow' | 'deny', options: TestingRuleOptions): string[] {
+    const args: string[] = [action];
+    if (options.domains) {
+      args.push('--domains', options.domains);
+    }
+    if (options.ips) {
+      args.push('--ips', options.ips);
+    }
+    if (options.user) {
+      args.push('--user', options.user);
+    }
+    args.push(...this.rangeArgs(options.rangeId, options.user));
+    return args;
+  }
+
+  /**
+   * Current range of a user for this session; that user's range tools without an explicit rangeId use it
+   */
+  getCurrentRange(user?: string): string | undefined {
+    return this.selectedRange(undefined, user);
+  }
+
+  /**
+   * The current range with the user it belongs to, whichever user that is
+   */
+  getCurrentRangeSelection(): CurrentRange | undefined {
+    return this.currentRange ? { ...this.currentRange } : undefined;
+  }
+
+  setCurrentRange(rangeId: string | undefined, user?: string): void {
+    this.currentRange = rangeId ? { rangeId, ...(user ? { user } : {}) } : undefined;
+    this.logger.info('Current range changed', { rangeId: rangeId || 'server default', user: user || 'current user' });
+  }
+
+  /**
+   * Backend in use: the REST API (with or without CLI fallback) or the ludus CLI
+   */
+  getBackendOptions(): BackendOptions {
+    return { ...this.backendOptions };
+  }
+
+  /**
+   * Run an operation through the REST client when it is selected, else through the CLI.
+   * REST calls go through the same queue as CLI commands, with the same per-user key for changes.
+   * When the API cannot be reached (or lacks the endpoint) the CLI is tried if fallback is enabled;
+   * a request the server may already have received (timed out or dropped after sending) is not retried.
+   */
+  private async viaBackend(
+    operation: string,
+    user: string | undefined,
+    rest: (client: LudusRestClient) => Promise<CommandResult>,
+    cli: () => Promise<CommandResult>
+  ): Promise<CommandResult> {
+    const client = this.restClient;
+    if (!client) {
+      return cli();
+    }
+    const signal = currentSignal();
+    const onOutput = currentOutputListener();
+    const key = READ_ONLY_OPERATIONS.includes(operation) ? undefined : this.userKey(user);
+    try {
+      return await this.commandQueue.run({
+        label: `Ludus API ${operation}`,
+        ...(key ? { key } : {}),
+        ...(signal ? { signal } : {}),
+        // The queue's signal also aborts the request on cancelAll()
+        run: queueSignal => runInvocation({ signal: queueSignal, ...(onOutput ? { onOutput } : {}) }, () => rest(client))
+      });
+    } catch (error: any) {
+      // Falls back outside the queue task, so the CLI command can take the user's key itself
+      if (error instanceof LudusApiUnavailableError && this.backendOptions.fallbackToCli) {
+        this.logger.warn('Ludus API unavailable, falling back to the CLI', { operation, error: error.message });
+        return cli();
+      }
+      this.logger.error('Ludus API call failed', { operation, error: error.message });
+      return {
+        success: false,
+        message: error instanceof CommandCancelledError ? `Command cancelled: ${error.message}` : error.message,
+        ...(error instanceof CommandCancelledError ? {} : { errorKind: classifyLudusError(error.message) })
+      };
+    }
+  }
+
+  /**
+   * API endpoint for the REST client, following the same routing as executeCommand:
+   * admin calls via the SSH tunnel (8081), regular calls via WireGuard or the SSH tunnel (8080)
+   */
+  private async resolveRestEndpoint(admin: boolean): Promise<RestEndpoint> {
+    const apiKey = this.config.apiKey;
+    if (this.backendOptions.url) {
+      return { url: this.backendOptions.url, apiKey, verifyTls: this.backendOptions.verifyTls };
+    }
+
+    if (!admin && this.config.connectionMethod !== 'ssh-tunnel') {
+      const wgHealth = await this.checkWireGuardHealth();
+      if (wgHealth.healthy) {
+        return { url: this.config.ludusUrl || 'https://198.51.100.1:8080', apiKey, verifyTls: this.config.verifySSL === true };
+      }
+      this.logger.warn('WireGuard not healthy, using SSH tunnel for API call', { reason: wgHealth.message });
+    }
+
+    try {
+      await this.ensureTunnelsHealthy();
+    } catch (error) {
+      throw new LudusApiUnavailableError(error instanceof Error ? error.message : String(error));
+    }
+    // Local tunnel doesn't need SSL verification
+    return { url: `https://127.0.0.1:${admin ? this.sshTunnelPort : 8080}`, apiKey, verifyTls: false };
   }
 
   /**
-   * Set up environment variables for regular API calls via WireGuard
+   * Environment for regular API calls via WireGuard
    */
-  private setupWireGuardEnvironment(): void {
-    process.env.LUDUS_API_KEY = this.config.apiKey;
-    process.env.LUDUS_URL = this.config.ludusUrl || 'https://198.51.100.1:8080';
-    process.env.LUDUS_VERIFY = this.config.verifySSL ? 'true' : 'false';
-    process.env.LUDUS_JSON = 'true'; // Always use JSON for MCP processing
+  private wireGuardEnvironment(): Record<string, string> {
+    return {
+      LUDUS_API_KEY: this.config.apiKey,
+      LUDUS_URL: this.config.ludusUrl || 'https://198.51.100.1:8080',
+      LUDUS_VERIFY: this.config.verifySSL ? 'true' : 'false',
+      LUDUS_JSON: 'true' // Always use JSON for MCP processing
+    };
   }
 
   /**
-   * Set up environment variables for regular API calls via SSH tunnel (port 8080)
+   * Environment for regular API calls via SSH tunnel (port 8080)
    */
-  private setupSSHTunnelRegularEnvironment(): void {
-    process.env.LUDUS_API_KEY = this.config.apiKey;
-    process.env.LUDUS_URL = 'https://127.0.0.1:8080';
-    process.env.LUDUS_VERIFY = 'false'; // Local tunnel doesn't need SSL verification
-    process.env.LUDUS_JSON = 'true';
+  private sshTunnelRegularEnvironment(): Record<string, string> {
+    return {
+      LUDUS_API_KEY: this.config.apiKey,
+      LUDUS_URL: 'https://127.0.0.1:8080',
+      LUDUS_VERIFY: 'false', // Local tunnel doesn't need SSL verification
+      LUDUS_JSON: 'true'
+    };
   }
 
   /**
-   * Set up environment variables for admin API calls via SSH tunnel (port 8081)
+   * Environment for admin API calls via SSH tunnel (port 8081)
    */
-  private setupSSHTunnelAdminEnvironment(): void {
-    process.env.LUDUS_API_KEY = this.config.apiKey;
-    process.env.LUDUS_URL = `https://127.0.0.1:${this.sshTunnelPort}`;
-    process.env.LUDUS_VERIFY = 'false'; // Local tunnel doesn't need SSL verification
-    process.env.LUDUS_JSON = 'true';
+  private sshTunnelAdminEnvironment(): Record<string, string> {
+    return {
+      LUDUS_API_KEY: this.config.apiKey,
+      LUDUS_URL: `https://127.0.0.1:${this.sshTunnelPort}`,
+      LUDUS_VERIFY: 'false', // Local tunnel doesn't need SSL verification
+      LUDUS_JSON: 'true'
+    };
   }
 
   /**
@@ -252,10 +480,82 @@ export class LudusCliWrapper {
   }
 
   /**
-   * Execute command with smart routing
+   * Check if a command changes server state; those are serialized per user
    */
-  async executeCommand(command: string, args: string[] = [], workingDirectory?: string): Promise<CommandResult> {
-    const originalCwd = process.cwd();
+  private isMutatingCommand(command: string): boolean {
+    if (/(^| )(--help|-h)( |$)/.test(command)) {
+      return false;
+    }
+    return !READ_ONLY_COMMANDS.some(readOnly => command === readOnly || command.startsWith(`${readOnly} `));
+  }
+
+  /**
+   * Timeout profile of a command: followed logs stream, slow operations get the long timeout
+   */
+  private timeoutProfile(command: string): CommandTimeoutProfile {
+    const matches = (prefixes: string[]) => prefixes.some(prefix => command === prefix || command.startsWith(`${prefix} `));
+    if (matches(FOLLOW_COMMANDS) && /(^| )(-f|--follow)( |$)/.test(command)) {
+      return 'stream';
+    }
+    return matches(LONG_RUNNING_COMMANDS) ? 'long' : 'default';
+  }
+
+  /**
+   * Serialization key of a mutating command: the user it acts on
+   */
+  private commandUserKey(args: string[]): string {
+    const userIndex = args.indexOf('--user');
+    return this.userKey(userIndex >= 0 ? args[userIndex + 1] : undefined);
+  }
+
+  private userKey(user?: string): string {
+    return `user:${user || this.config.adminUser || 'self'}`;
+  }
+
+  /**
+   * Commands waiting in and running from the execution queue
+   */
+  getQueueStats(): { running: number; waiting: number; activeKeys: string[] } {
+    return this.commandQueue.stats();
+  }
+
+  /**
+   * Execute command with smart routing.
+   * Runs through the bounded queue (mutating commands of one user one at a time) with its own
+   * environment and working directory, so concurrent tool calls cannot change each other's route.
+   */
+  async executeCommand(command: string, args: string[] = [], options: ExecuteOptions = {}): Promise<CommandResult> {
+    const fullCommand = `${command} ${args.join(' ')}`.trim();
+    const signal = options.signal || currentSignal();
+    const onOutput = options.onOutput || currentOutputListener();
+    const key = this.isMutatingCommand(fullCommand) ? this.commandUserKey(args) : undefined;
+    const runOptions: ExecuteOptions = {
+      timeoutProfile: options.timeoutProfile || this.timeoutProfile(fullCommand),
+      ...(options.workingDirectory ? { workingDirectory: options.workingDirectory } : {}),
+      ...(onOutput ? { onOutput } : {})
+    };
+
+    try {
+      return await this.commandQueue.run({
+        label: `ludus ${command}${args[0] && !args[0].startsWith('-') ? ` ${args[0]}` : ''}`,
+        ...(key ? { key } : {}),
+        ...(signal ? { signal } : {}),
+        run: queueSignal => this.runCommand(command, args, runOptions, queueSignal)
+      });
+    } catch (error: any) {
+      // Refused by the full queue, or cancelled before it started
+      this.logger.warn('Command not executed', { command: fullCommand, error: error.message });
+      return {
+        success: false,
+        message: error instanceof CommandCancelledError ? `Command cancelled: ${error.message}` : `Command failed: ${error.message}`
+      };
+    }
+  }
+
+  private async runCommand(command: string, args: string[], options: ExecuteOptions, signal: AbortSignal): Promise<CommandResult> {
+    const { workingDirectory, onOutput } = options;
+    const timeoutProfile = options.timeoutProfile || 'default';
+    const timeoutMs = this.commandTimeouts[timeoutProfile];
     let usingSSHFallback = false;
     
     // Build command string for admin check and logging (not execution)
@@ -265,7 +565,6 @@ export class LudusCliWrapper {
     try {
       // Use specified working directory or default to ~/.ludus-mcp/
       const targetCwd = workingDirectory || this.baseCwd;
-      process.chdir(targetCwd);
       
       const actualRoute = isAdmin ? 'SSH tunnel' : 
         (this.config.connectionMethod === 'ssh-tunnel' ? 'SSH tunnel' : 'WireGuard VPN');
@@ -274,7 +573,8 @@ export class LudusCliWrapper {
         command: fullCommand, 
         isAdmin,
         route: actualRoute,
-        workingDirectory: targetCwd
+        workingDirectory: targetCwd,
+        timeoutProfile
       });
 
       // Ensure connections are healthy before executing commands
@@ -305,44 +605,72 @@ export class LudusCliWrapper {
         }
       }
 
-      // Set up appropriate environment and connectivity
+      // Environment for this invocation only; process.env is never modified
+      let ludusEnvironment: Record<string, string>;
       if (isAdmin) {
         // Admin command - use SSH tunnel (port 8081)
-        this.setupSSHTunnelAdminEnvironment();
+        ludusEnvironment = this.sshTunnelAdminEnvironment();
       } else {
         // Regular command - use appropriate connection method
         if (this.config.connectionMethod === 'ssh-tunnel' || usingSSHFallback) {
-          this.setupSSHTunnelRegularEnvironment();
+          ludusEnvironment = this.sshTunnelRegularEnvironment();
         } else {
-          this.setupWireGuardEnvironment();
+          ludusEnvironment = this.wireGuardEnvironment();
         }
       }
+      const env: NodeJS.ProcessEnv = { ...process.env, ...ludusEnvironment };
+
+      if (signal.aborted) {
+        throw signal.reason instanceof Error ? signal.reason : new CommandCancelledError();
+      }
 
       // Execute the command securely using argument array
       const ludusArgs = [command, ...args];
       const ludusCommand = `ludus ${fullCommand}`; // For logging only
       let output: string = '';
+      let stdout = '';
+      let stderr = '';
+      let exitCode: number | null = null;
+      let timedOut = false;
       
       try {
         // Use spawn with argument array to prevent command injection
         const ludusProcess = spawn('ludus', ludusArgs, {
           stdio: ['pipe', 'pipe', 'pipe'],
-          shell: false // Prevent shell interpretation
+          shell: false, // Prevent shell interpretation
+          cwd: targetCwd,
+          env
         });
 
-        let stdout = '';
-        let stderr = '';
-
         ludusProcess.stdout.on('data', (data: Buffer) => {
           stdout += data.toString();
+          onOutput?.(data.toString(), 'stdout');
         });
 
         ludusProcess.stderr.on('data', (data: Buffer) => {
           stderr += data.toString();
+          onOutput?.(data.toString(), 'stderr');
         });
 
         await new Promise<void>((resolve, reject) => {
-          ludusProcess.on('close', (code: number) => {
+          const onAbort = () => {
+            ludusProcess.kill();
+            reject(signal.reason instanceof Error ? signal.reason : new CommandCancelledError());
+          };
+          // Kill at the profile's timeout; the output so far is still returned
+          const timer = setTimeout(() => {
+            timedOut = true;
+            ludusProcess.kill();
+          }, timeoutMs);
+          const settle = () => {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onAbort);
+          };
+          signal.addEventListener('abort', onAbort, { once: true });
+
+          ludusProcess.on('close', (code: number | null) => {
+            settle();
+            exitCode = code;
             // Ludus CLI outputs to stderr even on success
             output = stderr || stdout || '';
             if (output && stderr) {
@@ -354,26 +682,34 @@ export class LudusCliWrapper {
           });
 
           ludusProcess.on('error', (error: Error) => {
+            settle();
             reject(error);
           });
-
-          // Set timeout
-          setTimeout(() => {
-            ludusProcess.kill();
-            reject(new Error('Command timeout'));
-          }, 30000);
         });
       } catch (error: any) {
+        // A cancelled command is not retried
+        if (error instanceof CommandCancelledError) {
+          throw error;
+        }
         // Fallback to execSync approach - use spawn instead to maintain security
         try {
           // Note: execSync with string commands is still potentially vulnerable
           // This is kept as fallback only - primary spawn approach above is secure
-          output = execSync(ludusCommand, {
+          stdout = execSync(ludusCommand, {
             encoding: 'utf-8',
-            timeout: 30000,
-            maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+            timeout: timeoutMs,
+            maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+            cwd: targetCwd,
+            env
           }) as string;
+          stderr = '';
+          output = stdout;
+          exitCode = 0;
         } catch (execError: any) {
+          timedOut = execError.code === 'ETIMEDOUT';
+          stdout = execError.stdout?.toString() || '';
+          stderr = execError.stderr?.toString() || '';
+          exitCode = typeof execError.status === 'number' ? execError.status : null;
           if (execError.stderr && execError.stderr.toString().trim().length > 0) {
             output = execError.stderr.toString();
             this.logger.debug('Using stderr output from Ludus CLI (fallback)', { 
@@ -381,18 +717,53 @@ export class LudusCliWrapper {
             });
           } else if (execError.stdout && execError.stdout.toString().trim().length > 0) {
             output = execError.stdout.toString();
-          } else {
+          } else if (!timedOut) {
             throw error;
           }
         }
       }
 
-      // Parse JSON output if possible
+      if (timedOut) {
+        const seconds = Math.round(timeoutMs / 1000);
+        this.logger.warn('Command timed out', { command: fullCommand, timeoutProfile, seconds });
+        // Following logs until the limit is the expected way for a stream command to end
+        return {
+          success: timeoutProfile === 'stream',
+          timedOut: true,
+          stdout,
+          stderr,
+          data: output,
+          message: timeoutProfile === 'stream'
+            ? output
+            : `Command timed out after ${seconds}s (${timeoutProfile} timeout)${output.trim() ? `; partial output:\n${output}` : ''}`,
+          rawOutput: output
+        };
+      }
+
+      // A non-zero exit (or a kill) is a failure, whatever the output looks like
+      if (exitCode !== 0) {
+        // 127: the shell of the execSync fallback could not find the ludus binary
+        const message = exitCode === 127 ? `Ludus CLI not found or not executable: ${stderr.trim()}` : extractLudusError(stdout, stderr);
+        const errorKind = exitCode === 127 ? 'unknown' : classifyLudusError(message);
+        this.logger.warn('Ludus command failed', { command: fullCommand, exitCode, errorKind });
+        return {
+          success: false,
+          ...(exitCode !== null ? { exitCode } : {}),
+          stdout,
+          stderr,
+          errorKind,
+          message,
+          rawOutput: output
+        };
+      }
+
+      // Parse JSON output if possible; JSON on stdout wins over log lines on stderr
       let parsedData: any;
+      const jsonOutput = /^[[{]/.test(stdout.trim()) ? stdout : output;
       
-      if (output.trim().startsWith('{') || output.trim().startsWith('[')) {
+      if (jsonOutput.trim().startsWith('{') || jsonOutput.trim().startsWith('[')) {
         try {
-          parsedData = JSON.parse(output);
+          parsedData = JSON.parse(jsonOutput);
         } catch (parseError) {
           // If parsing fails, use raw output
           parsedData = output;
@@ -403,14 +774,11 @@ export class LudusCliWrapper {
       }
 
       // Tunnel cleanup is handled automatically by tunnel manager
-      // Clear environment variables
-      delete process.env.LUDUS_API_KEY;
-      delete process.env.LUDUS_URL;
-      delete process.env.LUDUS_VERIFY;
-      delete process.env.LUDUS_JSON;
-
       return {
         success: true,
+        exitCode,
+        stdout,
+        stderr,
         data: parsedData,
         message: output,
         rawOutput: output
@@ -425,20 +793,15 @@ export class LudusCliWrapper {
       });
 
       // Tunnel cleanup is handled automatically by tunnel manager
-      // Clear environment variables
-      delete process.env.LUDUS_API_KEY;
-      delete process.env.LUDUS_URL;
-      delete process.env.LUDUS_VERIFY;
-      delete process.env.LUDUS_JSON;
-
+      if (error instanceof CommandCancelledError) {
+        return { success: false, message: `Command cancelled: ${error.message}` };
+      }
       return {
         success: false,
         message: `Command failed: ${error.message}`,
-        rawOutput: error.stdout?.toString() || error.stderr?.toString()
+        rawOutput: error.stdout?.toString() || error.stderr?.toString(),
+        errorKind: classifyLudusError(error.message)
       };
-    } finally {
-      // Always restore original working directory
-      process.chdir(originalCwd);
     }
   }
 
@@ -453,126 +816,143 @@ export class LudusCliWrapper {
    * List user ranges (current user or specific user for admin)
    */
   async listUserRanges(user?: string): Promise<CommandResult> {
-    const args = ['list'];
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('range', args);
+    return this.viaBackend('listUserRanges', user, client => client.listUserRanges(user), async () => {
+      const args = ['list'];
+      if (user) {
+        args.push('--user', user);
+      }
+      return this.executeCommand('range', args);
+    });
+  }
+
+  /**
+   * List the ranges of every user (admin operation)
+   */
+  async listAllRanges(): Promise<CommandResult> {
+    return this.viaBackend('listAllRanges', undefined, client => client.listAllRanges(), () => this.executeCommand('range', ['list', 'all']));
   }
 
   /**
    * Deploy range with full CLI options support
    */
-  async deployRange(options: {
-    user?: string;
-    configPath?: string;
-    force?: boolean;
-    tags?: string;
-    limit?: string;
-    onlyRoles?: string;
-    verboseAnsible?: boolean;
-  } = {}): Promise<CommandResult> {
-    try {
-      const { user, configPath, force, tags, limit, onlyRoles, verboseAnsible } = options;
+  async deployRange(options: DeployRangeOptions = {}): Promise<CommandResult> {
+    return this.viaBackend('deployRange', options.user, client => client.deployRange({ ...options, ...this.rangeOption(options.rangeId, options.user) }), async () => {
+      try {
+        const { user, configPath, force, tags, limit, onlyRoles, verboseAnsible, rangeId } = options;
+
+        // First set config if provided
+        if (configPath) {
+          const configArgs = ['config', 'set', '-f', configPath];
+          if (user) {
+            configArgs.push('--user', user);
+          }
+          if (force) {
+            configArgs.push('--force');
+          }
+          configArgs.push(...this.rangeArgs(rangeId, user));
+        
+          const configResult = await this.executeCommand('range', configArgs);
+          if (!configResult.success) {
+            return configResult;
+          }
+        }
 
-      // First set config if provided
-      if (configPath) {
-        const configArgs = ['config', 'set', '-f', configPath];
+        // Then deploy with all options
+        const deployArgs = ['deploy'];
+      
         if (user) {
-          configArgs.push('--user', user);
+          deployArgs.push('--user', user);
         }
         if (force) {
-          configArgs.push('--force');
+          deployArgs.push('--force');
         }
-        
-        const configResult = await this.executeCommand('range', configArgs);
-        if (!configResult.success) {
-          return configResult;
+        if (tags) {
+          deployArgs.push('--tags', tags);
         }
-      }
-
-      // Then deploy with all options
-      const deployArgs = ['deploy'];
+        if (limit) {
+          deployArgs.push('--limit', limit);
+        }
+        if (onlyRoles) {
+          deployArgs.push('--only-roles', onlyRoles);
+        }
+        if (verboseAnsible) {
+          deployArgs.push('--verbose-ansible');
+        }
+        deployArgs.push(...this.rangeArgs(rangeId, user));
       
-      if (user) {
-        deployArgs.push('--user', user);
-      }
-      if (force) {
-        deployArgs.push('--force');
-      }
-      if (tags) {
-        deployArgs.push('--tags', tags);
-      }
-      if (limit) {
-        deployArgs.push('--limit', limit);
-      }
-      if (onlyRoles) {
-        deployArgs.push('--only-roles', onlyRoles);
-      }
-      if (verboseAnsible) {
-        deployArgs.push('--verbose-ansible');
+        return this.executeCommand('range', deployArgs);
+      } catch (error: any) {
+        return {
+          success: false,
+          message: `Range deployment failed: ${error.message}`
+        };
       }
-      
-      return this.executeCommand('range', deployArgs);
-    } catch (error: any) {
-      return {
-        success: false,
-        message: `Range deployment failed: ${error.message}`
-      };
-    }
+    });
   }
 
   /**
    * Get available deployment tags
    */
-  async getTags(user?: string): Promise<CommandResult> {
-    const args = ['gettags'];
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('range', args);
+  async getTags(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('getTags', user, client => client.getTags(user, this.selectedRange(rangeId, user)), async () => {
+      const args = ['gettags'];
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
   }
 
   /**
    * Abort range deployment
    */
-  async abortRange(user?: string): Promise<CommandResult> {
-    const args = ['abort'];
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('range', args);
+  async abortRange(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('abortRange', user, client => client.abortRange(user, this.selectedRange(rangeId, user)), async () => {
+      const args = ['abort'];
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
   }
 
   /**
    * Get range status (current user or specific user for admin)
    */
-  async getRangeStatus(user?: string): Promise<CommandResult> {
-    const args = ['list']; // 'list' is alias for 'status' in Ludus CLI
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('range', args);
+  async getRangeStatus(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('getRangeStatus', user, client => client.getRangeStatus(user, this.selectedRange(rangeId, user)), async () => {
+      const args = ['list']; // 'list' is alias for 'status' in Ludus CLI
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
   }
 
   /**
    * Destroy range - permanently remove all VMs and free resources
    */
-  async destroyRange(user?: string, noPrompt: boolean = false): Promise<CommandResult> {
-    const args = ['rm'];
-    if (noPrompt) {
-      args.push('--no-prompt');
-    }
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('range', args);
+  async destroyRange(user?: string, noPrompt: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('destroyRange', user, client => client.destroyRange(user, noPrompt, this.selectedRange(rangeId, user)), async () => {
+      const args = ['rm'];
+      if (noPrompt) {
+        args.push('--no-prompt');
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
   }
 
   /**
    * Get RDP connection files for Windows VMs
    */
-  async getRangeRdpInfo(user?: string): Promise<CommandResult> {
+  async getRangeRdpInfo(user?: string, rangeId?: string): Promise<CommandResult> {
     // Create user-specific directory for file downloads
     const userDir = this.ensureUserDirectory(user);
     const rdpPath = path.join(userDir, 'rdp.zip');
@@ -581,6 +961,7 @@ export class LudusCliWrapper {
     if (user) {
       args.push('--user', user);
     }
+    args.push(...this.rangeArgs(rangeId, user));
     
     this.logger.info('Downloading RDP configuration to specific path', { 
       path: rdpPath,
@@ -651,11 +1032,12 @@ export class LudusCliWrapper {
   /**
    * Get /etc/hosts formatted file for range
    */
-  async getRangeEtcHosts(user?: string): Promise<CommandResult> {
+  async getRangeEtcHosts(user?: string, rangeId?: string): Promise<CommandResult> {
     const args = ['etc-hosts'];
     if (user) {
       args.push('--user', user);
     }
+    args.push(...this.rangeArgs(rangeId, user));
     
     // Create user-specific directory for file downloads
     const userDir = this.ensureUserDirectory(user);
@@ -697,118 +1079,460 @@ export class LudusCliWrapper {
   /**
    * Power on VMs in range
    */
-  async powerOnRange(user?: string, vmNames?: string): Promise<CommandResult> {
-    const args = ['on']; // Ludus power commands don't support --force flag
-    if (vmNames) {
-      args.push('--name', vmNames);
-    }
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('power', args);
+  async powerOnRange(user?: string, vmNames?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('powerOnRange', user, client => client.powerOnRange(user, vmNames, this.selectedRange(rangeId, user)), async () => {
+      const args = ['on']; // Ludus power commands don't support --force flag
+      if (vmNames) {
+        args.push('--name', vmNames);
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('power', args);
+    });
   }
 
   /**
    * Power off VMs in range
    */
-  async powerOffRange(user?: string, vmNames?: string): Promise<CommandResult> {
-    const args = ['off']; // Ludus power commands don't support --force flag
-    if (vmNames) {
-      args.push('--name', vmNames);
-    }
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('power', args);
+  async powerOffRange(user?: string, vmNames?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('powerOffRange', user, client => client.powerOffRange(user, vmNames, this.selectedRange(rangeId, user)), async () => {
+      const args = ['off']; // Ludus power commands don't support --force flag
+      if (vmNames) {
+        args.push('--name', vmNames);
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('power', args);
+    });
+  }
+
+  /**
+   * List snapshots for VMs in range
+   */
+  async listSnapshots(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('listSnapshots', user, client => client.listSnapshots(user, this.selectedRange(rangeId, user)), async () => {
+      const args = ['list'];
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('snapshot', args);
+    });
+  }
+
+  /**
+   * Create a snapshot of VMs in range
+   */
+  async createSnapshot(name: string, options: SnapshotCreateOptions = {}): Promise<CommandResult> {
+    return this.viaBackend('createSnapshot', options.user, client => client.createSnapshot(name, { ...options, ...this.rangeOption(options.rangeId, options.user) }), async () => {
+      const { user, vmIds, description, includeRAM = true, rangeId } = options;
+      const args = ['create', name];
+      if (description) {
+        args.push('--description', description);
+      }
+      if (vmIds) {
+        args.push('--vmids', vmIds);
+      }
+      if (!includeRAM) {
+        args.push('--noRAM');
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('snapshot', args);
+    });
+  }
+
+  /**
+   * Revert VMs in range to a snapshot
+   */
+  async revertSnapshot(name: string, user?: string, vmIds?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('revertSnapshot', user, client => client.revertSnapshot(name, user, vmIds, this.selectedRange(rangeId, user)), async () => {
+      const args = ['revert', name];
+      if (vmIds) {
+        args.push('--vmids', vmIds);
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('snapshot', args);
+    });
+  }
+
+  /**
+   * Remove a snapshot from VMs in range
+   */
+  async removeSnapshot(name: string, user?: string, vmIds?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('removeSnapshot', user, client => client.removeSnapshot(name, user, vmIds, this.selectedRange(rangeId, user)), async () => {
+      const args = ['rm', name];
+      if (vmIds) {
+        args.push('--vmids', vmIds);
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('snapshot', args);
+    });
+  }
+
+  /**
+   * Enter testing mode - snapshot VMs and block internet access
+   */
+  async startTesting(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('startTesting', user, client => client.startTesting(user, this.selectedRange(rangeId, user)), async () => {
+      const args = ['start'];
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('testing', args);
+    });
+  }
+
+  /**
+   * Exit testing mode - revert VMs to their testing snapshots and restore internet access
+   */
+  async stopTesting(user?: string, force: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('stopTesting', user, client => client.stopTesting(user, force, this.selectedRange(rangeId, user)), async () => {
+      const args = ['stop'];
+      if (force) {
+        args.push('--force');
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('testing', args);
+    });
+  }
+
+  /**
+   * Allow domains and/or IPs through the testing mode firewall
+   */
+  async allowTesting(options: TestingRuleOptions): Promise<CommandResult> {
+    return this.viaBackend('allowTesting', options.user, client => client.allowTesting({ ...options, ...this.rangeOption(options.rangeId, options.user) }), () => this.executeCommand('testing', this.buildTestingRuleArgs('allow', options)));
+  }
+
+  /**
+   * Remove domains and/or IPs from the testing mode allowlist
+   */
+  async denyTesting(options: TestingRuleOptions): Promise<CommandResult> {
+    return this.viaBackend('denyTesting', options.user, client => client.denyTesting({ ...options, ...this.rangeOption(options.rangeId, options.user) }), () => this.executeCommand('testing', this.buildTestingRuleArgs('deny', options)));
   }
 
   /**
    * Get range configuration
    */
-  async getRangeConfig(user?: string): Promise<CommandResult> {
-    const args = ['config', 'get'];
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('range', args);
+  async getRangeConfig(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('getRangeConfig', user, client => client.getRangeConfig(user, this.selectedRange(rangeId, user)), async () => {
+      const args = ['config', 'get'];
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
   }
 
   /**
    * Set range configuration from file
    */
-  async setRangeConfig(configPath: string, user?: string, force: boolean = false): Promise<CommandResult> {
-    const args = ['config', 'set', '-f', configPath];
+  async setRangeConfig(configPath: string, user?: string, force: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('setRangeConfig', user, client => client.setRangeConfig(configPath, user, force, this.selectedRange(rangeId, user)), async () => {
+      const args = ['config', 'set', '-f', configPath];
+      if (user) {
+        args.push('--user', user);
+      }
+      if (force) {
+        args.push('--force');
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
+  }
+
+  /**
+   * Get range deployment logs
+   */
+  async getRangeLogs(user?: string, follow: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.viaBackend('getRangeLogs', user, client => client.getRangeLogs(user, follow, this.selectedRange(rangeId, user)), async () => {
+      const args = ['logs'];
+      if (follow) {
+        args.push('-f');
+      }
+      if (user) {
+        args.push('--user', user);
+      }
+      args.push(...this.rangeArgs(rangeId, user));
+      return this.executeCommand('range', args);
+    });
+  }
+
+  /**
+   * List available templates
+   */
+  async listTemplates(): Promise<CommandResult> {
+    return this.viaBackend('listTemplates', undefined, client => client.listTemplates(), () => this.executeCommand('templates', ['list']));
+  }
+
+  /**
+   * Build templates (comma-separated names, or all unbuilt templates when omitted)
+   */
+  async buildTemplates(names?: string, parallel?: number): Promise<CommandResult> {
+    return this.viaBackend('buildTemplates', undefined, client => client.buildTemplates(names, parallel), async () => {
+      const args = ['build'];
+      if (names) {
+        args.push('--names', names);
+      }
+      if (parallel) {
+        args.push('--parallel', String(parallel));
+      }
+      return this.executeCommand('templates', args);
+    });
+  }
+
+  /**
+   * Get templates currently being built
+   */
+  async getTemplateStatus(): Promise<CommandResult> {
+    return this.viaBackend('getTemplateStatus', undefined, client => client.getTemplateStatus(), () => this.executeCommand('templates', ['status']));
+  }
+
+  /**
+   * Get template build logs
+   */
+  async getTemplateLogs(): Promise<CommandResult> {
+    return this.viaBackend('getTemplateLogs', undefined, client => client.getTemplateLogs(), () => this.executeCommand('templates', ['logs']));
+  }
+
+  /**
+   * Upload a local template directory to the Ludus server. CLI only: the upload is built by the CLI.
+   */
+  async addTemplate(directory: string, force: boolean = false): Promise<CommandResult> {
+    const args = ['add', '--directory', directory];
+    if (force) {
+      args.push('--force');
+    }
+    return this.executeCommand('templates', args);
+  }
+
+  /**
+   * Remove a template from the Ludus server
+   */
+  async removeTemplate(name: string): Promise<CommandResult> {
+    return this.viaBackend('removeTemplate', undefined, client => client.removeTemplate(name), () => this.executeCommand('templates', ['rm', '--name', name]));
+  }
+
+  // The Ansible, group and range access methods below are CLI only; the REST client has no endpoints for them
+
+  /**
+   * List Ansible roles and collections installed on the Ludus server
+   */
+  async listAnsibleRoles(user?: string): Promise<CommandResult> {
+    const args = ['role', 'list'];
     if (user) {
       args.push('--user', user);
     }
+    return this.executeCommand('ansible', args);
+  }
+
+  /**
+   * Install an Ansible role from Galaxy, a git URL, or a local directory
+   */
+  async addAnsibleRole(options: {
+    source?: string;
+    directory?: string;
+    version?: string;
+    force?: boolean;
+    global?: boolean;
+    user?: string;
+  }): Promise<CommandResult> {
+    const { source, directory, version, force, global, user } = options;
+    const args = ['role', 'add'];
+    if (directory) {
+      args.push('--directory', directory);
+    } else if (source) {
+      args.push(source);
+    }
+    if (version) {
+      args.push('--version', version);
+    }
     if (force) {
       args.push('--force');
     }
-    return this.executeCommand('range', args);
+    if (global) {
+      args.push('--global');
+    }
+    if (user) {
+      args.push('--user', user);
+    }
+    return this.executeCommand('ansible', args);
   }
 
   /**
-   * Get range deployment logs
+   * Remove an Ansible role from the Ludus server
    */
-  async getRangeLogs(user?: string, follow: boolean = false): Promise<CommandResult> {
-    const args = ['logs'];
-    if (follow) {
-      args.push('-f');
+  async removeAnsibleRole(name: string, global: boolean = false, user?: string): Promise<CommandResult> {
+    const args = ['role', 'rm', name];
+    if (global) {
+      args.push('--global');
     }
     if (user) {
       args.push('--user', user);
     }
-    return this.executeCommand('range', args);
+    return this.executeCommand('ansible', args);
   }
 
   /**
-   * List available templates
+   * Install an Ansible collection from Galaxy or a URL
    */
-  async listTemplates(): Promise<CommandResult> {
-    return this.executeCommand('templates', ['list']);
+  async addAnsibleCollection(name: string, options: { version?: string; force?: boolean; user?: string; } = {}): Promise<CommandResult> {
+    const { version, force, user } = options;
+    const args = ['collection', 'add', name];
+    if (version) {
+      args.push('--version', version);
+    }
+    if (force) {
+      args.push('--force');
+    }
+    if (user) {
+      args.push('--user', user);
+    }
+    return this.executeCommand('ansible', args);
   }
 
   /**
    * Get user information for a specific user (or current user if none specified)
    */
   async getUserInfo(user?: string): Promise<CommandResult> {
-    const args = ['list'];
-    if (user) {
-      args.push('--user', user);
-    }
-    return this.executeCommand('users', args);
+    return this.viaBackend('getUserInfo', user, client => client.getUserInfo(user), async () => {
+      const args = ['list'];
+      if (user) {
+        args.push('--user', user);
+      }
+      return this.executeCommand('users', args);
+    });
   }
 
   /**
    * List all users in the system
    */
   async listAllUsers(): Promise<CommandResult> {
-    return this.executeCommand('users', ['list', 'all']);
+    return this.viaBackend('listAllUsers', undefined, client => client.listAllUsers(), () => this.executeCommand('users', ['list', 'all']));
   }
 
   /**
    * Add a new user (admin operation)
    */
   async addUser(name: string, userId: string, isAdmin: boolean = false): Promise<CommandResult> {
-    const args = ['add', '--name', name, '--userid', userId];
-    if (isAdmin) {
-      args.push('--admin');
-    }
-    return this.executeCommand('users', args);
+    return this.viaBackend('addUser', undefined, client => client.addUser(name, userId, isAdmin), async () => {
+      const args = ['add', '--name', name, '--userid', userId];
+      if (isAdmin) {
+        args.push('--admin');
+      }
+      return this.executeCommand('users', args);
+    });
   }
 
   /**
    * Remove a user (admin operation)
    */
   async removeUser(userId: string): Promise<CommandResult> {
-    return this.executeCommand('users', ['rm', '--user', userId]);
+    return this.viaBackend('removeUser', userId, client => client.removeUser(userId), () => this.executeCommand('users', ['rm', '--user', userId]));
   }
 
   /**
    * Get API key for user (admin operation)
    */
   async getUserApiKey(userId: string): Promise<CommandResult> {
-    return this.executeCommand('users', ['apikey', '--user', userId]);
+    return this.viaBackend('getUserApiKey', userId, client => client.getUserApiKey(userId), () => this.executeCommand('users', ['apikey', '--user', userId]));
+  }
+
+  /**
+   * List groups, or the members and ranges of one group
+   */
+  async listGroups(): Promise<CommandResult> {
+    return this.executeCommand('group', ['list']);
+  }
+
+  async listGroupMembers(group: string): Promise<CommandResult> {
+    return this.executeCommand('group', ['members', 'list', group]);
+  }
+
+  async listGroupRanges(group: string): Promise<CommandResult> {
+    return this.executeCommand('group', ['ranges', 'list', group]);
+  }
+
+  /**
+   * Create a group (admin operation)
+   */
+  async createGroup(name: string, description?: string): Promise<CommandResult> {
+    const args = ['create', name];
+    if (description) {
+      args.push('--description', description);
+    }
+    return this.executeCommand('group', args);
+  }
+
+  /**
+   * Delete a group (admin operation). Members keep their own ranges.
+   */
+  async deleteGroup(name: string): Promise<CommandResult> {
+    return this.executeCommand('group', ['delete', name]);
+  }
+
+  /**
+   * Add users to a group; managers can administer the group's members and ranges
+   */
+  async addGroupMembers(group: string, userIds: string[], manager: boolean = false): Promise<CommandResult> {
+    const args = ['members', 'add', group, ...userIds];
+    if (manager) {
+      args.push('--manager');
+    }
+    return this.executeCommand('group', args);
+  }
+
+  async removeGroupMembers(group: string, userIds: string[]): Promise<CommandResult> {
+    return this.executeCommand('group', ['members', 'remove', group, ...userIds]);
+  }
+
+  /**
+   * Add ranges to a group; every member gets access to them
+   */
+  async addGroupRanges(group: string, rangeIds: string[]): Promise<CommandResult> {
+    return this.executeCommand('group', ['ranges', 'add', group, ...rangeIds]);
+  }
+
+  async removeGroupRanges(group: string, rangeIds: string[]): Promise<CommandResult> {
+    return this.executeCommand('group', ['ranges', 'remove', group, ...rangeIds]);
+  }
+
+  /**
+   * List which users have access to which other users' ranges
+   */
+  async listRangeAccess(): Promise<CommandResult> {
+    return this.executeCommand('range', ['access', 'list']);
+  }
+
+  /**
+   * Give sourceUser access to targetUser's range (admin operation)
+   */
+  async grantRangeAccess(targetUser: string, sourceUser: string): Promise<CommandResult> {
+    return this.executeCommand('range', ['access', 'grant', '--target', targetUser, '--source', sourceUser]);
+  }
+
+  /**
+   * Remove sourceUser's access to targetUser's range (admin operation)
+   */
+  async revokeRangeAccess(targetUser: string, sourceUser: string): Promise<CommandResult> {
+    return this.executeCommand('range', ['access', 'revoke', '--target', targetUser, '--source', sourceUser]);
   }
 
   /**
@@ -849,13 +1573,14 @@ export class LudusCliWrapper {
           throw new Error('No tunnel manager available for regular operations');
         }
         
-        this.setupSSHTunnelRegularEnvironment();
+        const env: NodeJS.ProcessEnv = { ...process.env, ...this.sshTunnelRegularEnvironment() };
         
         let output: string = '';
         try {
           // Use spawn to capture both stdout and stderr properly
           const ludusProcess = spawn('ludus', ['version'], {
-            stdio: ['pipe', 'pipe', 'pipe']
+            stdio: ['pipe', 'pipe', 'pipe'],
+            env
           });
 
           let stdout = '';
@@ -889,7 +1614,7 @@ export class LudusCliWrapper {
         } catch (error: any) {
           // Fallback to execSync approach
           try {
-            output = execSync('ludus version', { encoding: 'utf-8', timeout: 5000 }) as string;
+            output = execSync('ludus version', { encoding: 'utf-8', timeout: 5000, env }) as string;
           } catch (execError: any) {
             if (execError.stderr) {
               output = execError.stderr.toString();
@@ -926,12 +1651,6 @@ export class LudusCliWrapper {
       this.logger.debug('SSH tunnel connectivity test failed (admin operations will be limited)', { error });
     }
 
-    // Clean up environment
-    delete process.env.LUDUS_API_KEY;
-    delete process.env.LUDUS_URL;
-    delete process.env.LUDUS_VERIFY;
-    delete process.env.LUDUS_JSON;
-
     return result;
   }
 
@@ -1046,6 +1765,8 @@ export class LudusCliWrapper {
    * Cleanup resources including SSH tunnel manager
    */
   async cleanup(): Promise<void> {
+    this.commandQueue.cancelAll('Server shutting down');
+
     // Use new tunnel manager if available
     if (this.tunnelManager) {
       try {
@@ -1059,11 +1780,5 @@ export class LudusCliWrapper {
       // this.closeSSHTunnel(); // Removed
       // this.closeRegularOperationsTunnel(); // Removed
     }
-    
-    // Clear any remaining environment variables
-    delete process.env.LUDUS_API_KEY;
-    delete process.env.LUDUS_URL;
-    delete process.env.LUDUS_VERIFY;
-    delete process.env.LUDUS_JSON;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,215 @@
+import type { CommandResult, LudusErrorKind } from './backend.js';
+
+/**
+ * Classification of failed Ludus commands.
+ *
+ * The CLI reports errors as text (`[ERROR] ...` log lines, or `{"error": "..."}` with LUDUS_JSON)
+ * and the API as an HTTP status plus an error body. Both are mapped onto one LudusErrorKind so
+ * handlers can react to the kind of failure (e.g. a busy range) instead of re-reading messages.
+ */
+
+interface ErrorKindRule {
+  kind: LudusErrorKind;
+  pattern: RegExp;
+}
+
+// First match wins: connection problems and auth failures often also mention "invalid" or "not found"
+const ERROR_KIND_RULES: ErrorKindRule[] = [
+  {
+    kind: 'connection_refused',
+    pattern: /connection refused|ECONNREFUSED|ECONNRESET|EHOSTUNREACH|no route to host|network is unreachable|i\/o timeout|dial tcp|could not connect|unreachable at|WireGuard unavailable|SSH fallback also failed/i
+  },
+  {
+    kind: 'auth',
+    pattern: /invalid api key|no api key|api key (is )?(invalid|missing|required|not valid)|unauthori[sz]ed|authentication failed|\b401\b/i
+  },
+  {
+    kind: 'permission_denied',
+    pattern: /permission denied|forbidden|\b403\b|must be an? admin|admin(istrator)? (access|privileges?|rights?) (is |are )?required|requires admin|not authorized|insufficient (privileges|permissions)|not allowed/i
+  },
+  {
+    kind: 'range_busy',
+    pattern: /already (deploying|running|in progress)|currently (deploying|being deployed|busy|running)|deploy(ment)? (is )?(already )?in progress|range is (busy|deploying|locked)|another (deployment|operation) is|\b409\b|state:? ?DEPLOYING/i
+  },
+  {
+    kind: 'not_found',
+    pattern: /not found|does not exist|doesn't exist|no such|unknown (user|range|template|snapshot|group|role)|no range|\b404\b/i
+  },
+  {
+    kind: 'validation',
+    pattern: /invalid|validation|malformed|yaml|unmarshal|required (flag|field|argument)|must (be|have|contain)|unknown (flag|command|shorthand)|bad request|parse error|\b400\b|\b422\b/i
+  }
+];
+
+const KIND_BY_HTTP_STATUS: Record<number, LudusErrorKind> = {
+  400: 'validation',
+  401: 'auth',
+  403: 'permission_denied',
+  404: 'not_found',
+  409: 'range_busy',
+  422: 'validation'
+};
+
+const ERROR_KIND_LABELS: Record<LudusErrorKind, string> = {
+  auth: 'authentication failed',
+  not_found: 'not found',
+  permission_denied: 'permission denied',
+  connection_refused: 'Ludus server unreachable',
+  range_busy: 'range busy',
+  validation: 'invalid request',
+  unknown: 'unclassified error'
+};
+
+const ERROR_KIND_TROUBLESHOOTING: Record<LudusErrorKind, string[]> = {
+  auth: [
+    'The Ludus API key was rejected: update it with ludus-mcp --renew-keyring',
+    'API keys have the form USERID.<40 characters>'
+  ],
+  not_found: [
+    'Check the user, range, template or snapshot name (list_all_users, list_ranges, templates_list, snapshot_list)',
+    'The user may not have a deployed range yet'
+  ],
+  permission_denied: [
+    'This operation needs admin privileges: admin commands use the admin API over the SSH tunnel with an admin API key',
+    "Acting on another user's range requires admin rights or shared access (range_access)"
+  ],
+  connection_refused: [
+    'The Ludus server could not be reached: check the WireGuard connection or the SSH tunnel',
+    'Verify the Ludus URL and that the Ludus service is running on the server'
+  ],
+  range_busy: [
+    'The range is busy with another operation, usually a deployment: follow it with watch_deployment()',
+    'Wait for it to finish, or stop it with range_abort(), before retrying'
+  ],
+  validation: [
+    'The server rejected the request as invalid: check the parameters and their format',
+    'For range configs, run validate_range_config() before setting or deploying them'
+  ],
+  unknown: []
+};
+
+/**
+ * Classify a Ludus error message; the HTTP status (API calls) decides when the message does not
+ */
+export function classifyLudusError(text: string, httpStatus?: number): LudusErrorKind {
+  const kind = ERROR_KIND_RULES.find(rule => rule.pattern.test(text))?.kind;
+  if (kind) {
+    return kind;
+  }
+  return (httpStatus !== undefined && KIND_BY_HTTP_STATUS[httpStatus]) || 'unknown';
+}
+
+/**
+ * The error message of a failed CLI command: the JSON `error` field, else the `[ERROR]` log
+ * lines, else the whole output
+ */
+export function extractLudusError(stdout: string, stderr: string): string {
+  for (const text of [stdout, stderr]) {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (parsed && typeof parsed.error === 'string') {
+          return parsed.error;
+        }
+      } catch {
+        // not a JSON error body
+      }
+    }
+  }
+
+  const combined = `${stderr}\n${stdout}`;
+  const errorLines = combined
+    .split(/\r?\n/)
+    .filter(line => /\[(ERROR|FATAL)\]|^(Error|FATAL):/i.test(line.trim()))
+    .map(line => line.trim().replace(/^.*?\[(ERROR|FATAL)\]\s*/i, ''));
+  if (errorLines.length > 0) {
+    return errorLines.join('\n');
+  }
+  return combined.trim() || 'Ludus command failed without output';
+}
+
+export function describeErrorKind(kind: LudusErrorKind): string {
+  return ERROR_KIND_LABELS[kind];
+}
+
+/**
+ * A failed Ludus command thrown by a handler; keeps the result's classification
+ */
+export class LudusCommandError extends Error {
+  readonly errorKind: LudusErrorKind;
+  readonly exitCode: number | undefined;
+
+  constructor(message: string, result: CommandResult) {
+    super(message);
+    this.name = 'LudusCommandError';
+    this.errorKind = result.errorKind || classifyLudusError(result.message);
+    this.exitCode = result.exitCode;
+  }
+}
+
+export function errorKindOf(error: unknown): LudusErrorKind | undefined {
+  return error instanceof LudusCommandError ? error.errorKind : undefined;
+}
+
+/**
+ * Troubleshooting tips for a failure: the tips for its error kind first, then the handler's own
+ */
+export function troubleshootingFor(error: unknown, tips: string[]): string[] {
+  const kind = errorKindOf(error);
+  const kindTips = kind ? ERROR_KIND_TROUBLESHOOTING[kind] : [];
+  return [...kindTips, ...tips.filter(tip => !kindTips.includes(tip))];
+}
+
+export interface ErrorKindContext {
+  user?: string;      // user the call acted on, if not the caller
+  what?: string;      // object the call looked up, e.g. `snapshot "baseline"`
+  listWith?: string;  // tool call listing those objects, e.g. "snapshot_list()"
+}
+
+/**
+ * Message and next steps for failures the caller has to act on before retrying: a rejected API
+ * key, a call needing admin rights, or a missing object. Undefined for other kinds, which keep
+ * the handler's own message and troubleshooting.
+ */
+export function errorKindResponse(error: unknown, context: ErrorKindContext = {}): { message: string; nextSteps: string[] } | undefined {
+  const detail = error instanceof Error ? error.message : String(error);
+  const { user, what, listWith } = context;
+
+  switch (errorKindOf(error)) {
+    case 'auth':
+      return {
+        message: `Ludus rejected the API key: ${detail}`,
+        nextSteps: [
+          'Store a valid API key with ludus-mcp --renew-keyring, then restart the MCP client',
+          'Retry the call once the key is updated'
+        ]
+      };
+    case 'permission_denied':
+      return user
+        ? {
+            message: `Not allowed to act on ${user}: ${detail}`,
+            nextSteps: [
+              'Omit user to act on your own range',
+              `Acting on ${user} needs an admin API key, or access to the range granted by an admin (range_access)`
+            ]
+          }
+        : {
+            message: `Permission denied: ${detail}`,
+            nextSteps: ['This operation needs admin rights: use an admin API key (ludus-mcp --renew-keyring)']
+          };
+    case 'not_found':
+      if (!what) {
+        return undefined;
+      }
+      return {
+        message: `${what} not found: ${detail}`,
+        nextSteps: [
+          ...(listWith ? [`Use ${listWith} to see what exists`] : []),
+          ...(user ? [`Check the user ID with list_all_users()`] : [])
+        ]
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,195 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Bounded execution queue for Ludus commands.
+ *
+ * At most maxConcurrent commands run at once and at most maxPending wait; more are refused
+ * instead of piling up behind a long deploy. Tasks with the same key (mutating commands of one
+ * user) run one at a time in submission order, while reads and other users' commands pass them.
+ *
+ * Cancellation and output streaming: the abort signal of the MCP request that started a tool, and
+ * the listener forwarding command output as progress notifications, are carried through an
+ * AsyncLocalStorage context (runInvocation), so commands pick them up without every tool handler
+ * passing them along. Aborting drops queued tasks and aborts the running ones.
+ */
+
+export class CommandCancelledError extends Error {
+  constructor(message: string = 'Command cancelled') {
+    super(message);
+    this.name = 'CommandCancelledError';
+  }
+}
+
+export class CommandQueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandQueueFullError';
+  }
+}
+
+export interface QueueTask<T> {
+  label: string;
+  key?: string;                 // tasks sharing a key never run concurrently
+  signal?: AbortSignal;         // cancels the task while queued or running
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+interface QueueEntry {
+  task: QueueTask<any>;
+  controller: AbortController;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  detach: () => void;
+}
+
+export type OutputListener = (chunk: string, stream: 'stdout' | 'stderr') => void;
+
+export interface InvocationContext {
+  signal?: AbortSignal;         // cancels every command started by the tool call
+  onOutput?: OutputListener;    // receives command output as it arrives
+}
+
+const invocationContext = new AsyncLocalStorage<InvocationContext>();
+
+/**
+ * Run fn with context applying to every command it starts
+ */
+export function runInvocation<T>(context: InvocationContext, fn: () => Promise<T>): Promise<T> {
+  return invocationContext.run(context, fn);
+}
+
+/**
+ * Cancellation signal of the tool call in progress, if any
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return invocationContext.getStore()?.signal;
+}
+
+/**
+ * Output listener of the tool call in progress, if any
+ */
+export function currentOutputListener(): OutputListener | undefined {
+  return invocationContext.getStore()?.onOutput;
+}
+
+export class CommandQueue {
+  private logger: Logger;
+  private maxConcurrent: number;
+  private maxPending: number;
+  private pending: QueueEntry[] = [];
+  private running = new Set<QueueEntry>();
+  private activeKeys = new Set<string>();
+
+  constructor(logger: Logger, maxConcurrent: number, maxPending: number) {
+    this.logger = logger;
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.maxPending = Math.max(0, maxPending);
+  }
+
+  run<T>(task: QueueTask<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (task.signal?.aborted) {
+        reject(new CommandCancelledError(`${task.label} cancelled before it started`));
+        return;
+      }
+      if (this.pending.length >= this.maxPending && !this.canStart(task)) {
+        reject(new CommandQueueFullError(
+          `Command queue full (${this.running.size} running, ${this.pending.length} waiting); try ${task.label} again shortly`
+        ));
+        return;
+      }
+
+      const controller = new AbortController();
+      const onAbort = () => this.cancel(entry, `${task.label} cancelled`);
+      const entry: QueueEntry = {
+        task,
+        controller,
+        resolve,
+        reject,
+        detach: () => task.signal?.removeEventListener('abort', onAbort)
+      };
+      task.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.push(entry);
+      if (this.pending.length > 1 || this.running.size >= this.maxConcurrent) {
+        this.logger.debug('Command queued', { label: task.label, key: task.key, running: this.running.size, waiting: this.pending.length });
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Cancel everything, e.g. on shutdown
+   */
+  cancelAll(reason: string = 'Command queue shut down'): void {
+    for (const entry of [...this.pending, ...this.running]) {
+      this.cancel(entry, reason);
+    }
+  }
+
+  stats(): { running: number; waiting: number; activeKeys: string[] } {
+    return { running: this.running.size, waiting: this.pending.length, activeKeys: [...this.activeKeys] };
+  }
+
+  private canStart(task: QueueTask<any>): boolean {
+    return this.running.size < this.maxConcurrent && (!task.key || !this.activeKeys.has(task.key));
+  }
+
+  private cancel(entry: QueueEntry, reason: string): void {
+    const index = this.pending.indexOf(entry);
+    if (index >= 0) {
+      // Never started: drop it; the task function is not called
+      this.pending.splice(index, 1);
+      entry.detach();
+      entry.reject(new CommandCancelledError(reason));
+      return;
+    }
+    if (this.running.has(entry)) {
+      // Running: the task sees the abort and settles (the process is killed)
+      entry.controller.abort(new CommandCancelledError(reason));
+    }
+  }
+
+  private drain(): void {
+    // In submission order; a keyed task waits behind the running task of its key,
+    // and later tasks with that key wait behind it
+    const blockedKeys = new Set<string>();
+    for (const entry of [...this.pending]) {
+      if (this.running.size >= this.maxConcurrent) {
+        break;
+      }
+      const key = entry.task.key;
+      if (key && (this.activeKeys.has(key) || blockedKeys.has(key))) {
+        blockedKeys.add(key);
+        continue;
+      }
+      this.pending.splice(this.pending.indexOf(entry), 1);
+      this.start(entry);
+    }
+  }
+
+  private start(entry: QueueEntry): void {
+    const { task } = entry;
+    this.running.add(entry);
+    if (task.key) {
+      this.activeKeys.add(task.key);
+    }
+
+    const finish = () => {
+      this.running.delete(entry);
+      if (task.key) {
+        this.activeKeys.delete(task.key);
+      }
+      entry.detach();
+      this.drain();
+    };
+
+    Promise.resolve()
+      .then(() => task.run(entry.controller.signal))
+      .then(
+        value => { finish(); entry.resolve(value); },
+        error => { finish(); entry.reject(error instanceof Error ? error : new Error(String(error))); }
+      );
+  }
+}
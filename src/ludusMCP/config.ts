@@ -4,12 +4,27 @@ import { homedir } from 'os';
 import yaml from 'js-yaml';
 import { Logger } from '../utils/logger.js';
 
+/**
+ * How long a Ludus CLI command may run before it is killed (milliseconds):
+ * default - status, lists and other quick calls (`timeout`, LUDUS_TIMEOUT)
+ * long    - uploads, downloads, builds and large outputs (`timeouts.long`, LUDUS_TIMEOUT_LONG)
+ * stream  - followed logs (`range logs -f`); output up to the limit is returned (`timeouts.stream`, LUDUS_TIMEOUT_STREAM)
+ */
+export type CommandTimeoutProfile = 'default' | 'long' | 'stream';
+
+export const DEFAULT_COMMAND_TIMEOUTS: Record<CommandTimeoutProfile, number> = {
+  default: 30000,
+  long: 600000,
+  stream: 300000
+};
+
 export interface LudusConfigOptions {
   url?: string;
   apiKey?: string;
   skipCertVerification?: boolean;
   proxyUrl?: string;
   timeout?: number;
+  timeouts?: Partial<Record<CommandTimeoutProfile, number>>;
   sshHost?: string;
   sshUser?: string;
 }
@@ -39,6 +54,14 @@ export class LudusConfig {
         if (fileConfig.proxy) config.proxyUrl = fileConfig.proxy;
         if (fileConfig.ssh_host) config.sshHost = fileConfig.ssh_host;
         if (fileConfig.ssh_user) config.sshUser = fileConfig.ssh_user;
+        if (fileConfig.timeout !== undefined) this.setTimeout(config, 'default', fileConfig.timeout, 'config file timeout');
+        if (fileConfig.timeouts && typeof fileConfig.timeouts === 'object') {
+          for (const profile of Object.keys(DEFAULT_COMMAND_TIMEOUTS) as CommandTimeoutProfile[]) {
+            if (fileConfig.timeouts[profile] !== undefined) {
+              this.setTimeout(config, profile, fileConfig.timeouts[profile], `config file timeouts.${profile}`);
+            }
+          }
+        }
         this.logger.debug('Loaded config from file', { path: configPath });
       } catch (error) {
         this.logger.warn('Failed to load config file', { 
@@ -66,7 +89,13 @@ export class LudusConfig {
       config.proxyUrl = process.env.LUDUS_PROXY;
     }
     if (process.env.LUDUS_TIMEOUT) {
-      config.timeout = parseInt(process.env.LUDUS_TIMEOUT, 10);
+      this.setTimeout(config, 'default', process.env.LUDUS_TIMEOUT, 'LUDUS_TIMEOUT');
+    }
+    if (process.env.LUDUS_TIMEOUT_LONG) {
+      this.setTimeout(config, 'long', process.env.LUDUS_TIMEOUT_LONG, 'LUDUS_TIMEOUT_LONG');
+    }
+    if (process.env.LUDUS_TIMEOUT_STREAM) {
+      this.setTimeout(config, 'stream', process.env.LUDUS_TIMEOUT_STREAM, 'LUDUS_TIMEOUT_STREAM');
     }
     if (process.env.LUDUS_SSH_HOST) {
       config.sshHost = process.env.LUDUS_SSH_HOST;
@@ -80,12 +109,28 @@ export class LudusConfig {
       config.skipCertVerification = false;
     }
     if (!config.timeout) {
-      config.timeout = 30000; // 30 seconds
+      config.timeout = DEFAULT_COMMAND_TIMEOUTS.default; // 30 seconds
     }
 
     return config;
   }
 
+  /**
+   * Store a timeout in milliseconds; invalid values are reported and ignored
+   */
+  private setTimeout(config: LudusConfigOptions, profile: CommandTimeoutProfile, value: unknown, where: string): void {
+    const ms = typeof value === 'number' ? value : parseInt(String(value), 10);
+    if (!Number.isFinite(ms) || ms <= 0) {
+      this.logger.warn('Ignoring invalid command timeout', { setting: where, value });
+      return;
+    }
+    if (profile === 'default') {
+      config.timeout = ms;
+    } else {
+      config.timeouts = { ...config.timeouts, [profile]: ms };
+    }
+  }
+
   public getUrl(): string {
     if (!this.config.url) {
       throw new Error('Ludus URL not configured. Set LUDUS_URL environment variable or configure in ~/.config/ludusMCP/config.yml');
@@ -109,7 +154,18 @@ export class LudusConfig {
   }
 
   public getTimeout(): number {
-    return this.config.timeout || 30000;
+    return this.config.timeout || DEFAULT_COMMAND_TIMEOUTS.default;
+  }
+
+  /**
+   * Timeout of each command profile, in milliseconds
+   */
+  public getCommandTimeouts(): Record<CommandTimeoutProfile, number> {
+    return {
+      default: this.getTimeout(),
+      long: this.config.timeouts?.long || DEFAULT_COMMAND_TIMEOUTS.long,
+      stream: this.config.timeouts?.stream || DEFAULT_COMMAND_TIMEOUTS.stream
+    };
   }
 
   public getSSHHost(): string | undefined {
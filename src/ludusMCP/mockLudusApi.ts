@@ -0,0 +1,359 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import yaml from 'js-yaml';
+
+/**
+ * In-memory stand-in for the Ludus REST API, for trying the REST backend without a Ludus server.
+ * Covers the endpoints LudusRestClient calls; deployments finish instantly and produce VMs from
+ * the range config. Plain HTTP only.
+ *
+ *   npm run build && npm run mock-api            # listens on 127.0.0.1:8099
+ *   LUDUS_MCP_BACKEND=rest LUDUS_MCP_API_URL=http://127.0.0.1:8099 LUDUS_API_KEY=<key printed at start> npm start
+ */
+
+export interface MockLudusApiOptions {
+  port?: number;            // 0 picks a free port
+  host?: string;
+  apiKey?: string;          // <USERID>.<key>; the user ID becomes the admin user
+}
+
+interface MockRange {
+  userID: string;
+  rangeNumber: number;
+  rangeState: string;
+  lastDeployment: string;
+  testingEnabled: boolean;
+  allowedDomains: string[];
+  allowedIPs: string[];
+  VMs: Array<{ proxmoxID: number; name: string; poweredOn: boolean; ip: string }>;
+  config: string;
+  logs: string;
+  snapshots: Array<{ name: string; description: string; includesRAM: boolean; vmids: number[] }>;
+}
+
+export interface MockLudusApi {
+  url: string;
+  apiKey: string;
+  state: {
+    users: Array<{ userID: string; name: string; isAdmin: boolean; proxmoxUsername: string; dateCreated: string; dateLastActive: string }>;
+    ranges: Map<string, MockRange>;
+    templates: Array<{ name: string; built: boolean }>;
+    requests: Array<{ method: string; path: string; query: Record<string, string>; body?: any }>;
+  };
+  close(): Promise<void>;
+}
+
+const DEFAULT_API_KEY = 'ADMIN.mockmockmockmockmockmockmockmockmockmock';
+const DEFAULT_TAGS = ['all', 'additional-tools', 'custom-choco', 'custom-groups', 'dns-rewrites', 'domain-join', 'install-office', 'network', 'user-defined-roles'];
+
+const EMPTY_CONFIG = `ludus:
+  - vm_name: "{{ range_id }}-ad-dc-win2022-server-x64"
+    hostname: "{{ range_id }}-DC01"
+    template: win2022-server-x64-template
+    vlan: 10
+    ip_last_octet: 11
+    ram_gb: 8
+    cpus: 4
+    windows:
+      sysprep: false
+`;
+
+function json(res: http.ServerResponse, status: number, body: any): void {
+  const text = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(text) });
+  res.end(text);
+}
+
+/**
+ * Content of the "file" part of a multipart/form-data body
+ */
+function multipartFile(body: Buffer, contentType: string): string | undefined {
+  const boundary = /boundary=([^;]+)/.exec(contentType)?.[1];
+  if (!boundary) return undefined;
+  for (const part of body.toString('utf8').split(`--${boundary}`)) {
+    if (/name="file"/.test(part)) {
+      const start = part.indexOf('\r\n\r\n');
+      return start >= 0 ? part.slice(start + 4).replace(/\r\n$/, '') : undefined;
+    }
+  }
+  return undefined;
+}
+
+function vmsFromConfig(config: string, range: MockRange): MockRange['VMs'] {
+  const parsed = yaml.load(config) as any;
+  const vms = Array.isArray(parsed?.ludus) ? parsed.ludus : [];
+  return vms.map((vm: any, index: number) => ({
+    proxmoxID: 100 + range.rangeNumber * 10 + index,
+    name: String(vm.vm_name || `vm${index}`).replace(/\{\{\s*range_id\s*\}\}/g, range.userID),
+    poweredOn: true,
+    ip: `10.${range.rangeNumber}.${vm.vlan ?? 10}.${vm.ip_last_octet ?? 10 + index}`
+  }));
+}
+
+function deploymentLog(range: MockRange): string {
+  const lines = ['PLAY [Create VMs] **************************************************************', ''];
+  for (const vm of range.VMs) {
+    lines.push(`TASK [Clone template for ${vm.name}] *******************************************`, `changed: [${vm.name}]`, '');
+  }
+  lines.push('PLAY RECAP *********************************************************************');
+  for (const vm of range.VMs) {
+    lines.push(`${vm.name.padEnd(30)} : ok=12   changed=4    unreachable=0    failed=0    skipped=2    rescued=0    ignored=0`);
+  }
+  return lines.join('\n');
+}
+
+export async function startMockLudusApi(options: MockLudusApiOptions = {}): Promise<MockLudusApi> {
+  const apiKey = options.apiKey || DEFAULT_API_KEY;
+  const adminUser = apiKey.split('.')[0]!;
+  const now = new Date().toISOString();
+
+  const state: MockLudusApi['state'] = {
+    users: [{ userID: adminUser, name: 'Mock Admin', isAdmin: true, proxmoxUsername: adminUser.toLowerCase(), dateCreated: now, dateLastActive: now }],
+    ranges: new Map(),
+    templates: [
+      { name: 'debian-12-x64-server-template', built: true },
+      { name: 'win2022-server-x64-template', built: true },
+      { name: 'win11-22h2-x64-enterprise-template', built: false }
+    ],
+    requests: []
+  };
+
+  const rangeFor = (userID: string): MockRange => {
+    let range = state.ranges.get(userID);
+    if (!range) {
+      range = {
+        userID,
+        rangeNumber: state.ranges.size + 2,
+        rangeState: 'NEVER DEPLOYED',
+        lastDeployment: '',
+        testingEnabled: false,
+        allowedDomains: [],
+        allowedIPs: [],
+        VMs: [],
+        config: EMPTY_CONFIG,
+        logs: '',
+        snapshots: []
+      };
+      state.ranges.set(userID, range);
+    }
+    return range;
+  };
+
+  const rangeStatus = (range: MockRange) => ({
+    userID: range.userID,
+    rangeNumber: range.rangeNumber,
+    lastDeployment: range.lastDeployment,
+    numberOfVMs: range.VMs.length,
+    testingEnabled: range.testingEnabled,
+    rangeState: range.rangeState,
+    allowedDomains: range.allowedDomains,
+    allowedIPs: range.allowedIPs,
+    VMs: range.VMs
+  });
+
+  const selectVms = (range: MockRange, vmids: unknown) =>
+    Array.isArray(vmids) && vmids.length > 0 ? range.VMs.filter(vm => vmids.includes(vm.proxmoxID)) : range.VMs;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://mock');
+      const query = Object.fromEntries(url.searchParams.entries());
+      const raw = Buffer.concat(chunks);
+      const contentType = req.headers['content-type'] || '';
+      let body: any;
+      if (contentType.startsWith('application/json') && raw.length > 0) {
+        try {
+          body = JSON.parse(raw.toString('utf8'));
+        } catch {
+          return json(res, 400, { error: 'invalid JSON body' });
+        }
+      }
+      const method = req.method || 'GET';
+      state.requests.push({ method, path: url.pathname, query, body });
+
+      if (req.headers['x-api-key'] !== apiKey) {
+        return json(res, 401, { error: 'No valid API key provided' });
+      }
+
+      const userID = query.userID || adminUser;
+      if (!state.users.some(user => user.userID === userID)) {
+        return json(res, 404, { error: `User ${userID} not found` });
+      }
+      const route = `${method} ${url.pathname}`;
+
+      switch (route) {
+        case 'GET /range':
+          return json(res, 200, rangeStatus(rangeFor(userID)));
+        case 'GET /range/all':
+          state.users.forEach(user => rangeFor(user.userID));
+          return json(res, 200, [...state.ranges.values()].map(rangeStatus));
+        case 'GET /range/config':
+          return json(res, 200, { result: rangeFor(userID).config });
+        case 'PUT /range/config': {
+          const config = multipartFile(raw, contentType);
+          if (!config) return json(res, 400, { error: 'Missing config file' });
+          try {
+            yaml.load(config);
+          } catch (error) {
+            return json(res, 400, { error: `Configuration error: ${error instanceof Error ? error.message : String(error)}` });
+          }
+          const range = rangeFor(userID);
+          if (range.testingEnabled && !/name="force"\r\n\r\ntrue/.test(raw.toString('utf8'))) {
+            return json(res, 409, { error: 'Testing is enabled; use --force to set the config' });
+          }
+          range.config = config;
+          return json(res, 200, { result: 'Your range config has been successfully updated.' });
+        }
+        case 'GET /range/tags':
+          return json(res, 200, { result: DEFAULT_TAGS.join(', ') });
+        case 'POST /range/deploy': {
+          const range = rangeFor(userID);
+          if (range.testingEnabled && !body?.force) {
+            return json(res, 409, { error: 'Testing is enabled; deploy with --force' });
+          }
+          range.VMs = vmsFromConfig(range.config, range);
+          range.rangeState = 'SUCCESS';
+          range.lastDeployment = new Date().toISOString();
+          range.logs = deploymentLog(range);
+          return json(res, 200, { result: 'Range deploy started' });
+        }
+        case 'POST /range/abort':
+          rangeFor(userID).rangeState = 'ABORTED';
+          return json(res, 200, { result: 'Range deployment aborted' });
+        case 'DELETE /range': {
+          const range = rangeFor(userID);
+          range.VMs = [];
+          range.rangeState = 'DESTROYED';
+          return json(res, 200, { result: 'Range destroyed' });
+        }
+        case 'GET /range/logs':
+          return json(res, 200, { result: rangeFor(userID).logs, cursor: rangeFor(userID).logs.length });
+        case 'PUT /range/poweron':
+        case 'PUT /range/poweroff': {
+          const machines: string[] = Array.isArray(body?.machines) ? body.machines : ['all'];
+          const poweredOn = url.pathname.endsWith('poweron');
+          rangeFor(userID).VMs
+            .filter(vm => machines.includes('all') || machines.includes(vm.name))
+            .forEach(vm => { vm.poweredOn = poweredOn; });
+          return json(res, 200, { result: `Powered ${poweredOn ? 'on' : 'off'} ${machines.join(', ')}` });
+        }
+        case 'GET /snapshots/list': {
+          const range = rangeFor(userID);
+          return json(res, 200, range.snapshots.map(snapshot => ({ ...snapshot, vmname: range.VMs.filter(vm => snapshot.vmids.includes(vm.proxmoxID)).map(vm => vm.name).join(',') })));
+        }
+        case 'POST /snapshots/create': {
+          const range = rangeFor(userID);
+          if (!body?.name) return json(res, 400, { error: 'Snapshot name is required' });
+          if (range.snapshots.some(snapshot => snapshot.name === body.name)) return json(res, 409, { error: `Snapshot ${body.name} already exists` });
+          range.snapshots.push({ name: body.name, description: body.description || '', includesRAM: body.includeRAM !== false, vmids: selectVms(range, body.vmids).map(vm => vm.proxmoxID) });
+          return json(res, 201, { success: selectVms(range, body.vmids).map(vm => vm.proxmoxID), errors: [] });
+        }
+        case 'POST /snapshots/rollback':
+        case 'POST /snapshots/remove': {
+          const range = rangeFor(userID);
+          const snapshot = range.snapshots.find(candidate => candidate.name === body?.name);
+          if (!snapshot) return json(res, 404, { error: `Snapshot ${body?.name} not found` });
+          if (url.pathname.endsWith('remove')) {
+            range.snapshots = range.snapshots.filter(candidate => candidate !== snapshot);
+          }
+          return json(res, 200, { success: selectVms(range, body.vmids).map(vm => vm.proxmoxID), errors: [] });
+        }
+        case 'PUT /testing/start':
+        case 'PUT /testing/stop': {
+          const range = rangeFor(userID);
+          const start = url.pathname.endsWith('start');
+          if (range.testingEnabled === start) return json(res, 409, { error: `Testing is already ${start ? 'enabled' : 'disabled'}` });
+          range.testingEnabled = start;
+          if (!start) {
+            range.allowedDomains = [];
+            range.allowedIPs = [];
+          }
+          return json(res, 200, { result: `Testing ${start ? 'started' : 'stopped'}` });
+        }
+        case 'POST /testing/allow':
+        case 'POST /testing/deny': {
+          const range = rangeFor(userID);
+          if (!range.testingEnabled) return json(res, 409, { error: 'Testing is not enabled' });
+          const allow = url.pathname.endsWith('allow');
+          const update = (list: string[], values: unknown) => {
+            const items = Array.isArray(values) ? values.map(String) : [];
+            return allow ? [...new Set([...list, ...items])] : list.filter(item => !items.includes(item));
+          };
+          range.allowedDomains = update(range.allowedDomains, body?.domains);
+          range.allowedIPs = update(range.allowedIPs, body?.ips);
+          return json(res, 200, { allowed: allow ? [...(body?.domains || []), ...(body?.ips || [])] : [], denied: allow ? [] : [...(body?.domains || []), ...(body?.ips || [])], errors: [] });
+        }
+        case 'GET /templates':
+          return json(res, 200, state.templates);
+        case 'POST /templates': {
+          const names: string[] = Array.isArray(body?.templates) ? body.templates : ['all'];
+          state.templates.filter(template => names.includes('all') || names.includes(template.name)).forEach(template => { template.built = true; });
+          return json(res, 200, { result: 'Template build started' });
+        }
+        case 'GET /templates/status':
+          return json(res, 200, []);
+        case 'GET /templates/logs':
+          return json(res, 200, { result: 'No template builds running', cursor: 0 });
+        case 'GET /user':
+          return json(res, 200, state.users.filter(user => user.userID === userID));
+        case 'GET /user/all':
+          return json(res, 200, state.users);
+        case 'POST /user': {
+          if (!body?.userID || !body?.name) return json(res, 400, { error: 'name and userID are required' });
+          if (state.users.some(user => user.userID === body.userID)) return json(res, 409, { error: `User ${body.userID} already exists` });
+          const created = { userID: body.userID, name: body.name, isAdmin: Boolean(body.isAdmin), proxmoxUsername: String(body.userID).toLowerCase(), dateCreated: new Date().toISOString(), dateLastActive: '' };
+          state.users.push(created);
+          return json(res, 201, { result: { ...created, apiKey: `${body.userID}.${'x'.repeat(40)}` } });
+        }
+        case 'GET /user/apikey':
+          return json(res, 200, { result: { apiKey: `${userID}.${'y'.repeat(40)}`, userID } });
+      }
+
+      if (method === 'DELETE' && url.pathname.startsWith('/templates/')) {
+        const name = decodeURIComponent(url.pathname.slice('/templates/'.length));
+        if (!state.templates.some(template => template.name === name)) return json(res, 404, { error: `Template ${name} not found` });
+        state.templates = state.templates.filter(template => template.name !== name);
+        return json(res, 200, { result: `Template ${name} removed` });
+      }
+      if (method === 'DELETE' && url.pathname.startsWith('/user/')) {
+        const target = decodeURIComponent(url.pathname.slice('/user/'.length));
+        if (!state.users.some(user => user.userID === target)) return json(res, 404, { error: `User ${target} not found` });
+        state.users = state.users.filter(user => user.userID !== target);
+        state.ranges.delete(target);
+        return json(res, 200, { result: `User ${target} removed` });
+      }
+
+      // No Ludus error body: clients treat this as a missing endpoint
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('404 page not found');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8099, options.host || '127.0.0.1', () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${address.address}:${address.port}`,
+    apiKey,
+    state,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+// Run standalone: node dist/ludusMCP/mockLudusApi.js [port]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  startMockLudusApi(port !== undefined ? { port } : {}).then(api => {
+    console.error(`Mock Ludus API listening on ${api.url}`);
+    console.error(`API key: ${api.apiKey}`);
+  }).catch(error => {
+    console.error(`Failed to start mock Ludus API: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
+}
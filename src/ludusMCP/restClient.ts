@@ -0,0 +1,385 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { Logger } from '../utils/logger.js';
+import {
+  CommandResult,
+  DeployRangeOptions,
+  LudusBackend,
+  SnapshotCreateOptions,
+  TestingRuleOptions
+} from './backend.js';
+import { CommandCancelledError, currentSignal } from './commandQueue.js';
+import { classifyLudusError } from './commandErrors.js';
+
+/**
+ * Where one request goes. Admin requests (user add/remove) use the admin API (SSH tunnel port 8081).
+ */
+export interface RestEndpoint {
+  url: string;
+  apiKey: string;
+  verifyTls: boolean;
+}
+
+export type RestEndpointResolver = (admin: boolean) => Promise<RestEndpoint>;
+
+/**
+ * The request never reached the server: no connection, or no such endpoint (older/newer Ludus
+ * version), or a failed GET. Callers may retry through the CLI; API errors (bad request,
+ * permission denied) and failures after a non-GET request was sent are not this.
+ */
+export class LudusApiUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LudusApiUnavailableError';
+  }
+}
+
+interface RequestOptions {
+  query?: Record<string, string | undefined>;
+  body?: any;
+  file?: { field: string; filePath: string; fields?: Record<string, string> };
+  admin?: boolean;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function vmIdList(value: string | undefined): number[] | undefined {
+  const ids = splitList(value).map(Number).filter(Number.isInteger);
+  return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * Typed client for the Ludus REST API. Responses are the same JSON the CLI prints with
+ * LUDUS_JSON=true, so tools parse both backends' results the same way.
+ */
+export class LudusRestClient implements LudusBackend {
+  private logger: Logger;
+  private resolveEndpoint: RestEndpointResolver;
+  private timeoutMs: number;
+
+  constructor(logger: Logger, resolveEndpoint: RestEndpointResolver, timeoutMs: number) {
+    this.logger = logger;
+    this.resolveEndpoint = resolveEndpoint;
+    this.timeoutMs = timeoutMs;
+  }
+
+  private scope(user?: string, rangeId?: string): Record<string, string | undefined> {
+    return { userID: user, rangeID: rangeId };
+  }
+
+  /**
+   * Build a multipart/form-data body with one file and optional text fields
+   */
+  private multipart(file: NonNullable<RequestOptions['file']>): { body: Buffer; contentType: string } {
+    const boundary = `----ludusmcp${randomBytes(12).toString('hex')}`;
+    const parts: Buffer[] = [];
+    for (const [name, value] of Object.entries(file.fields || {})) {
+      parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+    }
+    parts.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${file.field}"; filename="${path.basename(file.filePath)}"\r\n` +
+      'Content-Type: application/octet-stream\r\n\r\n'
+    ));
+    parts.push(fs.readFileSync(file.filePath));
+    parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
+    return { body: Buffer.concat(parts), contentType: `multipart/form-data; boundary=${boundary}` };
+  }
+
+  private async request(method: string, apiPath: string, options: RequestOptions = {}): Promise<CommandResult> {
+    const endpoint = await this.resolveEndpoint(options.admin === true);
+    const url = new URL(`${endpoint.url.replace(/\/+$/, '')}${apiPath}`);
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    let payload: Buffer | undefined;
+    const headers: Record<string, string> = { 'X-API-KEY': endpoint.apiKey, Accept: 'application/json' };
+    if (options.file) {
+      const form = this.multipart(options.file);
+      payload = form.body;
+      headers['Content-Type'] = form.contentType;
+    } else if (options.body !== undefined) {
+      payload = Buffer.from(JSON.stringify(options.body));
+      headers['Content-Type'] = 'application/json';
+    }
+    if (payload) {
+      headers['Content-Length'] = String(payload.length);
+    }
+
+    this.logger.info('Calling Ludus API', { method, path: url.pathname, admin: options.admin === true });
+
+    // Aborted with the tool call that started it; not retried through the CLI
+    const signal = currentSignal();
+    // Once connected, the server may act on a request even if the response never arrives, so
+    // only GETs and connect failures are safe to retry through the CLI
+    let connected = false;
+    let timedOut = false;
+    let response: { status: number; text: string };
+    try {
+      response = await new Promise<{ status: number; text: string }>((resolve, reject) => {
+        const transport = url.protocol === 'https:' ? https : http;
+        const req = transport.request(url, {
+          method,
+          headers,
+          rejectUnauthorized: endpoint.verifyTls,
+          timeout: this.timeoutMs,
+          ...(signal ? { signal } : {})
+        }, res => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => resolve({ status: res.statusCode || 0, text: Buffer.concat(chunks).toString('utf8') }));
+          res.on('error', reject);
+        });
+        req.on('socket', socket => {
+          // A kept-alive socket is already connected
+          if (!socket.connecting) {
+            connected = true;
+          } else {
+            socket.once(url.protocol === 'https:' ? 'secureConnect' : 'connect', () => { connected = true; });
+          }
+        });
+        req.on('timeout', () => {
+          timedOut = true;
+          req.destroy(new Error(`Request timed out after ${Math.round(this.timeoutMs / 1000)}s`));
+        });
+        req.on('error', (error: Error) => {
+          if (signal?.aborted) {
+            reject(new CommandCancelledError(`${method} ${url.pathname} cancelled`));
+          } else if (timedOut) {
+            reject(error);
+          } else if (!connected || method === 'GET') {
+            reject(new LudusApiUnavailableError(`Ludus API unreachable at ${endpoint.url}: ${error.message}`));
+          } else {
+            reject(new Error(
+              `Connection to the Ludus API at ${endpoint.url} failed after ${method} ${url.pathname} was sent: ${error.message}. ` +
+              'The server may have applied it; check the range state before retrying'
+            ));
+          }
+        });
+        if (payload) {
+          req.write(payload);
+        }
+        req.end();
+      });
+    } catch (error) {
+      if (!timedOut) {
+        throw error;
+      }
+      const message = `${method} ${url.pathname} ${error instanceof Error ? error.message.toLowerCase() : 'timed out'}; ` +
+        'the server may still be processing it';
+      this.logger.warn('Ludus API request timed out', { method, path: url.pathname, timeoutMs: this.timeoutMs });
+      return { success: false, timedOut: true, message, errorKind: classifyLudusError(message) };
+    }
+    const { status, text } = response;
+
+    let data: any = text;
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        data = JSON.parse(trimmed);
+      } catch {
+        data = text;
+      }
+    }
+
+    if (status >= 200 && status < 300) {
+      return { success: true, data, message: text, rawOutput: text };
+    }
+
+    const apiError = data && typeof data === 'object' && typeof data.error === 'string' ? data.error : undefined;
+    // A missing route (no Ludus error body) means this server has no such endpoint
+    if ((status === 404 || status === 405) && !apiError) {
+      throw new LudusApiUnavailableError(`Ludus API has no ${method} ${url.pathname} endpoint (HTTP ${status})`);
+    }
+    const message = apiError || `Ludus API returned HTTP ${status}${trimmed ? `: ${trimmed.substring(0, 500)}` : ''}`;
+    return {
+      success: false,
+      data,
+      message,
+      rawOutput: text,
+      errorKind: classifyLudusError(message, status)
+    };
+  }
+
+  // Range
+
+  async listUserRanges(user?: string): Promise<CommandResult> {
+    return this.request('GET', '/range', { query: this.scope(user) });
+  }
+
+  async listAllRanges(): Promise<CommandResult> {
+    return this.request('GET', '/range/all');
+  }
+
+  async getRangeStatus(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.request('GET', '/range', { query: this.scope(user, rangeId) });
+  }
+
+  async deployRange(options: DeployRangeOptions = {}): Promise<CommandResult> {
+    const { user, configPath, force, tags, limit, onlyRoles, verboseAnsible, rangeId } = options;
+    if (configPath) {
+      const configResult = await this.setRangeConfig(configPath, user, force, rangeId);
+      if (!configResult.success) {
+        return configResult;
+      }
+    }
+
+    const body: Record<string, any> = {};
+    if (tags) body.tags = tags;
+    if (limit) body.limit = limit;
+    if (force) body.force = true;
+    if (verboseAnsible) body.verbose = true;
+    const roles = splitList(onlyRoles);
+    if (roles.length > 0) body.only_roles = roles;
+    return this.request('POST', '/range/deploy', { query: this.scope(user, rangeId), body });
+  }
+
+  async getTags(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.request('GET', '/range/tags', { query: this.scope(user, rangeId) });
+  }
+
+  async abortRange(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.request('POST', '/range/abort', { query: this.scope(user, rangeId) });
+  }
+
+  // The API never prompts, so noPrompt has no effect
+  async destroyRange(user?: string, _noPrompt: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.request('DELETE', '/range', { query: this.scope(user, rangeId) });
+  }
+
+  async getRangeConfig(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.request('GET', '/range/config', { query: this.scope(user, rangeId) });
+  }
+
+  async setRangeConfig(configPath: string, user?: string, force: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.request('PUT', '/range/config', {
+      query: this.scope(user, rangeId),
+      file: { field: 'file', filePath: configPath, fields: { force: String(force) } }
+    });
+  }
+
+  // Logs are returned as a snapshot; the API has no follow mode, so following is left to the CLI
+  async getRangeLogs(user?: string, follow: boolean = false, rangeId?: string): Promise<CommandResult> {
+    if (follow) {
+      throw new LudusApiUnavailableError('Ludus API cannot follow range logs; use the CLI (ludus range logs -f)');
+    }
+    return this.request('GET', '/range/logs', { query: this.scope(user, rangeId) });
+  }
+
+  async powerOnRange(user?: string, vmNames?: string, rangeId?: string): Promise<CommandResult> {
+    const machines = splitList(vmNames);
+    return this.request('PUT', '/range/poweron', { query: this.scope(user, rangeId), body: { machines: machines.length > 0 ? machines : ['all'] } });
+  }
+
+  async powerOffRange(user?: string, vmNames?: string, rangeId?: string): Promise<CommandResult> {
+    const machines = splitList(vmNames);
+    return this.request('PUT', '/range/poweroff', { query: this.scope(user, rangeId), body: { machines: machines.length > 0 ? machines : ['all'] } });
+  }
+
+  // Snapshots
+
+  async listSnapshots(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.request('GET', '/snapshots/list', { query: this.scope(user, rangeId) });
+  }
+
+  async createSnapshot(name: string, options: SnapshotCreateOptions = {}): Promise<CommandResult> {
+    const { user, vmIds, description, includeRAM = true, rangeId } = options;
+    const body: Record<string, any> = { name, includeRAM };
+    if (description) body.description = description;
+    const vmids = vmIdList(vmIds);
+    if (vmids) body.vmids = vmids;
+    return this.request('POST', '/snapshots/create', { query: this.scope(user, rangeId), body });
+  }
+
+  async revertSnapshot(name: string, user?: string, vmIds?: string, rangeId?: string): Promise<CommandResult> {
+    const body: Record<string, any> = { name };
+    const vmids = vmIdList(vmIds);
+    if (vmids) body.vmids = vmids;
+    return this.request('POST', '/snapshots/rollback', { query: this.scope(user, rangeId), body });
+  }
+
+  async removeSnapshot(name: string, user?: string, vmIds?: string, rangeId?: string): Promise<CommandResult> {
+    const body: Record<string, any> = { name };
+    const vmids = vmIdList(vmIds);
+    if (vmids) body.vmids = vmids;
+    return this.request('POST', '/snapshots/remove', { query: this.scope(user, rangeId), body });
+  }
+
+  // Testing
+
+  async startTesting(user?: string, rangeId?: string): Promise<CommandResult> {
+    return this.request('PUT', '/testing/start', { query: this.scope(user, rangeId) });
+  }
+
+  async stopTesting(user?: string, force: boolean = false, rangeId?: string): Promise<CommandResult> {
+    return this.request('PUT', '/testing/stop', { query: this.scope(user, rangeId), body: { force } });
+  }
+
+  async allowTesting(options: TestingRuleOptions): Promise<CommandResult> {
+    return this.request('POST', '/testing/allow', {
+      query: this.scope(options.user, options.rangeId),
+      body: { domains: splitList(options.domains), ips: splitList(options.ips) }
+    });
+  }
+
+  async denyTesting(options: TestingRuleOptions): Promise<CommandResult> {
+    return this.request('POST', '/testing/deny', {
+      query: this.scope(options.user, options.rangeId),
+      body: { domains: splitList(options.domains), ips: splitList(options.ips) }
+    });
+  }
+
+  // Templates
+
+  async listTemplates(): Promise<CommandResult> {
+    return this.request('GET', '/templates');
+  }
+
+  async buildTemplates(names?: string, parallel?: number): Promise<CommandResult> {
+    const templates = splitList(names);
+    const body: Record<string, any> = { templates: templates.length > 0 ? templates : ['all'] };
+    if (parallel) body.parallel = parallel;
+    return this.request('POST', '/templates', { body });
+  }
+
+  async getTemplateStatus(): Promise<CommandResult> {
+    return this.request('GET', '/templates/status');
+  }
+
+  async getTemplateLogs(): Promise<CommandResult> {
+    return this.request('GET', '/templates/logs');
+  }
+
+  async removeTemplate(name: string): Promise<CommandResult> {
+    return this.request('DELETE', `/templates/${encodeURIComponent(name)}`);
+  }
+
+  // Users
+
+  async getUserInfo(user?: string): Promise<CommandResult> {
+    return this.request('GET', '/user', { query: this.scope(user) });
+  }
+
+  async listAllUsers(): Promise<CommandResult> {
+    return this.request('GET', '/user/all');
+  }
+
+  async addUser(name: string, userId: string, isAdmin: boolean = false): Promise<CommandResult> {
+    return this.request('POST', '/user', { body: { name, userID: userId, isAdmin }, admin: true });
+  }
+
+  async removeUser(userId: string): Promise<CommandResult> {
+    return this.request('DELETE', `/user/${encodeURIComponent(userId)}`, { admin: true });
+  }
+
+  async getUserApiKey(userId: string): Promise<CommandResult> {
+    return this.request('GET', '/user/apikey', { query: this.scope(userId) });
+  }
+}
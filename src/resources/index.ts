@@ -0,0 +1,50 @@
+// ============================================================================
+// LUDUS MCP RESOURCES - STATIC RESOURCE TEMPLATE EXPORTS
+// ============================================================================
+
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export const RESOURCE_URI_PREFIX = 'ludus://';
+
+export const rangeConfigFileTemplate: ResourceTemplate = {
+  uriTemplate: 'ludus://configs/{path}',
+  name: 'Range config file',
+  description: 'A range configuration under ~/.ludus-mcp/range-config-templates/ (e.g. ludus://configs/base-configs/acme.yml)',
+  mimeType: 'text/yaml'
+};
+
+export const roleSchemaTemplate: ResourceTemplate = {
+  uriTemplate: 'ludus://schemas/{role}',
+  name: 'Role or collection schema',
+  description: 'The schema of a Ludus role or collection from ~/.ludus-mcp/schemas/: variables, dependencies, run_after and installation method',
+  mimeType: 'application/json'
+};
+
+export const docsPageTemplate: ResourceTemplate = {
+  uriTemplate: 'ludus://docs/{path}',
+  name: 'Ludus documentation page',
+  description: 'A markdown page of the cached Ludus documentation under ~/.ludus-mcp/docs/ (e.g. ludus://docs/quick-start/deploy-range.md)',
+  mimeType: 'text/markdown'
+};
+
+export const rangeStatusTemplate: ResourceTemplate = {
+  uriTemplate: 'ludus://range/{user}/status',
+  name: 'Live range status',
+  description: "A user's range state, VMs with power state, IP and VLAN, and testing mode. Subscribe to be notified when it changes (e.g. during a deployment)",
+  mimeType: 'application/json'
+};
+
+export const rangeConfigTemplate: ResourceTemplate = {
+  uriTemplate: 'ludus://range/{user}/config',
+  name: 'Active range config',
+  description: "The range configuration currently set on the server for a user. Subscribe to be notified when it changes",
+  mimeType: 'text/yaml'
+};
+
+export const ALL_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  rangeConfigFileTemplate,
+  roleSchemaTemplate,
+  docsPageTemplate,
+  rangeStatusTemplate,
+  rangeConfigTemplate
+];
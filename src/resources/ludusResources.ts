@@ -0,0 +1,304 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError } from '../ludusMCP/commandErrors.js';
+import { DOCS_DIR } from '../utils/docsIndex.js';
+import { loadRoleSchemas } from '../tools/roleDependencies.js';
+import { parseRangeStatus } from '../tools/rangeStatus.js';
+import { extractRangeConfigYaml } from '../tools/rangeConfig.js';
+import { RESOURCE_URI_PREFIX } from './index.js';
+
+/**
+ * MCP resources backed by the local caches and the Ludus server:
+ *
+ *   ludus://configs/{path}        files under ~/.ludus-mcp/range-config-templates/
+ *   ludus://schemas/{role}        one role or collection from the aggregated role schemas
+ *   ludus://docs/{path}           markdown pages of the cached documentation
+ *   ludus://range/{user}/status   live range status (parsed, JSON)
+ *   ludus://range/{user}/config   the range config set on the server
+ *
+ * Subscribed resources are re-read on an interval and `notifications/resources/updated` is
+ * sent when their content changes, e.g. while a deployment moves the range through its states.
+ */
+
+const CONFIGS_DIR = path.join(os.homedir(), '.ludus-mcp', 'range-config-templates');
+const CONFIG_EXTENSIONS = ['.yml', '.yaml', '.json'];
+const DOCS_EXTENSIONS = ['.md', '.mdx'];
+
+// Upper bound per listing, so a large docs or config tree does not flood resources/list
+const MAX_LISTED_FILES = 500;
+
+export const RESOURCE_POLL_INTERVAL_MS = 30000;
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export type LudusResourceUri =
+  | { kind: 'config'; path: string }
+  | { kind: 'schema'; role: string }
+  | { kind: 'doc'; path: string }
+  | { kind: 'range'; user: string; view: 'status' | 'config' };
+
+/**
+ * Parse a ludus:// URI; paths may be given with plain or percent-encoded slashes
+ */
+export function parseLudusResourceUri(uri: string): LudusResourceUri {
+  if (!uri.startsWith(RESOURCE_URI_PREFIX)) {
+    throw new Error(`Unknown resource URI: ${uri} (expected ${RESOURCE_URI_PREFIX}...)`);
+  }
+  const rest = uri.slice(RESOURCE_URI_PREFIX.length);
+  const slash = rest.indexOf('/');
+  const kind = slash >= 0 ? rest.slice(0, slash) : rest;
+  let value: string;
+  try {
+    value = slash >= 0 ? decodeURIComponent(rest.slice(slash + 1)) : '';
+  } catch {
+    throw new Error(`Invalid percent-encoding in resource URI: ${uri}`);
+  }
+
+  if (value) {
+    if (kind === 'configs') return { kind: 'config', path: value };
+    if (kind === 'schemas') return { kind: 'schema', role: value };
+    if (kind === 'docs') return { kind: 'doc', path: value };
+    const range = kind === 'range' ? value.match(/^([^/]+)\/(status|config)$/) : null;
+    if (range) return { kind: 'range', user: range[1], view: range[2] as 'status' | 'config' };
+  }
+  throw new Error(`Unknown resource URI: ${uri}. Supported: ludus://configs/{path}, ludus://schemas/{role}, ludus://docs/{path}, ludus://range/{user}/status, ludus://range/{user}/config`);
+}
+
+function encodePath(relativePath: string): string {
+  return relativePath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+function mimeTypeFor(filePath: string): string {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.json') return 'application/json';
+  if (DOCS_EXTENSIONS.includes(extension)) return 'text/markdown';
+  return 'text/yaml';
+}
+
+/**
+ * Resolve a relative path inside baseDir, refusing anything that escapes it
+ */
+function resolveInside(baseDir: string, relativePath: string): string {
+  const resolved = path.resolve(baseDir, relativePath);
+  if (resolved !== baseDir && !resolved.startsWith(baseDir + path.sep)) {
+    throw new Error(`Access denied: ${relativePath} is outside ${baseDir}`);
+  }
+  return resolved;
+}
+
+/**
+ * Relative paths (with forward slashes) of files with the given extensions, sorted
+ */
+async function listFiles(baseDir: string, extensions: string[]): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (files.length >= MAX_LISTED_FILES) return;
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (extensions.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(path.relative(baseDir, fullPath).split(path.sep).join('/'));
+      }
+    }
+  };
+  await walk(baseDir);
+  return files.sort();
+}
+
+/**
+ * Concrete resources: local config files, role schemas, docs pages and, when the Ludus user is
+ * known, that user's range status and config. Other users' ranges are reachable through the templates.
+ */
+export async function listLudusResources(logger: Logger, currentUser?: string): Promise<Resource[]> {
+  const resources: Resource[] = [];
+
+  for (const file of await listFiles(CONFIGS_DIR, CONFIG_EXTENSIONS)) {
+    resources.push({ uri: `ludus://configs/${encodePath(file)}`, name: `Range config: ${file}`, mimeType: mimeTypeFor(file) });
+  }
+
+  const schema = (await loadRoleSchemas(logger))?.ludus_roles_schema || {};
+  for (const role of Object.keys(schema.roles || {}).sort()) {
+    resources.push({ uri: `ludus://schemas/${encodeURIComponent(role)}`, name: `Role schema: ${role}`, mimeType: 'application/json' });
+  }
+  for (const collection of Object.keys(schema.collections || {}).sort()) {
+    resources.push({ uri: `ludus://schemas/${encodeURIComponent(collection)}`, name: `Collection schema: ${collection}`, mimeType: 'application/json' });
+  }
+
+  for (const file of await listFiles(DOCS_DIR, DOCS_EXTENSIONS)) {
+    resources.push({ uri: `ludus://docs/${encodePath(file)}`, name: `Ludus docs: ${file}`, mimeType: 'text/markdown' });
+  }
+
+  if (currentUser) {
+    const user = encodeURIComponent(currentUser);
+    resources.push(
+      { uri: `ludus://range/${user}/status`, name: `Range status: ${currentUser}`, mimeType: 'application/json' },
+      { uri: `ludus://range/${user}/config`, name: `Range config on server: ${currentUser}`, mimeType: 'text/yaml' }
+    );
+  }
+
+  return resources;
+}
+
+async function readLocalFile(uri: string, baseDir: string, relativePath: string, what: string): Promise<ResourceContents> {
+  const filePath = resolveInside(baseDir, relativePath);
+  try {
+    return { uri, mimeType: mimeTypeFor(filePath), text: await fs.readFile(filePath, 'utf8') };
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+      throw new Error(`${what} not found: ${relativePath} (under ${baseDir})`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read one resource. Range resources need the Ludus connection (cliWrapper).
+ */
+export async function readLudusResource(uri: string, logger: Logger, cliWrapper: LudusCliWrapper | null): Promise<ResourceContents> {
+  const resource = parseLudusResourceUri(uri);
+
+  switch (resource.kind) {
+    case 'config':
+      return readLocalFile(uri, CONFIGS_DIR, resource.path, 'Range config');
+
+    case 'doc':
+      return readLocalFile(uri, DOCS_DIR, resource.path, 'Documentation page');
+
+    case 'schema': {
+      const schema = (await loadRoleSchemas(logger))?.ludus_roles_schema || {};
+      const role = schema.roles?.[resource.role];
+      const collection = schema.collections?.[resource.role];
+      if (!role && !collection) {
+        throw new Error(`No role or collection schema named ${resource.role}; list them with ludus_list_role_collection_schemas`);
+      }
+      const entry = role ? { name: resource.role, type: 'role', ...role } : { name: resource.role, type: 'collection', ...collection };
+      return { uri, mimeType: 'application/json', text: JSON.stringify(entry, null, 2) };
+    }
+
+    case 'range': {
+      if (!cliWrapper) {
+        throw new Error('Server not fully initialized yet: range resources are available once the Ludus connection is set up');
+      }
+      if (resource.view === 'status') {
+        const result = await cliWrapper.getRangeStatus(resource.user);
+        if (!result.success) {
+          throw new LudusCommandError(`Failed to get range status for ${resource.user}: ${result.message}`, result);
+        }
+        const status = parseRangeStatus(result.data);
+        return { uri, mimeType: 'application/json', text: JSON.stringify(status || result.data, null, 2) };
+      }
+      const result = await cliWrapper.getRangeConfig(resource.user);
+      if (!result.success) {
+        throw new LudusCommandError(`Failed to get range config for ${resource.user}: ${result.message}`, result);
+      }
+      return { uri, mimeType: 'text/yaml', text: extractRangeConfigYaml(result) };
+    }
+  }
+}
+
+/**
+ * Subscribed resources and their last seen content. Polls while anything is subscribed and
+ * reports changed resources through onUpdated; a failed read keeps the last fingerprint, so
+ * a connection drop does not count as a change.
+ */
+export class ResourceSubscriptions {
+  private logger: Logger;
+  private read: (uri: string) => Promise<ResourceContents>;
+  private onUpdated: (uri: string) => Promise<void>;
+  private intervalMs: number;
+  private fingerprints = new Map<string, string | undefined>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  constructor(
+    logger: Logger,
+    read: (uri: string) => Promise<ResourceContents>,
+    onUpdated: (uri: string) => Promise<void>,
+    intervalMs: number = RESOURCE_POLL_INTERVAL_MS
+  ) {
+    this.logger = logger;
+    this.read = read;
+    this.onUpdated = onUpdated;
+    this.intervalMs = intervalMs;
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    parseLudusResourceUri(uri);
+    if (!this.fingerprints.has(uri)) {
+      this.fingerprints.set(uri, await this.fingerprint(uri));
+      this.logger.info('Resource subscribed', { uri, subscriptions: this.fingerprints.size });
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => { void this.poll(); }, this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+    if (this.fingerprints.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Re-read every subscribed resource once and report the ones that changed
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [uri, previous] of [...this.fingerprints]) {
+        const current = await this.fingerprint(uri);
+        if (current === undefined || !this.fingerprints.has(uri)) {
+          continue;
+        }
+        this.fingerprints.set(uri, current);
+        if (previous !== undefined && current !== previous) {
+          this.logger.info('Subscribed resource changed', { uri });
+          await this.onUpdated(uri).catch(error => {
+            this.logger.warn('Failed to send resource update', { uri, error: error instanceof Error ? error.message : String(error) });
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async fingerprint(uri: string): Promise<string | undefined> {
+    try {
+      const contents = await this.read(uri);
+      return createHash('sha256').update(contents.text).digest('hex');
+    } catch (error) {
+      this.logger.debug('Could not read subscribed resource', { uri, error: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    }
+  }
+}
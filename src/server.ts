@@ -6,10 +6,19 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
 } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from './utils/logger.js';
 import { InteractiveSetup, LudusConfig } from './ludusMCP/interactiveSetup.js';
 import path from 'path';
+import fs from 'fs';
+import os from 'os';
 import { LudusCliWrapper } from './ludusMCP/cliWrapper.js';
 import { ALL_PROMPTS } from './prompts/index.js';
 import { handleCreateLudusRangePrompt } from './prompts/createLudusRange.js';
@@ -31,7 +40,26 @@ import {
   listRangeConfigsTool,
   getRangeConfigTool,
   setRangeConfigTool,
+  diffRangeConfigTool,
   ludusPowerTool,
+  snapshotListTool,
+  snapshotCreateTool,
+  snapshotRevertTool,
+  snapshotRemoveTool,
+  testingStartTool,
+  testingStopTool,
+  testingAllowTool,
+  testingDenyTool,
+  testingStatusTool,
+  templatesListTool,
+  templatesBuildTool,
+  templatesStatusTool,
+  templatesAddTool,
+  templatesRemoveTool,
+  ansibleRoleListTool,
+  ansibleRoleAddTool,
+  ansibleRoleRemoveTool,
+  ansibleCollectionAddTool,
   getCredentialFromUserTool,
   insertCredsRangeConfigTool,
   ludusDocsSearchTool,
@@ -42,15 +70,40 @@ import {
   ludusReadRangeConfigSchemaTool,
   ludusRangeConfigCheckAgainstPlanTool,
   ludusReadRoleCollectionSchemaTool,
-  ludusListRoleCollectionSchemasTool
+  ludusListRoleCollectionSchemasTool,
+  resolveRoleDependenciesTool,
+  estimateRangeResourcesTool,
+  contentSyncStatusTool,
+  watchDeploymentTool,
+  diagnoseDeploymentTool,
+  planRedeployTool,
+  listRangesTool,
+  setCurrentRangeTool,
+  groupListTool,
+  groupCreateTool,
+  groupDeleteTool,
+  groupMembersTool,
+  groupRangesTool,
+  rangeAccessTool
 } from './tools/index.js';
 import { handleListAllUsers } from './tools/listAllUsers.js';
-import { handleReadRangeConfig, handleWriteRangeConfig, handleValidateRangeConfig, handleListRangeConfigs, handleGetRangeConfig } from './tools/rangeConfig.js';
+import { handleGetRangeStatus } from './tools/getRangeStatus.js';
+import { handleListUserRanges } from './tools/listUserRanges.js';
+import { handleListRanges, handleSetCurrentRange } from './tools/rangeSelection.js';
+import { handleGroupList, handleGroupCreate, handleGroupDelete, handleGroupMembers, handleGroupRanges } from './tools/groups.js';
+import { handleRangeAccess } from './tools/rangeAccess.js';
+import { parseRangeStatus } from './tools/rangeStatus.js';
+import { formatLintFinding, LintFinding } from './tools/rangeConfigLint.js';
+import { handleReadRangeConfig, handleWriteRangeConfig, handleValidateRangeConfig, handleListRangeConfigs, handleGetRangeConfig, extractRangeConfigYaml } from './tools/rangeConfig.js';
 import { handleInsertCredsRangeConfig } from './tools/insertCredsRangeConfig.js';
 import { handleSetRangeConfig } from './tools/setRangeConfig.js';
 import { handleGetConnectionInfo } from './tools/getConnectionInfo.js';
 import { handleDestroyRange } from './tools/destroyRange.js';
 import { handleLudusPower } from './tools/ludusPower.js';
+import { handleSnapshotList, handleSnapshotCreate, handleSnapshotRevert, handleSnapshotRemove } from './tools/snapshots.js';
+import { handleTestingStart, handleTestingStop, handleTestingAllow, handleTestingDeny, handleTestingStatus } from './tools/testingMode.js';
+import { handleTemplatesList, handleTemplatesBuild, handleTemplatesStatus, handleTemplatesAdd, handleTemplatesRemove, checkConfigTemplates } from './tools/templates.js';
+import { handleAnsibleRoleList, handleAnsibleRoleAdd, handleAnsibleRoleRemove, handleAnsibleCollectionAdd } from './tools/ansible.js';
 import { handleGetCredentialFromUser } from './tools/getCredentialFromUser.js';
 import { handleLudusDocsSearch } from './tools/ludusDocsSearch.js';
 import { handleLudusRangePlanner } from './tools/ludusRangePlanner.js';
@@ -61,6 +114,13 @@ import { handleLudusReadRangeConfigSchema } from './tools/ludusReadRangeConfigSc
 import { handleLudusRangeConfigCheckAgainstPlan } from './tools/ludusRangeConfigCheckAgainstPlan.js';
 import { handleLudusReadRoleCollectionSchema } from './tools/ludusReadRoleCollectionSchema.js';
 import { handleLudusListRoleCollectionSchemas } from './tools/ludusListRoleCollectionSchemas.js';
+import { handleResolveRoleDependencies } from './tools/roleDependencies.js';
+import { handleDiffRangeConfig, formatRangeConfigDiff } from './tools/rangeConfigDiff.js';
+import { handleEstimateRangeResources } from './tools/estimateRangeResources.js';
+import { handleContentSyncStatus } from './tools/contentSyncStatus.js';
+import { handleWatchDeployment } from './tools/watchDeployment.js';
+import { handleDiagnoseDeployment } from './tools/diagnoseDeployment.js';
+import { handlePlanRedeploy } from './tools/redeployPlanner.js';
 import { 
   getCredentials, 
   CREDENTIAL_KEYS, 
@@ -69,12 +129,28 @@ import {
 import { downloadLudusDocumentation } from './utils/downloadDocs.js';
 import { downloadBaseConfigs } from './utils/downloadBaseConfigs.js';
 import { downloadSchemas } from './utils/downloadSchemas.js';
+import { shortRevision } from './utils/contentSync.js';
+import { InvocationContext, OutputListener, runInvocation } from './ludusMCP/commandQueue.js';
+import { LudusCommandError, describeErrorKind, errorKindOf, errorKindResponse, troubleshootingFor } from './ludusMCP/commandErrors.js';
+import { ALL_RESOURCE_TEMPLATES } from './resources/index.js';
+import { ResourceSubscriptions, listLudusResources, readLudusResource } from './resources/ludusResources.js';
+
+// Command output streamed while a tool runs: batching interval and max text per log message
+const PROGRESS_INTERVAL_MS = 1000;
+const OUTPUT_MESSAGE_LIMIT = 4000;
+
+// MCP logging levels, least severe first; streamed output is sent at 'info'
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+const OUTPUT_LOG_LEVEL: LoggingLevel = 'info';
+const OUTPUT_LOGGER = 'ludus-output';
 
 class LudusMCPServer {
   private server: Server;
   private logger: Logger;
   private ludusConfig: LudusConfig | null = null;
   private ludusCliWrapper: LudusCliWrapper | null = null;
+  private resourceSubscriptions: ResourceSubscriptions;
+  private clientLogLevel: LoggingLevel = 'info'; // set by the client with logging/setLevel
 
   constructor() {
     this.logger = new Logger('LudusMCPServer');
@@ -100,12 +176,22 @@ class LudusMCPServer {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: { subscribe: true },
+          logging: {},
         },
       }
     );
 
+    this.resourceSubscriptions = new ResourceSubscriptions(
+      this.logger,
+      uri => readLudusResource(uri, this.logger, this.ludusCliWrapper),
+      uri => this.server.sendResourceUpdated({ uri })
+    );
+
     this.setupToolHandlers();
     this.setupPromptHandlers();
+    this.setupResourceHandlers();
+    this.setupLoggingHandlers();
     this.setupErrorHandlers();
   }
 
@@ -117,20 +203,50 @@ class LudusMCPServer {
           deployRangeTool,
           getRangeStatusTool,
           listUserRangesTool,
+          listRangesTool,
+          setCurrentRangeTool,
           getConnectionInfoTool,
           destroyRangeTool,
           rangeAbortTool,
+          watchDeploymentTool,
+          diagnoseDeploymentTool,
           getTagsTool,
           ludusCliExecuteTool,
           ludusHelpTool,
           listAllUsersTool,
+          groupListTool,
+          groupCreateTool,
+          groupDeleteTool,
+          groupMembersTool,
+          groupRangesTool,
+          rangeAccessTool,
           readRangeConfigTool,
           writeRangeConfigTool,
           validateRangeConfigTool,
           listRangeConfigsTool,
           getRangeConfigTool,
           setRangeConfigTool,
+          diffRangeConfigTool,
+          planRedeployTool,
           ludusPowerTool,
+          snapshotListTool,
+          snapshotCreateTool,
+          snapshotRevertTool,
+          snapshotRemoveTool,
+          testingStartTool,
+          testingStopTool,
+          testingAllowTool,
+          testingDenyTool,
+          testingStatusTool,
+          templatesListTool,
+          templatesBuildTool,
+          templatesStatusTool,
+          templatesAddTool,
+          templatesRemoveTool,
+          ansibleRoleListTool,
+          ansibleRoleAddTool,
+          ansibleRoleRemoveTool,
+          ansibleCollectionAddTool,
           getCredentialFromUserTool,
           insertCredsRangeConfigTool,
           ludusDocsSearchTool,
@@ -141,96 +257,238 @@ class LudusMCPServer {
           ludusReadRangeConfigSchemaTool,
           ludusRangeConfigCheckAgainstPlanTool,
           ludusReadRoleCollectionSchemaTool,
-          ludusListRoleCollectionSchemasTool
+          ludusListRoleCollectionSchemasTool,
+          resolveRoleDependenciesTool,
+          estimateRangeResourcesTool,
+          contentSyncStatusTool
         ],
       };
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+      const progress = progressToken !== undefined ? this.createOutputProgress(progressToken) : undefined;
 
       try {
-        switch (name) {
-          case 'deploy_range':
-            return await this.handleDeployRange(args);
-          case 'get_range_status':
-            return await this.handleGetRangeStatus(args);
-          case 'list_user_ranges':
-            return await this.handleListUserRanges(args);
-          case 'get_connection_info':
-            return await this.handleGetConnectionInfo(args);
-          case 'destroy_range':
-            return await this.handleDestroyRange(args);
-          case 'range_abort':
-            return await this.handleRangeAbort(args);
-          case 'get_tags':
-            return await this.handleGetTags(args);
-          case 'ludus_cli_execute':
-            return await this.handleLudusCliExecute(args);
-          case 'ludus_help':
-            return await this.handleLudusHelp(args);
-          case 'list_all_users':
-            return await this.handleListAllUsers(args);
-          case 'read_range_config':
-            return await this.handleReadRangeConfig(args);
-          case 'write_range_config':
-            return await this.handleWriteRangeConfig(args);
-          case 'validate_range_config':
-            return await this.handleValidateRangeConfig(args);
-          case 'list_range_configs':
-            return await this.handleListRangeConfigs(args);
-          case 'get_range_config':
-            return await this.handleGetRangeConfig(args);
-          case 'set_range_config':
-            return await this.handleSetRangeConfig(args);
-          case 'ludus_power':
-            return await this.handleLudusPower(args);
-                  case 'get_credential_from_user':
-          return await this.handleGetCredentialFromUser(args);
-        case 'insert_creds_range_config':
-          return await this.handleInsertCredsRangeConfig(args);
-        case 'ludus_docs_search':
-          return await this.handleLudusDocsSearch(args);
-        case 'ludus_range_planner':
-          return await this.handleLudusRangePlanner(args);
-        case 'ludus_roles_search':
-          return await this.handleLudusRolesDocsRead(args);
-        case 'ludus_environment_guides_search':
-          return await this.handleLudusEnvironmentGuidesSearch(args);
-        case 'ludus_networking_search':
-          return await this.handleLudusNetworkingDocsRead(args);
-        case 'ludus_read_range_config_schema':
-          return await this.handleLudusReadRangeConfigSchema(args);
-        case 'ludus_range_config_check_against_plan':
-          return await this.handleLudusRangeConfigCheckAgainstPlan(args);
-        case 'ludus_read_role_collection_schema':
-          return await this.handleLudusReadRoleCollectionSchema(args);
-        case 'ludus_list_role_collection_schemas':
-          return await this.handleLudusListRoleCollectionSchemas(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
+        // Cancelling the MCP request aborts the tool's queued and running Ludus commands;
+        // with a progress token, command output is streamed as progress notifications
+        const context: InvocationContext = { signal: extra.signal, ...(progress ? { onOutput: progress.onOutput } : {}) };
+        return await runInvocation(context, () => this.callTool(name, args));
       } catch (error: any) {
         this.logger.error('Tool execution failed', error, { tool: name });
         throw error;
+      } finally {
+        progress?.flush();
       }
     });
   }
 
+  /**
+   * Troubleshooting section of a failure message: tips for the error kind first, then the handler's own
+   */
+  private formatTroubleshooting(error: unknown, tips: string[]): string {
+    return `Troubleshooting:\n` + troubleshootingFor(error, tips).map(tip => `- ${tip}`).join('\n');
+  }
+
+  /**
+   * Forward Ludus command output to the client while a tool runs. Output is batched to one update
+   * per second: a notifications/progress whose progress counts the bytes received so far (no total
+   * is known), and the text itself as a notifications/message log entry from the "ludus-output"
+   * logger, with the progress token in its data (progress notifications carry no text in this
+   * protocol version). Batches over OUTPUT_MESSAGE_LIMIT characters are split across messages.
+   */
+  private createOutputProgress(progressToken: string | number): { onOutput: OutputListener; flush: () => void } {
+    let received = 0;
+    let buffered = '';
+    let timer: NodeJS.Timeout | undefined;
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      if (!buffered) {
+        return;
+      }
+      const output = buffered;
+      buffered = '';
+      const onError = (error: unknown) => {
+        this.logger.debug('Failed to send command output', { error: error instanceof Error ? error.message : String(error) });
+      };
+      this.server.notification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: received }
+      }).catch(onError);
+      if (LOGGING_LEVELS.indexOf(OUTPUT_LOG_LEVEL) >= LOGGING_LEVELS.indexOf(this.clientLogLevel)) {
+        // A large batch goes out as several messages, in order, so no output is dropped
+        for (let start = 0; start < output.length; start += OUTPUT_MESSAGE_LIMIT) {
+          this.server.sendLoggingMessage({
+            level: OUTPUT_LOG_LEVEL,
+            logger: OUTPUT_LOGGER,
+            data: { progressToken, output: output.slice(start, start + OUTPUT_MESSAGE_LIMIT) }
+          }).catch(onError);
+        }
+      }
+    };
+
+    const onOutput: OutputListener = chunk => {
+      received += Buffer.byteLength(chunk);
+      buffered += chunk;
+      if (!timer) {
+        timer = setTimeout(flush, PROGRESS_INTERVAL_MS);
+      }
+    };
+
+    return { onOutput, flush };
+  }
+
+  private async callTool(name: string, args: any) {
+    switch (name) {
+      case 'deploy_range':
+        return await this.handleDeployRange(args);
+      case 'get_range_status':
+        return await this.handleGetRangeStatus(args);
+      case 'list_user_ranges':
+        return await this.handleListUserRanges(args);
+      case 'list_ranges':
+        return await this.handleListRanges(args);
+      case 'set_current_range':
+        return await this.handleSetCurrentRange(args);
+      case 'get_connection_info':
+        return await this.handleGetConnectionInfo(args);
+      case 'destroy_range':
+        return await this.handleDestroyRange(args);
+      case 'range_abort':
+        return await this.handleRangeAbort(args);
+      case 'watch_deployment':
+        return await this.handleWatchDeployment(args);
+      case 'diagnose_deployment':
+        return await this.handleDiagnoseDeployment(args);
+      case 'get_tags':
+        return await this.handleGetTags(args);
+      case 'ludus_cli_execute':
+        return await this.handleLudusCliExecute(args);
+      case 'ludus_help':
+        return await this.handleLudusHelp(args);
+      case 'list_all_users':
+        return await this.handleListAllUsers(args);
+      case 'group_list':
+        return await this.handleGroupList(args);
+      case 'group_create':
+        return await this.handleGroupCreate(args);
+      case 'group_delete':
+        return await this.handleGroupDelete(args);
+      case 'group_members':
+        return await this.handleGroupMembers(args);
+      case 'group_ranges':
+        return await this.handleGroupRanges(args);
+      case 'range_access':
+        return await this.handleRangeAccess(args);
+      case 'read_range_config':
+        return await this.handleReadRangeConfig(args);
+      case 'write_range_config':
+        return await this.handleWriteRangeConfig(args);
+      case 'validate_range_config':
+        return await this.handleValidateRangeConfig(args);
+      case 'list_range_configs':
+        return await this.handleListRangeConfigs(args);
+      case 'get_range_config':
+        return await this.handleGetRangeConfig(args);
+      case 'set_range_config':
+        return await this.handleSetRangeConfig(args);
+      case 'diff_range_config':
+        return await this.handleDiffRangeConfig(args);
+      case 'plan_redeploy':
+        return await this.handlePlanRedeploy(args);
+      case 'ludus_power':
+        return await this.handleLudusPower(args);
+      case 'snapshot_list':
+        return await this.handleSnapshotList(args);
+      case 'snapshot_create':
+        return await this.handleSnapshotCreate(args);
+      case 'snapshot_revert':
+        return await this.handleSnapshotRevert(args);
+      case 'snapshot_remove':
+        return await this.handleSnapshotRemove(args);
+      case 'testing_start':
+        return await this.handleTestingStart(args);
+      case 'testing_stop':
+        return await this.handleTestingStop(args);
+      case 'testing_allow':
+        return await this.handleTestingAllow(args);
+      case 'testing_deny':
+        return await this.handleTestingDeny(args);
+      case 'testing_status':
+        return await this.handleTestingStatus(args);
+      case 'templates_list':
+        return await this.handleTemplatesList(args);
+      case 'templates_build':
+        return await this.handleTemplatesBuild(args);
+      case 'templates_status':
+        return await this.handleTemplatesStatus(args);
+      case 'templates_add':
+        return await this.handleTemplatesAdd(args);
+      case 'templates_remove':
+        return await this.handleTemplatesRemove(args);
+      case 'ansible_role_list':
+        return await this.handleAnsibleRoleList(args);
+      case 'ansible_role_add':
+        return await this.handleAnsibleRoleAdd(args);
+      case 'ansible_role_remove':
+        return await this.handleAnsibleRoleRemove(args);
+      case 'ansible_collection_add':
+        return await this.handleAnsibleCollectionAdd(args);
+      case 'get_credential_from_user':
+        return await this.handleGetCredentialFromUser(args);
+      case 'insert_creds_range_config':
+        return await this.handleInsertCredsRangeConfig(args);
+      case 'ludus_docs_search':
+        return await this.handleLudusDocsSearch(args);
+      case 'ludus_range_planner':
+        return await this.handleLudusRangePlanner(args);
+      case 'ludus_roles_search':
+        return await this.handleLudusRolesDocsRead(args);
+      case 'ludus_environment_guides_search':
+        return await this.handleLudusEnvironmentGuidesSearch(args);
+      case 'ludus_networking_search':
+        return await this.handleLudusNetworkingDocsRead(args);
+      case 'ludus_read_range_config_schema':
+        return await this.handleLudusReadRangeConfigSchema(args);
+      case 'ludus_range_config_check_against_plan':
+        return await this.handleLudusRangeConfigCheckAgainstPlan(args);
+      case 'ludus_read_role_collection_schema':
+        return await this.handleLudusReadRoleCollectionSchema(args);
+      case 'ludus_list_role_collection_schemas':
+        return await this.handleLudusListRoleCollectionSchemas(args);
+      case 'resolve_role_dependencies':
+        return await this.handleResolveRoleDependencies(args);
+      case 'estimate_range_resources':
+        return await this.handleEstimateRangeResources(args);
+      case 'content_sync_status':
+        return await this.handleContentSyncStatus(args);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
   private async handleDeployRange(args: any) {
     const { 
       user, 
+      rangeId,
       configPath, 
       force = false, 
       tags, 
       limit, 
       onlyRoles, 
-      verboseAnsible = false 
+      verboseAnsible = false,
+      skipTemplateCheck = false
     } = args;
     
     this.logger.info('Deploying range', { 
       user, 
+      rangeId,
       configPath, 
       force, 
       tags, 
@@ -253,9 +511,45 @@ class LudusMCPServer {
     }
     
     try {
+      // Refuse to deploy configs that reference templates which are missing or not built yet
+      if (!skipTemplateCheck) {
+        const configContent = await this.loadDeployConfigContent(configPath, user, rangeId);
+        if (configContent) {
+          const templateCheck = await checkConfigTemplates(configContent, this.ludusCliWrapper, this.logger);
+          if (templateCheck.missing.length > 0 || templateCheck.unbuilt.length > 0) {
+            let refusalText = `Range deployment refused: the configuration references templates that are not ready\n\n`;
+            if (templateCheck.missing.length > 0) {
+              refusalText += `Templates not found on server: ${templateCheck.missing.join(', ')}\n`;
+            }
+            if (templateCheck.unbuilt.length > 0) {
+              refusalText += `Templates not built yet: ${templateCheck.unbuilt.join(', ')}\n`;
+            }
+            refusalText += `\nNext Steps:\n`;
+            if (templateCheck.unbuilt.length > 0) {
+              refusalText += `- Build them: templates_build({ names: "${templateCheck.unbuilt.join(',')}" })\n`;
+              refusalText += `- Monitor the build: templates_status()\n`;
+            }
+            if (templateCheck.missing.length > 0) {
+              refusalText += `- Check template names with templates_list() or add them with templates_add()\n`;
+            }
+            refusalText += `- Deploy again once templates_list() shows them as built`;
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: refusalText
+                }
+              ]
+            };
+          }
+        }
+      }
+
       // Build options object, filtering out undefined values
       const deployOptions: any = { force, verboseAnsible };
       if (user !== undefined) deployOptions.user = user;
+      if (rangeId !== undefined) deployOptions.rangeId = rangeId;
       if (configPath !== undefined) deployOptions.configPath = configPath;
       if (tags !== undefined) deployOptions.tags = tags;
       if (limit !== undefined) deployOptions.limit = limit;
@@ -265,7 +559,7 @@ class LudusMCPServer {
       const result = await this.ludusCliWrapper!.deployRange(deployOptions);
       
       if (!result.success) {
-        throw new Error(`Failed to deploy range: ${result.message}`);
+        throw new LudusCommandError(`Failed to deploy range: ${result.message}`, result);
       }
 
       const targetUser = user || 'current user';
@@ -282,126 +576,102 @@ class LudusMCPServer {
                   `- VMs are being created and configured\n` +
                   `- This typically takes 10-30 minutes\n\n` +
                   `Next Steps:\n` +
-                  `- Monitor progress: get_range_status()\n` +
+                  `- Monitor progress: watch_deployment() (poll about once a minute)\n` +
                   `- Get connection info once ready: get_connection_info()\n` +
                   `- Check deployment logs if needed`
           }
         ]
       };
     } catch (error: any) {
+      // A rejected key or a deploy for another user without admin rights: retrying will not help
+      const kindResponse = errorKindResponse(error, user ? { user } : {});
+      if (kindResponse) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Range deployment not started: ${kindResponse.message}\n\n` +
+                    `Next Steps:\n` +
+                    kindResponse.nextSteps.map(step => `- ${step}`).join('\n')
+            }
+          ]
+        };
+      }
+
+      // Another operation holds the range: point at it instead of troubleshooting the deploy
+      if (errorKindOf(error) === 'range_busy') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Range deployment not started: ${error.message}\n\n` +
+                    `The range is busy with another operation, usually a deployment that is still running.\n\n` +
+                    `Next Steps:\n` +
+                    `- Follow the running deployment: watch_deployment()\n` +
+                    `- Stop it if it should be replaced: range_abort()\n` +
+                    `- Deploy again once get_range_status() no longer shows DEPLOYING`
+            }
+          ]
+        };
+      }
+
       return {
         content: [
           {
             type: 'text',
             text: `Range deployment failed: ${error.message}\n\n` +
-                  `Troubleshooting:\n` +
-                  `- Verify configuration file is valid (if provided)\n` +
-                  `- Check if you have permission to deploy ranges\n` +
-                  `- Ensure WireGuard VPN is connected\n` +
-                  `- Try: list_user_ranges() to check current status`
+                  this.formatTroubleshooting(error, [
+                    'Verify configuration file is valid (if provided)',
+                    'Check if you have permission to deploy ranges',
+                    'Ensure WireGuard VPN is connected',
+                    'Try: list_user_ranges() to check current status'
+                  ])
           }
         ]
       };
     }
   }
 
-  private async handleGetRangeStatus(args: any) {
-    const { user } = args;
-    
-    this.logger.info('Getting range status', { user });
-    
+  /**
+   * Load the range config a deployment will use: the provided file, or the user's active config
+   */
+  private async loadDeployConfigContent(configPath: string | undefined, user: string | undefined, rangeId: string | undefined): Promise<string | null> {
     try {
-      const result = await this.ludusCliWrapper!.getRangeStatus(user);
-      
-      if (!result.success) {
-        throw new Error(`Failed to get range status: ${result.message}`);
+      if (configPath) {
+        // deployRange runs the CLI from ~/.ludus-mcp, so resolve relative paths from there
+        return fs.readFileSync(path.resolve(os.homedir(), '.ludus-mcp', configPath), 'utf-8');
       }
 
-      const targetUser = user || 'current user';
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Range Status for ${targetUser}\n\n` +
-                  `${JSON.stringify(result.data, null, 2)}\n\n` +
-                  `Usage:\n` +
-                  `- If deploying: Wait for completion, then use get_connection_info()\n` +
-                  `- If ready: Use get_connection_info() to access VMs\n` +
-                  `- If stopped: Use deploy_range() to deploy a new range`
-          }
-        ]
-      };
+      const result = await this.ludusCliWrapper!.getRangeConfig(user, rangeId);
+      return result.success ? extractRangeConfigYaml(result) : null;
     } catch (error: any) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to get range status: ${error.message}\n\n` +
-                  `Troubleshooting:\n` +
-                  `- Verify the user has a deployed range\n` +
-                  `- Check admin permissions (if querying other users)\n` +
-                  `- Try: list_user_ranges() to see all ranges\n` +
-                  `- Deploy a range first if none exists`
-          }
-        ]
-      };
+      this.logger.warn('Could not load range config for template check', { configPath, user, error: error.message });
+      return null;
     }
   }
 
+  private async handleGetRangeStatus(args: any) {
+    this.logger.info('Getting range status', { user: args?.user });
+
+    return this.runRangeTool('Get range status', () => handleGetRangeStatus(args || {}, this.logger, this.ludusCliWrapper!), result => result.table);
+  }
+
   private async handleListUserRanges(args: any) {
-    const { user } = args;
-    
-    this.logger.info('Listing user ranges', { user });
-    
-    try {
-      const result = await this.ludusCliWrapper!.listUserRanges(user);
-      
-      if (!result.success) {
-        throw new Error(`Failed to list ranges: ${result.message}`);
-      }
+    this.logger.info('Listing user ranges', { user: args?.user });
 
-      const targetUser = user || 'current user';
-      const ranges = result.data;
-      
-      let statusText = `Ranges for ${targetUser}\n\n`;
-      
-      if (Array.isArray(ranges) && ranges.length > 0) {
-        statusText += `Found ${ranges.length} range(s):\n\n`;
-        statusText += JSON.stringify(ranges, null, 2);
-      } else if (ranges) {
-        statusText += `Range information:\n\n`;
-        statusText += JSON.stringify(ranges, null, 2);
-      } else {
-        statusText += `No ranges found.\n\n`;
-        statusText += `Next Steps:\n`;
-        statusText += `- Deploy your first range: deploy_range()\n`;
-        statusText += `- Check available templates: list_templates()`;
-      }
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: statusText
-          }
-        ]
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to list ranges: ${error.message}\n\n` +
-                  `Troubleshooting:\n` +
-                  `- Verify the user exists in Ludus\n` +
-                  `- Check admin permissions (if querying other users)\n` +
-                  `- Ensure WireGuard VPN is connected\n` +
-                  `- Try deploying a range first if none exist`
-          }
-        ]
-      };
-    }
+    return this.runRangeTool('List ranges', () => handleListUserRanges(args || {}, this.logger, this.ludusCliWrapper!), result => result.table || '');
+  }
+
+  private async handleListRanges(args: any) {
+    this.logger.info('Listing ranges', { user: args?.user, all: args?.all });
+
+    return this.runRangeTool('List ranges', () => handleListRanges(args || {}, this.logger, this.ludusCliWrapper!), result => result.table || '');
+  }
+
+  private async handleSetCurrentRange(args: any) {
+    this.logger.info('Setting current range', { rangeId: args?.rangeId, clear: args?.clear });
+
+    return this.runRangeTool('Set current range', () => handleSetCurrentRange(args || {}, this.logger, this.ludusCliWrapper!));
   }
 
   private async handleGetConnectionInfo(args: any) {
@@ -472,26 +742,23 @@ class LudusMCPServer {
   }
 
   private async handleDestroyRange(args: any) {
-    const { user, force = false } = args;
+    const { user, rangeId, force = false } = args;
     
-    this.logger.info('Destroying range', { user, force });
+    this.logger.info('Destroying range', { user, rangeId, force });
     
     try {
       const targetUser = user || 'current user';
       
       // Get current status first
-      const statusResult = await this.ludusCliWrapper!.getRangeStatus(user);
-      let currentStatus = 'unknown';
-      if (statusResult.success && statusResult.data) {
-        currentStatus = typeof statusResult.data === 'object' ? 
-          (statusResult.data.status || 'active') : 'active';
-      }
+      const statusResult = await this.ludusCliWrapper!.getRangeStatus(user, rangeId);
+      const currentRange = statusResult.success ? parseRangeStatus(statusResult.data) : null;
+      const currentStatus = currentRange ? `${currentRange.state}, ${currentRange.vmCount} VM(s)` : 'unknown';
 
       // Destroy the range
-      const result = await this.ludusCliWrapper!.destroyRange(user, force);
+      const result = await this.ludusCliWrapper!.destroyRange(user, force, rangeId);
       
       if (!result.success) {
-        throw new Error(`Failed to stop range: ${result.message}`);
+        throw new LudusCommandError(`Failed to stop range: ${result.message}`, result);
       }
 
       return {
@@ -517,11 +784,12 @@ class LudusMCPServer {
           {
             type: 'text',
             text: `Failed to stop range: ${error.message}\n\n` +
-                  `Troubleshooting:\n` +
-                  `- Verify the user has an active range to stop\n` +
-                  `- Check admin permissions (if stopping other users' ranges)\n` +
-                  `- Try: get_range_status() to check current status\n` +
-                  `- Use force=true if there are confirmation prompts`
+                  this.formatTroubleshooting(error, [
+                    'Verify the user has an active range to stop',
+                    "Check admin permissions (if stopping other users' ranges)",
+                    'Try: get_range_status() to check current status',
+                    'Use force=true if there are confirmation prompts'
+                  ])
           }
         ]
       };
@@ -529,9 +797,9 @@ class LudusMCPServer {
   }
 
   private async handleRangeAbort(args: any) {
-    const { user } = args;
+    const { user, rangeId } = args;
     
-    this.logger.info('Aborting range deployment', { user });
+    this.logger.info('Aborting range deployment', { user, rangeId });
 
     if (!this.ludusCliWrapper) {
       return {
@@ -547,10 +815,10 @@ class LudusMCPServer {
     }
     
     try {
-      const result = await this.ludusCliWrapper.abortRange(user);
+      const result = await this.ludusCliWrapper.abortRange(user, rangeId);
       
       if (!result.success) {
-        throw new Error(`Failed to abort range deployment: ${result.message}`);
+        throw new LudusCommandError(`Failed to abort range deployment: ${result.message}`, result);
       }
 
       const targetUser = user || 'current user';
@@ -567,7 +835,7 @@ class LudusMCPServer {
                   `Next Steps:\n` +
                   `- Check range status: get_range_status()\n` +
                   `- Deploy again if needed: deploy_range()\n` +
-                  `- View logs for issues: range_logs()`
+                  `- Review what ran before the abort: watch_deployment()`
           }
         ]
       };
@@ -577,11 +845,12 @@ class LudusMCPServer {
           {
             type: 'text',
             text: `Failed to abort range deployment: ${error.message}\n\n` +
-                  `Troubleshooting:\n` +
-                  `- Verify there is an active deployment to abort\n` +
-                  `- Check admin permissions (if aborting other users' deployments)\n` +
-                  `- Try: get_range_status() to check current status\n` +
-                  `- Check deployment logs for more details`
+                  this.formatTroubleshooting(error, [
+                    'Verify there is an active deployment to abort',
+                    "Check admin permissions (if aborting other users' deployments)",
+                    'Try: get_range_status() to check current status',
+                    'Check deployment logs for more details'
+                  ])
           }
         ]
       };
@@ -610,7 +879,7 @@ class LudusMCPServer {
       const result = await this.ludusCliWrapper.getTags(user);
       
       if (!result.success) {
-        throw new Error(`Failed to get deployment tags: ${result.message}`);
+        throw new LudusCommandError(`Failed to get deployment tags: ${result.message}`, result);
       }
 
       const targetUser = user || 'current user';
@@ -639,11 +908,12 @@ class LudusMCPServer {
           {
             type: 'text',
             text: `Failed to get deployment tags: ${error.message}\n\n` +
-                  `Troubleshooting:\n` +
-                  `- Verify you have a configured range\n` +
-                  `- Check admin permissions (if getting tags for other users)\n` +
-                  `- Try: get_range_status() to check range configuration\n` +
-                  `- Ensure range configuration is valid`
+                  this.formatTroubleshooting(error, [
+                    'Verify you have a configured range',
+                    'Check admin permissions (if getting tags for other users)',
+                    'Try: get_range_status() to check range configuration',
+                    'Ensure range configuration is valid'
+                  ])
           }
         ]
       };
@@ -698,7 +968,9 @@ class LudusMCPServer {
             type: 'text',
             text: `${status} Ludus CLI Command: \`${fullCommand}\`\n` +
                   `👤 User: ${targetUser}\n` +
-                  `Status: ${result.success ? 'SUCCESS' : 'FAILED'}\n\n` +
+                  `Status: ${result.success ? 'SUCCESS' : 'FAILED'}${result.timedOut ? ' (timed out; output is partial)' : ''}\n` +
+                  `${result.exitCode !== undefined ? `Exit code: ${result.exitCode}\n` : ''}` +
+                  `${result.errorKind ? `Error type: ${describeErrorKind(result.errorKind)}\n` : ''}\n` +
                   `Output:\n` +
                   `\`\`\`\n${result.rawOutput || result.message}\n\`\`\`\n\n` +
                   `Use this output to:\n` +
@@ -837,9 +1109,8 @@ class LudusMCPServer {
           {
             type: 'text',
             text: result.success 
-              ? `All Users Retrieved\n\n` +
-                `**User Data:**\n` +
-                `\`\`\`json\n${JSON.stringify(result.users, null, 2)}\n\`\`\`\n\n` +
+              ? `${result.message}\n\n` +
+                (result.table ? `${result.table}\n\n` : '') +
                 `**Usage Notes:**\n` +
                 result.usage?.map((note: string) => `- ${note}`).join('\n') || ''
               : `Failed to list all users: ${result.message}\n\n` +
@@ -866,6 +1137,43 @@ class LudusMCPServer {
     }
   }
 
+  private async handleGroupList(args: any) {
+    this.logger.info('Listing groups', { group: args?.group });
+    const formatData = (data: any) => typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    return this.runRangeTool('Group list', () => handleGroupList(args || {}, this.logger, this.ludusCliWrapper!), (result) =>
+      result.group
+        ? `**Members:**\n${formatData(result.members)}\n\n**Ranges:**\n${formatData(result.ranges)}`
+        : formatData(result.groups)
+    );
+  }
+
+  private async handleGroupCreate(args: any) {
+    this.logger.info('Creating group', { name: args?.name });
+    return this.runRangeTool('Group create', () => handleGroupCreate(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleGroupDelete(args: any) {
+    this.logger.info('Deleting group', { name: args?.name });
+    return this.runRangeTool('Group delete', () => handleGroupDelete(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleGroupMembers(args: any) {
+    this.logger.info('Updating group members', { action: args?.action, group: args?.group, users: args?.users });
+    return this.runRangeTool('Group members', () => handleGroupMembers(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleGroupRanges(args: any) {
+    this.logger.info('Updating group ranges', { action: args?.action, group: args?.group, rangeIds: args?.rangeIds });
+    return this.runRangeTool('Group ranges', () => handleGroupRanges(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleRangeAccess(args: any) {
+    this.logger.info('Managing range access', { action: args?.action, targetUser: args?.targetUser, sourceUser: args?.sourceUser });
+    return this.runRangeTool('Range access', () => handleRangeAccess(args, this.logger, this.ludusCliWrapper!), (result) =>
+      result.action === 'list' ? (typeof result.access === 'string' ? result.access : JSON.stringify(result.access, null, 2)) : ''
+    );
+  }
+
   private async handleReadRangeConfig(args: any) {
     this.logger.info('Reading range configuration', { args });
     
@@ -975,7 +1283,7 @@ class LudusMCPServer {
     this.logger.info('Validating range configuration', { args });
     
     try {
-      const result = await handleValidateRangeConfig(args, this.logger);
+      const result = await handleValidateRangeConfig(args, this.logger, this.ludusCliWrapper || undefined);
 
       return {
         content: [
@@ -984,6 +1292,10 @@ class LudusMCPServer {
             text: result.success 
               ? `Range Configuration Validation Results\n\n` +
                 `**Source:** ${result.source}\n` +
+                (result.schema_source
+                  ? `**Schema:** ${result.schema_source.type} ${result.schema_source.version}` +
+                    (result.schema_source.fetchedAt ? ` (fetched ${result.schema_source.fetchedAt})` : '') + `\n`
+                  : '') +
                 `**Valid:** ${result.validation.valid ? 'YES' : 'NO'}\n` +
                 `**Errors:** ${result.validation.errors.length}\n` +
                 `**Warnings:** ${result.validation.warnings.length}\n\n` +
@@ -1157,6 +1469,12 @@ class LudusMCPServer {
               text: `${configType} Retrieved Successfully\n\n` +
                     `**Configuration Content:**\n` +
                     `\`\`\`yaml\n${result.content}\n\`\`\`\n\n` +
+                    (result.lint
+                      ? `**Lint:** ${result.lint.errorCount} error(s), ${result.lint.warningCount} warning(s)\n` +
+                        result.lint.findings.map((finding: LintFinding) => `- ${finding.severity.toUpperCase()} ${formatLintFinding(finding)}`).join('\n') +
+                        (result.lint.findings.length > 0 ? '\n\n' : '\n')
+                      : '') +
+                    (result.lintError ? `**Lint:** ${result.lintError}\n\n` : '') +
                     ` **Next Steps:**\n` +
                     `- Use write_range_config to save modifications\n` +
                     `- Use validate_range_config to check schema compliance\n` +
@@ -1237,6 +1555,41 @@ class LudusMCPServer {
     }
   }
 
+  private async handleDiffRangeConfig(args: any) {
+    this.logger.info('Diffing range configurations', { from: args?.from, to: args?.to, user: args?.user });
+
+    // Local-only comparisons work before the CLI wrapper is ready; "active" needs it
+    const result = await handleDiffRangeConfig(args || {}, this.logger, this.ludusCliWrapper || undefined);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Range config diff failed: \`${result.message}\`\n\n` +
+                  `Troubleshooting:\n` +
+                  result.troubleshooting.map((tip: string) => `- ${tip}`).join('\n')
+          }
+        ]
+      };
+    }
+
+    let responseText = `Range Configuration Diff\n\n**From:** ${result.from}\n**To:** ${result.to}\n${result.message}\n\n` +
+                       `${formatRangeConfigDiff(result.diff)}\n\n`;
+    if (result.nextSteps.length > 0) {
+      responseText += `Next Steps:\n${result.nextSteps.map((step: string) => `- ${step}`).join('\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        }
+      ]
+    };
+  }
+
   private async handleLudusPower(args: any) {
     this.logger.info('Executing power management command', { action: args.action, user: args.user });
     
@@ -1295,7 +1648,7 @@ class LudusMCPServer {
             ]
           };
         } else {
-          throw new Error(result.message);
+          throw new LudusCommandError(result.message, result);
         }
       }
     } catch (error: any) {
@@ -1305,11 +1658,557 @@ class LudusMCPServer {
           {
             type: 'text',
             text: `Power management failed: \`${error.message}\`\n\n` +
+                  this.formatTroubleshooting(error, [
+                    'Verify the user has a deployed range',
+                    'Check if you have admin permissions (if managing other users)',
+                    'Ensure the range exists and is accessible',
+                    'Try get_range_status() to check current range state',
+                    'Use ludus_help() for more information'
+                  ])
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleSnapshotList(args: any) {
+    this.logger.info('Listing snapshots', { user: args?.user });
+    return this.runRangeTool('Snapshot list', () => handleSnapshotList(args || {}, this.logger, this.ludusCliWrapper!), (result) =>
+      typeof result.snapshots === 'string' ? result.snapshots : JSON.stringify(result.snapshots, null, 2)
+    );
+  }
+
+  private async handleSnapshotCreate(args: any) {
+    this.logger.info('Creating snapshot', { name: args?.name, user: args?.user, vmIds: args?.vmIds });
+    return this.runRangeTool('Snapshot create', () => handleSnapshotCreate(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleSnapshotRevert(args: any) {
+    this.logger.info('Reverting snapshot', { name: args?.name, user: args?.user, vmIds: args?.vmIds });
+    return this.runRangeTool('Snapshot revert', () => handleSnapshotRevert(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleSnapshotRemove(args: any) {
+    this.logger.info('Removing snapshot', { name: args?.name, user: args?.user, vmIds: args?.vmIds });
+    return this.runRangeTool('Snapshot remove', () => handleSnapshotRemove(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTestingStart(args: any) {
+    this.logger.info('Starting testing mode', { user: args?.user });
+    return this.runRangeTool('Testing start', () => handleTestingStart(args || {}, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTestingStop(args: any) {
+    this.logger.info('Stopping testing mode', { user: args?.user, force: args?.force });
+    return this.runRangeTool('Testing stop', () => handleTestingStop(args || {}, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTestingAllow(args: any) {
+    this.logger.info('Allowing testing destinations', { domains: args?.domains, ips: args?.ips, user: args?.user });
+    return this.runRangeTool('Testing allow', () => handleTestingAllow(args || {}, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTestingDeny(args: any) {
+    this.logger.info('Denying testing destinations', { domains: args?.domains, ips: args?.ips, user: args?.user });
+    return this.runRangeTool('Testing deny', () => handleTestingDeny(args || {}, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTestingStatus(args: any) {
+    this.logger.info('Getting testing mode status', { user: args?.user });
+    return this.runRangeTool('Testing status', () => handleTestingStatus(args || {}, this.logger, this.ludusCliWrapper!), (result) =>
+      `Allowed Domains: ${result.allowedDomains.length > 0 ? result.allowedDomains.join(', ') : 'none'}\n` +
+      `Allowed IPs: ${result.allowedIPs.length > 0 ? result.allowedIPs.join(', ') : 'none'}`
+    );
+  }
+
+  private async handleTemplatesList(args: any) {
+    this.logger.info('Listing templates');
+    return this.runRangeTool('Template list', () => handleTemplatesList(args || {}, this.logger, this.ludusCliWrapper!), (result) =>
+      result.templates.map((t: any) => `${t.built ? '[built]    ' : '[NOT BUILT]'} ${t.name}`).join('\n')
+    );
+  }
+
+  private async handleTemplatesBuild(args: any) {
+    this.logger.info('Building templates', { names: args?.names, parallel: args?.parallel });
+    return this.runRangeTool('Template build', () => handleTemplatesBuild(args || {}, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTemplatesStatus(args: any) {
+    this.logger.info('Getting template build status');
+    return this.runRangeTool('Template status', () => handleTemplatesStatus(args || {}, this.logger, this.ludusCliWrapper!), (result) => {
+      let details = result.building.length > 0 ? `Building:\n${JSON.stringify(result.building, null, 2)}` : '';
+      if (result.logs) {
+        details += `${details ? '\n\n' : ''}Recent build log:\n${result.logs}`;
+      }
+      return details || 'No build activity';
+    });
+  }
+
+  private async handleTemplatesAdd(args: any) {
+    this.logger.info('Adding template', { directory: args?.directory, force: args?.force });
+    return this.runRangeTool('Template add', () => handleTemplatesAdd(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleTemplatesRemove(args: any) {
+    this.logger.info('Removing template', { name: args?.name });
+    return this.runRangeTool('Template remove', () => handleTemplatesRemove(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleAnsibleRoleList(args: any) {
+    this.logger.info('Listing Ansible roles', { user: args?.user });
+    return this.runRangeTool('Ansible role list', () => handleAnsibleRoleList(args || {}, this.logger, this.ludusCliWrapper!), (result) => {
+      const formatItem = (item: any) => `- ${item.name}${item.version ? ` (${item.version})` : ''}${item.global ? ' [global]' : ''}`;
+      return `Roles:\n${result.roles.length > 0 ? result.roles.map(formatItem).join('\n') : '- none'}\n\n` +
+             `Collections:\n${result.collections.length > 0 ? result.collections.map(formatItem).join('\n') : '- none'}`;
+    });
+  }
+
+  private async handleAnsibleRoleAdd(args: any) {
+    this.logger.info('Adding Ansible role', { source: args?.source, user: args?.user });
+    return this.runRangeTool('Ansible role add', () => handleAnsibleRoleAdd(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleAnsibleRoleRemove(args: any) {
+    this.logger.info('Removing Ansible role', { name: args?.name, user: args?.user });
+    return this.runRangeTool('Ansible role remove', () => handleAnsibleRoleRemove(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleAnsibleCollectionAdd(args: any) {
+    this.logger.info('Adding Ansible collection', { name: args?.name, user: args?.user });
+    return this.runRangeTool('Ansible collection add', () => handleAnsibleCollectionAdd(args, this.logger, this.ludusCliWrapper!));
+  }
+
+  private async handleResolveRoleDependencies(args: any) {
+    this.logger.info('Resolving role dependencies', { source: args?.source, user: args?.user });
+
+    // Works offline from local schemas; the installed-role check needs the CLI wrapper
+    const result = await handleResolveRoleDependencies(args || {}, this.logger, this.ludusCliWrapper || undefined);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Role dependency resolution failed: \`${result.message}\`\n\n` +
+                  `Troubleshooting:\n` +
+                  result.troubleshooting.map((tip: string) => `- ${tip}`).join('\n')
+          }
+        ]
+      };
+    }
+
+    const report = result.report;
+    let responseText = `Role Dependency Resolution\n\n**Source:** ${result.source}\n${result.message}\n\n`;
+
+    if (report.vms.length > 0) {
+      responseText += `**Per-VM roles (dependencies first):**\n`;
+      report.vms.forEach((vm: any) => {
+        responseText += `- ${vm.vm_name}: ${vm.resolved.join(' -> ')}\n`;
+      });
+      responseText += `\n`;
+    }
+    if (report.orderingProblems.length > 0) {
+      responseText += `**Ordering Problems:**\n${report.orderingProblems.map((p: any) => `- ${p.message}`).join('\n')}\n\n`;
+    }
+    if (report.cycles.length > 0) {
+      responseText += `**Dependency Cycles:**\n${report.cycles.map((c: string[]) => `- ${c.join(' -> ')}`).join('\n')}\n\n`;
+    }
+    if (report.missingInstalls.length > 0) {
+      responseText += `**Not Installed on Server:**\n` +
+        report.missingInstalls.map((m: any) => `- ${m.role} (required by ${m.requiredBy.join(', ')})${m.installation_method ? ` - ${m.installation_method}` : ''}`).join('\n') + `\n\n`;
+    } else if (report.installCheck !== 'checked') {
+      responseText += `Installed-role check ${report.installCheck === 'skipped' ? 'skipped' : 'unavailable (could not reach server)'}\n\n`;
+    }
+    if (report.unknownRoles.length > 0) {
+      responseText += `**No Local Schema:** ${report.unknownRoles.join(', ')}\n\n`;
+    }
+    if (report.warnings.length > 0) {
+      responseText += `**Warnings:**\n${report.warnings.map((w: string) => `- ${w}`).join('\n')}\n\n`;
+    }
+    if (result.nextSteps.length > 0) {
+      responseText += `Next Steps:\n${result.nextSteps.map((step: string) => `- ${step}`).join('\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        }
+      ]
+    };
+  }
+
+  private async handleContentSyncStatus(args: any) {
+    this.logger.info('Reporting content sync status', { refresh: args?.refresh, caches: args?.caches });
+
+    const result = await handleContentSyncStatus(args || {}, this.logger);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Content sync status failed: \`${result.message}\`\n\n` +
+                  `Troubleshooting:\n` +
+                  result.troubleshooting.map((tip: string) => `- ${tip}`).join('\n')
+          }
+        ]
+      };
+    }
+
+    const formatAge = (ageHours?: number) => ageHours === undefined ? 'never fetched' : ageHours < 48 ? `${ageHours}h` : `${Math.round(ageHours / 24)}d`;
+
+    let responseText = `Content Sync Status\n\n${result.message}\n\n`;
+    if (result.refreshed.length > 0) {
+      responseText += `**Refreshed:** ${result.refreshed.join(', ')}\n`;
+      if (result.refreshErrors.length > 0) {
+        responseText += `**Refresh errors:**\n${result.refreshErrors.map((error: string) => `- ${error}`).join('\n')}\n`;
+      }
+      responseText += '\n';
+    }
+
+    responseText += `| Cache | Files | Source | Revision | Fetched | Age | Status |\n|---|---|---|---|---|---|---|\n`;
+    result.caches.forEach((cache: any) => {
+      const status = !cache.exists ? 'MISSING' : cache.fresh ? 'fresh' : 'stale';
+      const sources = (cache.usedSources || cache.sources).join(' + ');
+      responseText += `| ${cache.name} | ${cache.fileCount} | ${sources} | ${cache.revision ? shortRevision(cache.revision) : 'unknown'} | ${cache.fetchedAt || '-'} | ${formatAge(cache.ageHours)} | ${status} |\n`;
+    });
+    const schema = result.rangeConfigSchema;
+    responseText += `| range-config schema | 1 | ${schema.url || 'not downloaded'} | ${schema.version || 'bundled'} | ${schema.fetchedAt || '-'} | ${formatAge(schema.ageHours)} | ${schema.fetchedAt ? (schema.fresh ? 'fresh' : 'stale') : 'bundled fallback'} |\n\n`;
+
+    responseText += `**Configured sources:**\n`;
+    result.caches.forEach((cache: any) => {
+      responseText += `- ${cache.name} (${cache.mode}, from ${cache.configuredBy}${cache.sourcesChanged ? ', changed since last sync' : ''}): ${cache.sources.join(', ')}\n`;
+    });
+    responseText += '\n';
+
+    const failing = result.caches.filter((cache: any) => cache.lastError);
+    if (failing.length > 0) {
+      responseText += `**Last refresh errors:**\n${failing.map((cache: any) => `- ${cache.name} (${cache.lastAttemptAt}): ${cache.lastError}`).join('\n')}\n\n`;
+    }
+    if (result.nextSteps.length > 0) {
+      responseText += `Next Steps:\n${result.nextSteps.map((step: string) => `- ${step}`).join('\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        }
+      ]
+    };
+  }
+
+  private async handleEstimateRangeResources(args: any) {
+    this.logger.info('Estimating range resources', { source: args?.source, user: args?.user });
+
+    const result = await handleEstimateRangeResources(args || {}, this.logger, this.ludusCliWrapper || undefined);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Resource estimate failed: \`${result.message}\`\n\n` +
+                  `Troubleshooting:\n` +
+                  result.troubleshooting.map((tip: string) => `- ${tip}`).join('\n')
+          }
+        ]
+      };
+    }
+
+    const estimate = result.estimate;
+    let responseText = `Range Resource Estimate\n\n**Source:** ${result.source}\n${result.message}\n\n`;
+
+    responseText += `| VM | Template | RAM (GB) | CPUs | Disk (GB) | Deploy (min) |\n|---|---|---|---|---|---|\n`;
+    estimate.vms.forEach((vm: any) => {
+      responseText += `| ${vm.vm_name} | ${vm.template} | ${vm.ram_gb} | ${vm.cpus} | ${vm.disk_gb} | ${vm.deploy_minutes} |\n`;
+    });
+    responseText += `| **Total** | ${estimate.totals.windowsVms} Windows / ${estimate.totals.linuxVms} Linux | ${estimate.totals.ram_gb} | ${estimate.totals.cpus} | ${estimate.totals.disk_gb} | ${estimate.deployMinutes.low}-${estimate.deployMinutes.high} |\n\n`;
+
+    if (estimate.capacity.length > 0) {
+      responseText += `**Host Capacity:**\n${estimate.capacity.map((check: any) => `- ${check.status.toUpperCase()} ${check.message}`).join('\n')}\n\n`;
+    }
+    responseText += `**Assumptions:**\n${estimate.assumptions.map((assumption: string) => `- ${assumption}`).join('\n')}\n\n`;
+    if (result.nextSteps.length > 0) {
+      responseText += `Next Steps:\n${result.nextSteps.map((step: string) => `- ${step}`).join('\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        }
+      ]
+    };
+  }
+
+  private async handleWatchDeployment(args: any) {
+    this.logger.info('Watching deployment', { user: args?.user });
+    return this.runRangeTool('Watch deployment', () => handleWatchDeployment(args || {}, this.logger, this.ludusCliWrapper!), (result) => {
+      let details = '';
+      if (result.currentPlay) {
+        details += `**Current:** PLAY [${result.currentPlay}]${result.currentTask ? ` > TASK [${result.currentTask}]` : ''}\n`;
+      }
+      details += `**Progress:** ${result.playCount} plays, ${result.taskCount} tasks${result.elapsed ? `, elapsed ${result.elapsed}` : ''}\n\n`;
+
+      if (result.hosts.length > 0) {
+        details += `| VM | Phase | Last task | ok | changed | failed | State |\n|---|---|---|---|---|---|---|\n`;
+        result.hosts.forEach((host: any) => {
+          details += `| ${host.host} | ${host.phase} | ${host.lastTask || '-'} | ${host.ok} | ${host.changed} | ${host.failed + host.unreachable} | ${host.state} |\n`;
+        });
+        details += '\n';
+      }
+
+      if (result.failedHosts.length > 0) {
+        details += `**Failed tasks:**\n${result.failedHosts.map((failure: any) => `- ${failure.host}${failure.kind === 'unreachable' ? ' (UNREACHABLE)' : ''}: ${failure.task} - ${failure.message}`).join('\n')}\n\n`;
+      }
+
+      if (result.recap.length > 0) {
+        details += `**PLAY RECAP:**\n${result.recap.map((entry: any) => `- ${entry.host}: ok=${entry.ok} changed=${entry.changed} unreachable=${entry.unreachable} failed=${entry.failed} skipped=${entry.skipped} rescued=${entry.rescued}`).join('\n')}\n\n`;
+      }
+
+      if (result.tail) {
+        details += `**Log tail:**\n\`\`\`\n${result.tail}\n\`\`\`\n`;
+      }
+      return details.trimEnd();
+    });
+  }
+
+  private async handleDiagnoseDeployment(args: any) {
+    this.logger.info('Diagnosing deployment', { user: args?.user });
+
+    if (!this.ludusCliWrapper && !args?.logContent) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Server not fully initialized yet. Please wait a moment and try again, or pass logContent to analyze a log directly.`
+          }
+        ]
+      };
+    }
+
+    const result = await handleDiagnoseDeployment(args || {}, this.logger, this.ludusCliWrapper || undefined);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Deployment diagnosis failed: \`${result.message}\`\n\n` +
+                  `Troubleshooting:\n` +
+                  result.troubleshooting.map((tip: string) => `- ${tip}`).join('\n')
+          }
+        ]
+      };
+    }
+
+    let responseText = `Deployment Diagnosis\n\n${result.message}\n\n`;
+    if (result.recoveredHosts.length > 0) {
+      responseText += `Ignored failures on ${result.recoveredHosts.join(', ')} (rescued or ignored; the recap shows them clean)\n\n`;
+    }
+
+    result.diagnoses.forEach((diagnosis: any, index: number) => {
+      responseText += `### ${index + 1}. ${diagnosis.title} (\`${diagnosis.rule}\`)\n`;
+      if (diagnosis.hosts.length > 0) responseText += `**VMs:** ${diagnosis.hosts.join(', ')}\n`;
+      if (diagnosis.task) responseText += `**Task:** ${diagnosis.task}\n`;
+      responseText += `**Error:**\n${diagnosis.messages.map((message: string) => `- ${message}`).join('\n')}\n`;
+      responseText += `**Likely cause:** ${diagnosis.cause}\n`;
+      responseText += `**Fix:**\n${diagnosis.fix.map((step: string) => `- ${step}`).join('\n')}\n`;
+      if (diagnosis.docs.length > 0) {
+        responseText += `**Docs:** ${diagnosis.docs.map((doc: any) => `\`${doc.path}\` (${doc.heading})`).join(', ')}\n`;
+      }
+      responseText += `**Retry:** ${diagnosis.retry.prerequisites.length > 0 ? `${diagnosis.retry.prerequisites.join('; ')}, then ` : ''}\`${diagnosis.retry.command}\`\n`;
+      if (diagnosis.blocks) {
+        responseText += `\n\`\`\`\n${diagnosis.blocks.join('\n\n')}\n\`\`\`\n`;
+      }
+      responseText += '\n';
+    });
+
+    if (result.recommendedRetry && result.diagnoses.length > 1) {
+      const retry = result.recommendedRetry;
+      responseText += `**Recommended retry (all problems):** ${retry.prerequisites.length > 0 ? `${retry.prerequisites.join('; ')}, then ` : ''}\`${retry.command}\`\n\n`;
+    }
+    if (result.nextSteps.length > 0) {
+      responseText += `Next Steps:\n${result.nextSteps.map((step: string) => `- ${step}`).join('\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        }
+      ]
+    };
+  }
+
+  private async handlePlanRedeploy(args: any) {
+    this.logger.info('Planning targeted redeploy', { from: args?.from, to: args?.to, user: args?.user });
+
+    // Local-only comparisons work before the CLI wrapper is ready; "active" and tag checks need it
+    const result = await handlePlanRedeploy(args || {}, this.logger, this.ludusCliWrapper || undefined);
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Redeploy planning failed: \`${result.message}\`\n\n` +
+                  `Troubleshooting:\n` +
+                  result.troubleshooting.map((tip: string) => `- ${tip}`).join('\n')
+          }
+        ]
+      };
+    }
+
+    const plan = result.plan;
+    let responseText = `Redeploy Plan\n\n**From:** ${result.from}\n**To:** ${result.to}\n${result.message}\n\n`;
+
+    if (plan.reasons.length > 0) {
+      responseText += `**Changes:**\n` +
+                      plan.reasons.map((reason: any) =>
+                        `- ${reason.scope}: ${reason.change} -> ${reason.tags === null ? 'all tags' : reason.tags.length > 0 ? reason.tags.join(', ') : 'no redeploy'}`
+                      ).join('\n') + '\n\n';
+    }
+    if (plan.needed) {
+      responseText += `**deploy_range arguments:**\n` +
+                      `- limit: ${plan.deployArgs.limit || '(all VMs)'}\n` +
+                      `- tags: ${plan.deployArgs.tags || '(all tags)'}\n` +
+                      `- onlyRoles: ${plan.deployArgs.onlyRoles || '(all roles)'}\n\n`;
+    }
+    if (plan.warnings.length > 0) {
+      responseText += `**Warnings:**\n${plan.warnings.map((warning: string) => `- ${warning}`).join('\n')}\n\n`;
+    }
+    if (result.nextSteps.length > 0) {
+      responseText += `Next Steps:\n${result.nextSteps.map((step: string) => `- ${step}`).join('\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        }
+      ]
+    };
+  }
+
+  /**
+   * Shared formatting for range tools that return the standard
+   * { success, message, help, confirmationRequired, nextSteps, troubleshooting } shape
+   */
+  private async runRangeTool(operation: string, run: () => Promise<any>, formatDetails?: (result: any) => string) {
+    if (!this.ludusCliWrapper) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Server not fully initialized yet. Please wait a moment and try again.\n\n` +
+                  `The server is still setting up connections and validating credentials.\n` +
+                  `This usually takes 10-30 seconds after startup.`
+          }
+        ]
+      };
+    }
+
+    try {
+      const result = await run();
+
+      if (result.help) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${result.message}\n\n${result.content}`
+            }
+          ]
+        };
+      }
+
+      if (result.confirmationRequired) {
+        let confirmText = `${result.message}\n\n`;
+        confirmText += `Reason: ${result.reason}\n\n`;
+        confirmText += `To proceed:\n`;
+        result.instructions.forEach((instruction: string) => {
+          confirmText += `- ${instruction}\n`;
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: confirmText
+            }
+          ]
+        };
+      }
+
+      if (result.success) {
+        let responseText = `${result.message}\n\n`;
+
+        if (formatDetails) {
+          responseText += `${formatDetails(result)}\n\n`;
+        }
+
+        if (result.nextSteps && result.nextSteps.length > 0) {
+          responseText += `Next Steps:\n`;
+          result.nextSteps.forEach((step: string) => {
+            responseText += `- ${step}\n`;
+          });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseText
+            }
+          ]
+        };
+      }
+
+      let errorText = `${operation} failed: \`${result.message}\`\n\n`;
+      if (result.errorKind && result.errorKind !== 'unknown') {
+        errorText += `Error type: ${describeErrorKind(result.errorKind)}\n\n`;
+      }
+      // Set for failures the user has to act on (errorKindResponse): key, permissions, missing objects
+      if (result.nextSteps && result.nextSteps.length > 0) {
+        errorText += `Next Steps:\n`;
+        result.nextSteps.forEach((step: string) => {
+          errorText += `- ${step}\n`;
+        });
+        errorText += `\n`;
+      }
+      if (result.troubleshooting && result.troubleshooting.length > 0) {
+        errorText += `Troubleshooting:\n`;
+        result.troubleshooting.forEach((tip: string) => {
+          errorText += `- ${tip}\n`;
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: errorText
+          }
+        ]
+      };
+    } catch (error: any) {
+      this.logger.error(`${operation} failed`, { error: error.message });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${operation} failed: \`${error.message}\`\n\n` +
                   `Troubleshooting:\n` +
                   `- Verify the user has a deployed range\n` +
                   `- Check if you have admin permissions (if managing other users)\n` +
-                  `- Ensure the range exists and is accessible\n` +
-                  `- Try get_range_status() to check current range state\n` +
                   `- Use ludus_help() for more information`
           }
         ]
@@ -1647,10 +2546,10 @@ class LudusMCPServer {
   }
 
   private async handleLudusRolesDocsRead(args: any) {
-    this.logger.info('Reading Ludus roles docs');
+    this.logger.info('Reading Ludus roles docs', { query: args.search_query });
 
     try {
-      return await handleLudusRolesDocsRead(args);
+      return await handleLudusRolesDocsRead(args, this.logger);
     } catch (error: any) {
       this.logger.error('Failed to read roles docs', { error: error.message });
       return {
@@ -1707,7 +2606,7 @@ class LudusMCPServer {
     this.logger.info('Searching Ludus networking docs', { action: args.action, query: args.search_query });
 
     try {
-      return await handleLudusNetworkingDocsRead(args);
+      return await handleLudusNetworkingDocsRead(args, this.logger);
     } catch (error: any) {
       this.logger.error('Failed to read networking docs', { error: error.message });
       return {
@@ -1729,7 +2628,7 @@ class LudusMCPServer {
     this.logger.info('Reading range configuration schema', { args });
     
     try {
-      return await handleLudusReadRangeConfigSchema(args);
+      return await handleLudusReadRangeConfigSchema(args, this.logger);
     } catch (error: any) {
       this.logger.error('Failed to read range configuration schema', { error: error.message });
       return {
@@ -2013,11 +2912,15 @@ class LudusMCPServer {
     }
 
     this.logger.info('Ludus MCP Server initialized successfully');
-    console.error('Ludus MCP Server running with 27 tools available');
-    console.error('Range Management: deploy_range, get_range_status, list_user_ranges, get_connection_info, destroy_range, range_abort, ludus_power');
-    console.error('Configuration Tools: read_range_config, write_range_config, validate_range_config, list_range_configs, get_range_config, set_range_config');
-    console.error('Utility Tools: get_tags, ludus_cli_execute, ludus_help, list_all_users, get_credential_from_user, insert_creds_range_config, ludus_docs_search');
-    console.error('Search & Planning: ludus_range_planner, ludus_roles_search, ludus_environment_guides_search, ludus_networking_search, ludus_read_range_config_schema, ludus_range_config_check_against_plan, ludus_read_role_collection_schema');
+    console.error('Ludus MCP Server running with 61 tools available');
+    console.error('Range Management: deploy_range, get_range_status, list_user_ranges, list_ranges, set_current_range, get_connection_info, destroy_range, range_abort, watch_deployment, diagnose_deployment, ludus_power, snapshot_list, snapshot_create, snapshot_revert, snapshot_remove');
+    console.error('Testing Mode: testing_start, testing_stop, testing_allow, testing_deny, testing_status');
+    console.error('Templates: templates_list, templates_build, templates_status, templates_add, templates_remove');
+    console.error('Ansible: ansible_role_list, ansible_role_add, ansible_role_remove, ansible_collection_add');
+    console.error('Configuration Tools: read_range_config, write_range_config, validate_range_config, list_range_configs, get_range_config, set_range_config, diff_range_config, plan_redeploy');
+    console.error('Users & Sharing: group_list, group_create, group_delete, group_members, group_ranges, range_access');
+    console.error('Utility Tools: get_tags, ludus_cli_execute, ludus_help, list_all_users, get_credential_from_user, insert_creds_range_config, ludus_docs_search, content_sync_status');
+    console.error('Search & Planning: ludus_range_planner, ludus_roles_search, ludus_environment_guides_search, ludus_networking_search, ludus_read_range_config_schema, ludus_range_config_check_against_plan, ludus_read_role_collection_schema, resolve_role_dependencies, estimate_range_resources');
     console.error('Base configs synced: ~/.ludus-mcp/range-config-templates/base-configs/ (from GitHub)');
     console.error('Schemas synced: ~/.ludus-mcp/schemas/ (GitHub + docs.ludus.cloud)');
     console.error('Documentation cached: ~/.ludus-mcp/ludus-docs/');
@@ -2025,6 +2928,7 @@ class LudusMCPServer {
 
   private async shutdown(): Promise<void> {
     this.logger.info('Shutting down Ludus MCP Server');
+    this.resourceSubscriptions.stop();
     
     if (this.ludusCliWrapper) {
       await this.ludusCliWrapper.cleanup();
@@ -2055,6 +2959,15 @@ class LudusMCPServer {
     }
   }
 
+  private setupLoggingHandlers(): void {
+    // Minimum level of the log messages the client wants (streamed command output is 'info')
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.clientLogLevel = request.params.level;
+      this.logger.info('Client log level set', { level: this.clientLogLevel });
+      return {};
+    });
+  }
+
   private setupPromptHandlers(): void {
     // List available prompts
     this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
@@ -2078,6 +2991,39 @@ class LudusMCPServer {
       throw new Error(`Unknown prompt: ${promptName}`);
     });
   }
+
+  private setupResourceHandlers(): void {
+    // Local configs, schemas and docs, plus the current user's range
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await listLudusResources(this.logger, this.ludusConfig?.adminUser)
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: ALL_RESOURCE_TEMPLATES
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const contents = await readLudusResource(request.params.uri, this.logger, this.ludusCliWrapper);
+      return {
+        contents: [contents]
+      };
+    });
+
+    // Subscribed resources are polled; changes are sent as notifications/resources/updated
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.resourceSubscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
 }
 
 // Handle CLI arguments
@@ -0,0 +1,529 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+
+export interface AnsibleRoleListArgs {
+  user?: string;
+  help?: boolean;
+}
+
+export interface AnsibleRoleAddArgs {
+  source: string;
+  version?: string;
+  force?: boolean;
+  global?: boolean;
+  user?: string;
+  help?: boolean;
+}
+
+export interface AnsibleRoleRemoveArgs {
+  name: string;
+  global?: boolean;
+  user?: string;
+  confirmDestructiveAction?: boolean;
+  help?: boolean;
+}
+
+export interface AnsibleCollectionAddArgs {
+  name: string;
+  version?: string;
+  force?: boolean;
+  user?: string;
+  help?: boolean;
+}
+
+export interface InstalledAnsibleItem {
+  name: string;
+  version?: string;
+  type: 'role' | 'collection';
+  global: boolean;
+}
+
+export interface RoleInstallCheckResult {
+  checked: boolean;         // false when the installed list could not be retrieved
+  referenced: string[];     // roles referenced by the config
+  notInstalled: string[];   // referenced roles not found on the server
+  message?: string;
+}
+
+export function createAnsibleRoleListTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'ansible_role_list',
+    description: 'List Ansible roles and collections installed on the Ludus server, including version and whether they are global or user-scoped.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID to list roles for (admin only). If omitted, lists roles for current user.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus ansible role list command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createAnsibleRoleAddTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'ansible_role_add',
+    description: 'Install an Ansible role on the Ludus server from Ansible Galaxy (e.g., "badsectorlabs.ludus_adcs"), a git URL, or a local directory. Use the installation_method from ludus_read_role_collection_schema to pick the right source.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description: 'Galaxy role name, git URL, or path to a local role directory'
+        },
+        version: {
+          type: 'string',
+          description: 'Role version to install (Galaxy/git sources only)'
+        },
+        force: {
+          type: 'boolean',
+          description: 'Reinstall the role even if it is already installed',
+          default: false
+        },
+        global: {
+          type: 'boolean',
+          description: 'Install the role for all users (admin only)',
+          default: false
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to install the role for (admin only). If omitted, installs for current user.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus ansible role add command',
+          default: false
+        }
+      },
+      required: ['source']
+    }
+  };
+}
+
+export function createAnsibleRoleRemoveTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'ansible_role_remove',
+    description: 'Remove an Ansible role from the Ludus server. Requires confirmation as range configs referencing the role will fail to deploy.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the role to remove'
+        },
+        global: {
+          type: 'boolean',
+          description: 'Remove a globally installed role (admin only)',
+          default: false
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to remove the role for (admin only). If omitted, removes for current user.'
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required confirmation. Must be true to remove the role.',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus ansible role rm command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+export function createAnsibleCollectionAddTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'ansible_collection_add',
+    description: 'Install an Ansible collection on the Ludus server from Ansible Galaxy (e.g., "synzack.ludus_sccm") or a URL.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Galaxy collection name or URL'
+        },
+        version: {
+          type: 'string',
+          description: 'Collection version to install'
+        },
+        force: {
+          type: 'boolean',
+          description: 'Reinstall the collection even if it is already installed',
+          default: false
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to install the collection for (admin only). If omitted, installs for current user.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus ansible collection add command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+/**
+ * Normalize `ludus ansible role list` output into installed roles/collections
+ */
+export function parseInstalledAnsible(data: any): InstalledAnsibleItem[] {
+  const entries = Array.isArray(data) ? data : (data && Array.isArray(data.result) ? data.result : []);
+
+  return entries
+    .map((entry: any) => {
+      const name = entry?.Name ?? entry?.name;
+      if (typeof name !== 'string') {
+        return null;
+      }
+      const type = String(entry.Type ?? entry.type ?? 'role').toLowerCase() === 'collection' ? 'collection' : 'role';
+      const item: InstalledAnsibleItem = { name, type, global: Boolean(entry.Global ?? entry.global) };
+      const version = entry.Version ?? entry.version;
+      if (typeof version === 'string') {
+        item.version = version;
+      }
+      return item;
+    })
+    .filter((item: InstalledAnsibleItem | null): item is InstalledAnsibleItem => item !== null);
+}
+
+/**
+ * Collect role names referenced by the VMs in a range config.
+ * Roles may be plain strings or { name, depends_on } objects.
+ */
+export function getConfigRoleNames(config: any): string[] {
+  const vms: any[] = config && Array.isArray(config.ludus) ? config.ludus : [];
+  const names = new Set<string>();
+
+  for (const vm of vms) {
+    if (!Array.isArray(vm?.roles)) {
+      continue;
+    }
+    for (const role of vm.roles) {
+      const name = typeof role === 'string' ? role : role?.name;
+      if (typeof name === 'string' && name.length > 0) {
+        names.add(name);
+      }
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Check that every role referenced by a range config is installed on the server.
+ * Roles shipped inside a collection (namespace.collection.role) count as installed when the collection is.
+ */
+export async function checkConfigRolesInstalled(
+  configContent: string,
+  cliWrapper: LudusCliWrapper,
+  logger: Logger,
+  user?: string
+): Promise<RoleInstallCheckResult> {
+  let config: any;
+  try {
+    config = yaml.load(configContent);
+  } catch (error: any) {
+    return { checked: false, referenced: [], notInstalled: [], message: `Could not parse range config: ${error.message}` };
+  }
+
+  const referenced = getConfigRoleNames(config);
+  if (referenced.length === 0) {
+    return { checked: true, referenced, notInstalled: [] };
+  }
+
+  const result = await cliWrapper.listAnsibleRoles(user);
+  if (!result.success) {
+    logger.warn('Could not retrieve installed roles for role check', { message: result.message });
+    return { checked: false, referenced, notInstalled: [], message: 'Installed role list unavailable - role check skipped' };
+  }
+
+  const installed = parseInstalledAnsible(result.data);
+  const roleNames = new Set(installed.filter(item => item.type === 'role').map(item => item.name));
+  const collectionNames = new Set(installed.filter(item => item.type === 'collection').map(item => item.name));
+
+  const notInstalled = referenced.filter(name => {
+    if (roleNames.has(name)) {
+      return false;
+    }
+    const parts = name.split('.');
+    return !(parts.length >= 3 && collectionNames.has(`${parts[0]}.${parts[1]}`));
+  });
+
+  return { checked: true, referenced, notInstalled };
+}
+
+/**
+ * Run `ludus ansible <args> --help` and return it in the standard help shape
+ */
+async function getAnsibleHelp(subcommand: string[], logger: Logger, cliWrapper: LudusCliWrapper): Promise<any> {
+  logger.info('Getting help for ludus ansible command', { subcommand });
+  const result = await cliWrapper.executeArbitraryCommand('ansible', [...subcommand, '--help']);
+
+  if (result.success) {
+    return {
+      success: true,
+      message: `Help information for ludus ansible ${subcommand.join(' ')} command`,
+      help: true,
+      content: result.rawOutput || result.message
+    };
+  } else {
+    throw new Error(`Failed to get help: ${result.message}`);
+  }
+}
+
+export async function handleAnsibleRoleList(
+  args: AnsibleRoleListArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, help = false } = args;
+
+  if (help) {
+    return getAnsibleHelp(['role', 'list'], logger, cliWrapper);
+  }
+
+  try {
+    logger.info('Listing Ansible roles', { user });
+
+    const result = await cliWrapper.listAnsibleRoles(user);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const installed = parseInstalledAnsible(result.data);
+    const roles = installed.filter(item => item.type === 'role');
+    const collections = installed.filter(item => item.type === 'collection');
+
+    return {
+      success: true,
+      message: `Found ${roles.length} role(s) and ${collections.length} collection(s) for ${user || 'current user'}`,
+      user: user || 'current user',
+      roles,
+      collections,
+      nextSteps: [
+        'Use ansible_role_add({ source: "<galaxy-name|git-url|directory>" }) to install missing roles',
+        'Use ludus_read_role_collection_schema() to see how a role should be installed'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to list Ansible roles', { user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Check connectivity to the Ludus server',
+        'Check if you have admin permissions (if querying other users)'
+      ])
+    };
+  }
+}
+
+export async function handleAnsibleRoleAdd(
+  args: AnsibleRoleAddArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { source, version, force = false, global = false, user, help = false } = args;
+
+  if (help) {
+    return getAnsibleHelp(['role', 'add'], logger, cliWrapper);
+  }
+
+  try {
+    if (!source) {
+      throw new Error('Role source is required (Galaxy name, git URL, or local directory)');
+    }
+
+    // A source that exists on disk is uploaded as a local role directory
+    const isLocalDirectory = fs.existsSync(source) && fs.statSync(source).isDirectory();
+
+    const options: { source?: string; directory?: string; version?: string; force?: boolean; global?: boolean; user?: string } = { force, global };
+    if (isLocalDirectory) {
+      options.directory = path.resolve(source);
+    } else {
+      options.source = source;
+    }
+    if (version) options.version = version;
+    if (user) options.user = user;
+
+    logger.info('Adding Ansible role', { source, isLocalDirectory, version, force, global, user });
+
+    const result = await cliWrapper.addAnsibleRole(options);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Role ${isLocalDirectory ? `from directory ${options.directory}` : `"${source}"`} installed for ${global ? 'all users' : (user || 'current user')}`,
+      source,
+      sourceType: isLocalDirectory ? 'directory' : (/^(https?:\/\/|git@|git\+)/.test(source) ? 'git' : 'galaxy'),
+      user: user || 'current user',
+      data: result.data,
+      nextSteps: [
+        'Use ansible_role_list() to confirm the role is installed',
+        'Reference the role in a VM\'s roles: list and deploy with deploy_range()'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to add Ansible role', { source, user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      source,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the Galaxy role name or git URL is correct',
+        'Local directories must exist on the machine running the MCP server',
+        'Use force: true to reinstall an existing role',
+        'Installing global roles requires admin permissions'
+      ])
+    };
+  }
+}
+
+export async function handleAnsibleRoleRemove(
+  args: AnsibleRoleRemoveArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, global = false, user, confirmDestructiveAction = false, help = false } = args;
+
+  if (help) {
+    return getAnsibleHelp(['role', 'rm'], logger, cliWrapper);
+  }
+
+  // Safety check for remove operations
+  if (!confirmDestructiveAction) {
+    return {
+      success: false,
+      message: 'Ansible role remove operation requires confirmation',
+      name,
+      user: user || 'current user',
+      confirmationRequired: true,
+      reason: 'Range configs that reference this role will fail to deploy until it is reinstalled',
+      instructions: [
+        'To confirm this action, call the tool again with confirmDestructiveAction: true',
+        `Example: ansible_role_remove({ name: "${name}", confirmDestructiveAction: true })`
+      ]
+    };
+  }
+
+  try {
+    logger.info('Removing Ansible role', { name, global, user });
+
+    const result = await cliWrapper.removeAnsibleRole(name, global, user);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Role "${name}" removed for ${global ? 'all users' : (user || 'current user')}`,
+      name,
+      user: user || 'current user',
+      data: result.data,
+      nextSteps: [
+        'Use ansible_role_list() to review remaining roles'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to remove Ansible role', { name, user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      name,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use ansible_role_list() to verify the role name',
+        'Use global: true for globally installed roles (admin only)'
+      ])
+    };
+  }
+}
+
+export async function handleAnsibleCollectionAdd(
+  args: AnsibleCollectionAddArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, version, force = false, user, help = false } = args;
+
+  if (help) {
+    return getAnsibleHelp(['collection', 'add'], logger, cliWrapper);
+  }
+
+  try {
+    if (!name) {
+      throw new Error('Collection name is required');
+    }
+
+    logger.info('Adding Ansible collection', { name, version, force, user });
+
+    const options: { version?: string; force?: boolean; user?: string } = { force };
+    if (version) options.version = version;
+    if (user) options.user = user;
+
+    const result = await cliWrapper.addAnsibleCollection(name, options);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Collection "${name}" installed for ${user || 'current user'}`,
+      name,
+      user: user || 'current user',
+      data: result.data,
+      nextSteps: [
+        'Use ansible_role_list() to confirm the collection is installed',
+        'Reference collection roles as namespace.collection.role in a VM\'s roles: list'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to add Ansible collection', { name, user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      name,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the Galaxy collection name is correct',
+        'Use force: true to reinstall an existing collection'
+      ])
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { ContentCacheStatus, getContentCacheStatus } from '../utils/contentSync.js';
+import { ContentCacheName, CONTENT_CACHE_NAMES, DEFAULT_MAX_AGE_HOURS, MCP_CONFIG_PATH } from '../utils/contentSources.js';
+import { readRangeConfigSchemaMeta, RANGE_CONFIG_SCHEMA_PATH } from '../utils/rangeConfigSchema.js';
+import { downloadLudusDocumentation } from '../utils/downloadDocs.js';
+import { downloadSchemas } from '../utils/downloadSchemas.js';
+import { downloadBaseConfigs } from '../utils/downloadBaseConfigs.js';
+
+export interface ContentSyncStatusArgs {
+  refresh?: boolean;            // force a re-sync before reporting
+  caches?: ContentCacheName[];  // caches to refresh (default: all)
+}
+
+export interface RangeConfigSchemaCacheStatus {
+  path: string;
+  version?: string;
+  url?: string;
+  fetchedAt?: string;
+  ageHours?: number;
+  fresh: boolean;
+}
+
+const SYNC_FUNCTIONS: Record<ContentCacheName, (logger: Logger, options: { force?: boolean }) => Promise<void>> = {
+  'docs': downloadLudusDocumentation,
+  'schemas': downloadSchemas,
+  'base-configs': downloadBaseConfigs
+};
+
+export function createContentSyncStatusTool(logger: Logger): Tool {
+  return {
+    name: 'content_sync_status',
+    description: `Report the state of the locally cached content the MCP server syncs from its content sources: Ludus documentation (~/.ludus-mcp/docs), role/collection schemas (~/.ludus-mcp/schemas), base range-config templates (~/.ludus-mcp/range-config-templates/base-configs) and the range-config JSON schema.
+
+For each cache shows the configured sources (git URL + ref, local directory or .tar.gz archive, in precedence order) and where they were configured (built-in default, ${MCP_CONFIG_PATH} or environment), the sources and revision the cached content was built from, when it was last fetched, its age, whether it is still fresh (git caches younger than ${DEFAULT_MAX_AGE_HOURS}h by default are not re-fetched at startup) and the error from the last failed refresh, if any.
+
+Refreshes are non-destructive: content is staged and swapped in only after the sources synced successfully, so an offline start or an unreachable mirror keeps the previous cache.
+
+Pass refresh: true to force a re-sync now (optionally limited with caches), e.g. after upstream docs changed.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        refresh: {
+          type: 'boolean',
+          description: 'Force a refresh from upstream before reporting (ignores the freshness window)'
+        },
+        caches: {
+          type: 'array',
+          items: { type: 'string', enum: CONTENT_CACHE_NAMES },
+          description: 'Caches to refresh when refresh is true (default: all)'
+        }
+      },
+      required: []
+    }
+  };
+}
+
+function hoursSince(timestamp: string | undefined): number | undefined {
+  const time = timestamp ? Date.parse(timestamp) : NaN;
+  return Number.isNaN(time) ? undefined : Math.round(((Date.now() - time) / 3600000) * 10) / 10;
+}
+
+export async function handleContentSyncStatus(args: ContentSyncStatusArgs, logger: Logger): Promise<any> {
+  const { refresh = false } = args;
+
+  try {
+    const requested = args.caches && args.caches.length > 0 ? args.caches : CONTENT_CACHE_NAMES;
+    const unknown = requested.filter(name => !CONTENT_CACHE_NAMES.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown cache(s): ${unknown.join(', ')}. Valid caches: ${CONTENT_CACHE_NAMES.join(', ')}`);
+    }
+
+    const refreshErrors: string[] = [];
+    if (refresh) {
+      logger.info('Forcing content refresh', { caches: requested });
+      for (const name of requested) {
+        try {
+          await SYNC_FUNCTIONS[name](logger, { force: true });
+        } catch (error: any) {
+          refreshErrors.push(`${name}: ${error.message}`);
+        }
+      }
+    }
+
+    const caches: ContentCacheStatus[] = await getContentCacheStatus(logger);
+
+    const meta = readRangeConfigSchemaMeta();
+    const schemaAge = hoursSince(meta?.fetchedAt);
+    const rangeConfigSchema: RangeConfigSchemaCacheStatus = {
+      path: RANGE_CONFIG_SCHEMA_PATH,
+      fresh: schemaAge !== undefined && schemaAge < DEFAULT_MAX_AGE_HOURS
+    };
+    if (meta) {
+      rangeConfigSchema.version = meta.version;
+      rangeConfigSchema.url = meta.url;
+      rangeConfigSchema.fetchedAt = meta.fetchedAt;
+    }
+    if (schemaAge !== undefined) rangeConfigSchema.ageHours = schemaAge;
+
+    const failing = caches.filter(cache => cache.lastError);
+    const missing = caches.filter(cache => !cache.exists);
+    const changed = caches.filter(cache => cache.sourcesChanged);
+
+    return {
+      success: true,
+      refreshed: refresh ? requested : [],
+      refreshErrors,
+      caches,
+      rangeConfigSchema,
+      message: `${caches.filter(cache => cache.fresh).length}/${caches.length} caches fresh` +
+               (failing.length > 0 ? `, last refresh failed for ${failing.map(cache => cache.name).join(', ')}` : '') +
+               (missing.length > 0 ? `, missing: ${missing.map(cache => cache.name).join(', ')}` : '') +
+               (changed.length > 0 ? `, sources changed since last sync: ${changed.map(cache => cache.name).join(', ')}` : ''),
+      nextSteps: [
+        ...(failing.length > 0 || missing.length > 0 ? ['Check that the configured sources are reachable (network access, mirror URL, local path or archive), then run content_sync_status with refresh: true'] : []),
+        ...(changed.length > 0 ? [`Run content_sync_status with refresh: true to rebuild ${changed.map(cache => cache.name).join(', ')} from the newly configured sources`] : []),
+        ...(!refresh ? ['Use refresh: true to fetch the latest upstream content now'] : [])
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to get content sync status', { error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      troubleshooting: [
+        'Valid caches are: docs, schemas, base-configs',
+        'Check that ~/.ludus-mcp is readable',
+        'Refreshing git sources requires git and network access to the repository (or its mirror); archives require tar',
+        `Content sources are configured under content_sources in ${MCP_CONFIG_PATH} or with LUDUS_MCP_<CACHE>_SOURCES`
+      ]
+    };
+  }
+}
@@ -1,9 +1,11 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError } from '../ludusMCP/commandErrors.js';
 
 export interface DeployRangeArgs {
   user?: string;
+  rangeId?: string;
   configPath?: string;
   force?: boolean;
   tags?: string;           // --tags "tag1,tag2" 
@@ -32,8 +34,8 @@ IMPORTANT LLM BEHAVIORAL PROMPTS:
 DEPLOYMENT CONSIDERATIONS:
 - Deployments take 10-45 minutes depending on complexity
 - Windows domains take longer than simple Linux deployments  
-- Users should monitor progress with get_range_status
-- Failed deployments can be debugged with range logs
+- Users should monitor progress with watch_deployment (poll about once a minute)
+- Failed deployments can be debugged with watch_deployment (failed hosts, tasks and errors)
 
 CRITICAL WORKFLOW REMINDER:
 - deploy_range uses the currently SET configuration, not any specific file
@@ -46,6 +48,10 @@ CRITICAL WORKFLOW REMINDER:
           type: 'string',
           description: 'User ID to deploy range for (admin only). If omitted, deploys for current user.'
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
         configPath: {
           type: 'string',
           description: 'Path to range configuration YAML file. If omitted, uses existing configuration. ENSURE: Config must use credential placeholders {{LudusCredName-<user>-<cred>}}, NOT actual credentials!'
@@ -90,6 +96,7 @@ export async function handleDeployRange(
 ): Promise<any> {
   const { 
     user, 
+    rangeId,
     configPath, 
     force = false, 
     tags, 
@@ -133,6 +140,7 @@ export async function handleDeployRange(
     // Build options object, filtering out undefined values
     const deployOptions: any = { force, verboseAnsible };
     if (user !== undefined) deployOptions.user = user;
+    if (rangeId !== undefined) deployOptions.rangeId = rangeId;
     if (configPath !== undefined) deployOptions.configPath = configPath;
     if (tags !== undefined) deployOptions.tags = tags;
     if (limit !== undefined) deployOptions.limit = limit;
@@ -141,7 +149,7 @@ export async function handleDeployRange(
     const deployResult = await cliWrapper.deployRange(deployOptions);
 
     if (!deployResult.success) {
-      throw new Error(`Deployment failed: ${deployResult.message}`);
+      throw new LudusCommandError(`Deployment failed: ${deployResult.message}`, deployResult);
     }
 
     const successMessage = user 
@@ -0,0 +1,192 @@
+import { TaskFailure, PlaybookError } from './deploymentLog.js';
+
+/**
+ * Catalog of known deployment failures. Each rule matches the error text of a failed
+ * task (or a playbook ERROR!), explains the usual cause, and says how to fix and
+ * retry it. Rules are tried in order; the first match wins.
+ */
+
+export type RetryStrategy =
+  | 'rerun-hosts'        // fix, then redeploy only the failed VMs
+  | 'rerun-roles'        // fix, then rerun only the failed user-defined roles on the failed VMs
+  | 'build-templates'    // build the missing template, then redeploy
+  | 'full-deploy'        // the run never started properly; redeploy everything
+  | 'manual';            // needs attention on the Ludus host before any retry
+
+export interface DiagnosisRule {
+  id: string;
+  title: string;
+  pattern: RegExp;       // matched against the task name, error message and raw block
+  kinds?: Array<TaskFailure['kind'] | 'playbook'>;
+  cause: string;
+  fix: string[];
+  docsQuery: string;     // searched in the cached troubleshooting docs
+  retry: RetryStrategy;
+  prerequisite?: string; // what has to happen before the retry can succeed
+}
+
+export const DEPLOYMENT_DIAGNOSIS_RULES: DiagnosisRule[] = [
+  {
+    id: 'template-missing',
+    title: 'VM template missing or not built',
+    pattern: /template\b.*\b(not found|does not exist|not built|missing)|no (such )?template|could not find (the )?template|unable to find.*template|clone.*template.*fail/i,
+    cause: 'A VM in the range config uses a template that does not exist on the Ludus host or has not been built yet.',
+    fix: [
+      'Check the template names in the config against templates_list',
+      'Build the missing template with templates_build (or add it with templates_add), and wait for templates_status to show it built',
+      'Or change the VM\'s template in the range config to one that is built'
+    ],
+    docsQuery: 'template not found build templates',
+    retry: 'build-templates',
+    prerequisite: 'Build the missing template with templates_build and wait until templates_status shows it built'
+  },
+  {
+    id: 'role-not-installed',
+    title: 'Ansible role or collection not installed',
+    pattern: /the role '[^']+' was not found|role ['"]?[\w.-]+['"]? (was )?not found|couldn't resolve module\/action|could not find role|no module named|collection .* (not found|is not installed)/i,
+    cause: 'The range config references a role (or a module from a collection) that is not installed on the Ludus server for this user.',
+    fix: [
+      'List installed roles with ansible_role_list',
+      'Install the missing role or collection with ansible_role_add / ansible_collection_add',
+      'Check the role name spelling in the range config (resolve_role_dependencies lists missing roles)'
+    ],
+    docsQuery: 'role not found install ansible role',
+    retry: 'rerun-roles',
+    prerequisite: 'Install the missing role or collection with ansible_role_add / ansible_collection_add'
+  },
+  {
+    id: 'out-of-disk',
+    title: 'Out of disk space',
+    pattern: /no space left on device|not enough (free )?(disk )?space|insufficient (disk|storage|space)|ENOSPC|storage .*(is )?full|out of (disk )?space|disk quota exceeded/i,
+    cause: 'The Proxmox storage (or a VM disk) ran out of space while cloning or configuring VMs.',
+    fix: [
+      'Free space on the Ludus host: remove unused snapshots (snapshot_list / snapshot_remove) and destroy unused ranges',
+      'Compare the range needs with estimate_range_resources and the host capacity',
+      'Reduce the number of VMs or move large roles to fewer VMs'
+    ],
+    docsQuery: 'disk space storage full',
+    retry: 'manual',
+    prerequisite: 'Free disk space on the Ludus host'
+  },
+  {
+    id: 'winrm-timeout',
+    title: 'WinRM connection timeout',
+    pattern: /winrm|ntlm|credssp|kerberos|port 598[56]|timed out waiting for (last_boot_time|last boot|connection|the host to (come back|reboot))|wait_for_connection/i,
+    cause: 'A Windows VM did not answer WinRM in time, usually because it is still booting, rebooting after updates or domain promotion, or is short on RAM/CPU.',
+    fix: [
+      'Check the VM is powered on and finished booting (get_range_status, ludus_power)',
+      'Give Windows VMs at least 4 GB RAM (8 GB for domain controllers) and avoid overcommitting the host',
+      'Retry the failed VMs; transient WinRM timeouts usually pass on the second run'
+    ],
+    docsQuery: 'winrm timeout windows',
+    retry: 'rerun-hosts'
+  },
+  {
+    id: 'dns-failure',
+    title: 'DNS resolution failure',
+    pattern: /temporary failure in name resolution|name or service not known|could not resolve host|nodename nor servname|NXDOMAIN|no such host|getaddrinfo|dns.*(fail|timed? ?out)|failed to resolve/i,
+    cause: 'A VM could not resolve names: no internet through the router, testing mode blocking the domain, or the domain controller DNS not up yet.',
+    fix: [
+      'Check testing mode is off or the domain is allowed (testing_status / testing_allow)',
+      'Verify the router VM is running and network_rules do not block DNS or outbound traffic',
+      'For domain members, make sure the primary-dc VM deployed successfully before the members'
+    ],
+    docsQuery: 'dns resolution network internet',
+    retry: 'rerun-hosts'
+  },
+  {
+    id: 'bad-role-vars',
+    title: 'Invalid role_vars',
+    pattern: /is undefined|undefined variable|AnsibleUndefinedVariable|unsupported parameters|missing required arguments?|value of \w+ must be one of|is not a valid|invalid (value|type|choice)|argument .* is of type .* and we were unable to convert|does not meet (the )?(password )?complexity/i,
+    cause: 'A role received a missing, misspelled or wrongly typed variable from role_vars, or a value the target system rejects (e.g. a password that does not meet complexity rules).',
+    fix: [
+      'Validate the config with validate_range_config (checks role_vars against the role schemas)',
+      'Read the role schema with ludus_read_role_collection_schema for the expected variable names and types',
+      'Fix role_vars with write_range_config and set_range_config'
+    ],
+    docsQuery: 'role_vars variables roles',
+    retry: 'rerun-roles',
+    prerequisite: 'Fix role_vars and apply the config with set_range_config'
+  },
+  {
+    id: 'host-unreachable',
+    title: 'VM unreachable',
+    pattern: /unreachable|failed to connect to the host via ssh|connection (timed out|refused)|no route to host|host is down/i,
+    kinds: ['unreachable'],
+    cause: 'Ansible could not connect to the VM: it is powered off, has no IP yet, or the router/VLAN setup is wrong.',
+    fix: [
+      'Check the VM is powered on and has an IP address (get_range_status)',
+      'Verify the VLAN and ip_last_octet in the config and that the router VM deployed',
+      'Power the VM on with ludus_power if it is off'
+    ],
+    docsQuery: 'unreachable vm network connection',
+    retry: 'rerun-hosts'
+  },
+  {
+    id: 'playbook-error',
+    title: 'Playbook error before deployment',
+    pattern: /.*/,
+    kinds: ['playbook'],
+    cause: 'Ansible stopped before running tasks (syntax error, bad inventory or invalid range config).',
+    fix: [
+      'Validate the range config with validate_range_config',
+      'Read the ERROR! message below for the file and line Ansible rejected'
+    ],
+    docsQuery: 'deploy error range config',
+    retry: 'full-deploy',
+    prerequisite: 'Fix the range config and apply it with set_range_config'
+  }
+];
+
+export interface ClassifiedFailure {
+  rule?: DiagnosisRule;
+  host: string;
+  task: string;
+  role?: string;         // role prefix of the task name ("ludus_ad : Join domain" -> "ludus_ad")
+  message: string;
+  kind: TaskFailure['kind'] | 'playbook';
+  line: number;
+  block: string;
+}
+
+/**
+ * Role part of an Ansible task name, if the task belongs to a role
+ */
+export function taskRole(task: string): string | undefined {
+  const match = task.match(/^([\w.-]+) : /);
+  return match ? match[1] : undefined;
+}
+
+export function classifyFailure(failure: TaskFailure, rules: DiagnosisRule[] = DEPLOYMENT_DIAGNOSIS_RULES): ClassifiedFailure {
+  const text = `${failure.task}\n${failure.message}\n${failure.block}`;
+  const rule = rules.find(candidate =>
+    (!candidate.kinds || candidate.kinds.includes(failure.kind)) && candidate.pattern.test(text)
+  );
+  const classified: ClassifiedFailure = {
+    host: failure.host,
+    task: failure.task,
+    message: failure.message,
+    kind: failure.kind,
+    line: failure.line,
+    block: failure.block
+  };
+  const role = taskRole(failure.task);
+  if (rule) classified.rule = rule;
+  if (role) classified.role = role;
+  return classified;
+}
+
+export function classifyPlaybookError(error: PlaybookError, rules: DiagnosisRule[] = DEPLOYMENT_DIAGNOSIS_RULES): ClassifiedFailure {
+  const text = `${error.message}\n${error.block}`;
+  const rule = rules.find(candidate => (!candidate.kinds || candidate.kinds.includes('playbook')) && candidate.pattern.test(text));
+  const classified: ClassifiedFailure = {
+    host: '',
+    task: '',
+    message: error.message,
+    kind: 'playbook',
+    line: error.line,
+    block: error.block
+  };
+  if (rule) classified.rule = rule;
+  return classified;
+}
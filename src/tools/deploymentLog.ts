@@ -0,0 +1,366 @@
+import { CommandResult } from '../ludusMCP/cliWrapper.js';
+
+/**
+ * Parser for the Ansible output of a range deployment (`ludus range logs`): plays,
+ * tasks, per-host results and the PLAY RECAP, mapped onto coarse deployment phases.
+ */
+
+export type DeploymentPhaseId = 'provision' | 'network' | 'os-setup' | 'domain' | 'roles' | 'finalize';
+
+export interface DeploymentPhase {
+  id: DeploymentPhaseId;
+  label: string;
+  weight: number;       // share of a typical deployment, in percent
+  pattern: RegExp;      // matched against PLAY names
+}
+
+// Ordered as Ludus runs them; weights roughly follow where a deployment spends its time
+export const DEPLOYMENT_PHASES: DeploymentPhase[] = [
+  { id: 'provision', label: 'Provisioning VMs', weight: 15, pattern: /clone|create|deploy vm|proxmox|provision|vm list|localhost/i },
+  { id: 'network', label: 'Router and networking', weight: 10, pattern: /router|network|firewall|vlan|wireguard|dns/i },
+  { id: 'os-setup', label: 'OS configuration', weight: 25, pattern: /wait|windows|linux|macos|initial|hostname|configure|setup|set up|ip address/i },
+  { id: 'domain', label: 'Active Directory', weight: 20, pattern: /domain|\bdcs?\b|forest|active directory/i },
+  { id: 'roles', label: 'Custom roles', weight: 25, pattern: /role|custom|user[- ]defined|install/i },
+  { id: 'finalize', label: 'Finalizing', weight: 5, pattern: /snapshot|testing|final|cleanup|clean up|power|reboot/i }
+];
+
+export type HostState = 'running' | 'ok' | 'failed' | 'unreachable';
+
+export interface HostProgress {
+  host: string;
+  phase: DeploymentPhaseId;
+  play: string;
+  lastTask: string;
+  ok: number;
+  changed: number;
+  failed: number;
+  unreachable: number;
+  skipped: number;
+  state: HostState;
+}
+
+export interface TaskFailure {
+  host: string;
+  play: string;
+  task: string;
+  kind: 'failed' | 'unreachable';
+  message: string;
+  item?: string;
+  line: number;         // 1-based line of the fatal/failed result
+  block: string;        // the raw result block (result line plus its continuation lines)
+}
+
+export interface RecapEntry {
+  host: string;
+  ok: number;
+  changed: number;
+  unreachable: number;
+  failed: number;
+  skipped: number;
+  rescued: number;
+  ignored: number;
+}
+
+export interface PlaybookError {
+  message: string;      // an "ERROR!" line: syntax errors, missing roles, bad inventory
+  line: number;
+  block: string;
+}
+
+export interface DeploymentLogSummary {
+  plays: string[];
+  taskCount: number;
+  currentPlay?: string;
+  currentTask?: string;
+  currentPhase?: DeploymentPhaseId;
+  phasesSeen: DeploymentPhaseId[];
+  hosts: HostProgress[];
+  failures: TaskFailure[];
+  errors: PlaybookError[];
+  recap: RecapEntry[];
+  recapComplete: boolean;       // a PLAY RECAP follows the last play
+  elapsedSeconds?: number;      // from profile_tasks timing lines, when present
+  lineCount: number;
+}
+
+const PLAY_LINE = /^PLAY \[(.*)\]\s*\**\s*$/;
+const TASK_LINE = /^(?:TASK|RUNNING HANDLER) \[(.*)\]\s*\**\s*$/;
+const RECAP_LINE = /^PLAY RECAP\b/;
+const ERROR_LINE = /^ERROR! (.*)$/;
+const RESULT_LINE = /^(ok|changed|skipping|fatal|failed|unreachable|included|rescued): \[([^\]]+)\](?::\s*(FAILED!|UNREACHABLE!))?(?:\s*\(item=(.*?)\))?(?:\s*=>\s*(.*))?$/;
+const RECAP_ENTRY = /^(\S+)\s*:\s*ok=(\d+)\s+changed=(\d+)\s+unreachable=(\d+)\s+failed=(\d+)(?:\s+skipped=(\d+))?(?:\s+rescued=(\d+))?(?:\s+ignored=(\d+))?/;
+// ANSI color codes, which Ansible writes when it runs with a terminal
+// eslint-disable-next-line no-control-regex -- matching the ESC control character is the point
+const ANSI_COLOR = /\x1b\[[0-9;]*m/g;
+// profile_tasks/timer callback: "Friday 15 March 2024  10:23:45 +0000 (0:00:02.345)       0:12:34.567 ****"
+const TIMING_LINE = /\(\d+:\d{2}:\d{2}(?:\.\d+)?\)\s+(\d+):(\d{2}):(\d{2})(?:\.\d+)?\s*\**\s*$/;
+
+const MAX_MESSAGE_LENGTH = 400;
+const MAX_BLOCK_LINES = 40;
+
+/**
+ * Text of a `ludus range logs` result: the CLI returns {"result": "...", "cursor": N} in JSON mode
+ */
+export function extractLogText(result: CommandResult): string {
+  const data = result.data;
+  if (data && typeof data === 'object' && typeof data.result === 'string') {
+    return data.result;
+  }
+  if (typeof data === 'string') {
+    return data;
+  }
+  return result.rawOutput || result.message || '';
+}
+
+// Most specific phases are tried first: "Set up domain controllers" is AD work, not OS setup
+const CLASSIFY_ORDER: DeploymentPhaseId[] = ['domain', 'roles', 'finalize', 'network', 'provision', 'os-setup'];
+
+export function classifyPlay(playName: string, previous?: DeploymentPhaseId): DeploymentPhaseId {
+  const phase = CLASSIFY_ORDER
+    .map(id => DEPLOYMENT_PHASES.find(candidate => candidate.id === id)!)
+    .find(candidate => candidate.pattern.test(playName));
+  // Plays with unrecognized names belong to the phase that is already running
+  return phase ? phase.id : (previous || 'provision');
+}
+
+/**
+ * Best readable message of a failed task result: the msg/stderr of its JSON payload
+ */
+export function extractFailureMessage(payload: string): string {
+  const text = payload.trim();
+  try {
+    const parsed = JSON.parse(text);
+    const parts = [parsed.msg, parsed.reason, parsed.stderr, parsed.message]
+      .filter((part: unknown) => typeof part === 'string' && part.trim())
+      .map((part: string) => part.trim());
+    if (parsed.results && Array.isArray(parsed.results)) {
+      const itemMessages = parsed.results.filter((item: any) => item?.failed && item.msg).map((item: any) => String(item.msg));
+      parts.push(...itemMessages);
+    }
+    if (parts.length > 0) {
+      return truncate([...new Set(parts)].join(' | '));
+    }
+  } catch {
+    // Multi-line or truncated payloads are not valid JSON; fall through to a regex
+  }
+  const msg = text.match(/"msg":\s*"((?:[^"\\]|\\.)*)"/);
+  return truncate(msg ? msg[1]!.replace(/\\n/g, ' ').replace(/\\"/g, '"') : text);
+}
+
+function truncate(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_MESSAGE_LENGTH ? `${flat.slice(0, MAX_MESSAGE_LENGTH - 3)}...` : flat;
+}
+
+/**
+ * Parse Ansible deployment output. Tolerates partial logs of a running deployment.
+ */
+export function parseDeploymentLog(text: string): DeploymentLogSummary {
+  const lines = text.replace(/\r\n/g, '\n').replace(ANSI_COLOR, '').split('\n');
+  const hosts = new Map<string, HostProgress>();
+  const plays: string[] = [];
+  const phasesSeen: DeploymentPhaseId[] = [];
+  const failures: TaskFailure[] = [];
+  const errors: PlaybookError[] = [];
+  let recap: RecapEntry[] = [];
+  let taskCount = 0;
+  let currentPlay: string | undefined;
+  let currentTask: string | undefined;
+  let currentPhase: DeploymentPhaseId | undefined;
+  let inRecap = false;
+  let recapComplete = false;
+  let elapsedSeconds: number | undefined;
+
+  const hostFor = (name: string): HostProgress => {
+    let host = hosts.get(name);
+    if (!host) {
+      host = { host: name, phase: currentPhase || 'provision', play: currentPlay || '', lastTask: '', ok: 0, changed: 0, failed: 0, unreachable: 0, skipped: 0, state: 'running' };
+      hosts.set(name, host);
+    }
+    return host;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!.trimEnd();
+
+    const timing = line.match(TIMING_LINE);
+    if (timing) {
+      elapsedSeconds = Number(timing[1]) * 3600 + Number(timing[2]) * 60 + Number(timing[3]);
+      continue;
+    }
+
+    const play = line.match(PLAY_LINE);
+    if (play) {
+      currentPlay = play[1]!.trim() || '(unnamed play)';
+      currentPhase = classifyPlay(currentPlay, currentPhase);
+      currentTask = undefined;
+      plays.push(currentPlay);
+      if (!phasesSeen.includes(currentPhase)) phasesSeen.push(currentPhase);
+      inRecap = false;
+      recapComplete = false;
+      continue;
+    }
+
+    if (RECAP_LINE.test(line)) {
+      inRecap = true;
+      recapComplete = true;
+      recap = [];
+      continue;
+    }
+
+    if (inRecap) {
+      const entry = line.trim().match(RECAP_ENTRY);
+      if (entry) {
+        recap.push({
+          host: entry[1]!,
+          ok: Number(entry[2]),
+          changed: Number(entry[3]),
+          unreachable: Number(entry[4]),
+          failed: Number(entry[5]),
+          skipped: Number(entry[6] || 0),
+          rescued: Number(entry[7] || 0),
+          ignored: Number(entry[8] || 0)
+        });
+      }
+      continue;
+    }
+
+    const error = line.match(ERROR_LINE);
+    if (error) {
+      const blockLines = [line];
+      for (let next = index + 1; next < lines.length && blockLines.length < MAX_BLOCK_LINES && lines[next]!.trim(); next++) {
+        blockLines.push(lines[next]!.trimEnd());
+      }
+      errors.push({ message: truncate(error[1]!), line: index + 1, block: blockLines.join('\n') });
+      continue;
+    }
+
+    const task = line.match(TASK_LINE);
+    if (task) {
+      currentTask = task[1]!.trim();
+      taskCount++;
+      continue;
+    }
+
+    const result = line.match(RESULT_LINE);
+    if (!result) {
+      continue;
+    }
+
+    const [, status, hostName, marker, item, payload] = result;
+    const host = hostFor(hostName!);
+    host.phase = currentPhase || host.phase;
+    host.play = currentPlay || host.play;
+    host.lastTask = currentTask || host.lastTask;
+
+    switch (status) {
+      case 'ok':
+      case 'included':
+      case 'rescued':
+        host.ok++;
+        break;
+      case 'changed':
+        host.ok++;
+        host.changed++;
+        break;
+      case 'skipping':
+        host.skipped++;
+        break;
+      case 'fatal':
+      case 'failed':
+      case 'unreachable': {
+        // Collect the continuation lines of the result (multi-line payloads, stdout dumps)
+        const blockLines = [line];
+        let next = index + 1;
+        while (next < lines.length && blockLines.length < MAX_BLOCK_LINES) {
+          const candidate = lines[next]!;
+          if (PLAY_LINE.test(candidate) || TASK_LINE.test(candidate) || RECAP_LINE.test(candidate) ||
+              RESULT_LINE.test(candidate) || TIMING_LINE.test(candidate)) {
+            break;
+          }
+          blockLines.push(candidate.trimEnd());
+          next++;
+        }
+        const ignored = blockLines.some(blockLine => blockLine.trim() === '...ignoring');
+        if (ignored) {
+          break;
+        }
+
+        const kind = marker === 'UNREACHABLE!' || status === 'unreachable' ? 'unreachable' : 'failed';
+        if (kind === 'unreachable') {
+          host.unreachable++;
+        } else {
+          host.failed++;
+        }
+        const failure: TaskFailure = {
+          host: hostName!,
+          play: currentPlay || '',
+          task: currentTask || '',
+          kind,
+          message: extractFailureMessage([payload || '', ...blockLines.slice(1)].join('\n')),
+          line: index + 1,
+          block: blockLines.join('\n').trim()
+        };
+        if (item) failure.item = item;
+        failures.push(failure);
+        break;
+      }
+    }
+  }
+
+  // Final host states: the recap is authoritative once the playbook finished
+  const recapByHost = new Map(recap.map(entry => [entry.host, entry]));
+  for (const host of hosts.values()) {
+    const entry = recapByHost.get(host.host);
+    if (recapComplete && entry) {
+      host.state = entry.unreachable > 0 ? 'unreachable' : entry.failed > 0 ? 'failed' : 'ok';
+    } else if (host.unreachable > 0) {
+      host.state = 'unreachable';
+    } else if (host.failed > 0) {
+      // Ansible drops a host from the play after a fatal error
+      host.state = 'failed';
+    } else {
+      host.state = recapComplete ? 'ok' : 'running';
+    }
+  }
+
+  const summary: DeploymentLogSummary = {
+    plays,
+    taskCount,
+    phasesSeen,
+    hosts: [...hosts.values()],
+    failures,
+    errors,
+    recap,
+    recapComplete,
+    lineCount: lines.length
+  };
+  if (currentPlay) summary.currentPlay = currentPlay;
+  if (currentTask) summary.currentTask = currentTask;
+  if (currentPhase) summary.currentPhase = currentPhase;
+  if (elapsedSeconds !== undefined) summary.elapsedSeconds = elapsedSeconds;
+  return summary;
+}
+
+/**
+ * Rough completion from the furthest phase reached: earlier phases count fully, the
+ * furthest one half. Only a finished playbook reports 100.
+ */
+export function estimatePercentComplete(summary: DeploymentLogSummary, finished: boolean): number {
+  if (finished) {
+    return 100;
+  }
+  if (summary.phasesSeen.length === 0) {
+    return 0;
+  }
+  const currentIndex = Math.max(...summary.phasesSeen.map(id => DEPLOYMENT_PHASES.findIndex(phase => phase.id === id)));
+  const done = DEPLOYMENT_PHASES.slice(0, currentIndex).reduce((total, phase) => total + phase.weight, 0);
+  return Math.min(99, Math.round(done + DEPLOYMENT_PHASES[currentIndex]!.weight / 2));
+}
+
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
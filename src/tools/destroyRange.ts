@@ -4,6 +4,7 @@ import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
 
 export interface DestroyRangeArgs {
   user?: string;
+  rangeId?: string;
   noPrompt?: boolean;
   help?: boolean;
 }
@@ -37,6 +38,10 @@ DESTRUCTIVE OPERATION WARNING:
           description: 'Skip the confirmation prompt when destroying the range',
           default: false
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
         help: {
           type: 'boolean',
           description: 'Show help information for the destroy_range command',
@@ -53,7 +58,7 @@ export async function handleDestroyRange(
   logger: Logger,
   cliWrapper: LudusCliWrapper
 ): Promise<any> {
-  const { user, noPrompt = false, help = false } = args;
+  const { user, rangeId, noPrompt = false, help = false } = args;
 
   // Handle help request
   if (help) {
@@ -76,7 +81,7 @@ export async function handleDestroyRange(
   logger.info('Executing destroy range command', { user, noPrompt });
 
   try {
-    const destroyResult = await cliWrapper.destroyRange(user, noPrompt);
+    const destroyResult = await cliWrapper.destroyRange(user, noPrompt, rangeId);
     
     if (destroyResult.success) {
       logger.info('Destroy range command completed successfully', { 
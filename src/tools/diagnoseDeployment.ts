@@ -0,0 +1,322 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as yaml from 'js-yaml';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { searchDocs } from '../utils/docsIndex.js';
+import { extractRangeConfigYaml } from './rangeConfig.js';
+import { extractLogText, parseDeploymentLog } from './deploymentLog.js';
+import { parseRangeStatus } from './rangeStatus.js';
+import {
+  ClassifiedFailure,
+  DEPLOYMENT_DIAGNOSIS_RULES,
+  DiagnosisRule,
+  RetryStrategy,
+  classifyFailure,
+  classifyPlaybookError
+} from './deploymentDiagnostics.js';
+
+export interface DiagnoseDeploymentArgs {
+  user?: string;
+  rangeId?: string;
+  logContent?: string;      // analyze pasted log text instead of fetching range logs
+  maxFailures?: number;
+  includeBlocks?: boolean;  // include the raw fatal/FAILED! blocks
+}
+
+export interface DocsReference {
+  path: string;             // relative to ~/.ludus-mcp/docs, with the section anchor
+  heading: string;
+}
+
+export interface RetrySuggestion {
+  strategy: RetryStrategy;
+  prerequisites: string[];
+  tool: 'deploy_range';
+  args: Record<string, string>;
+  command: string;          // ready-to-use tool call
+}
+
+export interface DeploymentDiagnosis {
+  rule: string;
+  title: string;
+  hosts: string[];
+  task: string;
+  roles: string[];
+  messages: string[];
+  cause: string;
+  fix: string[];
+  docs: DocsReference[];
+  retry: RetrySuggestion;
+  blocks?: string[];
+}
+
+const DEFAULT_MAX_FAILURES = 20;
+const MAX_MESSAGES_PER_DIAGNOSIS = 3;
+
+// Fallback for failures no rule recognizes
+const UNCLASSIFIED_RULE: DiagnosisRule = {
+  id: 'unclassified',
+  title: 'Unrecognized failure',
+  pattern: /.*/,
+  cause: 'The error does not match a known failure pattern.',
+  fix: [
+    'Read the error message and the raw block (includeBlocks: true)',
+    'Search the docs for the error text with ludus_docs_search'
+  ],
+  docsQuery: 'troubleshooting deploy',
+  retry: 'rerun-hosts'
+};
+
+export function createDiagnoseDeploymentTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'diagnose_deployment',
+    description: `Diagnose a failed range deployment from its Ansible logs and map each error to a fix.
+
+Extracts the fatal:/FAILED!/UNREACHABLE! blocks and playbook ERROR! lines from \`range logs\`, ignores failures that were rescued or ignored, and classifies each against a rule catalog:
+${DEPLOYMENT_DIAGNOSIS_RULES.filter(rule => rule.id !== 'playbook-error').map(rule => `- ${rule.id}: ${rule.title}`).join('\n')}
+
+For every diagnosis returns the affected VMs and task, the error message, the likely cause, fix steps, links to the matching section of the cached troubleshooting docs (~/.ludus-mcp/docs/troubleshooting, readable with ludus_docs_search), and a concrete retry call, e.g. deploy_range with limit (failed VMs plus localhost) and, for user-defined roles, tags "user-defined-roles" with onlyRoles.
+
+Use after watch_deployment reports failed hosts or the range state is ERROR. Pass logContent to analyze a log pasted by the user instead of fetching it.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID whose deployment to diagnose (admin only). If omitted, uses the current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        logContent: {
+          type: 'string',
+          description: 'Deployment log text to analyze instead of fetching the range logs'
+        },
+        maxFailures: {
+          type: 'number',
+          description: `Maximum number of failed task results to analyze (default: ${DEFAULT_MAX_FAILURES})`
+        },
+        includeBlocks: {
+          type: 'boolean',
+          description: 'Include the raw error blocks from the log (default: false)',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+/**
+ * User-defined roles referenced anywhere in a range config
+ */
+function configuredRoles(configYaml: string): Set<string> {
+  const roles = new Set<string>();
+  try {
+    const config: any = yaml.load(configYaml);
+    for (const vm of Array.isArray(config?.ludus) ? config.ludus : []) {
+      for (const role of Array.isArray(vm?.roles) ? vm.roles : []) {
+        const name = typeof role === 'string' ? role : role?.name;
+        if (typeof name === 'string') {
+          roles.add(name);
+          // Collection roles run as "namespace.collection.role" but may be listed by short name
+          roles.add(name.split('.').pop()!);
+        }
+      }
+    }
+  } catch {
+    // Unparseable config: no role-level retries
+  }
+  return roles;
+}
+
+async function findDocs(rule: DiagnosisRule, logger: Logger): Promise<DocsReference[]> {
+  try {
+    let hits = await searchDocs(rule.docsQuery, logger, { pathPrefix: 'troubleshooting/', maxResults: 2 });
+    if (hits.length === 0) {
+      hits = await searchDocs(rule.docsQuery, logger, { maxResults: 1 });
+    }
+    return hits.map(hit => ({ path: `${hit.path}#${hit.anchor}`, heading: hit.headingPath.join(' > ') || hit.path }));
+  } catch (error: any) {
+    logger.debug('Docs lookup failed for diagnosis', { rule: rule.id, error: error.message });
+    return [];
+  }
+}
+
+function buildRetry(strategy: RetryStrategy, hosts: string[], roles: string[], prerequisites: string[], user: string | undefined, rangeId: string | undefined): RetrySuggestion {
+  const args: Record<string, string> = {};
+  if (user) args.user = user;
+  if (rangeId) args.rangeId = rangeId;
+
+  const vmHosts = hosts.filter(host => host && host !== 'localhost');
+  // Errors before any host ran (playbook errors) need the whole deployment again
+  if (strategy !== 'full-deploy' && vmHosts.length > 0) {
+    if (strategy === 'rerun-roles' && roles.length > 0) {
+      args.tags = 'user-defined-roles';
+      args.onlyRoles = roles.join(',');
+    }
+    // Ludus needs localhost in the limit, or none of its plays run
+    args.limit = ['localhost', ...vmHosts].join(',');
+  }
+
+  return {
+    strategy,
+    prerequisites,
+    tool: 'deploy_range',
+    args,
+    command: `deploy_range(${JSON.stringify(args)})`
+  };
+}
+
+export async function handleDiagnoseDeployment(
+  args: DiagnoseDeploymentArgs,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper
+): Promise<any> {
+  const { user, rangeId, logContent, maxFailures = DEFAULT_MAX_FAILURES, includeBlocks = false } = args;
+  const targetUser = user || 'current user';
+
+  try {
+    logger.info('Diagnosing deployment', { user, rangeId, fromContent: !!logContent });
+
+    let logText = logContent;
+    let rangeState: string | undefined;
+    let roles = new Set<string>();
+
+    if (!logText) {
+      if (!cliWrapper) {
+        throw new Error('Ludus connection not available; pass logContent to analyze a log directly');
+      }
+      const logsResult = await cliWrapper.getRangeLogs(user, false, rangeId);
+      if (!logsResult.success) {
+        throw new LudusCommandError(`Failed to get range logs: ${logsResult.message}`, logsResult);
+      }
+      logText = extractLogText(logsResult);
+
+      const statusResult = await cliWrapper.getRangeStatus(user, rangeId);
+      const range = statusResult.success ? parseRangeStatus(statusResult.data) : null;
+      if (range && range.state !== 'UNKNOWN') {
+        rangeState = range.state;
+      }
+    }
+
+    // Only user-defined roles can be rerun on their own with onlyRoles
+    if (cliWrapper) {
+      const configResult = await cliWrapper.getRangeConfig(user, rangeId);
+      if (configResult.success) {
+        roles = configuredRoles(extractRangeConfigYaml(configResult));
+      }
+    }
+
+    const summary = parseDeploymentLog(logText);
+
+    // Hosts the recap reports as clean had their failures rescued or ignored
+    const recovered = new Set(summary.recap.filter(entry => entry.failed === 0 && entry.unreachable === 0).map(entry => entry.host));
+    const failures = summary.failures.filter(failure => !recovered.has(failure.host));
+    const classified: ClassifiedFailure[] = [
+      ...summary.errors.map(error => classifyPlaybookError(error)),
+      ...failures.slice(0, maxFailures).map(failure => classifyFailure(failure))
+    ];
+
+    // One diagnosis per rule and task, so the same error on five VMs is reported once
+    const groups = new Map<string, ClassifiedFailure[]>();
+    for (const failure of classified) {
+      const key = `${failure.rule?.id || UNCLASSIFIED_RULE.id}\0${failure.task}`;
+      groups.set(key, [...(groups.get(key) || []), failure]);
+    }
+
+    const docsCache = new Map<string, DocsReference[]>();
+    const diagnoses: DeploymentDiagnosis[] = [];
+    for (const group of groups.values()) {
+      const rule = group[0]!.rule || UNCLASSIFIED_RULE;
+      const hosts = [...new Set(group.map(failure => failure.host).filter(Boolean))];
+      const failedRoles = [...new Set(group.map(failure => failure.role).filter((role): role is string => !!role && roles.has(role)))];
+
+      if (!docsCache.has(rule.id)) {
+        docsCache.set(rule.id, await findDocs(rule, logger));
+      }
+
+      const diagnosis: DeploymentDiagnosis = {
+        rule: rule.id,
+        title: rule.title,
+        hosts,
+        task: group[0]!.task,
+        roles: failedRoles,
+        messages: [...new Set(group.map(failure => failure.message))].slice(0, MAX_MESSAGES_PER_DIAGNOSIS),
+        cause: rule.cause,
+        fix: rule.fix,
+        docs: docsCache.get(rule.id)!,
+        retry: buildRetry(rule.retry, hosts, failedRoles, rule.prerequisite ? [rule.prerequisite] : [], user, rangeId)
+      };
+      if (includeBlocks) {
+        diagnosis.blocks = group.map(failure => `line ${failure.line}:\n${failure.block}`);
+      }
+      diagnoses.push(diagnosis);
+    }
+
+    // One retry for everything when every diagnosis can be retried by host
+    let recommendedRetry: RetrySuggestion | undefined;
+    if (diagnoses.length > 0) {
+      const strategies = new Set(diagnoses.map(diagnosis => diagnosis.retry.strategy));
+      const allHosts = [...new Set(diagnoses.flatMap(diagnosis => diagnosis.hosts))];
+      const allRoles = [...new Set(diagnoses.flatMap(diagnosis => diagnosis.roles))];
+      const strategy: RetryStrategy = strategies.has('full-deploy') || diagnoses.some(diagnosis => diagnosis.hosts.length === 0) ? 'full-deploy'
+        : strategies.has('manual') ? 'manual'
+        : strategies.has('build-templates') ? 'build-templates'
+        : [...strategies].every(candidate => candidate === 'rerun-roles') && allRoles.length > 0 ? 'rerun-roles'
+        : 'rerun-hosts';
+      const prerequisites = [...new Set(diagnoses.flatMap(diagnosis => diagnosis.retry.prerequisites))];
+      recommendedRetry = buildRetry(strategy, allHosts, allRoles, prerequisites, user, rangeId);
+    }
+
+    const stillDeploying = rangeState === 'DEPLOYING';
+    const skipped = Math.max(0, failures.length - maxFailures);
+    const nextSteps: string[] = [];
+    if (stillDeploying) {
+      nextSteps.push('The deployment is still running; results may change. Use watch_deployment to follow it, or range_abort to stop it');
+    }
+    if (diagnoses.length === 0) {
+      nextSteps.push(summary.plays.length === 0
+        ? 'The log has no Ansible output yet; check that a deployment was started'
+        : 'No failed tasks found. If the range state is ERROR, read the end of the log with watch_deployment (tailLines)');
+    } else {
+      nextSteps.push('Apply the fix steps, then retry with the suggested deploy_range call');
+      if (diagnoses.some(diagnosis => diagnosis.docs.length > 0)) {
+        nextSteps.push('Read the linked docs with ludus_docs_search (action "read", file_path "<path>#<anchor>")');
+      }
+    }
+    if (skipped > 0) {
+      nextSteps.push(`${skipped} more failed task result(s) were not analyzed; raise maxFailures to include them`);
+    }
+
+    return {
+      success: true,
+      message: diagnoses.length === 0
+        ? `No deployment failures found for ${targetUser}${rangeState ? ` (range state ${rangeState})` : ''}`
+        : `Found ${diagnoses.length} problem(s) across ${new Set(diagnoses.flatMap(diagnosis => diagnosis.hosts)).size} VM(s) for ${targetUser}${rangeState ? ` (range state ${rangeState})` : ''}`,
+      user: targetUser,
+      rangeState,
+      failureCount: failures.length + summary.errors.length,
+      recoveredHosts: [...recovered].filter(host => summary.failures.some(failure => failure.host === host)),
+      diagnoses,
+      recommendedRetry,
+      nextSteps
+    };
+  } catch (error: any) {
+    logger.error('Failed to diagnose deployment', { user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: targetUser,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the user has a range with a deployment (get_range_status)',
+        'Check if you have admin permissions (if diagnosing other users)',
+        'Pass logContent to analyze a log without a server connection'
+      ])
+    };
+  }
+}
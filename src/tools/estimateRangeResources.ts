@@ -0,0 +1,346 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as yaml from 'js-yaml';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { loadRangeConfigReference } from './rangeConfigDiff.js';
+
+export interface EstimateRangeResourcesArgs {
+  source?: string;     // "active", "base:<file>", a relative template path or a URL
+  content?: string;
+  user?: string;
+  hostRamGb?: number;
+  hostCpus?: number;
+  hostDiskGb?: number;
+}
+
+export interface HostCapacity {
+  ramGb?: number;
+  cpus?: number;
+  diskGb?: number;
+}
+
+export interface VmResourceEstimate {
+  vm_name: string;
+  template: string;
+  os: 'windows' | 'linux' | 'other';
+  ram_gb: number;
+  cpus: number;
+  disk_gb: number;
+  deploy_minutes: number;
+}
+
+export interface CapacityCheck {
+  resource: 'ram' | 'cpu' | 'disk';
+  required: number;
+  available: number;
+  percent: number;
+  status: 'ok' | 'tight' | 'over';
+  message: string;
+}
+
+export interface RangeResourceEstimate {
+  vms: VmResourceEstimate[];
+  totals: {
+    vmCount: number;
+    windowsVms: number;
+    linuxVms: number;
+    domainControllers: number;
+    roles: number;
+    ram_gb: number;
+    cpus: number;
+    disk_gb: number;
+  };
+  deployMinutes: { low: number; high: number };
+  capacity: CapacityCheck[];
+  assumptions: string[];
+}
+
+// Ludus deploys a router VM with these settings when the config has no router key
+const DEFAULT_ROUTER = { vm_name: 'router (default)', template: 'debian-11-x64-server-template', ram_gb: 2, cpus: 2 };
+
+// Typical on-disk size of a thin-provisioned clone after deployment, by template family
+const TEMPLATE_DISK_GB: Array<{ pattern: RegExp; diskGb: number }> = [
+  { pattern: /win.*server/i, diskGb: 35 },
+  { pattern: /win/i, diskGb: 30 },
+  { pattern: /kali|commando|flare|remnux/i, diskGb: 30 },
+  { pattern: /desktop/i, diskGb: 15 },
+  { pattern: /debian|ubuntu|rocky|alma|centos|fedora|alpine/i, diskGb: 8 }
+];
+const DEFAULT_DISK_GB = 15;
+
+// Roles that noticeably add disk usage or deployment time (matched against the role name)
+const HEAVY_ROLES: Array<{ pattern: RegExp; diskGb: number; minutes: number }> = [
+  { pattern: /sccm/i, diskGb: 40, minutes: 60 },
+  { pattern: /exchange/i, diskGb: 30, minutes: 45 },
+  { pattern: /mssql|sql_server/i, diskGb: 10, minutes: 20 },
+  { pattern: /elastic|splunk|graylog|wazuh_server|opencti/i, diskGb: 20, minutes: 20 },
+  { pattern: /adcs/i, diskGb: 2, minutes: 10 }
+];
+const DEFAULT_ROLE_MINUTES = 5;
+
+// Deployment phases, in minutes. VMs are set up in parallel, then each domain level waits for the
+// one above it (primary DC > members and child DCs > child members), then roles run in parallel.
+const CLONE_MINUTES = 5;
+const PER_VM_MINUTES = 1;
+const BASE_MINUTES = { windows: 10, other: 5 };
+const DOMAIN_STEP_MINUTES = { 'primary-dc': 10, 'alt-dc': 8, member: 4, 'child-dc': 10, 'child-member': 5 };
+const ESTIMATE_SPREAD = 0.2;
+
+/**
+ * Typical deployment times, shared by the estimate and the watch_deployment description.
+ * The estimate for base-configs/parent-child-template-config.yml brackets parentChildDomain.
+ */
+export const TYPICAL_DEPLOY_MINUTES = { min: 10, max: 60, parentChildDomain: 45 };
+
+interface VmDeploySteps {
+  base: number;
+  domainLevel: number;  // 0 for VMs that do not wait on a domain controller
+  domain: number;
+  roles: number;
+}
+
+function roleNames(vm: any): string[] {
+  return (Array.isArray(vm?.roles) ? vm.roles : [])
+    .map((role: any) => (typeof role === 'string' ? role : role?.name))
+    .filter((name: any): name is string => typeof name === 'string');
+}
+
+function vmOs(vm: any): 'windows' | 'linux' | 'other' {
+  if (vm?.windows || /win/i.test(String(vm?.template || ''))) return 'windows';
+  if (vm?.linux) return 'linux';
+  if (vm?.macOS) return 'other';
+  return /debian|ubuntu|kali|rocky|alma|centos|fedora|alpine|linux/i.test(String(vm?.template || '')) ? 'linux' : 'other';
+}
+
+function templateDiskGb(template: string): number {
+  return TEMPLATE_DISK_GB.find(entry => entry.pattern.test(template))?.diskGb ?? DEFAULT_DISK_GB;
+}
+
+function estimateVm(vm: any, index: number, assumptions: Set<string>): VmResourceEstimate {
+  const template = String(vm?.template || 'unknown');
+  const os = vmOs(vm);
+  const roles = roleNames(vm);
+
+  const ramGb = typeof vm?.ram_gb === 'number' ? vm.ram_gb : 4;
+  const cpus = typeof vm?.cpus === 'number' ? vm.cpus : 2;
+  if (typeof vm?.ram_gb !== 'number' || typeof vm?.cpus !== 'number') {
+    assumptions.add('VMs without ram_gb/cpus are counted as 4 GB / 2 CPUs');
+  }
+
+  let diskGb = templateDiskGb(template);
+  const steps = vmDeploySteps(vm, os);
+  // Count each heavy product once per VM, like its deploy time
+  for (const heavy of HEAVY_ROLES.filter(entry => roles.some(role => entry.pattern.test(role)))) {
+    diskGb += heavy.diskGb;
+  }
+
+  return {
+    vm_name: vm?.vm_name || vm?.hostname || `ludus[${index}]`,
+    template,
+    os,
+    ram_gb: ramGb,
+    cpus,
+    disk_gb: diskGb,
+    deploy_minutes: steps.base + steps.domain + steps.roles
+  };
+}
+
+function vmDeploySteps(vm: any, os: VmResourceEstimate['os']): VmDeploySteps {
+  const steps: VmDeploySteps = { base: os === 'windows' ? BASE_MINUTES.windows : BASE_MINUTES.other, domainLevel: 0, domain: 0, roles: 0 };
+
+  // Domain setup: promoting a DC takes far longer than joining one. The child domain roles
+  // promote or join outside the domain key, one level below the parent domain.
+  const domainRole = vm?.domain?.role;
+  if (domainRole === 'primary-dc') {
+    steps.domain = DOMAIN_STEP_MINUTES['primary-dc'];
+  } else if (domainRole === 'alt-dc' || domainRole === 'member') {
+    steps.domainLevel = 1;
+    steps.domain = domainRole === 'alt-dc' ? DOMAIN_STEP_MINUTES['alt-dc'] : DOMAIN_STEP_MINUTES.member;
+  }
+
+  // Collections often split one product into several roles (e.g. the SCCM roles); count each product once per VM
+  const counted = new Set<RegExp>();
+  for (const role of roleNames(vm)) {
+    if (/child_domain/i.test(role)) {
+      const join = /join/i.test(role);
+      steps.domainLevel = Math.max(steps.domainLevel, join ? 2 : 1);
+      steps.domain += join ? DOMAIN_STEP_MINUTES['child-member'] : DOMAIN_STEP_MINUTES['child-dc'];
+      continue;
+    }
+    const heavy = HEAVY_ROLES.find(entry => entry.pattern.test(role));
+    if (heavy && !counted.has(heavy.pattern)) {
+      counted.add(heavy.pattern);
+      steps.roles += heavy.minutes;
+    } else if (!heavy) {
+      steps.roles += DEFAULT_ROLE_MINUTES;
+    }
+  }
+  return steps;
+}
+
+function checkCapacity(resource: CapacityCheck['resource'], required: number, available: number, unit: string): CapacityCheck {
+  const percent = Math.round((required / available) * 100);
+  // Proxmox can overcommit CPUs, so only RAM and disk are hard limits
+  const overLimit = resource === 'cpu' ? 400 : 100;
+  const tightLimit = resource === 'cpu' ? 200 : 85;
+  const status: CapacityCheck['status'] = percent > overLimit ? 'over' : percent > tightLimit ? 'tight' : 'ok';
+  const label = resource === 'cpu' ? 'vCPUs' : resource.toUpperCase();
+
+  return {
+    resource,
+    required,
+    available,
+    percent,
+    status,
+    message: `${label}: ${required}${unit} of ${available}${unit} (${percent}%)` +
+             (status === 'over' ? ' - exceeds host capacity' : status === 'tight' ? ' - little headroom left' : '')
+  };
+}
+
+/**
+ * Estimate RAM, CPU, disk and deployment time for a parsed range config
+ */
+export function estimateRangeResources(config: any, capacity: HostCapacity = {}): RangeResourceEstimate {
+  const assumptions = new Set<string>([
+    'Disk sizes are typical thin-provisioned usage per template family, not allocated disk size',
+    'Deploy time assumes Ludus sets up VMs in parallel, waits for each domain controller before its members and child domains, then runs roles in parallel'
+  ]);
+
+  const configVms: any[] = config && Array.isArray(config.ludus) ? config.ludus : [];
+  const router = config?.router && typeof config.router === 'object' ? config.router : null;
+  if (!router) {
+    assumptions.add('Includes the default router VM (2 GB / 2 CPUs)');
+  }
+  const sourceVms = [...configVms, router ? { ...router, vm_name: router.vm_name || 'router', linux: true } : { ...DEFAULT_ROUTER, linux: true }];
+  const vms: VmResourceEstimate[] = sourceVms.map((vm, index) => estimateVm(vm, index, assumptions));
+
+  const totals = {
+    vmCount: vms.length,
+    windowsVms: vms.filter((vm: VmResourceEstimate) => vm.os === 'windows').length,
+    linuxVms: vms.filter((vm: VmResourceEstimate) => vm.os === 'linux').length,
+    domainControllers: configVms.filter(vm => vm?.domain?.role === 'primary-dc' || vm?.domain?.role === 'alt-dc').length,
+    roles: configVms.reduce((count, vm) => count + roleNames(vm).length, 0),
+    ram_gb: vms.reduce((sum: number, vm: VmResourceEstimate) => sum + vm.ram_gb, 0),
+    cpus: vms.reduce((sum: number, vm: VmResourceEstimate) => sum + vm.cpus, 0),
+    disk_gb: vms.reduce((sum: number, vm: VmResourceEstimate) => sum + vm.disk_gb, 0)
+  };
+
+  // Critical path: the slowest VM setup, the slowest step of each domain level in turn, then the
+  // slowest VM's roles. Serial work on the Proxmox host (cloning) grows with the VM count.
+  const steps = sourceVms.map((vm, index) => vmDeploySteps(vm, vms[index].os));
+  const slowest = (values: number[]): number => Math.max(0, ...values);
+  const domainLevels = [0, 1, 2].map(level => slowest(steps.filter(step => step.domain > 0 && step.domainLevel === level).map(step => step.domain)));
+  const typical = CLONE_MINUTES + vms.length * PER_VM_MINUTES +
+                  slowest(steps.map(step => step.base)) +
+                  domainLevels.reduce((sum, minutes) => sum + minutes, 0) +
+                  slowest(steps.map(step => step.roles));
+  const low = Math.round(typical * (1 - ESTIMATE_SPREAD));
+  const high = Math.round(typical * (1 + ESTIMATE_SPREAD));
+
+  const capacityChecks: CapacityCheck[] = [];
+  if (capacity.ramGb) capacityChecks.push(checkCapacity('ram', totals.ram_gb, capacity.ramGb, ' GB'));
+  if (capacity.cpus) capacityChecks.push(checkCapacity('cpu', totals.cpus, capacity.cpus, ''));
+  if (capacity.diskGb) capacityChecks.push(checkCapacity('disk', totals.disk_gb, capacity.diskGb, ' GB'));
+
+  return {
+    vms,
+    totals,
+    deployMinutes: { low, high },
+    capacity: capacityChecks,
+    assumptions: [...assumptions]
+  };
+}
+
+export function createEstimateRangeResourcesTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'estimate_range_resources',
+    description: `Estimate the resources a range configuration needs before deploying it: total RAM and CPUs (from ram_gb/cpus per VM, including the router), disk usage by template type and heavy roles, and a deployment time range based on Windows VMs, domain controllers and roles.
+
+Pass the Ludus host's capacity (hostRamGb, hostCpus, hostDiskGb) to get a comparison showing whether the range fits. Use this when planning large labs (SCCM, ADCS, Elastic) or before approving another user's range.
+
+**CONFIG SOURCE**: "active" (the config set on the server), "base:<file>", a relative path under ~/.ludus-mcp/range-config-templates/, a URL, or inline content.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description: 'Config to estimate: "active", "base:<file>", a relative path (e.g., "user1/config.yml") or a URL'
+        },
+        content: {
+          type: 'string',
+          description: 'Inline YAML range configuration (alternative to source)'
+        },
+        user: {
+          type: 'string',
+          description: 'User whose active config is used when source is "active" (admin only)'
+        },
+        hostRamGb: {
+          type: 'number',
+          description: 'Free RAM on the Ludus host in GB, for the capacity comparison'
+        },
+        hostCpus: {
+          type: 'number',
+          description: 'CPU cores on the Ludus host, for the capacity comparison'
+        },
+        hostDiskGb: {
+          type: 'number',
+          description: 'Free VM storage on the Ludus host in GB, for the capacity comparison'
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export async function handleEstimateRangeResources(
+  args: EstimateRangeResourcesArgs,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper
+): Promise<any> {
+  const { source, content, user, hostRamGb, hostCpus, hostDiskGb } = args;
+
+  try {
+    let config: any;
+    if (content) {
+      config = yaml.load(content);
+    } else if (source) {
+      config = await loadRangeConfigReference(source, logger, cliWrapper, user);
+    } else {
+      throw new Error('Either source or content must be provided');
+    }
+
+    const capacity: HostCapacity = {};
+    if (hostRamGb) capacity.ramGb = hostRamGb;
+    if (hostCpus) capacity.cpus = hostCpus;
+    if (hostDiskGb) capacity.diskGb = hostDiskGb;
+
+    logger.info('Estimating range resources', { source: source || 'inline content', capacity });
+    const estimate = estimateRangeResources(config, capacity);
+    const over = estimate.capacity.filter(check => check.status === 'over');
+
+    return {
+      success: true,
+      source: source || 'inline content',
+      estimate,
+      message: `${estimate.totals.vmCount} VM(s): ${estimate.totals.ram_gb} GB RAM, ${estimate.totals.cpus} vCPUs, ~${estimate.totals.disk_gb} GB disk, ` +
+               `deploy ~${estimate.deployMinutes.low}-${estimate.deployMinutes.high} min`,
+      nextSteps: [
+        ...(over.length > 0 ? [`Reduce ram_gb/cpus or remove VMs: ${over.map(check => check.resource).join(', ')} exceed host capacity`] : []),
+        ...(estimate.capacity.length === 0 ? ['Pass hostRamGb, hostCpus and hostDiskGb to compare against the Ludus host'] : []),
+        'Use validate_range_config before deploying'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to estimate range resources', { source, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      troubleshooting: [
+        'Provide source ("active", "base:<file>", relative path or URL) or inline content',
+        'Verify YAML syntax with validate_range_config',
+        'The "active" source requires a connection to the Ludus server'
+      ]
+    };
+  }
+}
@@ -6,6 +6,7 @@ import * as path from 'path';
 
 export interface GetConnectionInfoArgs {
   user?: string;
+  rangeId?: string;
   connectionType?: 'rdp' | 'wireguard' | 'etc-hosts' | 'all';
   help?: boolean;
 }
@@ -21,6 +22,10 @@ export function createGetConnectionInfoTool(logger: Logger, cliWrapper: LudusCli
           type: 'string',
           description: 'User ID to get connection info for (admin only). If omitted, gets info for current user.'
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
         connectionType: {
           type: 'string',
           enum: ['rdp', 'wireguard', 'etc-hosts', 'all'],
@@ -43,7 +48,7 @@ export async function handleGetConnectionInfo(
   logger: Logger,
   cliWrapper: LudusCliWrapper
 ): Promise<any> {
-  const { user, connectionType = 'all', help = false } = args;
+  const { user, rangeId, connectionType = 'all', help = false } = args;
 
   // Handle help request
   if (help) {
@@ -80,7 +85,7 @@ export async function handleGetConnectionInfo(
     if (connectionType === 'rdp' || connectionType === 'all') {
       try {
         logger.info('Retrieving RDP connection info');
-        const rdpResult = await cliWrapper.getRangeRdpInfo(user);
+        const rdpResult = await cliWrapper.getRangeRdpInfo(user, rangeId);
         
         if (rdpResult.success) {
           connectionInfo.connections.rdp = {
@@ -138,7 +143,7 @@ export async function handleGetConnectionInfo(
     if (connectionType === 'etc-hosts' || connectionType === 'all') {
       try {
         logger.info('Retrieving /etc/hosts information');
-        const hostsResult = await cliWrapper.getRangeEtcHosts(user);
+        const hostsResult = await cliWrapper.getRangeEtcHosts(user, rangeId);
         
         if (hostsResult.success) {
           connectionInfo.connections.etcHosts = {
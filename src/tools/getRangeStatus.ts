@@ -1,16 +1,19 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { parseRangeStatus, formatRangeStatus } from './rangeStatus.js';
 
 export interface GetRangeStatusArgs {
   user?: string;
+  rangeId?: string;
   help?: boolean;
 }
 
 export function createGetRangeStatusTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
   return {
     name: 'get_range_status',
-    description: 'Get the current status and details of a Ludus range. Shows deployment state, VM information, and range configuration. Requires admin privileges to check other users\' ranges.',
+    description: 'Get the current status and details of a Ludus range. Returns the range state (SUCCESS, DEPLOYING, ERROR, ...), last deployment, testing mode, and per-VM power state (running/stopped), IP and VLAN as structured data and a table. Requires admin privileges to check other users\' ranges.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -18,6 +21,10 @@ export function createGetRangeStatusTool(logger: Logger, cliWrapper: LudusCliWra
           type: 'string',
           description: 'User ID to get range status for (admin only). If omitted, gets status for current user.'
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
         help: {
           type: 'boolean',
           description: 'Show help information for the get_range_status command',
@@ -34,7 +41,7 @@ export async function handleGetRangeStatus(
   logger: Logger,
   cliWrapper: LudusCliWrapper
 ): Promise<any> {
-  const { user, help = false } = args;
+  const { user, rangeId, help = false } = args;
 
   // Handle help request
   if (help) {
@@ -54,22 +61,43 @@ export async function handleGetRangeStatus(
   }
 
   try {
-    logger.info('Getting range status', { user });
+    logger.info('Getting range status', { user, rangeId });
 
-    const statusResult = await cliWrapper.getRangeStatus(user);
+    const statusResult = await cliWrapper.getRangeStatus(user, rangeId);
 
     if (!statusResult.success) {
-      throw new Error(`Failed to get range status: ${statusResult.message}`);
+      throw new LudusCommandError(`Failed to get range status: ${statusResult.message}`, statusResult);
     }
 
     const targetUser = user || 'current user';
-    
+    const range = parseRangeStatus(statusResult.data);
+
+    if (!range) {
+      throw new LudusCommandError(`Unexpected range status output: ${statusResult.rawOutput || statusResult.message}`, statusResult);
+    }
+
+    const running = range.vms.filter(vm => vm.powerState === 'running').length;
+    const nextSteps: string[] = [];
+    if (range.state === 'DEPLOYING') {
+      nextSteps.push('Deployment in progress: follow it with watch_deployment()');
+    } else if (range.state === 'ERROR') {
+      nextSteps.push('The last deployment failed: use diagnose_deployment() for causes and fixes');
+    } else if (range.vmCount === 0 || range.state === 'NEVER DEPLOYED') {
+      nextSteps.push('No VMs deployed yet: set a config with set_range_config() and run deploy_range()');
+    } else {
+      nextSteps.push('Use get_connection_info() to access the VMs');
+    }
+    if (range.vms.some(vm => vm.powerState === 'stopped')) {
+      nextSteps.push('Start stopped VMs with ludus_power({ action: "on" })');
+    }
+
     return {
       success: true,
-      message: `Range status retrieved for ${targetUser}`,
+      message: `Range status for ${targetUser}: ${range.state}, ${running}/${range.vmCount} VM(s) running`,
       user: targetUser,
-      status: statusResult.data,
-      rawOutput: statusResult.rawOutput
+      range,
+      table: formatRangeStatus(range),
+      nextSteps
     };
 
   } catch (error: any) {
@@ -82,12 +110,13 @@ export async function handleGetRangeStatus(
       success: false,
       message: error.message,
       user: user || 'current user',
-      troubleshooting: [
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
         'Verify the user has a deployed range',
         'Check if you have admin permissions (if querying other users)',
         'Ensure your Ludus server connection is working',
         'Try deploying a range first if none exists'
-      ]
+      ])
     };
   }
 } 
\ No newline at end of file
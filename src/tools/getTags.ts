@@ -1,6 +1,7 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError } from '../ludusMCP/commandErrors.js';
 
 export interface GetTagsArgs {
   user?: string;
@@ -59,7 +60,7 @@ export async function handleGetTags(
     const result = await cliWrapper.getTags(user);
 
     if (!result.success) {
-      throw new Error(`Failed to get deployment tags: ${result.message}`);
+      throw new LudusCommandError(`Failed to get deployment tags: ${result.message}`, result);
     }
 
     const targetUser = user || 'current user';
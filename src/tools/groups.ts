@@ -0,0 +1,522 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, errorKindResponse, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+
+export interface GroupListArgs {
+  group?: string;
+  help?: boolean;
+}
+
+export interface GroupCreateArgs {
+  name: string;
+  description?: string;
+  help?: boolean;
+}
+
+export interface GroupDeleteArgs {
+  name: string;
+  confirmDestructiveAction?: boolean;
+  help?: boolean;
+}
+
+export interface GroupMembersArgs {
+  action: 'add' | 'remove';
+  group: string;
+  users: string;          // comma-separated user IDs
+  manager?: boolean;
+  help?: boolean;
+}
+
+export interface GroupRangesArgs {
+  action: 'add' | 'remove';
+  group: string;
+  rangeIds: string;       // comma-separated range IDs
+  help?: boolean;
+}
+
+export function createGroupListTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'group_list',
+    description: 'List Ludus groups, or the members and ranges of one group. Groups give every member access to the group\'s ranges, e.g. a class group with the instructor and TAs as managers and the student ranges attached.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group: {
+          type: 'string',
+          description: 'Group name to show members and ranges for. If omitted, lists all groups.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus group list command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createGroupCreateTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'group_create',
+    description: 'Create a Ludus group (admin operation). Add users with group_members and ranges with group_ranges; members get access to the group\'s ranges without sharing API keys.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the group to create (e.g., "fall-course")'
+        },
+        description: {
+          type: 'string',
+          description: 'Optional description of the group'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus group create command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+export function createGroupDeleteTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'group_delete',
+    description: 'Delete a Ludus group (admin operation). Members lose the access the group gave them to its ranges; the users and ranges themselves are not deleted. Requires confirmation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the group to delete'
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required confirmation for delete operations. Must be true to delete the group.',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus group delete command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+export function createGroupMembersTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'group_members',
+    description: 'Add users to or remove users from a Ludus group. Members get access to every range in the group; managers (manager: true) can also add and remove the group\'s members and ranges. Requires admin privileges or group manager rights.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['add', 'remove'],
+          description: 'Add or remove the users'
+        },
+        group: {
+          type: 'string',
+          description: 'Group name'
+        },
+        users: {
+          type: 'string',
+          description: 'Comma-separated user IDs (e.g., "TA1,TA2"). Use list_all_users to find user IDs.'
+        },
+        manager: {
+          type: 'boolean',
+          description: 'Add the users as group managers (add only)',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus group members command',
+          default: false
+        }
+      },
+      required: ['action', 'group', 'users']
+    }
+  };
+}
+
+export function createGroupRangesTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'group_ranges',
+    description: 'Add ranges to or remove ranges from a Ludus group. Every group member gets access to the group\'s ranges (VPN/RDP, power, snapshots), which lets TAs work on student ranges without the students\' API keys. Requires admin privileges or group manager rights.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['add', 'remove'],
+          description: 'Add or remove the ranges'
+        },
+        group: {
+          type: 'string',
+          description: 'Group name'
+        },
+        rangeIds: {
+          type: 'string',
+          description: 'Comma-separated range IDs (e.g., "STU1,STU2"). Use list_ranges({ all: true }) to find range IDs.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus group ranges command',
+          default: false
+        }
+      },
+      required: ['action', 'group', 'rangeIds']
+    }
+  };
+}
+
+/**
+ * Split a comma-separated list of IDs, dropping blanks and duplicates
+ */
+function parseIdList(value: string | undefined): string[] {
+  return [...new Set((value || '').split(',').map(item => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Run `ludus group <subcommand> --help` and return it in the standard help shape
+ */
+async function getGroupHelp(subcommand: string, logger: Logger, cliWrapper: LudusCliWrapper): Promise<any> {
+  logger.info('Getting help for ludus group command', { subcommand });
+  const result = await cliWrapper.executeArbitraryCommand('group', [subcommand, '--help']);
+
+  if (result.success) {
+    return {
+      success: true,
+      message: `Help information for ludus group ${subcommand} command`,
+      help: true,
+      content: result.rawOutput || result.message
+    };
+  } else {
+    throw new Error(`Failed to get help: ${result.message}`);
+  }
+}
+
+export async function handleGroupList(
+  args: GroupListArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { group, help = false } = args;
+
+  if (help) {
+    return getGroupHelp('list', logger, cliWrapper);
+  }
+
+  try {
+    if (!group) {
+      logger.info('Listing groups');
+      const result = await cliWrapper.listGroups();
+      if (!result.success) {
+        throw new LudusCommandError(result.message, result);
+      }
+
+      const groups = Array.isArray(result.data) ? result.data : [];
+      return {
+        success: true,
+        message: Array.isArray(result.data) ? `Found ${groups.length} group(s)` : 'Group information retrieved',
+        groups: result.data,
+        rawOutput: result.rawOutput,
+        nextSteps: ['Use group_list({ group: "<name>" }) to see a group\'s members and ranges']
+      };
+    }
+
+    logger.info('Listing group members and ranges', { group });
+    const [members, ranges] = await Promise.all([
+      cliWrapper.listGroupMembers(group),
+      cliWrapper.listGroupRanges(group)
+    ]);
+    if (!members.success) {
+      throw new LudusCommandError(`Failed to list members of ${group}: ${members.message}`, members);
+    }
+    if (!ranges.success) {
+      throw new LudusCommandError(`Failed to list ranges of ${group}: ${ranges.message}`, ranges);
+    }
+
+    return {
+      success: true,
+      message: `Members and ranges of group ${group}`,
+      group,
+      members: members.data,
+      ranges: ranges.data,
+      nextSteps: [
+        `Use group_members({ action: "add", group: "${group}", users: "<ids>" }) to add users`,
+        `Use group_ranges({ action: "add", group: "${group}", rangeIds: "<ids>" }) to share ranges`
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to list groups', { group, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      group,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Groups require a Ludus version with group support (ludus group --help)',
+        'Check the group name with group_list()',
+        'Ensure your Ludus server connection is working'
+      ])
+    };
+  }
+}
+
+export async function handleGroupCreate(
+  args: GroupCreateArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, description, help = false } = args;
+
+  if (help) {
+    return getGroupHelp('create', logger, cliWrapper);
+  }
+
+  try {
+    if (!name) {
+      throw new Error('Group name is required');
+    }
+
+    logger.info('Creating group', { name });
+
+    const result = await cliWrapper.createGroup(name, description);
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Group "${name}" created`,
+      group: name,
+      data: result.data,
+      nextSteps: [
+        `Use group_members({ action: "add", group: "${name}", users: "<ids>" }) to add users (manager: true for instructors/TAs)`,
+        `Use group_ranges({ action: "add", group: "${name}", rangeIds: "<ids>" }) to give the members access to ranges`
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to create group', { name, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      group: name,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Creating groups requires admin privileges (admin API via SSH tunnel)',
+        'Check that a group with the same name does not already exist (group_list)',
+        'Ensure the SSH tunnel to the admin API is working'
+      ])
+    };
+  }
+}
+
+export async function handleGroupDelete(
+  args: GroupDeleteArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, confirmDestructiveAction = false, help = false } = args;
+
+  if (help) {
+    return getGroupHelp('delete', logger, cliWrapper);
+  }
+
+  // Safety check for delete operations
+  if (!confirmDestructiveAction) {
+    return {
+      success: false,
+      message: 'Group delete operation requires confirmation',
+      group: name,
+      confirmationRequired: true,
+      reason: 'Members immediately lose the access this group gives them to its ranges',
+      instructions: [
+        'To confirm this action, call the tool again with confirmDestructiveAction: true',
+        `Example: group_delete({ name: "${name}", confirmDestructiveAction: true })`,
+        `Use group_list({ group: "${name}" }) first to see who is affected`
+      ]
+    };
+  }
+
+  try {
+    logger.info('Deleting group', { name });
+
+    const result = await cliWrapper.deleteGroup(name);
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Group "${name}" deleted`,
+      group: name,
+      data: result.data,
+      nextSteps: ['The users and ranges of the group still exist; use group_list() to check the remaining groups']
+    };
+  } catch (error: any) {
+    logger.error('Failed to delete group', { name, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { what: `Group "${name}"`, listWith: 'group_list()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      group: name,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Deleting groups requires admin privileges (admin API via SSH tunnel)',
+        'Check the group name with group_list()',
+        'Ensure the SSH tunnel to the admin API is working'
+      ])
+    };
+  }
+}
+
+export async function handleGroupMembers(
+  args: GroupMembersArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { action, group, users, manager = false, help = false } = args;
+
+  if (help) {
+    return getGroupHelp('members', logger, cliWrapper);
+  }
+
+  const userIds = parseIdList(users);
+
+  try {
+    if (action !== 'add' && action !== 'remove') {
+      throw new Error('Action must be "add" or "remove"');
+    }
+    if (!group) {
+      throw new Error('Group name is required');
+    }
+    if (userIds.length === 0) {
+      throw new Error('At least one user ID is required');
+    }
+
+    logger.info('Updating group members', { action, group, userIds, manager });
+
+    const result = action === 'add'
+      ? await cliWrapper.addGroupMembers(group, userIds, manager)
+      : await cliWrapper.removeGroupMembers(group, userIds);
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const role = action === 'add' && manager ? ' as manager(s)' : '';
+    return {
+      success: true,
+      message: action === 'add'
+        ? `Added ${userIds.join(', ')} to group "${group}"${role}`
+        : `Removed ${userIds.join(', ')} from group "${group}"`,
+      action,
+      group,
+      users: userIds,
+      manager: action === 'add' ? manager : undefined,
+      data: result.data,
+      nextSteps: [
+        `Use group_list({ group: "${group}" }) to confirm the membership`,
+        action === 'add'
+          ? 'Members reach the group\'s ranges with their own API key and WireGuard config (get_connection_info)'
+          : 'Removed users no longer reach the group\'s ranges unless they have access another way (range_access list)'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to update group members', { action, group, userIds, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { what: `Group "${group}" or one of the users ${userIds.join(', ')}`, listWith: 'group_list() and list_all_users()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      group,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Managing members requires admin privileges or manager rights in the group',
+        'Check the user IDs with list_all_users() and the group with group_list()',
+        'Ensure your Ludus server connection is working'
+      ])
+    };
+  }
+}
+
+export async function handleGroupRanges(
+  args: GroupRangesArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { action, group, rangeIds, help = false } = args;
+
+  if (help) {
+    return getGroupHelp('ranges', logger, cliWrapper);
+  }
+
+  const ids = parseIdList(rangeIds);
+
+  try {
+    if (action !== 'add' && action !== 'remove') {
+      throw new Error('Action must be "add" or "remove"');
+    }
+    if (!group) {
+      throw new Error('Group name is required');
+    }
+    if (ids.length === 0) {
+      throw new Error('At least one range ID is required');
+    }
+
+    logger.info('Updating group ranges', { action, group, rangeIds: ids });
+
+    const result = action === 'add'
+      ? await cliWrapper.addGroupRanges(group, ids)
+      : await cliWrapper.removeGroupRanges(group, ids);
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: action === 'add'
+        ? `Added range(s) ${ids.join(', ')} to group "${group}"`
+        : `Removed range(s) ${ids.join(', ')} from group "${group}"`,
+      action,
+      group,
+      rangeIds: ids,
+      data: result.data,
+      nextSteps: [
+        `Use group_list({ group: "${group}" }) to confirm the group's ranges`,
+        action === 'add'
+          ? 'Members can now target these ranges with rangeId (list_ranges shows the IDs)'
+          : 'Members of the group no longer reach these ranges through it'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to update group ranges', { action, group, rangeIds: ids, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { what: `Group "${group}" or one of the ranges ${ids.join(', ')}`, listWith: 'group_list() and list_ranges({ all: true })' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      group,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Managing group ranges requires admin privileges or manager rights in the group',
+        'Check the range IDs with list_ranges({ all: true }) and the group with group_list()',
+        'Ensure your Ludus server connection is working'
+      ])
+    };
+  }
+}
@@ -112,6 +112,36 @@ export const ludusListRoleCollectionSchemasTool: Tool = {
   }
 };
 
+export const resolveRoleDependenciesTool: Tool = {
+  name: 'resolve_role_dependencies',
+  description: 'Resolve role dependencies of a range config using local role schemas. Reports transitive dependencies per VM, roles not installed on the server, and role ordering problems.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', description: 'Relative config path or URL' },
+      content: { type: 'string', description: 'Inline YAML content' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      checkInstalled: { type: 'boolean', description: 'Check against roles installed on the server. Defaults to true' }
+    }
+  }
+};
+
+export const estimateRangeResourcesTool: Tool = {
+  name: 'estimate_range_resources',
+  description: 'Estimate RAM, CPU, disk and deployment time for a range config, optionally compared against host capacity.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', description: '"active", "base:<file>", relative config path or URL' },
+      content: { type: 'string', description: 'Inline YAML content' },
+      user: { type: 'string', description: 'Target user for the active config (admin only)' },
+      hostRamGb: { type: 'number', description: 'Host RAM in GB' },
+      hostCpus: { type: 'number', description: 'Host CPU cores' },
+      hostDiskGb: { type: 'number', description: 'Host VM storage in GB' }
+    }
+  }
+};
+
 // ============================================================================
 // STATIC TOOL EXPORTS - Core Range Management
 // ============================================================================
@@ -123,12 +153,14 @@ export const deployRangeTool: Tool = {
     type: 'object',
     properties: {
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       configPath: { type: 'string', description: 'Path to range configuration file' },
       force: { type: 'boolean', description: 'Force deployment without prompts' },
       tags: { type: 'string', description: 'Comma-separated deployment tags' },
       limit: { type: 'string', description: 'Limit deployment to specific pattern' },
       onlyRoles: { type: 'string', description: 'Deploy only specific roles' },
       verboseAnsible: { type: 'boolean', description: 'Enable verbose Ansible output' },
+      skipTemplateCheck: { type: 'boolean', description: 'Skip the check that all referenced templates are built' },
       help: { type: 'boolean', description: 'Show help information' }
     }
   }
@@ -136,11 +168,12 @@ export const deployRangeTool: Tool = {
 
 export const getRangeStatusTool: Tool = {
   name: 'get_range_status',
-  description: 'Get current status of a deployed range including deployment progress and VM states.',
+  description: 'Get current status of a deployed range: state, last deployment, testing mode and per-VM power state, IP and VLAN (structured data plus a table).',
   inputSchema: {
     type: 'object',
     properties: {
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       help: { type: 'boolean', description: 'Show help information' }
     }
   }
@@ -148,7 +181,7 @@ export const getRangeStatusTool: Tool = {
 
 export const listUserRangesTool: Tool = {
   name: 'list_user_ranges',
-  description: 'List all deployed ranges for a user, showing current status and basic information.',
+  description: 'List all deployed ranges for a user: state, VM and running counts, testing mode and last deployment per range.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -158,6 +191,31 @@ export const listUserRangesTool: Tool = {
   }
 };
 
+export const listRangesTool: Tool = {
+  name: 'list_ranges',
+  description: 'List ranges grouped by user with range ID, state and VM counts, marking the session\'s current range. all: true lists every user\'s ranges (admin only).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      all: { type: 'boolean', description: 'List the ranges of all users (admin only)' }
+    }
+  }
+};
+
+export const setCurrentRangeTool: Tool = {
+  name: 'set_current_range',
+  description: 'Set the range ID that range tools use by default for the rest of this session when they act on the range\'s user, or clear it to use the server default range.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      rangeId: { type: 'string', description: 'Range ID to use by default (see list_ranges)' },
+      user: { type: 'string', description: 'User who owns the range; it only applies to calls for this user (admin only)' },
+      clear: { type: 'boolean', description: 'Clear the current range' }
+    }
+  }
+};
+
 export const getConnectionInfoTool: Tool = {
   name: 'get_connection_info',
   description: 'Download connection files (RDP, WireGuard, etc.) for accessing deployed range VMs.',
@@ -165,6 +223,7 @@ export const getConnectionInfoTool: Tool = {
     type: 'object',
     properties: {
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       downloadLocation: { type: 'string', description: 'Custom download directory path' },
       help: { type: 'boolean', description: 'Show help information' }
     }
@@ -178,6 +237,7 @@ export const destroyRangeTool: Tool = {
     type: 'object',
     properties: {
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       force: { type: 'boolean', description: 'Force destruction without prompts' },
       help: { type: 'boolean', description: 'Show help information' }
     }
@@ -191,11 +251,56 @@ export const rangeAbortTool: Tool = {
     type: 'object',
     properties: {
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       help: { type: 'boolean', description: 'Show help information' }
     }
   }
 };
 
+export const watchDeploymentTool: Tool = {
+  name: 'watch_deployment',
+  description: 'Summarize deployment progress from the range logs: state, percent complete, current phase/play/task, per-VM progress, failed hosts and elapsed time. Poll about once a minute while DEPLOYING.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      tailLines: { type: 'number', description: 'Also return the last N raw log lines (max 200)' },
+      includeHosts: { type: 'boolean', description: 'Include the per-VM breakdown (default: true)' }
+    }
+  }
+};
+
+export const diagnoseDeploymentTool: Tool = {
+  name: 'diagnose_deployment',
+  description: 'Diagnose a failed deployment: extracts fatal/FAILED! blocks from the range logs, classifies them (missing template, role not installed, WinRM timeout, DNS, disk space, bad role_vars), links troubleshooting docs and suggests a deploy_range retry.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      logContent: { type: 'string', description: 'Log text to analyze instead of fetching the range logs' },
+      maxFailures: { type: 'number', description: 'Maximum failed task results to analyze (default: 20)' },
+      includeBlocks: { type: 'boolean', description: 'Include the raw error blocks' }
+    }
+  }
+};
+
+export const planRedeployTool: Tool = {
+  name: 'plan_redeploy',
+  description: 'Compute the minimal redeploy for a config change: diffs the deployed config against the new one and returns deploy_range limit (changed VMs + localhost), onlyRoles and tags checked against get_tags. Does not deploy.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', description: 'Previously deployed config: "active" (default), "base:<file>" or a relative path' },
+      to: { type: 'string', description: 'New config: "active", "base:<file>" or a relative path' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' }
+    },
+    required: ['to']
+  }
+};
+
 export const ludusPowerTool: Tool = {
   name: 'ludus_power',
   description: 'Power management for range VMs (start/stop). Power off operations require confirmation as they may interrupt running processes.',
@@ -204,6 +309,7 @@ export const ludusPowerTool: Tool = {
     properties: {
       action: { type: 'string', enum: ['on', 'off'], description: 'Power action to perform' },
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       vmNames: { type: 'string', description: 'VM name(s) to power on/off. Defaults to "all"' },
       confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation for power off operations. Must be true to power off VMs.' },
       help: { type: 'boolean', description: 'Show help information' }
@@ -212,6 +318,206 @@ export const ludusPowerTool: Tool = {
   }
 };
 
+export const snapshotListTool: Tool = {
+  name: 'snapshot_list',
+  description: 'List snapshots for the VMs in a range.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const snapshotCreateTool: Tool = {
+  name: 'snapshot_create',
+  description: 'Create a named snapshot of all or selected VMs in a range.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Snapshot name' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      vmIds: { type: 'string', description: 'Comma-separated VM IDs to snapshot. Defaults to all VMs' },
+      description: { type: 'string', description: 'Snapshot description' },
+      includeRAM: { type: 'boolean', description: 'Include RAM state in the snapshot. Defaults to true' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
+export const snapshotRevertTool: Tool = {
+  name: 'snapshot_revert',
+  description: 'Revert all or selected VMs in a range to a named snapshot. Requires confirmation as changes since the snapshot are lost.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Snapshot name to revert to' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      vmIds: { type: 'string', description: 'Comma-separated VM IDs to revert. Defaults to all VMs' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation. Must be true to revert VMs.' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
+export const snapshotRemoveTool: Tool = {
+  name: 'snapshot_remove',
+  description: 'Remove a named snapshot from all or selected VMs in a range. Requires confirmation as removed snapshots cannot be recovered.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Snapshot name to remove' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      vmIds: { type: 'string', description: 'Comma-separated VM IDs to remove the snapshot from. Defaults to all VMs' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation. Must be true to remove snapshots.' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
+export const testingStartTool: Tool = {
+  name: 'testing_start',
+  description: 'Enter testing mode: snapshot VMs and block internet access.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const testingStopTool: Tool = {
+  name: 'testing_stop',
+  description: 'Exit testing mode: revert VMs to their testing snapshots and restore internet access. Requires confirmation as changes made during testing are lost.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      force: { type: 'boolean', description: 'Force testing mode off' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation. Must be true to stop testing mode.' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const testingAllowTool: Tool = {
+  name: 'testing_allow',
+  description: 'Allow domains and/or IPs through the testing mode firewall.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      domains: { type: 'string', description: 'Comma-separated domains to allow' },
+      ips: { type: 'string', description: 'Comma-separated IPs to allow' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const testingDenyTool: Tool = {
+  name: 'testing_deny',
+  description: 'Remove domains and/or IPs from the testing mode allowlist.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      domains: { type: 'string', description: 'Comma-separated domains to deny' },
+      ips: { type: 'string', description: 'Comma-separated IPs to deny' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const testingStatusTool: Tool = {
+  name: 'testing_status',
+  description: 'Show whether testing mode is enabled and which domains/IPs are allowed.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' }
+    }
+  }
+};
+
+export const templatesListTool: Tool = {
+  name: 'templates_list',
+  description: 'List VM templates on the Ludus server with their built/not-built state.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const templatesBuildTool: Tool = {
+  name: 'templates_build',
+  description: 'Start building VM templates. Builds run in the background; poll with templates_status.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      names: { type: 'string', description: 'Comma-separated template names. Defaults to all unbuilt templates' },
+      parallel: { type: 'number', description: 'Number of templates to build in parallel' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const templatesStatusTool: Tool = {
+  name: 'templates_status',
+  description: 'Show templates currently building and the tail of the build logs.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      includeLogs: { type: 'boolean', description: 'Include build log tail. Defaults to true' },
+      logLines: { type: 'number', description: 'Number of log lines to return. Defaults to 50' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const templatesAddTool: Tool = {
+  name: 'templates_add',
+  description: 'Upload a local Packer template directory to the Ludus server.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      directory: { type: 'string', description: 'Local template directory' },
+      force: { type: 'boolean', description: 'Overwrite an existing template' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['directory']
+  }
+};
+
+export const templatesRemoveTool: Tool = {
+  name: 'templates_remove',
+  description: 'Remove a VM template from the Ludus server. Requires confirmation.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Template name to remove' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation. Must be true to remove the template.' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
 export const getTagsTool: Tool = {
   name: 'get_tags',
   description: 'Get available deployment tags for selective range deployment.',
@@ -259,12 +565,13 @@ export const writeRangeConfigTool: Tool = {
 
 export const validateRangeConfigTool: Tool = {
   name: 'validate_range_config',
-  description: 'Validate range configuration against schema and best practices. Essential before deployment.',
+  description: 'Validate range configuration against schema and best practices, including role dependencies. Essential before deployment.',
   inputSchema: {
     type: 'object',
     properties: {
       source: { type: 'string', description: 'File path or URL to validate' },
       content: { type: 'string', description: 'YAML content to validate directly' },
+      user: { type: 'string', description: 'User whose installed roles are checked (admin only)' },
       help: { type: 'boolean', description: 'Show help information' }
     }
   }
@@ -289,7 +596,9 @@ export const getRangeConfigTool: Tool = {
     type: 'object',
     properties: {
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
       example: { type: 'boolean', description: 'Get example configuration instead' },
+      lint: { type: 'boolean', description: 'Lint the retrieved config (duplicate VMs/IPs, missing primary DC, unused rule VLANs, linux on Windows templates)' },
       help: { type: 'boolean', description: 'Show help information' }
     }
   }
@@ -303,12 +612,91 @@ export const setRangeConfigTool: Tool = {
     properties: {
       file: { type: 'string', description: 'Relative file path (e.g., "base-configs/acme.yml") of the configuration file within ~/.ludus-mcp/range-config-templates/' },
       user: { type: 'string', description: 'Target user (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' },
+      showDiff: { type: 'boolean', description: 'Show a per-VM diff against the active configuration' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation when the new config removes VMs or the active config cannot be loaded (not when none is set yet). Must be true to apply it.' },
       help: { type: 'boolean', description: 'Show help information' }
     },
     required: ['file']
   }
 };
 
+export const diffRangeConfigTool: Tool = {
+  name: 'diff_range_config',
+  description: 'Structural per-VM diff between two range configs: "active" (server), "base:<file>" (base config) or a relative template path. Shows added/removed VMs and changed RAM/CPU/roles/network rules.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', description: 'Config to compare from (default: "active")' },
+      to: { type: 'string', description: 'Config to compare to' },
+      user: { type: 'string', description: 'Target user for the active config (admin only)' },
+      rangeId: { type: 'string', description: 'Target range ID (default: current range, see list_ranges)' }
+    },
+    required: ['to']
+  }
+};
+
+export const ansibleRoleListTool: Tool = {
+  name: 'ansible_role_list',
+  description: 'List Ansible roles and collections installed on the Ludus server.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      user: { type: 'string', description: 'Target user (admin only)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const ansibleRoleAddTool: Tool = {
+  name: 'ansible_role_add',
+  description: 'Install an Ansible role on the Ludus server from Galaxy, a git URL, or a local directory.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', description: 'Galaxy role name, git URL, or local role directory' },
+      version: { type: 'string', description: 'Role version' },
+      force: { type: 'boolean', description: 'Reinstall if already installed' },
+      global: { type: 'boolean', description: 'Install for all users (admin only)' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['source']
+  }
+};
+
+export const ansibleRoleRemoveTool: Tool = {
+  name: 'ansible_role_remove',
+  description: 'Remove an Ansible role from the Ludus server. Requires confirmation.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Role name to remove' },
+      global: { type: 'boolean', description: 'Remove a global role (admin only)' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation. Must be true to remove the role.' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
+export const ansibleCollectionAddTool: Tool = {
+  name: 'ansible_collection_add',
+  description: 'Install an Ansible collection on the Ludus server from Galaxy or a URL.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Galaxy collection name or URL' },
+      version: { type: 'string', description: 'Collection version' },
+      force: { type: 'boolean', description: 'Reinstall if already installed' },
+      user: { type: 'string', description: 'Target user (admin only)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
 // ============================================================================
 // STATIC TOOL EXPORTS - Credential & Security
 // ============================================================================
@@ -351,17 +739,23 @@ export const insertCredsRangeConfigTool: Tool = {
 
 export const ludusDocsSearchTool: Tool = {
   name: 'ludus_docs_search',
-  description: 'Search Ludus documentation for configuration help, troubleshooting, and best practices.',
+  description: 'Search Ludus documentation for configuration help, troubleshooting, and best practices. Search results point to section anchors; read returns a table of contents, a single section, or long files in chunks.',
   inputSchema: {
     type: 'object',
     properties: {
       action: { 
         type: 'string', 
-        enum: ['search', 'list_categories', 'get_category'],
+        enum: ['search', 'read', 'list_structure'],
         description: 'Search action to perform'
       },
-      search_query: { type: 'string', description: 'Search terms for documentation' },
-      category: { type: 'string', description: 'Specific category to search or retrieve' },
+      search_query: { type: 'string', description: 'Search terms for documentation (ranked; quote exact phrases)' },
+      search_directory: { type: 'string', description: 'Limit search to a directory (e.g., "environment-guides")' },
+      file_path: { type: 'string', description: 'File to read, optionally with a section anchor (e.g., "roles.md#ludus_adcs")' },
+      section: { type: 'string', description: 'Anchor of a single section to read' },
+      toc: { type: 'boolean', description: 'Return only the table of contents of the file' },
+      chunk: { type: 'number', description: 'Chunk number for long files (1-based, default: 1)' },
+      max_tokens: { type: 'number', description: 'Approximate maximum tokens per chunk (default: 4000)' },
+      max_results: { type: 'number', description: 'Maximum number of search results (default: 10)' },
       help: { type: 'boolean', description: 'Show help information' }
     },
     required: ['action']
@@ -379,8 +773,12 @@ export const ludusRolesSearchTool: Tool = {
         enum: ['search', 'list_all', 'get_role_details'],
         description: 'Search action to perform'
       },
-      search_query: { type: 'string', description: 'Role name or search terms' },
+      search_query: { type: 'string', description: 'Role name or search terms; returns ranked roles.md sections instead of the full document' },
       role_name: { type: 'string', description: 'Specific role name for detailed info' },
+      section: { type: 'string', description: 'Anchor of a single section to read (see toc)' },
+      toc: { type: 'boolean', description: 'Return only the table of contents, with section anchors' },
+      chunk: { type: 'number', description: 'Chunk number for long documentation (1-based, default: 1)' },
+      max_tokens: { type: 'number', description: 'Approximate maximum tokens per chunk (default: 4000)' },
       help: { type: 'boolean', description: 'Show help information' }
     },
     required: ['action']
@@ -389,17 +787,22 @@ export const ludusRolesSearchTool: Tool = {
 
 export const ludusEnvironmentGuidesSearchTool: Tool = {
   name: 'ludus_environment_guides_search',
-  description: 'Search environment-specific guides and tutorials for different types of cyber ranges.',
+  description: 'Search environment-specific guides and tutorials for different types of cyber ranges. Read a guide by table of contents, section anchor or chunk.',
   inputSchema: {
     type: 'object',
     properties: {
       action: { 
         type: 'string', 
-        enum: ['search', 'list_guides', 'get_guide'],
+        enum: ['search', 'read', 'list'],
         description: 'Search action to perform'
       },
-      search_query: { type: 'string', description: 'Environment type or search terms' },
-      guide_name: { type: 'string', description: 'Specific guide name' },
+      search_query: { type: 'string', description: 'Environment type or search terms (ranked; quote exact phrases)' },
+      guide_name: { type: 'string', description: 'Guide file to read, optionally with a section anchor (e.g., "basic-ad-network.md#deploy")' },
+      section: { type: 'string', description: 'Anchor of a single section to read' },
+      toc: { type: 'boolean', description: 'Return only the table of contents of the guide' },
+      chunk: { type: 'number', description: 'Chunk number for long guides (1-based, default: 1)' },
+      max_tokens: { type: 'number', description: 'Approximate maximum tokens per chunk (default: 4000)' },
+      max_results: { type: 'number', description: 'Maximum number of search results (default: 10)' },
       help: { type: 'boolean', description: 'Show help information' }
     },
     required: ['action']
@@ -417,8 +820,12 @@ export const ludusNetworkingSearchTool: Tool = {
         enum: ['search', 'list_topics', 'get_topic'],
         description: 'Search action to perform'
       },
-      search_query: { type: 'string', description: 'Networking topic or search terms' },
+      search_query: { type: 'string', description: 'Networking topic or search terms; returns ranked sections instead of the full documentation' },
       topic_name: { type: 'string', description: 'Specific networking topic' },
+      section: { type: 'string', description: 'Anchor of a single section to read (see toc)' },
+      toc: { type: 'boolean', description: 'Return only the table of contents, with section anchors' },
+      chunk: { type: 'number', description: 'Chunk number for long documentation (1-based, default: 1)' },
+      max_tokens: { type: 'number', description: 'Approximate maximum tokens per chunk (default: 4000)' },
       help: { type: 'boolean', description: 'Show help information' }
     },
     required: ['action']
@@ -453,6 +860,22 @@ export const ludusReadRangeConfigSchemaTool: Tool = {
   }
 };
 
+export const contentSyncStatusTool: Tool = {
+  name: 'content_sync_status',
+  description: 'Show configured sources (git, local dir, archive), age and revision of the cached docs, schemas and base configs; optionally force a refresh.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      refresh: { type: 'boolean', description: 'Force a refresh from the configured sources before reporting' },
+      caches: {
+        type: 'array',
+        items: { type: 'string', enum: ['docs', 'schemas', 'base-configs'] },
+        description: 'Caches to refresh (default: all)'
+      }
+    }
+  }
+};
+
 // ============================================================================
 // STATIC TOOL EXPORTS - Utility & Admin
 // ============================================================================
@@ -502,6 +925,92 @@ export const listAllUsersTool: Tool = {
   }
 };
 
+export const groupListTool: Tool = {
+  name: 'group_list',
+  description: 'List groups, or the members and ranges of one group.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      group: { type: 'string', description: 'Group name. If omitted, lists all groups' },
+      help: { type: 'boolean', description: 'Show help information' }
+    }
+  }
+};
+
+export const groupCreateTool: Tool = {
+  name: 'group_create',
+  description: 'Create a group whose members share access to its ranges. Requires admin privileges.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Group name' },
+      description: { type: 'string', description: 'Group description' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
+export const groupDeleteTool: Tool = {
+  name: 'group_delete',
+  description: 'Delete a group. Members lose access to its ranges; users and ranges are kept. Requires admin privileges and confirmation.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Group name' },
+      confirmDestructiveAction: { type: 'boolean', description: 'Required confirmation. Must be true to delete the group.' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['name']
+  }
+};
+
+export const groupMembersTool: Tool = {
+  name: 'group_members',
+  description: 'Add users to or remove users from a group, optionally as group managers. Requires admin privileges or group manager rights.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['add', 'remove'], description: 'Add or remove the users' },
+      group: { type: 'string', description: 'Group name' },
+      users: { type: 'string', description: 'Comma-separated user IDs' },
+      manager: { type: 'boolean', description: 'Add as group managers (add only)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['action', 'group', 'users']
+  }
+};
+
+export const groupRangesTool: Tool = {
+  name: 'group_ranges',
+  description: 'Add ranges to or remove ranges from a group, giving all members access. Requires admin privileges or group manager rights.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['add', 'remove'], description: 'Add or remove the ranges' },
+      group: { type: 'string', description: 'Group name' },
+      rangeIds: { type: 'string', description: 'Comma-separated range IDs (see list_ranges)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['action', 'group', 'rangeIds']
+  }
+};
+
+export const rangeAccessTool: Tool = {
+  name: 'range_access',
+  description: 'List, grant or revoke a user\'s access to another user\'s range without sharing API keys. Grant and revoke require admin privileges.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['list', 'grant', 'revoke'], description: 'Access action to perform' },
+      targetUser: { type: 'string', description: 'User who owns the range (grant/revoke)' },
+      sourceUser: { type: 'string', description: 'User who gets or loses access (grant/revoke)' },
+      help: { type: 'boolean', description: 'Show help information' }
+    },
+    required: ['action']
+  }
+};
+
 // ============================================================================
 // HANDLER EXPORTS (for server.ts)
 // ============================================================================
@@ -510,11 +1019,24 @@ export { handleLudusRangePlanner } from './ludusRangePlanner.js';
 export { handleLudusRangeConfigCheckAgainstPlan } from './ludusRangeConfigCheckAgainstPlan.js';
 export { handleLudusReadRoleCollectionSchema } from './ludusReadRoleCollectionSchema.js';
 export { handleLudusListRoleCollectionSchemas } from './ludusListRoleCollectionSchemas.js';
+export { handleResolveRoleDependencies } from './roleDependencies.js';
+export { handleDiffRangeConfig } from './rangeConfigDiff.js';
+export { handleEstimateRangeResources } from './estimateRangeResources.js';
+export { handleWatchDeployment } from './watchDeployment.js';
+export { handleDiagnoseDeployment } from './diagnoseDeployment.js';
+export { handlePlanRedeploy } from './redeployPlanner.js';
+export { handleListRanges, handleSetCurrentRange } from './rangeSelection.js';
+export { handleGroupList, handleGroupCreate, handleGroupDelete, handleGroupMembers, handleGroupRanges } from './groups.js';
+export { handleRangeAccess } from './rangeAccess.js';
 export { handleReadRangeConfig, handleWriteRangeConfig, handleValidateRangeConfig, handleListRangeConfigs, handleGetRangeConfig } from './rangeConfig.js';
 export { handleSetRangeConfig } from './setRangeConfig.js';
 export { handleGetConnectionInfo } from './getConnectionInfo.js';
 export { handleDestroyRange } from './destroyRange.js';
 export { handleLudusPower } from './ludusPower.js';
+export { handleSnapshotList, handleSnapshotCreate, handleSnapshotRevert, handleSnapshotRemove } from './snapshots.js';
+export { handleTestingStart, handleTestingStop, handleTestingAllow, handleTestingDeny, handleTestingStatus } from './testingMode.js';
+export { handleTemplatesList, handleTemplatesBuild, handleTemplatesStatus, handleTemplatesAdd, handleTemplatesRemove } from './templates.js';
+export { handleAnsibleRoleList, handleAnsibleRoleAdd, handleAnsibleRoleRemove, handleAnsibleCollectionAdd } from './ansible.js';
 export { handleGetCredentialFromUser } from './getCredentialFromUser.js';
 export { handleInsertCredsRangeConfig } from './insertCredsRangeConfig.js';
 export { handleLudusDocsSearch } from './ludusDocsSearch.js';
@@ -522,4 +1044,5 @@ export { handleLudusRolesDocsRead } from './ludusRolesSearch.js';
 export { handleLudusEnvironmentGuidesSearch } from './ludusEnvironmentGuidesSearch.js';
 export { handleLudusNetworkingDocsRead } from './ludusNetworkingSearch.js';
 export { handleLudusReadRangeConfigSchema } from './ludusReadRangeConfigSchema.js';
+export { handleContentSyncStatus } from './contentSyncStatus.js';
 export { handleListAllUsers } from './listAllUsers.js'; 
\ No newline at end of file
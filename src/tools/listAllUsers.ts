@@ -1,6 +1,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { parseLudusUsers, formatUsersTable } from './rangeStatus.js';
 
 export function createListAllUsersTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
   return {
@@ -52,25 +54,16 @@ export async function handleListAllUsers(
     const result = await cliWrapper.listAllUsers();
     
     if (!result.success) {
-      throw new Error(result.message);
+      throw new LudusCommandError(result.message, result);
     }
 
-    // Parse the response if it's JSON
-    let userData = result.data;
-    if (typeof result.data === 'string') {
-      try {
-        userData = JSON.parse(result.data);
-      } catch {
-        // Not JSON, use raw data
-        userData = result.data;
-      }
-    }
+    const users = parseLudusUsers(result.data);
 
     return {
       success: true,
-      message: 'Successfully retrieved all users',
-      users: userData,
-      rawOutput: result.rawOutput,
+      message: `Found ${users.length} user(s)`,
+      users,
+      table: users.length > 0 ? formatUsersTable(users) : undefined,
       usage: [
         'This shows all users in the Ludus system',
         'For individual user details, use ludus_cli_execute with "users list --user <userid>"',
@@ -83,12 +76,13 @@ export async function handleListAllUsers(
     return {
       success: false,
       message: `Failed to list all users: ${error.message}`,
-      troubleshooting: [
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
         'Ensure you have admin privileges to list all users',
         'Check if the Ludus server is accessible',
         'Verify your API key has the necessary permissions',
         'Try using ludus_help with "users list" for more options'
-      ]
+      ])
     };
   }
 } 
\ No newline at end of file
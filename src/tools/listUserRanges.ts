@@ -1,6 +1,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { parseRangeStatuses, formatRangesTable } from './rangeStatus.js';
 
 export interface ListUserRangesArgs {
   user?: string;
@@ -10,7 +12,7 @@ export interface ListUserRangesArgs {
 export function createListUserRangesTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
   return {
     name: 'list_user_ranges',
-    description: 'List all ranges for a specific user or current user. Shows range details including status, configuration, and metadata. Requires admin privileges to list other users\' ranges.',
+    description: 'List all ranges for a specific user or current user. Returns each range\'s state, VM count, running VMs, testing mode and last deployment as structured data and a table. Requires admin privileges to list other users\' ranges.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -59,35 +61,25 @@ export async function handleListUserRanges(
     const rangesResult = await cliWrapper.listUserRanges(user);
 
     if (!rangesResult.success) {
-      throw new Error(`Failed to list ranges: ${rangesResult.message}`);
+      throw new LudusCommandError(`Failed to list ranges: ${rangesResult.message}`, rangesResult);
     }
 
     const targetUser = user || 'current user';
-    const ranges = rangesResult.data;
-
-    // Provide helpful summary
-    let summary = '';
-    if (Array.isArray(ranges)) {
-      summary = `Found ${ranges.length} range(s) for ${targetUser}`;
-    } else if (ranges) {
-      summary = `Found range information for ${targetUser}`;
-    } else {
-      summary = `No ranges found for ${targetUser}`;
-    }
+    const ranges = parseRangeStatuses(rangesResult.data);
 
     return {
       success: true,
-      message: summary,
+      message: ranges.length > 0 ? `Found ${ranges.length} range(s) for ${targetUser}` : `No ranges found for ${targetUser}`,
       user: targetUser,
-      ranges: ranges,
-      rawOutput: rangesResult.rawOutput,
-      nextSteps: ranges ? [
-        'Use get_range_status() to get detailed status information',
+      ranges,
+      table: ranges.length > 0 ? formatRangesTable(ranges) : undefined,
+      nextSteps: ranges.length > 0 ? [
+        'Use get_range_status() to get per-VM power state and IPs',
         'Use get_connection_info() to get access credentials',
         'Use deploy_range() to deploy a new range if needed'
       ] : [
         'Use deploy_range() to deploy your first range',
-        'Check available templates with list_templates()'
+        'Check available templates with templates_list()'
       ]
     };
 
@@ -101,12 +93,13 @@ export async function handleListUserRanges(
       success: false,
       message: error.message,
       user: user || 'current user',
-      troubleshooting: [
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
         'Verify the user exists in the Ludus system',
         'Check if you have admin permissions (if querying other users)',
         'Ensure your Ludus server connection is working',
         'Try deploying a range first if none exist'
-      ]
+      ])
     };
   }
 } 
\ No newline at end of file
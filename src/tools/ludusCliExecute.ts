@@ -95,7 +95,11 @@ export async function handleLudusCliExecute(
       user: user || 'current user',
       output: result.rawOutput || result.message,
       data: result.data,
-      exitCode: result.success ? 0 : 1
+      exitCode: result.exitCode ?? (result.success ? 0 : 1),
+      stdout: result.stdout,
+      stderr: result.stderr,
+      errorKind: result.errorKind,
+      timedOut: result.timedOut === true
     };
 
   } catch (error: any) {
@@ -5,17 +5,23 @@ import os from 'os';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
 import { getDocsStructure } from '../utils/downloadDocs.js';
+import { searchDocs, DocsSearchOptions } from '../utils/docsIndex.js';
+import { renderMarkdownDocument, readOptionsFromArgs, MarkdownReadOptions, DEFAULT_MAX_TOKENS } from '../utils/markdownSections.js';
 
 // Input schema for the ludus docs tool
 const LudusDocsSchema = z.object({
   action: z.enum(['search', 'read', 'list_structure']).describe('Action to perform: search content, read specific file, or list documentation structure'),
   
   // For search action
-  search_query: z.string().optional().describe('Text to search for across all documentation files (case-insensitive)'),
+  search_query: z.string().optional().describe('Terms to search for across all documentation (ranked; wrap exact phrases in double quotes)'),
   search_directory: z.string().optional().describe('Limit search to specific directory (e.g., "environment-guides", "quick-start")'),
   
   // For read action  
-  file_path: z.string().optional().describe('Relative path to documentation file to read (e.g., "environment-guides/basic-ad-network.md")'),
+  file_path: z.string().optional().describe('Relative path to documentation file to read (e.g., "environment-guides/basic-ad-network.md"), optionally with a section anchor ("networking.md#network-rules")'),
+  section: z.string().optional().describe('Anchor of a single section to read (includes its subsections)'),
+  toc: z.boolean().optional().describe('Return only the table of contents of the file, with section anchors'),
+  chunk: z.number().optional().describe('Chunk number to return for long files/sections (1-based, default: 1)'),
+  max_tokens: z.number().optional().describe(`Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`),
   
   // General options
   max_results: z.number().optional().default(10).describe('Maximum number of search results to return (default: 10)'),
@@ -33,11 +39,15 @@ This tool provides access to the complete, up-to-date Ludus documentation that w
 **SEARCH DOCUMENTATION:**
 - Find information about specific topics, configurations, or troubleshooting
 - Search across all documentation or within specific sections
-- Get contextual snippets with file references
+- Results are ranked (BM25) by section, with heading matches boosted
+- Multi-term queries match any term; wrap exact phrases in double quotes, e.g. \`"child domain" trust\`
+- Get contextual snippets with file and section anchor references
 
 **READ SPECIFIC FILES:**
-- Read complete documentation files for detailed information
-- Access environment guides, quick-start guides, troubleshooting docs
+- Read documentation files, environment guides, quick-start guides, troubleshooting docs
+- Use \`toc: true\` to get a file's table of contents with section anchors
+- Read one section with \`section: "<anchor>"\` or \`file_path: "<file>#<anchor>"\`
+- Long files are returned in chunks of ~${DEFAULT_MAX_TOKENS} tokens; continue with \`chunk: 2\`, \`chunk: 3\`, ...
 
 **EXPLORE STRUCTURE:**
 - List available documentation sections and files
@@ -52,6 +62,8 @@ This tool provides access to the complete, up-to-date Ludus documentation that w
 **Usage Examples:**
 - Search: \`{"action": "search", "search_query": "Active Directory setup"}\`
 - Read guide: \`{"action": "read", "file_path": "environment-guides/basic-ad-network.md"}\`
+- Table of contents: \`{"action": "read", "file_path": "roles.md", "toc": true}\`
+- Read a section: \`{"action": "read", "file_path": "roles.md#ludus_adcs"}\`
 - List structure: \`{"action": "list_structure"}\`
 - Search in section: \`{"action": "search", "search_query": "certificate", "search_directory": "environment-guides"}\`
 
@@ -66,7 +78,7 @@ This tool provides access to the complete, up-to-date Ludus documentation that w
         },
         search_query: {
           type: 'string',
-          description: 'Text to search for across all documentation files (case-insensitive)'
+          description: 'Terms to search for across all documentation (ranked; wrap exact phrases in double quotes)'
         },
         search_directory: {
           type: 'string',
@@ -74,7 +86,23 @@ This tool provides access to the complete, up-to-date Ludus documentation that w
         },
         file_path: {
           type: 'string',
-          description: 'Relative path to documentation file to read (e.g., "environment-guides/basic-ad-network.md")'
+          description: 'Relative path to documentation file to read (e.g., "environment-guides/basic-ad-network.md"), optionally with a section anchor ("networking.md#network-rules")'
+        },
+        section: {
+          type: 'string',
+          description: 'Anchor of a single section to read (includes its subsections)'
+        },
+        toc: {
+          type: 'boolean',
+          description: 'Return only the table of contents of the file, with section anchors'
+        },
+        chunk: {
+          type: 'number',
+          description: 'Chunk number to return for long files/sections (1-based, default: 1)'
+        },
+        max_tokens: {
+          type: 'number',
+          description: `Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`
         },
         max_results: {
           type: 'number',
@@ -134,7 +162,7 @@ export async function handleLudusDocsSearch(
             }]
           };
         }
-        return await handleReadDoc(docsDir, args.file_path, logger);
+        return await handleReadDoc(docsDir, args.file_path, readOptionsFromArgs(args), logger);
       
       default:
         return {
@@ -197,7 +225,7 @@ async function handleListStructure(docsDir: string, logger: Logger): Promise<{ c
   };
 }
 
-async function handleSearchDocs(docsDir: string, query: string, searchDirectory?: string, maxResults: number = 10, logger?: Logger): Promise<{ content: Array<{ type: string; text: string }> }> {
+async function handleSearchDocs(docsDir: string, query: string, searchDirectory: string | undefined, maxResults: number, logger: Logger): Promise<{ content: Array<{ type: string; text: string }> }> {
   const searchPath = searchDirectory ? path.join(docsDir, searchDirectory) : docsDir;
   
   // Verify search path exists
@@ -212,39 +240,30 @@ async function handleSearchDocs(docsDir: string, query: string, searchDirectory?
     };
   }
 
-  const results = await searchInDirectory(searchPath, query.toLowerCase(), docsDir);
+  const searchOptions: DocsSearchOptions = { maxResults };
+  if (searchDirectory) {
+    searchOptions.pathPrefix = `${searchDirectory.replace(/\\/g, '/').replace(/\/+$/, '')}/`;
+  }
+  const results = await searchDocs(query, logger, searchOptions);
   
   if (results.length === 0) {
     return {
       content: [{
         type: 'text',
-        text: `No results found for "${query}"${searchDirectory ? ` in ${searchDirectory}` : ''}\n\nTry:\n- Different keywords or phrases\n- Broader search terms\n- Searching without directory restriction`
+        text: `No results found for "${query}"${searchDirectory ? ` in ${searchDirectory}` : ''}\n\nTry:\n- Different keywords or phrases\n- Broader search terms (quoted "phrases" must match exactly)\n- Searching without directory restriction`
       }]
     };
   }
 
-  // Sort by relevance (number of matches) and limit results
-  results.sort((a, b) => b.matches.length - a.matches.length);
-  const limitedResults = results.slice(0, maxResults);
-
   let output = `**Search Results for "${query}"**${searchDirectory ? ` in ${searchDirectory}` : ''}\n`;
-  output += `Found ${results.length} file(s) with matches${results.length > maxResults ? ` (showing top ${maxResults})` : ''}\n\n`;
+  output += `Top ${results.length} section(s), ranked by relevance\n\n`;
 
-  for (const result of limitedResults) {
-    output += `**${result.relativePath}**\n`;
-    output += `${result.matches.length} match(es):\n\n`;
-    
-    for (const match of result.matches.slice(0, 3)) { // Show up to 3 matches per file
-      output += `• Line ${match.lineNumber}: ${match.context}\n`;
-    }
-    
-    if (result.matches.length > 3) {
-      output += `• ... and ${result.matches.length - 3} more match(es)\n`;
-    }
-    output += '\n';
+  for (const result of results) {
+    output += `**${result.path}#${result.anchor}**${result.headingPath.length > 0 ? ` - ${result.headingPath.join(' > ')}` : ''} (score ${result.score})\n`;
+    output += `• ${result.snippet}\n\n`;
   }
 
-  output += `Use \`read\` action with file path to see complete content of any file.`;
+  output += `Use \`read\` action with \`file_path: "<file>#<anchor>"\` to read just that section.`;
 
   return {
     content: [{
@@ -254,8 +273,14 @@ async function handleSearchDocs(docsDir: string, query: string, searchDirectory?
   };
 }
 
-async function handleReadDoc(docsDir: string, filePath: string, logger: Logger): Promise<{ content: Array<{ type: string; text: string }> }> {
-  const fullPath = path.join(docsDir, filePath);
+async function handleReadDoc(docsDir: string, filePath: string, options: MarkdownReadOptions, logger: Logger): Promise<{ content: Array<{ type: string; text: string }> }> {
+  // "file.md#anchor" is shorthand for the section option
+  const [fileOnly, anchor] = filePath.split('#', 2) as [string, string | undefined];
+  if (anchor && !options.section) {
+    options.section = anchor;
+  }
+
+  const fullPath = path.join(docsDir, fileOnly);
   
   // Security check - ensure path is within docs directory
   const resolvedPath = path.resolve(fullPath);
@@ -272,12 +297,12 @@ async function handleReadDoc(docsDir: string, filePath: string, logger: Logger):
 
   try {
     const content = await fs.readFile(fullPath, 'utf-8');
-    const relativePath = path.relative(docsDir, fullPath);
+    const relativePath = path.relative(docsDir, fullPath).split(path.sep).join('/');
     
     return {
       content: [{
         type: 'text',
-        text: `**${relativePath}**\n\n${content}`
+        text: renderMarkdownDocument(relativePath, content, options)
       }]
     };
   } catch (error) {
@@ -285,7 +310,7 @@ async function handleReadDoc(docsDir: string, filePath: string, logger: Logger):
       return {
         content: [{
           type: 'text',
-          text: `File not found: ${filePath}\n\nUse \`list_structure\` action to see available files`
+          text: `File not found: ${fileOnly}\n\nUse \`list_structure\` action to see available files`
         }]
       };
     }
@@ -295,62 +320,6 @@ async function handleReadDoc(docsDir: string, filePath: string, logger: Logger):
 }
 
 // Helper functions
-async function searchInDirectory(dir: string, query: string, baseDir: string): Promise<SearchResult[]> {
-  const results: SearchResult[] = [];
-  
-  try {
-    const items = await fs.readdir(dir, { withFileTypes: true });
-    
-    for (const item of items) {
-      const fullPath = path.join(dir, item.name);
-      
-      if (item.isDirectory()) {
-        const subResults = await searchInDirectory(fullPath, query, baseDir);
-        results.push(...subResults);
-      } else if (item.isFile() && (item.name.endsWith('.md') || item.name.endsWith('.mdx'))) {
-        const fileResults = await searchInFile(fullPath, query, baseDir);
-        if (fileResults.matches.length > 0) {
-          results.push(fileResults);
-        }
-      }
-    }
-  } catch (error) {
-    // Skip directories that can't be read
-  }
-  
-  return results;
-}
-
-async function searchInFile(filePath: string, query: string, baseDir: string): Promise<SearchResult> {
-  const content = await fs.readFile(filePath, 'utf-8');
-  const lines = content.split('\n');
-  const matches: SearchMatch[] = [];
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const lowerLine = line.toLowerCase();
-    
-    if (lowerLine.includes(query)) {
-      // Get context around the match
-      const contextStart = Math.max(0, i - 1);
-      const contextEnd = Math.min(lines.length - 1, i + 1);
-      const context = lines.slice(contextStart, contextEnd + 1).join(' ').trim();
-      
-      matches.push({
-        lineNumber: i + 1,
-        lineContent: line.trim(),
-        context: context.length > 200 ? context.substring(0, 200) + '...' : context
-      });
-    }
-  }
-  
-  return {
-    filePath,
-    relativePath: path.relative(baseDir, filePath),
-    matches
-  };
-}
-
 async function countTotalFiles(structure: any): Promise<number> {
   let count = 0;
   
@@ -364,16 +333,3 @@ async function countTotalFiles(structure: any): Promise<number> {
   
   return count;
 }
-
-// Types
-interface SearchResult {
-  filePath: string;
-  relativePath: string;
-  matches: SearchMatch[];
-}
-
-interface SearchMatch {
-  lineNumber: number;
-  lineContent: string;
-  context: string;
-} 
\ No newline at end of file
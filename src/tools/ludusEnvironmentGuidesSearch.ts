@@ -4,11 +4,17 @@ import path from 'path';
 import os from 'os';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { searchDocs } from '../utils/docsIndex.js';
+import { renderMarkdownDocument, readOptionsFromArgs, MarkdownReadOptions, DEFAULT_MAX_TOKENS } from '../utils/markdownSections.js';
 
 const LudusEnvironmentGuidesSchema = z.object({
   action: z.enum(['search', 'read', 'list']).describe('Action to perform: search guides content, read specific guide, or list available guides'),
-  search_query: z.string().optional().describe('Text to search for in environment guides (case-insensitive)'),
-  guide_name: z.string().optional().describe('Specific guide file to read (e.g., "basic-ad-network.md")'),
+  search_query: z.string().optional().describe('Terms to search for in environment guides (ranked; wrap exact phrases in double quotes)'),
+  guide_name: z.string().optional().describe('Specific guide file to read (e.g., "basic-ad-network.md"), optionally with a section anchor ("basic-ad-network.md#deploy")'),
+  section: z.string().optional().describe('Anchor of a single section to read (includes its subsections)'),
+  toc: z.boolean().optional().describe('Return only the table of contents of the guide, with section anchors'),
+  chunk: z.number().optional().describe('Chunk number to return for long guides (1-based, default: 1)'),
+  max_tokens: z.number().optional().describe(`Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`),
   max_results: z.number().optional().default(10).describe('Maximum number of search results to return (default: 10)'),
 });
 
@@ -29,8 +35,8 @@ export function createLudusEnvironmentGuidesSearchTool(logger: Logger, ludusCliW
 - VM specifications and requirements
 
 **ACTIONS:**
-- \`search\`: Search within all environment guides for specific terms
-- \`read\`: Read a specific environment guide completely
+- \`search\`: Ranked search within all environment guides (quote exact phrases)
+- \`read\`: Read a specific environment guide (\`toc: true\` for its table of contents, \`section\` for one section, \`chunk\` to page through long guides)
 - \`list\`: List all available environment guide files
 
 **Usage Examples:**
@@ -55,11 +61,27 @@ export function createLudusEnvironmentGuidesSearchTool(logger: Logger, ludusCliW
         },
         search_query: {
           type: 'string',
-          description: 'Text to search for in environment guides (case-insensitive)'
+          description: 'Terms to search for in environment guides (ranked; wrap exact phrases in double quotes)'
         },
         guide_name: {
           type: 'string',
-          description: 'Specific guide file to read (e.g., "basic-ad-network.md")'
+          description: 'Specific guide file to read (e.g., "basic-ad-network.md"), optionally with a section anchor ("basic-ad-network.md#deploy")'
+        },
+        section: {
+          type: 'string',
+          description: 'Anchor of a single section to read (includes its subsections)'
+        },
+        toc: {
+          type: 'boolean',
+          description: 'Return only the table of contents of the guide, with section anchors'
+        },
+        chunk: {
+          type: 'number',
+          description: 'Chunk number to return for long guides (1-based, default: 1)'
+        },
+        max_tokens: {
+          type: 'number',
+          description: `Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`
         },
         max_results: {
           type: 'number',
@@ -120,7 +142,7 @@ export async function handleLudusEnvironmentGuidesSearch(
             }]
           };
         }
-        return await handleReadGuide(guidesDir, args.guide_name, logger);
+        return await handleReadGuide(guidesDir, args.guide_name, readOptionsFromArgs(args), logger);
       
       default:
         return {
@@ -205,38 +227,7 @@ async function handleListGuides(guidesDir: string, logger: Logger) {
 
 async function handleSearchGuides(guidesDir: string, query: string, maxResults: number, logger: Logger) {
   try {
-    const files = await fs.readdir(guidesDir);
-    const guideFiles = files.filter(file => file.endsWith('.md') || file.endsWith('.mdx'));
-    
-    const queryLower = query.toLowerCase();
-    const allMatches: Array<{file: string, lineNumber: number, content: string, context: string}> = [];
-    
-    for (const file of guideFiles) {
-      const filePath = path.join(guidesDir, file);
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        if (line.toLowerCase().includes(queryLower)) {
-          // Get context around the match
-          const contextStart = Math.max(0, i - 2);
-          const contextEnd = Math.min(lines.length - 1, i + 2);
-          const context = lines.slice(contextStart, contextEnd + 1).join('\n').trim();
-          
-          allMatches.push({
-            file,
-            lineNumber: i + 1,
-            content: line.trim(),
-            context: context.length > 250 ? context.substring(0, 250) + '...' : context
-          });
-          
-          if (allMatches.length >= maxResults) break;
-        }
-      }
-      
-      if (allMatches.length >= maxResults) break;
-    }
+    const allMatches = await searchDocs(query, logger, { pathPrefix: 'environment-guides/', maxResults });
     
     if (allMatches.length === 0) {
       return {
@@ -248,13 +239,13 @@ async function handleSearchGuides(guidesDir: string, query: string, maxResults:
     }
     
     const resultText = allMatches.map((match, index) => 
-      `**[${index + 1}] ${match.file} - Line ${match.lineNumber}:**\n\`${match.content}\`\n\n**Context:**\n${match.context}\n`
+      `**[${index + 1}] ${path.basename(match.path)}#${match.anchor}** - ${match.heading || 'Introduction'} (score ${match.score})\n\n**Context:**\n${match.snippet}\n`
     ).join('\n---\n\n');
     
     return {
       content: [{
         type: 'text',
-        text: `**ENVIRONMENT GUIDES SEARCH RESULTS** for "${query}" (${allMatches.length} matches)\n\n${resultText}`
+        text: `**ENVIRONMENT GUIDES SEARCH RESULTS** for "${query}" (${allMatches.length} matches)\n\n${resultText}\n\nRead a matching section with \`{"action": "read", "guide_name": "<guide>#<anchor>"}\`.`
       }]
     };
   } catch (error) {
@@ -268,15 +259,21 @@ async function handleSearchGuides(guidesDir: string, query: string, maxResults:
   }
 }
 
-async function handleReadGuide(guidesDir: string, guideName: string, logger: Logger) {
+async function handleReadGuide(guidesDir: string, guideName: string, options: MarkdownReadOptions, logger: Logger) {
   try {
-    const filePath = path.join(guidesDir, guideName);
+    // "guide.md#anchor" is shorthand for the section option
+    const [fileName, anchor] = guideName.split('#', 2) as [string, string | undefined];
+    if (anchor && !options.section) {
+      options.section = anchor;
+    }
+
+    const filePath = path.join(guidesDir, fileName);
     const content = await fs.readFile(filePath, 'utf-8');
     
     return {
       content: [{
         type: 'text',
-        text: `**ENVIRONMENT GUIDE: ${guideName}**\n\n${content}\n\n---\n\n**Tip**: Use \`{"action": "search", "search_query": "term"}\` to find specific information across all guides.`
+        text: `${renderMarkdownDocument(`ENVIRONMENT GUIDE: ${fileName}`, content, options)}\n\n---\n\n**Tip**: Use \`{"action": "search", "search_query": "term"}\` to find specific information across all guides.`
       }]
     };
   } catch (error) {
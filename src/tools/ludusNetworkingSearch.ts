@@ -4,11 +4,25 @@ import path from 'path';
 import os from 'os';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { searchDocs } from '../utils/docsIndex.js';
+import { renderMarkdownDocument, readOptionsFromArgs, DEFAULT_MAX_TOKENS } from '../utils/markdownSections.js';
 
 const LudusNetworkingSchema = z.object({
+  search_query: z.string().optional().describe('Return only the best matching networking sections instead of the whole documentation'),
+  max_results: z.number().optional().default(5).describe('Maximum number of sections to return when searching (default: 5)'),
+  section: z.string().optional().describe('Anchor of a single section to read (see toc)'),
+  toc: z.boolean().optional().describe('Return only the table of contents, with section anchors'),
+  chunk: z.number().optional().describe('Chunk number to return (1-based, default: 1)'),
+  max_tokens: z.number().optional().describe(`Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`),
   help: z.boolean().optional().default(false).describe('Show help information')
 });
 
+const NETWORKING_FILES = [
+  'networking.md',
+  'configuration/networking.md',
+  'quick-start/networking.md'
+];
+
 export function createLudusNetworkingDocsReadTool(logger: Logger, ludusCliWrapper: LudusCliWrapper) {
   return {
     name: 'ludus_networking_docs_read',
@@ -23,10 +37,11 @@ export function createLudusNetworkingDocsReadTool(logger: Logger, ludusCliWrappe
 - Network isolation strategies
 - DNS and DHCP configurations
 
-**SIMPLIFIED FUNCTIONALITY:**
-- Always returns the complete networking documentation
-- No search filtering - reads entire document
-- Immediate access to all networking information
+**FUNCTIONALITY:**
+- Without search_query: returns the networking documentation
+- With search_query: returns the best matching sections, ranked by the shared docs index
+- Long documentation is returned in chunks of ~${DEFAULT_MAX_TOKENS} tokens with a table of contents; continue with \`chunk: 2\`, or read one section with \`section: "<anchor>"\` (\`toc: true\` lists anchors)
+- Wrap exact phrases in double quotes, e.g. \`"network rules"\`
 
 **PERFECT FOR:**
 - Range planning (ludus_range_planner step 3)
@@ -38,6 +53,31 @@ export function createLudusNetworkingDocsReadTool(logger: Logger, ludusCliWrappe
     inputSchema: {
       type: 'object',
       properties: {
+        search_query: {
+          type: 'string',
+          description: 'Return only the best matching networking sections instead of the whole documentation'
+        },
+        max_results: {
+          type: 'number',
+          default: 5,
+          description: 'Maximum number of sections to return when searching (default: 5)'
+        },
+        section: {
+          type: 'string',
+          description: 'Anchor of a single section to read (see toc)'
+        },
+        toc: {
+          type: 'boolean',
+          description: 'Return only the table of contents, with section anchors'
+        },
+        chunk: {
+          type: 'number',
+          description: 'Chunk number to return (1-based, default: 1)'
+        },
+        max_tokens: {
+          type: 'number',
+          description: `Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`
+        },
         help: {
           type: 'boolean',
           default: false,
@@ -49,20 +89,40 @@ export function createLudusNetworkingDocsReadTool(logger: Logger, ludusCliWrappe
   };
 }
 
-export async function handleLudusNetworkingDocsRead(args: any): Promise<any> {
+export async function handleLudusNetworkingDocsRead(args: any, logger: Logger): Promise<any> {
   try {
-    const { help = false } = args;
+    const { help = false, search_query, max_results = 5 } = args;
 
     if (help) {
       return {
         content: [{
           type: 'text',
-          text: 'ludus_networking_docs_read - Read complete Ludus networking documentation\n\nThis tool reads the entire networking documentation and returns all networking configuration information.\nNo parameters required - always returns complete documentation.'
+          text: 'ludus_networking_docs_read - Read complete Ludus networking documentation\n\nThis tool reads the entire networking documentation and returns all networking configuration information.\nNo parameters required - returns the documentation in chunks with a table of contents.\nUse toc, section and chunk to navigate long documentation.\nPass search_query to get only the best matching sections.'
         }]
       };
     }
 
-    // Always read the complete networking documentation
+    if (search_query) {
+      const hits = await searchDocs(search_query, logger, { paths: NETWORKING_FILES, maxResults: max_results });
+      if (hits.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No networking documentation sections match "${search_query}". Omit search_query to read the complete networking documentation.`
+          }]
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: `# Ludus Networking Documentation - sections matching "${search_query}"\n\n` +
+                hits.map(hit => `<!-- ${hit.path}#${hit.anchor}, score ${hit.score} -->\n${hit.text}`).join('\n\n---\n\n')
+        }]
+      };
+    }
+
+    // No query: read the complete networking documentation
     const homeDir = os.homedir();
     const docsDir = path.join(homeDir, '.ludus-mcp', 'docs');
     
@@ -72,7 +132,7 @@ export async function handleLudusNetworkingDocsRead(args: any): Promise<any> {
       return {
         content: [{
           type: 'text', 
-          text: `# Complete Ludus Networking Documentation\n\n${networkingContent}`
+          text: renderMarkdownDocument('Ludus Networking Documentation', networkingContent, readOptionsFromArgs(args))
         }]
       };
     } catch (error) {
@@ -95,15 +155,9 @@ export async function handleLudusNetworkingDocsRead(args: any): Promise<any> {
 }
 
 async function readNetworkingDocs(docsDir: string): Promise<string> {
-  const networkingFiles = [
-    'networking.md',
-    'configuration/networking.md',
-    'quick-start/networking.md'
-  ];
-
   let allContent = '';
   
-  for (const file of networkingFiles) {
+  for (const file of NETWORKING_FILES) {
     const filePath = path.join(docsDir, file);
     try {
       const content = await fs.readFile(filePath, 'utf-8');
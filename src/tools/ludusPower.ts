@@ -1,10 +1,12 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
 
 export interface LudusPowerArgs {
   action: 'on' | 'off';
   user?: string;
+  rangeId?: string;
   vmNames?: string;
   confirmDestructiveAction?: boolean;
   help?: boolean;
@@ -26,6 +28,10 @@ export function createLudusPowerTool(logger: Logger, cliWrapper: LudusCliWrapper
           type: 'string',
           description: 'User ID to manage power for (admin only). If omitted, manages power for current user.'
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
         vmNames: {
           type: 'string',
           description: 'VM name(s) to power on/off. Can be a single VM name, comma-separated list, or "all" for all VMs. Defaults to "all".',
@@ -52,7 +58,7 @@ export async function handleLudusPower(
   logger: Logger,
   cliWrapper: LudusCliWrapper
 ): Promise<any> {
-  const { action, user, vmNames = 'all', confirmDestructiveAction = false, help = false } = args;
+  const { action, user, rangeId, vmNames = 'all', confirmDestructiveAction = false, help = false } = args;
 
   // Handle help request
   if (help) {
@@ -95,9 +101,9 @@ export async function handleLudusPower(
     let result;
 
     if (action === 'on') {
-      result = await cliWrapper.powerOnRange(user, vmNames);
+      result = await cliWrapper.powerOnRange(user, vmNames, rangeId);
     } else if (action === 'off') {
-      result = await cliWrapper.powerOffRange(user, vmNames);
+      result = await cliWrapper.powerOffRange(user, vmNames, rangeId);
     } else {
       throw new Error(`Invalid action: ${action}. Must be 'on' or 'off'.`);
     }
@@ -127,7 +133,7 @@ export async function handleLudusPower(
         statusIcon: statusEmoji
       };
     } else {
-      throw new Error(result.message);
+      throw new LudusCommandError(result.message, result);
     }
 
   } catch (error: any) {
@@ -143,13 +149,14 @@ export async function handleLudusPower(
       message: error.message,
       action,
       user: user || 'current user',
-      troubleshooting: [
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
         'Verify the user has a deployed range',
         'Check if you have admin permissions (if managing other users)',
         'Ensure the range exists and is accessible',
         'Try get_range_status() to check current range state',
         'DOCUMENTATION SEARCH: If help menus don\'t provide sufficient information, use ludus_docs_search to access comprehensive official documentation with search capabilities.'
-      ]
+      ])
     };
   }
 } 
\ No newline at end of file
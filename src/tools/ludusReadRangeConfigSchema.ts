@@ -1,7 +1,6 @@
 import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
+import { Logger } from '../utils/logger.js';
+import { loadRangeConfigSchema } from '../utils/rangeConfigSchema.js';
 
 interface RangeConfigSchemaSearch {
   search_terms?: string[];
@@ -37,37 +36,13 @@ export const ludusReadRangeConfigSchemaTool: Tool = {
   }
 };
 
-export async function handleLudusReadRangeConfigSchema(args: any): Promise<CallToolResult> {
+export async function handleLudusReadRangeConfigSchema(args: any, logger: Logger): Promise<CallToolResult> {
   try {
-    // Try to read the schema file
-    const homeDir = os.homedir();
-    const schemaFilePath = path.join(homeDir, '.ludus-mcp', 'schemas', 'range-config.json');
-    
-    let schemaContent;
-    try {
-      const fileContent = await fs.readFile(schemaFilePath, 'utf-8');
-      schemaContent = JSON.parse(fileContent);
-    } catch (fileError) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `**Range Config Schema Not Available**
-
-Could not read the range configuration schema from: ${schemaFilePath}
-
-**Error**: ${fileError instanceof Error ? fileError.message : String(fileError)}
-
-**To Fix**:
-1. Restart the MCP server to trigger schema download
-2. Check your internet connection (schema is downloaded from docs.ludus.cloud)
-3. Verify the ~/.ludus-mcp/schemas/ directory exists
-
-**Alternative**: Use the \`validate_range_config\` tool which has built-in schema validation.`
-          }
-        ]
-      };
-    }
+    // Cached copy from docs.ludus.cloud, or the schema bundled with the package when offline
+    const { schema: schemaContent, source } = loadRangeConfigSchema(logger);
+    const sourceDescription = source.type === 'cache'
+      ? `${source.path} (${source.version}${source.fetchedAt ? `, fetched ${source.fetchedAt}` : ''})`
+      : `bundled fallback schema (${source.version}) - restart the MCP server with network access to cache the latest official schema`;
 
     const { search_terms, include_full_schema = false, section_filter } = args;
 
@@ -79,7 +54,7 @@ Could not read the range configuration schema from: ${schemaFilePath}
             type: 'text',
             text: `**LUDUS RANGE CONFIG SCHEMA** (Complete)
 
-**Source**: ${schemaFilePath}
+**Source**: ${sourceDescription}
 **Schema Version**: ${schemaContent.$schema || 'Unknown'}
 **Title**: ${schemaContent.title || 'Ludus Range Configuration'}
 
@@ -27,7 +27,7 @@ export const ludusReadRoleCollectionSchemaTool: Tool = {
 /**
  * Load all YAML schema files from the schemas directory and aggregate them
  */
-async function loadAllYamlSchemas(schemaDir: string, fileNamesFilter?: string[]): Promise<any> {
+export async function loadAllYamlSchemas(schemaDir: string, fileNamesFilter?: string[]): Promise<any> {
   const aggregatedSchema = {
     ludus_roles_schema: {
       roles: {} as Record<string, any>,
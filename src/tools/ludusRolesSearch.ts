@@ -4,8 +4,16 @@ import path from 'path';
 import os from 'os';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { searchDocs } from '../utils/docsIndex.js';
+import { renderMarkdownDocument, readOptionsFromArgs, DEFAULT_MAX_TOKENS } from '../utils/markdownSections.js';
 
 const LudusRolesSchema = z.object({
+  search_query: z.string().optional().describe('Return only the best matching roles.md sections instead of the whole document'),
+  max_results: z.number().optional().default(5).describe('Maximum number of sections to return when searching (default: 5)'),
+  section: z.string().optional().describe('Anchor of a single section to read (see toc)'),
+  toc: z.boolean().optional().describe('Return only the table of contents, with section anchors'),
+  chunk: z.number().optional().describe('Chunk number to return (1-based, default: 1)'),
+  max_tokens: z.number().optional().describe(`Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`),
   help: z.boolean().optional().default(false).describe('Show help information')
 });
 
@@ -21,10 +29,11 @@ export function createLudusRolesDocsReadTool(logger: Logger, ludusCliWrapper: Lu
 - GitHub repositories and sources
 - Installation and usage examples
 
-**SIMPLIFIED FUNCTIONALITY:**
-- Always returns the complete roles documentation (docs/roles.md)
-- No search filtering - reads entire document
-- Immediate access to all role information
+**FUNCTIONALITY:**
+- Without search_query: returns the roles documentation (docs/roles.md)
+- With search_query: returns the best matching sections, ranked by the shared docs index
+- Long documentation is returned in chunks of ~${DEFAULT_MAX_TOKENS} tokens with a table of contents; continue with \`chunk: 2\`, or read one section with \`section: "<anchor>"\` (\`toc: true\` lists anchors)
+- Wrap exact phrases in double quotes, e.g. \`"child domain"\`
 
 **PERFECT FOR:**
 - Range planning (ludus_range_planner step 3)
@@ -36,6 +45,31 @@ export function createLudusRolesDocsReadTool(logger: Logger, ludusCliWrapper: Lu
     inputSchema: {
       type: 'object',
       properties: {
+        search_query: {
+          type: 'string',
+          description: 'Return only the best matching roles.md sections instead of the whole document'
+        },
+        max_results: {
+          type: 'number',
+          default: 5,
+          description: 'Maximum number of sections to return when searching (default: 5)'
+        },
+        section: {
+          type: 'string',
+          description: 'Anchor of a single section to read (see toc)'
+        },
+        toc: {
+          type: 'boolean',
+          description: 'Return only the table of contents, with section anchors'
+        },
+        chunk: {
+          type: 'number',
+          description: 'Chunk number to return (1-based, default: 1)'
+        },
+        max_tokens: {
+          type: 'number',
+          description: `Approximate maximum tokens per chunk (default: ${DEFAULT_MAX_TOKENS})`
+        },
         help: {
           type: 'boolean',
           default: false,
@@ -47,20 +81,40 @@ export function createLudusRolesDocsReadTool(logger: Logger, ludusCliWrapper: Lu
   };
 }
 
-export async function handleLudusRolesDocsRead(args: any): Promise<any> {
+export async function handleLudusRolesDocsRead(args: any, logger: Logger): Promise<any> {
   try {
-    const { help = false } = args;
+    const { help = false, search_query, max_results = 5 } = args;
 
     if (help) {
       return {
         content: [{
           type: 'text',
-          text: 'ludus_roles_docs_read - Read complete Ludus roles documentation\n\nThis tool reads the entire docs/roles.md file and returns all role information.\nNo parameters required - always returns complete documentation.'
+          text: 'ludus_roles_docs_read - Read complete Ludus roles documentation\n\nThis tool reads the entire docs/roles.md file and returns all role information.\nNo parameters required - returns the documentation in chunks with a table of contents.\nUse toc, section and chunk to navigate long documentation.\nPass search_query to get only the best matching sections.'
+        }]
+      };
+    }
+
+    if (search_query) {
+      const hits = await searchDocs(search_query, logger, { paths: ['roles.md'], maxResults: max_results });
+      if (hits.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No roles documentation sections match "${search_query}". Omit search_query to read the complete roles documentation.`
+          }]
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: `# Ludus Roles Documentation - sections matching "${search_query}"\n\n` +
+                hits.map(hit => `<!-- roles.md#${hit.anchor}, score ${hit.score} -->\n${hit.text}`).join('\n\n---\n\n')
         }]
       };
     }
 
-    // Always read the complete roles documentation
+    // No query: read the complete roles documentation
     const homeDir = os.homedir();
     const docsDir = path.join(homeDir, '.ludus-mcp', 'docs');
     const rolesFilePath = path.join(docsDir, 'roles.md');
@@ -71,7 +125,7 @@ export async function handleLudusRolesDocsRead(args: any): Promise<any> {
       return {
         content: [{
           type: 'text', 
-          text: `# Complete Ludus Roles Documentation\n\n${rolesContent}`
+          text: renderMarkdownDocument('Ludus Roles Documentation (roles.md)', rolesContent, readOptionsFromArgs(args))
         }]
       };
     } catch (error) {
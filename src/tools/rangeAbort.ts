@@ -1,9 +1,11 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError } from '../ludusMCP/commandErrors.js';
 
 export interface RangeAbortArgs {
   user?: string;
+  rangeId?: string;
   help?: boolean;
 }
 
@@ -30,6 +32,10 @@ ABORT OPERATION WARNING:
           type: 'string',
           description: 'User ID to abort deployment for (admin only). If omitted, aborts deployment for current user.'
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
         help: {
           type: 'boolean',
           description: 'Show help information for the range_abort command',
@@ -46,7 +52,7 @@ export async function handleRangeAbort(
   logger: Logger,
   cliWrapper: LudusCliWrapper
 ): Promise<any> {
-  const { user, help = false } = args;
+  const { user, rangeId, help = false } = args;
 
   // Handle help request
   if (help) {
@@ -68,10 +74,10 @@ export async function handleRangeAbort(
   try {
     logger.info('Aborting range deployment', { user });
 
-    const result = await cliWrapper.abortRange(user);
+    const result = await cliWrapper.abortRange(user, rangeId);
 
     if (!result.success) {
-      throw new Error(`Failed to abort range deployment: ${result.message}`);
+      throw new LudusCommandError(`Failed to abort range deployment: ${result.message}`, result);
     }
 
     const targetUser = user || 'current user';
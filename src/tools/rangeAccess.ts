@@ -0,0 +1,143 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+
+export interface RangeAccessArgs {
+  action: 'list' | 'grant' | 'revoke';
+  targetUser?: string;    // owner of the range
+  sourceUser?: string;    // user who gets (or loses) access
+  help?: boolean;
+}
+
+export function createRangeAccessTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'range_access',
+    description: `Share one user's range with another user without handing out API keys (e.g. give a TA access to a student's range).
+
+Actions:
+- list: show which users have access to which other users' ranges
+- grant: give sourceUser access to targetUser's range (admin only)
+- revoke: remove sourceUser's access to targetUser's range (admin only)
+
+After a grant, the source user reaches the range with their own WireGuard config. For many users and ranges at once, a group (group_create, group_members, group_ranges) is easier to manage.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'grant', 'revoke'],
+          description: 'Access action to perform'
+        },
+        targetUser: {
+          type: 'string',
+          description: 'User ID who owns the range (grant/revoke)'
+        },
+        sourceUser: {
+          type: 'string',
+          description: 'User ID who gets or loses access to the range (grant/revoke)'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus range access command',
+          default: false
+        }
+      },
+      required: ['action']
+    }
+  };
+}
+
+export async function handleRangeAccess(
+  args: RangeAccessArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { action, targetUser, sourceUser, help = false } = args;
+
+  // Handle help request
+  if (help) {
+    logger.info('Getting help for ludus range access command', { action });
+    const result = await cliWrapper.executeArbitraryCommand('range', ['access', '--help']);
+
+    if (result.success) {
+      return {
+        success: true,
+        message: 'Help information for ludus range access command',
+        help: true,
+        content: result.rawOutput || result.message
+      };
+    } else {
+      throw new Error(`Failed to get help: ${result.message}`);
+    }
+  }
+
+  try {
+    if (action === 'list') {
+      logger.info('Listing range access');
+      const result = await cliWrapper.listRangeAccess();
+      if (!result.success) {
+        throw new LudusCommandError(result.message, result);
+      }
+
+      return {
+        success: true,
+        message: Array.isArray(result.data) ? `Found ${result.data.length} shared range(s)` : 'Range access retrieved',
+        action,
+        access: result.data,
+        rawOutput: result.rawOutput,
+        nextSteps: ['Use range_access({ action: "grant", targetUser: "<owner>", sourceUser: "<user>" }) to share a range']
+      };
+    }
+
+    if (action !== 'grant' && action !== 'revoke') {
+      throw new Error('Action must be "list", "grant" or "revoke"');
+    }
+    if (!targetUser || !sourceUser) {
+      throw new Error(`targetUser (range owner) and sourceUser (user to ${action}) are required for ${action}`);
+    }
+    if (targetUser === sourceUser) {
+      throw new Error('targetUser and sourceUser must be different users; users always have access to their own range');
+    }
+
+    logger.info('Updating range access', { action, targetUser, sourceUser });
+
+    const result = action === 'grant'
+      ? await cliWrapper.grantRangeAccess(targetUser, sourceUser)
+      : await cliWrapper.revokeRangeAccess(targetUser, sourceUser);
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: action === 'grant'
+        ? `${sourceUser} now has access to the range of ${targetUser}`
+        : `${sourceUser} no longer has access to the range of ${targetUser}`,
+      action,
+      targetUser,
+      sourceUser,
+      data: result.data,
+      nextSteps: action === 'grant'
+        ? [
+            `${sourceUser} should re-download their WireGuard config (get_connection_info) to route to the shared range`,
+            'Use range_access({ action: "list" }) to review shared ranges'
+          ]
+        : ['Use range_access({ action: "list" }) to confirm the access was removed']
+    };
+  } catch (error: any) {
+    logger.error('Failed to manage range access', { action, targetUser, sourceUser, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      action,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Granting and revoking range access requires admin privileges (admin API via SSH tunnel)',
+        'Check the user IDs with list_all_users()',
+        'Use ludus_help with "range access" for the options your Ludus version supports'
+      ])
+    };
+  }
+}
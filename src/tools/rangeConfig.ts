@@ -4,8 +4,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as yaml from 'js-yaml';
-import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCliWrapper, CommandResult } from '../ludusMCP/cliWrapper.js';
 import Ajv from 'ajv';
+import { analyzeRoleDependencies, loadRoleSchemas } from './roleDependencies.js';
+import { validateRoleVars } from './roleVars.js';
+import { lintRangeConfig, formatLintFinding } from './rangeConfigLint.js';
+import { RangeConfigSchemaSource, RANGE_CONFIG_SCHEMA_URL, getBundledRangeConfigSchema, loadRangeConfigSchema } from '../utils/rangeConfigSchema.js';
 
 // Base directory for all Ludus MCP operations
 const LUDUS_MCP_BASE_DIR = path.join(os.homedir(), '.ludus-mcp');
@@ -145,6 +149,7 @@ interface ValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
+  schema_source?: RangeConfigSchemaSource;
 }
 
 export interface ReadRangeConfigArgs {
@@ -160,6 +165,7 @@ export interface WriteRangeConfigArgs {
 export interface ValidateRangeConfigArgs {
   source?: string; // file path or URL
   content?: string; // inline YAML content
+  user?: string; // user whose installed roles are checked (admin only)
 }
 
 export interface ListRangeConfigsArgs {
@@ -170,6 +176,8 @@ export interface ListRangeConfigsArgs {
 export interface GetRangeConfigArgs {
   example?: boolean; // get example config instead of current config
   user?: string; // user to get config for (admin only)
+  rangeId?: string; // range to get config for (multi-range servers)
+  lint?: boolean; // run the semantic linter on the retrieved config
 }
 
 /**
@@ -258,39 +266,23 @@ function findYamlFilesRecursively(directory: string, recursive: boolean = false)
   return yamlFiles;
 }
 
-// Cache for the official Ludus schema
-let cachedLudusSchema: any = null;
-
 /**
- * Fetch the official Ludus range configuration schema
+ * Compile a range-config JSON schema with the options used for all range validation
  */
-async function fetchLudusSchema(logger: Logger): Promise<any> {
-  if (cachedLudusSchema) {
-    return cachedLudusSchema;
-  }
-
-  const schemaUrl = 'https://docs.ludus.cloud/schemas/range-config.json';
-  logger.info('Fetching official Ludus schema', { url: schemaUrl });
-
-  try {
-    const response = await fetch(schemaUrl);
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    cachedLudusSchema = await response.json();
-    logger.info('Successfully cached Ludus schema', { 
-      schemaProperties: Object.keys(cachedLudusSchema.properties || {}).length,
-      hasMetaSchema: !!cachedLudusSchema.$schema,
-      schemaTitle: cachedLudusSchema.title || 'Unknown'
-    });
-    
-    return cachedLudusSchema;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error('Failed to fetch Ludus schema', { error: errorMessage });
-    throw new Error(`Failed to fetch official Ludus schema: ${errorMessage}`);
-  }
+function compileLudusSchema(rawSchema: any) {
+  // Remove the $schema property that causes AJV issues with meta-schema resolution
+  const schema = { ...rawSchema };
+  delete schema.$schema;
+  
+  // Create AJV validator instance
+  const ajv = new Ajv({ 
+    allErrors: true, // Report all errors, not just the first one
+    verbose: true,   // Include schema and data in errors
+    strict: false,   // Allow unknown keywords in schema
+    validateFormats: false // Skip format validation for better compatibility
+  });
+  
+  return ajv.compile(schema);
 }
 
 /**
@@ -304,23 +296,29 @@ export async function validateLudusRangeSchema(config: any, logger: Logger): Pro
   };
 
   try {
-    // Fetch the official schema
-    const rawSchema = await fetchLudusSchema(logger);
-    
-    // Remove the $schema property that causes AJV issues with meta-schema resolution
-    const schema = { ...rawSchema };
-    delete schema.$schema;
-    
-    // Create AJV validator instance
-    const ajv = new Ajv({ 
-      allErrors: true, // Report all errors, not just the first one
-      verbose: true,   // Include schema and data in errors
-      strict: false,   // Allow unknown keywords in schema
-      validateFormats: false // Skip format validation for better compatibility
-    });
-    
-    // Compile the schema
-    const validate = ajv.compile(schema);
+    // Use the cached official schema, or the bundled copy when offline
+    let loaded = loadRangeConfigSchema(logger);
+    let validate;
+    try {
+      validate = compileLudusSchema(loaded.schema);
+    } catch (compileError) {
+      if (loaded.source.type !== 'cache') {
+        throw compileError;
+      }
+      logger.warn('Cached range-config schema failed to compile, using bundled schema', {
+        error: compileError instanceof Error ? compileError.message : String(compileError)
+      });
+      loaded = getBundledRangeConfigSchema();
+      validate = compileLudusSchema(loaded.schema);
+    }
+
+    result.schema_source = loaded.source;
+    if (loaded.source.type === 'bundled') {
+      result.warnings.push(
+        `Validated against the bundled range-config schema (${loaded.source.version}); ` +
+        `restart the server with network access to cache the latest schema from ${RANGE_CONFIG_SCHEMA_URL}`
+      );
+    }
     
     // Validate the config
     const isValid = validate(config);
@@ -362,7 +360,7 @@ export async function validateLudusRangeSchema(config: any, logger: Logger): Pro
 /**
  * Read config content from local file or URL with security validation
  */
-async function readConfigContent(source: string, logger: Logger): Promise<string> {
+export async function readConfigContent(source: string, logger: Logger): Promise<string> {
   logger.info('Reading config from source', { source });
   
   // Check if it's a URL
@@ -656,6 +654,15 @@ IMPORTANT LLM BEHAVIORAL PROMPTS:
         user: {
           type: 'string',
           description: 'User ID to get configuration for (admin only). If omitted, gets configuration for current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        lint: {
+          type: 'boolean',
+          description: 'Run the semantic linter (duplicate VM names/IPs, missing primary DC, unused rule VLANs, linux on Windows templates) on the retrieved config',
+          default: false
         }
       },
       required: []
@@ -837,7 +844,7 @@ export async function handleWriteRangeConfig(args: WriteRangeConfigArgs, logger:
 /**
  * Handle validate_range_config tool calls
  */
-export async function handleValidateRangeConfig(args: ValidateRangeConfigArgs, logger: Logger): Promise<any> {
+export async function handleValidateRangeConfig(args: ValidateRangeConfigArgs, logger: Logger, cliWrapper?: LudusCliWrapper): Promise<any> {
   logger.info('Handling validate_range_config request', { args });
   
   try {
@@ -879,6 +886,36 @@ export async function handleValidateRangeConfig(args: ValidateRangeConfigArgs, l
     
     // Validate against Ludus schema
     const validation = await validateLudusRangeSchema(parsedConfig, logger);
+
+    // Resolve role dependencies against the local role schemas (and installed roles when connected)
+    const roleSchemas = await loadRoleSchemas(logger);
+    let roleDependencies;
+    try {
+      roleDependencies = await analyzeRoleDependencies(parsedConfig, logger, cliWrapper, args.user, roleSchemas);
+      roleDependencies.cycles.forEach(cycle => validation.errors.push(`Role dependency cycle: ${cycle.join(' -> ')}`));
+      roleDependencies.orderingProblems.forEach(problem => validation.errors.push(`Role ordering: ${problem.message}`));
+      roleDependencies.missingInstalls.forEach(missing => validation.errors.push(
+        `Role not installed on server: ${missing.role} (required by ${missing.requiredBy.join(', ')})` +
+        (missing.installation_method ? ` - install with: ${missing.installation_method}` : '')
+      ));
+      roleDependencies.unknownRoles.forEach(role => validation.warnings.push(`No local schema for role ${role}; its dependencies could not be checked`));
+      roleDependencies.warnings.forEach(warning => validation.warnings.push(warning));
+      validation.valid = validation.errors.length === 0;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn('Role dependency resolution failed', { error: errorMessage });
+      validation.warnings.push(`Role dependency resolution skipped: ${errorMessage}`);
+    }
+
+    // Check role_vars names, types and required variables against the role schemas
+    const roleVars = validateRoleVars(parsedConfig, roleSchemas);
+    roleVars.issues.forEach(issue => (issue.severity === 'error' ? validation.errors : validation.warnings).push(`Role vars: ${issue.message}`));
+    roleVars.skippedVms.forEach(vmName => validation.warnings.push(`Role vars: ${vmName} uses a role without a local schema; unknown variable names were not checked`));
+
+    // Semantic checks the JSON schema cannot express (duplicate IPs, missing primary DCs, ...)
+    const lint = lintRangeConfig(parsedConfig);
+    lint.findings.forEach(finding => (finding.severity === 'error' ? validation.errors : validation.warnings).push(`Lint ${formatLintFinding(finding)}`));
+    validation.valid = validation.errors.length === 0;
     
     logger.info('Validation completed', { 
       source: source,
@@ -891,6 +928,10 @@ export async function handleValidateRangeConfig(args: ValidateRangeConfigArgs, l
       success: true,
       source: source,
       validation: validation,
+      schema_source: validation.schema_source,
+      roleDependencies,
+      roleVars,
+      lint,
       message: validation.valid 
         ? `Configuration is valid${validation.warnings.length > 0 ? ' (with warnings)' : ''}` 
         : 'Configuration has validation errors'
@@ -984,38 +1025,39 @@ export async function handleListRangeConfigs(args: ListRangeConfigsArgs, logger:
  * Handle get_range_config tool calls
  */
 export async function handleGetRangeConfig(args: GetRangeConfigArgs, logger: Logger, cliWrapper: LudusCliWrapper): Promise<any> {
-  const { example = false, user } = args;
+  const { example = false, user, rangeId, lint = false } = args;
   
   logger.info('Handling get_range_config request', { args });
   
   try {
-    // Build the command arguments
-    const cmdArgs: string[] = ['config', 'get'];
-    
-    // Add example argument if requested
-    if (example) {
-      cmdArgs.push('example');
-    }
-    
-    // Add user flag if specified
-    if (user) {
-      cmdArgs.push('--user', user);
-    }
-
-    // Execute the command
-    const result = await cliWrapper.executeCommand('range', cmdArgs);
+    // The example config only exists in the CLI; the range's own config goes through the backend
+    const result = example
+      ? await cliWrapper.executeCommand('range', ['config', 'get', 'example', ...(user ? ['--user', user] : [])])
+      : await cliWrapper.getRangeConfig(user, rangeId);
 
     const targetUser = user || 'current user';
     const configType = example ? 'example configuration' : `current range configuration for ${targetUser}`;
     
     if (result.success) {
-      return {
+      const response: any = {
         success: true,
         user: targetUser,
         example: example,
-        content: result.rawOutput || result.message,
+        content: extractRangeConfigYaml(result),
         message: `Successfully retrieved ${configType}`
       };
+
+      if (lint) {
+        try {
+          response.lint = lintRangeConfig(yaml.load(extractRangeConfigYaml(result)));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn('Could not lint retrieved range config', { error: errorMessage });
+          response.lintError = `Could not parse the retrieved config for linting: ${errorMessage}`;
+        }
+      }
+
+      return response;
     } else {
       return {
         success: false,
@@ -1040,6 +1082,17 @@ export async function handleGetRangeConfig(args: GetRangeConfigArgs, logger: Log
   }
 }
 
+/**
+ * Extract the YAML text from `ludus range config get` output.
+ * With LUDUS_JSON set the CLI wraps the config as {"result": "<yaml>"}; otherwise it prints YAML directly.
+ */
+export function extractRangeConfigYaml(result: CommandResult): string {
+  if (result.data && typeof result.data === 'object' && typeof result.data.result === 'string') {
+    return result.data.result;
+  }
+  return result.rawOutput || result.message || '';
+}
+
 /**
  * Smart fallback search in default directories when no directory is specified
  * Now restricted to range-config-templates directory only
@@ -0,0 +1,390 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as yaml from 'js-yaml';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { extractRangeConfigYaml, readConfigContent } from './rangeConfig.js';
+
+export interface DiffRangeConfigArgs {
+  from?: string;   // "active" (default), "base:<file>" or a relative template path
+  to: string;
+  user?: string;
+  rangeId?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface VmSummary {
+  vm_name: string;
+  template?: string;
+  vlan?: number;
+  ip_last_octet?: number;
+  ram_gb?: number;
+  cpus?: number;
+}
+
+export interface VmDiff {
+  vm_name: string;
+  changes: FieldChange[];
+  rolesAdded: string[];
+  rolesRemoved: string[];
+}
+
+export interface NetworkRuleDiff {
+  name: string;
+  changes: FieldChange[];
+}
+
+export interface RangeConfigDiff {
+  addedVms: VmSummary[];
+  removedVms: VmSummary[];
+  changedVms: VmDiff[];
+  unchangedVms: string[];
+  network: {
+    changes: FieldChange[];
+    addedRules: string[];
+    removedRules: string[];
+    changedRules: NetworkRuleDiff[];
+  };
+  otherChanges: FieldChange[];   // router, defaults, global_role_vars, notify, ...
+  hasChanges: boolean;
+}
+
+export function createDiffRangeConfigTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'diff_range_config',
+    description: `Compare two range configurations structurally, per VM: added/removed VMs and changed template, RAM, CPUs, roles, role_vars, domain settings and network rules.
+
+**CONFIG REFERENCES** (for "from" and "to"):
+- "active" - the configuration currently set on the Ludus server (for "user" if given)
+- "base:<file>" - a base config, e.g. "base:basic-ad-network.yml" (~/.ludus-mcp/range-config-templates/base-configs/)
+- any other value - a relative path under ~/.ludus-mcp/range-config-templates/, e.g. "user1/config.yml"
+
+Use before set_range_config to see what will change: diff_range_config({ from: "active", to: "user1/config.yml" }).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Config to compare from: "active", "base:<file>" or a relative path (default: "active")',
+          default: 'active'
+        },
+        to: {
+          type: 'string',
+          description: 'Config to compare to: "active", "base:<file>" or a relative path'
+        },
+        user: {
+          type: 'string',
+          description: 'User whose active config is used (admin only). If omitted, uses current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range whose active config is used when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        }
+      },
+      required: ['to']
+    }
+  };
+}
+
+/**
+ * Key-order independent serialization used for deep comparison
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compare two values, descending into nested objects so changes are reported per leaf field
+ */
+function diffFields(before: any, after: any, prefix: string, changes: FieldChange[], skip: string[] = []): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(key => !skip.includes(key)).sort();
+    for (const key of keys) {
+      diffFields(before[key], after[key], prefix ? `${prefix}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (stableStringify(before) !== stableStringify(after)) {
+    changes.push({ field: prefix, before, after });
+  }
+}
+
+function roleName(role: any): string | null {
+  if (typeof role === 'string') return role;
+  return typeof role?.name === 'string' ? role.name : null;
+}
+
+function getVms(config: any): any[] {
+  return config && Array.isArray(config.ludus) ? config.ludus : [];
+}
+
+function vmKey(vm: any, index: number): string {
+  return vm?.vm_name || vm?.hostname || `ludus[${index}]`;
+}
+
+function summarizeVm(vm: any, index: number): VmSummary {
+  const summary: VmSummary = { vm_name: vmKey(vm, index) };
+  if (vm?.template !== undefined) summary.template = vm.template;
+  if (vm?.vlan !== undefined) summary.vlan = vm.vlan;
+  if (vm?.ip_last_octet !== undefined) summary.ip_last_octet = vm.ip_last_octet;
+  if (vm?.ram_gb !== undefined) summary.ram_gb = vm.ram_gb;
+  if (vm?.cpus !== undefined) summary.cpus = vm.cpus;
+  return summary;
+}
+
+function diffVm(vmName: string, before: any, after: any): VmDiff {
+  const changes: FieldChange[] = [];
+  diffFields(before, after, '', changes, ['vm_name', 'roles']);
+
+  const beforeRoles: any[] = Array.isArray(before?.roles) ? before.roles : [];
+  const afterRoles: any[] = Array.isArray(after?.roles) ? after.roles : [];
+  const beforeNames = beforeRoles.map(roleName).filter((name): name is string => !!name);
+  const afterNames = afterRoles.map(roleName).filter((name): name is string => !!name);
+  const rolesAdded = afterNames.filter(name => !beforeNames.includes(name));
+  const rolesRemoved = beforeNames.filter(name => !afterNames.includes(name));
+
+  // Same role set but different order or depends_on
+  if (rolesAdded.length === 0 && rolesRemoved.length === 0 && stableStringify(beforeRoles) !== stableStringify(afterRoles)) {
+    changes.push({ field: 'roles', before: beforeRoles, after: afterRoles });
+  }
+
+  return { vm_name: vmName, changes, rolesAdded, rolesRemoved };
+}
+
+function ruleKey(rule: any, index: number): string {
+  return typeof rule?.name === 'string' && rule.name ? rule.name : `rule[${index}]`;
+}
+
+/**
+ * Structural diff of two parsed range configs. VMs are matched by vm_name, network rules by name.
+ */
+export function diffRangeConfigs(before: any, after: any): RangeConfigDiff {
+  const beforeVms = new Map(getVms(before).map((vm, index) => [vmKey(vm, index), { vm, index }]));
+  const afterVms = new Map(getVms(after).map((vm, index) => [vmKey(vm, index), { vm, index }]));
+
+  const diff: RangeConfigDiff = {
+    addedVms: [],
+    removedVms: [],
+    changedVms: [],
+    unchangedVms: [],
+    network: { changes: [], addedRules: [], removedRules: [], changedRules: [] },
+    otherChanges: [],
+    hasChanges: false
+  };
+
+  for (const [name, { vm, index }] of beforeVms) {
+    const match = afterVms.get(name);
+    if (!match) {
+      diff.removedVms.push(summarizeVm(vm, index));
+      continue;
+    }
+    const vmDiff = diffVm(name, vm, match.vm);
+    if (vmDiff.changes.length > 0 || vmDiff.rolesAdded.length > 0 || vmDiff.rolesRemoved.length > 0) {
+      diff.changedVms.push(vmDiff);
+    } else {
+      diff.unchangedVms.push(name);
+    }
+  }
+  for (const [name, { vm, index }] of afterVms) {
+    if (!beforeVms.has(name)) {
+      diff.addedVms.push(summarizeVm(vm, index));
+    }
+  }
+
+  const beforeNetwork = isPlainObject(before?.network) ? before.network : {};
+  const afterNetwork = isPlainObject(after?.network) ? after.network : {};
+  diffFields(beforeNetwork, afterNetwork, 'network', diff.network.changes, ['rules']);
+
+  const beforeRules = new Map<string, any>((Array.isArray(beforeNetwork.rules) ? beforeNetwork.rules : []).map((rule: any, index: number) => [ruleKey(rule, index), rule]));
+  const afterRules = new Map<string, any>((Array.isArray(afterNetwork.rules) ? afterNetwork.rules : []).map((rule: any, index: number) => [ruleKey(rule, index), rule]));
+  for (const [name, rule] of beforeRules) {
+    if (!afterRules.has(name)) {
+      diff.network.removedRules.push(name);
+      continue;
+    }
+    const changes: FieldChange[] = [];
+    diffFields(rule, afterRules.get(name), '', changes, ['name']);
+    if (changes.length > 0) {
+      diff.network.changedRules.push({ name, changes });
+    }
+  }
+  for (const name of afterRules.keys()) {
+    if (!beforeRules.has(name)) {
+      diff.network.addedRules.push(name);
+    }
+  }
+
+  const otherKeys = [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])]
+    .filter(key => key !== 'ludus' && key !== 'network')
+    .sort();
+  for (const key of otherKeys) {
+    diffFields(before?.[key], after?.[key], key, diff.otherChanges);
+  }
+
+  diff.hasChanges = diff.addedVms.length > 0 || diff.removedVms.length > 0 || diff.changedVms.length > 0 ||
+                    diff.network.changes.length > 0 || diff.network.addedRules.length > 0 ||
+                    diff.network.removedRules.length > 0 || diff.network.changedRules.length > 0 ||
+                    diff.otherChanges.length > 0;
+  return diff;
+}
+
+function formatValue(value: any): string {
+  if (value === undefined) return '(unset)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatVmSummary(vm: VmSummary): string {
+  const details = [
+    vm.template,
+    vm.vlan !== undefined && vm.ip_last_octet !== undefined ? `10.X.${vm.vlan}.${vm.ip_last_octet}` : undefined,
+    vm.ram_gb !== undefined ? `${vm.ram_gb}GB RAM` : undefined,
+    vm.cpus !== undefined ? `${vm.cpus} CPU` : undefined
+  ].filter(Boolean);
+  return `${vm.vm_name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/**
+ * Markdown rendering shared by diff_range_config and set_range_config
+ */
+export function formatRangeConfigDiff(diff: RangeConfigDiff): string {
+  if (!diff.hasChanges) {
+    return 'No differences found.';
+  }
+
+  const lines: string[] = [];
+
+  if (diff.removedVms.length > 0) {
+    lines.push(`**Removed VMs (${diff.removedVms.length}):**`, ...diff.removedVms.map(vm => `- ${formatVmSummary(vm)}`), '');
+  }
+  if (diff.addedVms.length > 0) {
+    lines.push(`**Added VMs (${diff.addedVms.length}):**`, ...diff.addedVms.map(vm => `- ${formatVmSummary(vm)}`), '');
+  }
+  if (diff.changedVms.length > 0) {
+    lines.push(`**Changed VMs (${diff.changedVms.length}):**`);
+    for (const vm of diff.changedVms) {
+      lines.push(`- ${vm.vm_name}`);
+      vm.changes.forEach(change => lines.push(`  - ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`));
+      if (vm.rolesAdded.length > 0) lines.push(`  - roles added: ${vm.rolesAdded.join(', ')}`);
+      if (vm.rolesRemoved.length > 0) lines.push(`  - roles removed: ${vm.rolesRemoved.join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  const network = diff.network;
+  if (network.changes.length > 0 || network.addedRules.length > 0 || network.removedRules.length > 0 || network.changedRules.length > 0) {
+    lines.push('**Network:**');
+    network.changes.forEach(change => lines.push(`- ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`));
+    network.addedRules.forEach(name => lines.push(`- rule added: ${name}`));
+    network.removedRules.forEach(name => lines.push(`- rule removed: ${name}`));
+    network.changedRules.forEach(rule => lines.push(
+      `- rule changed: ${rule.name} (${rule.changes.map(change => `${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`).join('; ')})`
+    ));
+    lines.push('');
+  }
+
+  if (diff.otherChanges.length > 0) {
+    lines.push('**Other Settings:**', ...diff.otherChanges.map(change => `- ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`), '');
+  }
+
+  if (diff.unchangedVms.length > 0) {
+    lines.push(`Unchanged VMs: ${diff.unchangedVms.length}`);
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Load and parse a config reference: "active", "base:<file>" or a relative template path
+ */
+export async function loadRangeConfigReference(
+  reference: string,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper,
+  user?: string,
+  rangeId?: string
+): Promise<any> {
+  let content: string;
+
+  if (reference === 'active') {
+    if (!cliWrapper) {
+      throw new Error('The active range config requires a connection to the Ludus server');
+    }
+    const result = await cliWrapper.getRangeConfig(user, rangeId);
+    if (!result.success) {
+      throw new LudusCommandError(`Failed to get the active range config: ${result.message}`, result);
+    }
+    content = extractRangeConfigYaml(result);
+  } else if (reference.startsWith('base:')) {
+    content = await readConfigContent(`base-configs/${reference.slice('base:'.length)}`, logger);
+  } else {
+    content = await readConfigContent(reference, logger);
+  }
+
+  // An unset active config comes back empty; treat it as a range with no VMs
+  return yaml.load(content) || {};
+}
+
+export async function handleDiffRangeConfig(
+  args: DiffRangeConfigArgs,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper
+): Promise<any> {
+  const { from = 'active', to, user, rangeId } = args;
+
+  try {
+    if (!to) {
+      throw new Error('"to" is required');
+    }
+
+    logger.info('Diffing range configs', { from, to, user, rangeId });
+
+    const before = await loadRangeConfigReference(from, logger, cliWrapper, user, rangeId);
+    const after = await loadRangeConfigReference(to, logger, cliWrapper, user, rangeId);
+    const diff = diffRangeConfigs(before, after);
+
+    return {
+      success: true,
+      from,
+      to,
+      diff,
+      message: diff.hasChanges
+        ? `${from} -> ${to}: ${diff.addedVms.length} VM(s) added, ${diff.removedVms.length} removed, ${diff.changedVms.length} changed`
+        : `${from} and ${to} are structurally identical`,
+      nextSteps: [
+        ...(diff.removedVms.length > 0 ? ['Removed VMs drop out of the range config; make sure they are no longer needed before applying'] : []),
+        ...(diff.hasChanges && from === 'active' && to !== 'active' && !to.startsWith('base:')
+          ? [`Apply with set_range_config({ file: "${to}", confirmDestructiveAction: ${diff.removedVms.length > 0} })`]
+          : [])
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to diff range configs', { from, to, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use "active", "base:<file>" or a relative path under ~/.ludus-mcp/range-config-templates/',
+        'Use list_range_configs to find available configs',
+        'Verify both configs are valid YAML with validate_range_config'
+      ])
+    };
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Semantic checks for range configs that pass JSON schema validation but will not
+ * deploy (or deploy something other than intended). Each rule has a stable id, a
+ * severity and a fix hint so findings can be acted on directly.
+ */
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  fix: string;
+  path?: string;      // location in the config, e.g. ludus[2].domain
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(config: any): Array<Omit<LintFinding, 'rule' | 'severity'>>;
+}
+
+export interface RangeConfigLintReport {
+  findings: LintFinding[];
+  errorCount: number;
+  warningCount: number;
+  rulesRun: string[];
+}
+
+// Values Ludus accepts for vlan_src / vlan_dst in addition to VLAN numbers
+const SPECIAL_RULE_VLANS = ['public', 'all', 'wireguard'];
+
+function getVms(config: any): any[] {
+  return config && Array.isArray(config.ludus) ? config.ludus : [];
+}
+
+function vmLabel(vm: any, index: number): string {
+  return vm?.vm_name || vm?.hostname || `ludus[${index}]`;
+}
+
+function isLinuxVm(vm: any): boolean {
+  return vm?.linux === true || (vm?.linux !== null && typeof vm?.linux === 'object');
+}
+
+function isWindowsTemplate(template: any): boolean {
+  return typeof template === 'string' && /(^|[^a-z])win/i.test(template);
+}
+
+export const RANGE_CONFIG_LINT_RULES: LintRule[] = [
+  {
+    id: 'duplicate-vm-name',
+    severity: 'error',
+    description: 'Every VM needs a unique vm_name; Proxmox cannot hold two VMs with the same name',
+    check(config) {
+      const seen = new Map<string, number>();
+      const findings: Array<Omit<LintFinding, 'rule' | 'severity'>> = [];
+      getVms(config).forEach((vm, index) => {
+        const name = vm?.vm_name;
+        if (typeof name !== 'string') {
+          return;
+        }
+        const first = seen.get(name);
+        if (first !== undefined) {
+          findings.push({
+            message: `vm_name "${name}" is used by ludus[${first}] and ludus[${index}]`,
+            fix: `Rename one of the VMs, e.g. "${name}-2"`,
+            path: `ludus[${index}].vm_name`
+          });
+        } else {
+          seen.set(name, index);
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'duplicate-ip',
+    severity: 'error',
+    description: 'vlan + ip_last_octet must be unique; two VMs would be given the same IP address',
+    check(config) {
+      const seen = new Map<string, string>();
+      const findings: Array<Omit<LintFinding, 'rule' | 'severity'>> = [];
+      getVms(config).forEach((vm, index) => {
+        if (vm?.vlan === undefined || vm?.ip_last_octet === undefined) {
+          return;
+        }
+        const key = `${vm.vlan}.${vm.ip_last_octet}`;
+        const label = vmLabel(vm, index);
+        const first = seen.get(key);
+        if (first !== undefined) {
+          findings.push({
+            message: `${label} and ${first} both use 10.X.${key}`,
+            fix: `Give ${label} an unused ip_last_octet in VLAN ${vm.vlan}`,
+            path: `ludus[${index}].ip_last_octet`
+          });
+        } else {
+          seen.set(key, label);
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'domain-without-primary-dc',
+    severity: 'error',
+    description: 'Domain members and alt-dcs need a primary-dc for the same fqdn in the range',
+    check(config) {
+      const vms = getVms(config);
+      const primaryDomains = new Set(
+        vms.filter(vm => vm?.domain?.role === 'primary-dc' && typeof vm.domain.fqdn === 'string')
+           .map(vm => vm.domain.fqdn.toLowerCase())
+      );
+      const findings: Array<Omit<LintFinding, 'rule' | 'severity'>> = [];
+      vms.forEach((vm, index) => {
+        const role = vm?.domain?.role;
+        const fqdn = vm?.domain?.fqdn;
+        if ((role === 'member' || role === 'alt-dc') && typeof fqdn === 'string' && !primaryDomains.has(fqdn.toLowerCase())) {
+          findings.push({
+            message: `${vmLabel(vm, index)} is a ${role} of ${fqdn}, but no VM is the primary-dc for ${fqdn}`,
+            fix: `Add a Windows server VM with domain: { fqdn: ${fqdn}, role: primary-dc }, or correct the fqdn`,
+            path: `ludus[${index}].domain`
+          });
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'network-rule-unused-vlan',
+    severity: 'warning',
+    description: 'Network rules should reference VLANs that have VMs in them',
+    check(config) {
+      const usedVlans = new Set(getVms(config).map(vm => String(vm?.vlan)));
+      const rules: any[] = Array.isArray(config?.network?.rules) ? config.network.rules : [];
+      const findings: Array<Omit<LintFinding, 'rule' | 'severity'>> = [];
+      rules.forEach((rule, index) => {
+        for (const field of ['vlan_src', 'vlan_dst']) {
+          const vlan = rule?.[field];
+          if (vlan === undefined || SPECIAL_RULE_VLANS.includes(String(vlan).toLowerCase()) || usedVlans.has(String(vlan))) {
+            continue;
+          }
+          findings.push({
+            message: `Rule "${rule?.name || index}" ${field} ${vlan} does not match any VM's VLAN`,
+            fix: `Use one of the range VLANs (${[...usedVlans].sort().join(', ') || 'none'}) or ${SPECIAL_RULE_VLANS.join('/')}`,
+            path: `network.rules[${index}].${field}`
+          });
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'linux-on-windows-template',
+    severity: 'error',
+    description: 'linux must not be set on VMs built from Windows templates',
+    check(config) {
+      const findings: Array<Omit<LintFinding, 'rule' | 'severity'>> = [];
+      getVms(config).forEach((vm, index) => {
+        if (isLinuxVm(vm) && isWindowsTemplate(vm?.template)) {
+          findings.push({
+            message: `${vmLabel(vm, index)} sets linux but uses Windows template ${vm.template}`,
+            fix: 'Remove the linux key (use the windows key for Windows options) or switch to a Linux template',
+            path: `ludus[${index}].linux`
+          });
+        }
+      });
+      return findings;
+    }
+  }
+];
+
+/**
+ * Run all lint rules against a parsed range config
+ */
+export function lintRangeConfig(config: any, rules: LintRule[] = RANGE_CONFIG_LINT_RULES): RangeConfigLintReport {
+  const findings: LintFinding[] = [];
+
+  for (const rule of rules) {
+    for (const finding of rule.check(config)) {
+      findings.push({ rule: rule.id, severity: rule.severity, ...finding });
+    }
+  }
+
+  return {
+    findings,
+    errorCount: findings.filter(finding => finding.severity === 'error').length,
+    warningCount: findings.filter(finding => finding.severity === 'warning').length,
+    rulesRun: rules.map(rule => rule.id)
+  };
+}
+
+/**
+ * One-line rendering used in validation error/warning lists
+ */
+export function formatLintFinding(finding: LintFinding): string {
+  return `[${finding.rule}] ${finding.message} (fix: ${finding.fix})`;
+}
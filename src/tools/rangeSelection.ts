@@ -0,0 +1,223 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { RangeStatus, parseRangeStatuses, formatRangesTable } from './rangeStatus.js';
+
+export interface ListRangesArgs {
+  user?: string;
+  all?: boolean;   // every user's ranges (admin only)
+}
+
+export interface SetCurrentRangeArgs {
+  rangeId?: string;
+  user?: string;
+  clear?: boolean;
+}
+
+export interface UserRanges {
+  user: string;
+  ranges: RangeStatus[];
+}
+
+export function createListRangesTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'list_ranges',
+    description: `List ranges grouped by user, with the range ID, name, state, VM and running counts, testing mode and last deployment of each.
+
+Ludus servers with multiple ranges per user (e.g. separate "red team" and "blue team" ranges under one account) identify each range by a range ID. Pass that ID as rangeId to deploy_range, get_range_status, ludus_power, get_range_config, set_range_config, watch_deployment, destroy_range, get_connection_info, range_abort, the snapshot_* and testing_* tools, diff_range_config and plan_redeploy, or make it the session default with set_current_range.
+
+The session's current range is marked in the output. Use all: true (admin only) to list the ranges of every user.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID whose ranges to list (admin only). If omitted, lists the current user\'s ranges.'
+        },
+        all: {
+          type: 'boolean',
+          description: 'List the ranges of all users (admin only)',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createSetCurrentRangeTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'set_current_range',
+    description: `Set the range that range tools use when no rangeId is passed, for the rest of this MCP session.
+
+The range ID is checked against list_ranges before it is used. Pass clear: true (or no rangeId) to go back to the user's default range. The setting is not persisted; a new session starts without a current range.
+
+The current range belongs to one user: range tools acting on that user (the same user argument, or none when it was set without one) use it, calls for other users use their own default range.
+
+IMPORTANT: Every range tool, including destructive ones (destroy_range, ludus_power off, testing_stop), targets the current range once it is set. Tell the user which range is current before running them.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        rangeId: {
+          type: 'string',
+          description: 'Range ID to use by default (see list_ranges)'
+        },
+        user: {
+          type: 'string',
+          description: 'User who owns the range (admin only). The range is checked against this user\'s ranges and only applies to calls for this user. If omitted, the current user\'s.'
+        },
+        clear: {
+          type: 'boolean',
+          description: 'Clear the current range and use the user\'s default range',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+/**
+ * Group ranges by owner; ranges without a user ID belong to the queried user
+ */
+function groupByUser(ranges: RangeStatus[], fallbackUser: string): UserRanges[] {
+  const groups = new Map<string, RangeStatus[]>();
+  for (const range of ranges) {
+    const owner = range.userId || fallbackUser;
+    groups.set(owner, [...(groups.get(owner) || []), range]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([user, userRanges]) => ({ user, ranges: userRanges }));
+}
+
+export async function handleListRanges(
+  args: ListRangesArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, all = false } = args;
+  const targetUser = all ? 'all users' : user || 'current user';
+
+  try {
+    logger.info('Listing ranges', { user, all });
+
+    const result = all ? await cliWrapper.listAllRanges() : await cliWrapper.listUserRanges(user);
+    if (!result.success) {
+      throw new LudusCommandError(`Failed to list ranges: ${result.message}`, result);
+    }
+
+    const ranges = parseRangeStatuses(result.data);
+    const groups = groupByUser(ranges, user || 'current user');
+    // Range IDs are unique on the server, so with all: true the current range is marked whoever owns it
+    const currentRangeId = all ? cliWrapper.getCurrentRangeSelection()?.rangeId : cliWrapper.getCurrentRange(user);
+    const multiRange = ranges.some(range => range.rangeId);
+
+    const nextSteps: string[] = [];
+    if (ranges.length === 0) {
+      nextSteps.push('Use deploy_range() to deploy a range');
+    } else if (multiRange) {
+      nextSteps.push('Pass rangeId to range tools, or set a default with set_current_range({ rangeId: "<id>" })');
+      if (currentRangeId && !ranges.some(range => range.rangeId === currentRangeId)) {
+        nextSteps.push(`The current range ${currentRangeId} is not in this list; check it with set_current_range or clear it`);
+      }
+    } else {
+      nextSteps.push('This server does not report range IDs (one range per user); range tools target each user\'s range by user');
+    }
+
+    return {
+      success: true,
+      message: `Found ${ranges.length} range(s) for ${targetUser}` +
+               (currentRangeId ? ` (current range: ${currentRangeId})` : ''),
+      user: targetUser,
+      currentRangeId,
+      groups,
+      table: groups.map(group => `**${group.user}** (${group.ranges.length} range(s))\n\n${formatRangesTable(group.ranges, currentRangeId)}`).join('\n\n'),
+      nextSteps
+    };
+  } catch (error: any) {
+    logger.error('Failed to list ranges', { user, all, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: targetUser,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Listing all users\' ranges requires admin privileges',
+        'Check if you have admin permissions (if querying other users)',
+        'Ensure your Ludus server connection is working'
+      ])
+    };
+  }
+}
+
+export async function handleSetCurrentRange(
+  args: SetCurrentRangeArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { rangeId, user, clear = false } = args;
+  const previousSelection = cliWrapper.getCurrentRangeSelection();
+  const previous = previousSelection?.rangeId;
+  const targetUser = user || 'current user';
+
+  if (clear || !rangeId) {
+    cliWrapper.setCurrentRange(undefined);
+    return {
+      success: true,
+      message: previous ? `Cleared current range ${previous} (${previousSelection?.user || 'current user'}); range tools use the user's default range` : 'No current range set; range tools use the user\'s default range',
+      currentRangeId: undefined,
+      previousRangeId: previous,
+      nextSteps: ['Use list_ranges() to see the available ranges']
+    };
+  }
+
+  try {
+    logger.info('Setting current range', { rangeId, user });
+
+    const result = await cliWrapper.listUserRanges(user);
+    if (!result.success) {
+      throw new LudusCommandError(`Could not verify the range: ${result.message}`, result);
+    }
+
+    const ranges = parseRangeStatuses(result.data);
+    const rangeIds = ranges.map(range => range.rangeId).filter((id): id is string => !!id);
+    if (rangeIds.length === 0) {
+      throw new Error('This Ludus server does not report range IDs; selecting a range needs a Ludus version with multiple ranges per user');
+    }
+    const range = ranges.find(candidate => candidate.rangeId === rangeId);
+    if (!range) {
+      throw new Error(`Range ${rangeId} not found for ${targetUser}. Available: ${rangeIds.join(', ')}`);
+    }
+
+    cliWrapper.setCurrentRange(rangeId, user);
+
+    return {
+      success: true,
+      message: `Current range set to ${rangeId}${range.name ? ` (${range.name})` : ''} for ${targetUser}: ${range.state}, ${range.vmCount} VM(s)`,
+      currentRangeId: rangeId,
+      currentRangeUser: user,
+      previousRangeId: previous,
+      range,
+      nextSteps: [
+        `Range tools without a rangeId now target this range for the rest of the session when they act on ${targetUser}; calls for other users use their default range`,
+        'Use set_current_range({ clear: true }) to go back to the default range'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to set current range', { rangeId, user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use list_ranges() to find valid range IDs',
+        'Pass user when the range belongs to another user (admin only)',
+        'Ensure your Ludus server connection is working'
+      ])
+    };
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Typed models for the JSON Ludus prints for `range list` and `users list`, so tools work
+ * with one shape instead of each reading fields out of the raw output. Field names differ
+ * between Ludus versions (userID/rangeID, VMs/vms, poweredOn/powerState), which is handled here.
+ */
+
+export type VmPowerState = 'running' | 'stopped' | 'unknown';
+
+export interface VmStatus {
+  name: string;
+  proxmoxId?: number;
+  powerState: VmPowerState;
+  ip?: string;
+  vlan?: number;            // third octet of the range IP (10.<range>.<vlan>.<host>)
+}
+
+export interface RangeStatus {
+  userId?: string;
+  rangeId?: string;         // range ID on Ludus versions with multiple ranges per user
+  rangeNumber?: number;
+  name?: string;
+  state: string;            // upper-cased rangeState: SUCCESS, DEPLOYING, ERROR, ... or UNKNOWN
+  lastDeployment?: string;
+  testingEnabled: boolean;
+  vmCount: number;
+  vms: VmStatus[];
+  allowedDomains: string[];
+  allowedIps: string[];
+}
+
+export interface LudusUser {
+  userId: string;
+  name?: string;
+  isAdmin: boolean;
+  proxmoxUsername?: string;
+  dateCreated?: string;
+  dateLastActive?: string;
+}
+
+function pick(source: any, ...keys: string[]): any {
+  for (const key of keys) {
+    if (source?.[key] !== undefined && source[key] !== null) {
+      return source[key];
+    }
+  }
+  return undefined;
+}
+
+function optionalString(value: any): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+}
+
+function optionalNumber(value: any): number | undefined {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function stringList(value: any): string[] {
+  return Array.isArray(value) ? value.filter(item => typeof item === 'string') : [];
+}
+
+function parsePowerState(vm: any): VmPowerState {
+  const powered = pick(vm, 'poweredOn', 'powered_on', 'isPoweredOn');
+  if (typeof powered === 'boolean') {
+    return powered ? 'running' : 'stopped';
+  }
+  const state = optionalString(pick(vm, 'powerState', 'status', 'state'))?.toLowerCase();
+  if (state && /^(running|on|started|up)$/.test(state)) return 'running';
+  if (state && /^(stopped|off|shutdown|down|paused)$/.test(state)) return 'stopped';
+  return 'unknown';
+}
+
+export function parseVmStatus(vm: any): VmStatus {
+  const status: VmStatus = {
+    name: optionalString(pick(vm, 'name', 'vmName', 'vm_name')) || 'unknown',
+    powerState: parsePowerState(vm)
+  };
+  const proxmoxId = optionalNumber(pick(vm, 'proxmoxID', 'proxmoxId', 'vmid'));
+  const ip = optionalString(pick(vm, 'ip', 'IP', 'ipAddress'));
+  if (proxmoxId !== undefined) status.proxmoxId = proxmoxId;
+  if (ip && ip !== 'null') {
+    status.ip = ip;
+    const octets = ip.split('.');
+    const vlan = octets.length === 4 ? optionalNumber(octets[2]) : undefined;
+    if (vlan !== undefined) status.vlan = vlan;
+  }
+  return status;
+}
+
+/**
+ * Parse one range object. Returns null when the value does not look like a range.
+ */
+export function parseRangeStatus(data: any): RangeStatus | null {
+  const range = Array.isArray(data) ? data[0] : data;
+  if (!range || typeof range !== 'object') {
+    return null;
+  }
+
+  const vmList = pick(range, 'VMs', 'vms', 'Vms');
+  const vms = Array.isArray(vmList) ? vmList.map(parseVmStatus) : [];
+  const status: RangeStatus = {
+    state: optionalString(pick(range, 'rangeState', 'state'))?.toUpperCase() || 'UNKNOWN',
+    testingEnabled: Boolean(pick(range, 'testingEnabled', 'testing_enabled')),
+    vmCount: optionalNumber(pick(range, 'numberOfVMs', 'numberOfVms')) ?? vms.length,
+    vms,
+    allowedDomains: stringList(range.allowedDomains),
+    allowedIps: stringList(pick(range, 'allowedIPs', 'allowedIps'))
+  };
+
+  const userId = optionalString(pick(range, 'userID', 'userId'));
+  const rangeId = optionalString(pick(range, 'rangeID', 'rangeId'));
+  const rangeNumber = optionalNumber(range.rangeNumber);
+  const name = optionalString(range.name);
+  const lastDeployment = optionalString(range.lastDeployment);
+  if (userId) status.userId = userId;
+  if (rangeId) status.rangeId = rangeId;
+  if (rangeNumber !== undefined) status.rangeNumber = rangeNumber;
+  if (name) status.name = name;
+  if (lastDeployment) status.lastDeployment = lastDeployment;
+  return status;
+}
+
+/**
+ * Parse `range list` output, which is a single range or a list depending on the Ludus version
+ */
+export function parseRangeStatuses(data: any): RangeStatus[] {
+  const list = Array.isArray(data) ? data : data ? [data] : [];
+  return list
+    .map(range => parseRangeStatus(range))
+    .filter((range): range is RangeStatus => range !== null);
+}
+
+export function parseLudusUsers(data: any): LudusUser[] {
+  let list = data;
+  if (typeof list === 'string') {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      return [];
+    }
+  }
+  list = Array.isArray(list) ? list : list ? [list] : [];
+
+  return list
+    .filter((user: any) => user && typeof user === 'object')
+    .map((user: any) => {
+      const parsed: LudusUser = {
+        userId: optionalString(pick(user, 'userID', 'userId')) || 'unknown',
+        isAdmin: Boolean(pick(user, 'isAdmin', 'admin'))
+      };
+      const name = optionalString(user.name);
+      const proxmoxUsername = optionalString(pick(user, 'proxmoxUsername', 'proxmoxUser'));
+      const dateCreated = optionalString(user.dateCreated);
+      const dateLastActive = optionalString(user.dateLastActive);
+      if (name) parsed.name = name;
+      if (proxmoxUsername) parsed.proxmoxUsername = proxmoxUsername;
+      if (dateCreated) parsed.dateCreated = dateCreated;
+      if (dateLastActive) parsed.dateLastActive = dateLastActive;
+      return parsed;
+    });
+}
+
+// Pipes would break the markdown table
+function cell(value: string | number | undefined): string {
+  return value === undefined || value === '' ? '-' : String(value).replace(/\|/g, '\\|');
+}
+
+/**
+ * Markdown rendering shared by get_range_status and list_user_ranges
+ */
+export function formatVmTable(vms: VmStatus[]): string {
+  if (vms.length === 0) {
+    return 'No VMs.';
+  }
+  const rows = vms.map(vm => `| ${cell(vm.name)} | ${vm.powerState} | ${cell(vm.ip)} | ${cell(vm.vlan)} | ${cell(vm.proxmoxId)} |`);
+  return `| VM | Power | IP | VLAN | Proxmox ID |\n|---|---|---|---|---|\n${rows.join('\n')}`;
+}
+
+export function formatRangeStatus(range: RangeStatus): string {
+  const running = range.vms.filter(vm => vm.powerState === 'running').length;
+  const lines = [
+    `**State:** ${range.state}`,
+    ...(range.rangeId ? [`**Range ID:** ${range.rangeId}`] : []),
+    ...(range.userId ? [`**User:** ${range.userId}`] : []),
+    ...(range.rangeNumber !== undefined ? [`**Range number:** ${range.rangeNumber}`] : []),
+    `**Last deployment:** ${range.lastDeployment || 'never'}`,
+    `**Testing mode:** ${range.testingEnabled ? 'enabled' : 'disabled'}`,
+    `**VMs:** ${range.vmCount} (${running} running)`,
+    '',
+    formatVmTable(range.vms)
+  ];
+  return lines.join('\n');
+}
+
+export function formatRangesTable(ranges: RangeStatus[], currentRangeId?: string): string {
+  const rows = ranges.map(range => {
+    const running = range.vms.filter(vm => vm.powerState === 'running').length;
+    const current = currentRangeId && range.rangeId === currentRangeId ? ' (current)' : '';
+    return `| ${cell(range.rangeId || range.userId)}${current} | ${cell(range.name)} | ${range.state} | ${range.vmCount} | ${running} | ${range.testingEnabled ? 'yes' : 'no'} | ${cell(range.lastDeployment)} |`;
+  });
+  return `| Range | Name | State | VMs | Running | Testing | Last deployment |\n|---|---|---|---|---|---|---|\n${rows.join('\n')}`;
+}
+
+export function formatUsersTable(users: LudusUser[]): string {
+  const rows = users.map(user =>
+    `| ${cell(user.userId)} | ${cell(user.name)} | ${user.isAdmin ? 'yes' : 'no'} | ${cell(user.proxmoxUsername)} | ${cell(user.dateLastActive)} |`
+  );
+  return `| User ID | Name | Admin | Proxmox user | Last active |\n|---|---|---|---|---|\n${rows.join('\n')}`;
+}
@@ -0,0 +1,411 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { RangeConfigDiff, diffRangeConfigs, loadRangeConfigReference } from './rangeConfigDiff.js';
+import { parseRangeStatus } from './rangeStatus.js';
+
+export interface PlanRedeployArgs {
+  from?: string;   // previously deployed config: "active" (default), "base:<file>" or a relative template path
+  to: string;      // new config
+  user?: string;
+  rangeId?: string;
+}
+
+export interface PlanRedeployOptions {
+  availableTags?: string[];   // tags offered by the server (get_tags)
+  rangeId?: string;           // replaces {{ range_id }} in VM names
+  user?: string;              // passed on to deploy_range
+  targetRangeId?: string;     // range explicitly targeted, passed on to deploy_range
+}
+
+export interface RedeployReason {
+  scope: string;              // VM name, "network" or a top-level config key
+  change: string;
+  tags: string[] | null;      // null: needs every tag (full play run) for this scope
+}
+
+export interface RedeployPlan {
+  needed: boolean;
+  fullDeploy: boolean;        // no limit and no tags: the whole range runs again
+  hosts: string[];            // VM names for --limit (localhost is added in deployArgs)
+  tags: string[];             // empty: all tags
+  onlyRoles: string[];        // empty: all user-defined roles
+  affectedVms: number;
+  totalVms: number;
+  reasons: RedeployReason[];
+  warnings: string[];
+  deployArgs: Record<string, string>;
+  command?: string;           // ready-to-use deploy_range call
+}
+
+/**
+ * Which Ludus deploy tags re-apply a changed VM field. Fields are the leaf paths reported by
+ * diffRangeConfigs ("windows.chocolatey_packages", "role_vars.x", ...). tags: null means the
+ * change is applied by the full play run for that VM; rebuild marks fields Ludus only sets
+ * when the VM is cloned.
+ */
+interface VmChangeRule {
+  pattern: RegExp;
+  tags: string[] | null;
+  rebuild?: boolean;
+  allRoles?: boolean;         // every user-defined role of the VM has to run again
+}
+
+const VM_CHANGE_RULES: VmChangeRule[] = [
+  { pattern: /^(template|ram_gb|cpus|hostname|vlan|ip_last_octet|linux|macOS|unmanaged|force_ip|full_clone|windows\.sysprep)$/, tags: null, rebuild: true },
+  { pattern: /^ansible_groups(\.|$)/, tags: ['custom-groups'] },
+  { pattern: /^dns_rewrites(\.|$)/, tags: ['dns-rewrites'] },
+  { pattern: /^windows\.chocolatey_/, tags: ['custom-choco'] },
+  { pattern: /^windows\.(office_version|office_arch)$/, tags: ['install-office'] },
+  { pattern: /^windows\.visual_studio_version$/, tags: ['install-visual-studio'] },
+  { pattern: /^(role_vars(\.|$)|roles$)/, tags: ['user-defined-roles'], allRoles: true },
+  { pattern: /^testing(\.|$)/, tags: [] }   // read when testing starts, nothing to deploy
+];
+
+const USER_ROLES_TAG = 'user-defined-roles';
+const DEFAULT_ROUTER_VM = '{{ range_id }}-router-debian11-x64';
+const RANGE_ID_PATTERN = /\{\{\s*range_id\s*\}\}/g;
+
+export function createPlanRedeployTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'plan_redeploy',
+    description: `Compute the minimal redeploy for a range config change instead of redeploying every VM.
+
+Diffs the previously deployed config against the new one (same references as diff_range_config) and works out:
+- limit: the VMs that changed or were added (plus localhost, which Ludus requires)
+- onlyRoles: the user-defined roles that were added, or whose role_vars changed (dropped when a run with all tags would otherwise skip other roles of the VMs it covers)
+- tags: the Ansible tags that cover the change, checked against get_tags (e.g. "user-defined-roles", "custom-groups", "dns-rewrites", "custom-choco", "network")
+
+Changes no tag covers (new VMs, domain controller, router or defaults changes) fall back to a full play run, limited to the affected VMs where possible. Template, hardware and IP changes only apply when a VM is recreated, and removed VMs and roles are never undone by a deploy; those are reported as warnings instead.
+
+**CONFIG REFERENCES** (for "from" and "to"):
+- "active" - the configuration currently set on the Ludus server
+- "base:<file>" - a base config under ~/.ludus-mcp/range-config-templates/base-configs/
+- any other value - a relative path under ~/.ludus-mcp/range-config-templates/
+
+WORKFLOW: plan_redeploy({ to: "user1/config.yml" }) while the deployed config is still active → set_range_config({ file: "user1/config.yml" }) → deploy_range with the returned deployArgs. Confirm the plan with the user before deploying; this tool does not deploy anything itself.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Previously deployed config: "active", "base:<file>" or a relative path (default: "active")',
+          default: 'active'
+        },
+        to: {
+          type: 'string',
+          description: 'New config: "active", "base:<file>" or a relative path'
+        },
+        user: {
+          type: 'string',
+          description: 'User whose range is redeployed (admin only). If omitted, uses current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        }
+      },
+      required: ['to']
+    }
+  };
+}
+
+function roleNames(vm: any): string[] {
+  const roles: any[] = Array.isArray(vm?.roles) ? vm.roles : [];
+  return roles
+    .map(role => typeof role === 'string' ? role : role?.name)
+    .filter((name): name is string => typeof name === 'string' && !!name);
+}
+
+function findVm(config: any, vmName: string): any {
+  const vms: any[] = Array.isArray(config?.ludus) ? config.ludus : [];
+  return vms.find((vm, index) => (vm?.vm_name || vm?.hostname || `ludus[${index}]`) === vmName);
+}
+
+/**
+ * Parse `range gettags` output into tag names. The JSON output shape varies between Ludus
+ * versions (list, comma-separated string, { result }, { result: { tags } }), so accept all of them.
+ */
+export function parseTagList(data: any, rawOutput?: string): string[] {
+  const joinTags = (items: any[]): string => items.map(item => typeof item === 'string' ? item : item?.name || item?.tag || '').join(',');
+  let text = '';
+  if (Array.isArray(data)) {
+    text = joinTags(data);
+  } else if (typeof data === 'string') {
+    text = data;
+  } else if (data && typeof data === 'object') {
+    // { result: { tags } } is checked first: data.result alone would be the wrapping object
+    const value = Array.isArray(data.result?.tags) ? data.result.tags : data.result ?? data.tags;
+    text = Array.isArray(value) ? joinTags(value) : typeof value === 'string' ? value : '';
+  }
+  if (!text && rawOutput) {
+    text = rawOutput;
+  }
+  return [...new Set(text.split(/[\s,]+/).map(tag => tag.trim()).filter(tag => /^[a-z][a-z0-9_-]*$/.test(tag)))];
+}
+
+/**
+ * Work out limit, tags and onlyRoles covering a config diff. availableTags (from get_tags)
+ * is optional; without it the tag mapping is used unverified.
+ */
+export function planRedeploy(
+  diff: RangeConfigDiff,
+  before: any,
+  after: any,
+  options: PlanRedeployOptions = {}
+): RedeployPlan {
+  const reasons: RedeployReason[] = [];
+  const warnings: string[] = [];
+  const hosts = new Set<string>();
+  const tags = new Set<string>();
+  const roles = new Set<string>();
+  let fullRun = false;       // some scope needs every tag
+  let allHosts = false;      // some change affects every VM
+
+  // A full play run on a VM should also run all of its roles
+  const addScope = (scope: string, change: string, scopeTags: string[] | null, vmRoles: string[] = []) => {
+    reasons.push({ scope, change, tags: scopeTags });
+    if (scopeTags === null) {
+      fullRun = true;
+      vmRoles.forEach(role => roles.add(role));
+    } else {
+      scopeTags.forEach(tag => tags.add(tag));
+    }
+  };
+
+  for (const vm of diff.addedVms) {
+    hosts.add(vm.vm_name);
+    addScope(vm.vm_name, 'new VM', null, roleNames(findVm(after, vm.vm_name)));
+  }
+
+  const rebuilt: string[] = [];
+  for (const vmDiff of diff.changedVms) {
+    const afterVm = findVm(after, vmDiff.vm_name);
+    const vmRoles = roleNames(afterVm);
+    let touched = false;
+
+    for (const change of vmDiff.changes) {
+      let rule = VM_CHANGE_RULES.find(candidate => candidate.pattern.test(change.field));
+      // Members can be (re)joined on their own; DC changes need the domain plays
+      if (!rule && change.field.startsWith('domain')) {
+        rule = { pattern: /^domain/, tags: afterVm?.domain?.role === 'member' ? ['domain-join'] : null };
+      }
+      const changeTags = rule ? rule.tags : null;
+      if (changeTags && changeTags.length === 0) {
+        reasons.push({ scope: vmDiff.vm_name, change: `${change.field} (applies the next time testing starts)`, tags: [] });
+        continue;
+      }
+      // A redeploy never applies these; the VM has to be recreated, so they do not widen the plan
+      if (rule?.rebuild) {
+        reasons.push({ scope: vmDiff.vm_name, change: `${change.field} (applies only when the VM is recreated)`, tags: [] });
+        if (!rebuilt.includes(vmDiff.vm_name)) rebuilt.push(vmDiff.vm_name);
+        continue;
+      }
+      touched = true;
+      if (rule?.allRoles) {
+        vmRoles.forEach(role => roles.add(role));
+      }
+      addScope(vmDiff.vm_name, change.field, changeTags, vmRoles);
+    }
+
+    if (vmDiff.rolesAdded.length > 0) {
+      touched = true;
+      vmDiff.rolesAdded.forEach(role => roles.add(role));
+      addScope(vmDiff.vm_name, `roles added: ${vmDiff.rolesAdded.join(', ')}`, [USER_ROLES_TAG]);
+    }
+    if (vmDiff.rolesRemoved.length > 0) {
+      warnings.push(`${vmDiff.vm_name}: removed roles (${vmDiff.rolesRemoved.join(', ')}) stay installed; a deploy does not undo roles`);
+    }
+    if (touched) {
+      hosts.add(vmDiff.vm_name);
+    }
+  }
+
+  if (rebuilt.length > 0) {
+    const rebuiltHosts = rebuilt.map(vmName => vmName.replace(RANGE_ID_PATTERN, options.rangeId || '*'));
+    warnings.push(`Ludus sets template, hardware and IP settings only when it clones a VM: remove ${rebuilt.join(', ')} first, then run deploy_range({ limit: "localhost,${rebuiltHosts.join(',')}" }) for those changes to take effect`);
+  }
+  if (diff.removedVms.length > 0) {
+    warnings.push(`Removed VMs (${diff.removedVms.map(vm => vm.vm_name).join(', ')}) are not deleted by a deploy; remove them separately`);
+  }
+
+  const network = diff.network;
+  const networkChanges = [
+    ...network.changes.map(change => change.field),
+    ...network.addedRules.map(name => `rule added: ${name}`),
+    ...network.removedRules.map(name => `rule removed: ${name}`),
+    ...network.changedRules.map(rule => `rule changed: ${rule.name}`)
+  ];
+  if (networkChanges.length > 0 || diff.addedVms.some(vm => vm.vlan !== undefined)) {
+    // Firewall rules and VLAN interfaces live on the router
+    hosts.add(after?.router?.vm_name || DEFAULT_ROUTER_VM);
+    addScope('network', networkChanges.length > 0 ? networkChanges.join('; ') : 'new VLAN or VM', ['network']);
+  }
+
+  for (const change of diff.otherChanges) {
+    const key = change.field.split('.')[0]!;
+    if (key === 'notify') {
+      reasons.push({ scope: key, change: `${change.field} (used on the next deploy, nothing to rerun)`, tags: [] });
+    } else if (key === 'router') {
+      hosts.add(after?.router?.vm_name || DEFAULT_ROUTER_VM);
+      addScope(key, change.field, null);
+    } else if (key === 'global_role_vars') {
+      allHosts = true;
+      const vms: any[] = Array.isArray(after?.ludus) ? after.ludus : [];
+      vms.forEach(vm => roleNames(vm).forEach(role => roles.add(role)));
+      addScope(key, change.field, [USER_ROLES_TAG]);
+    } else {
+      // defaults and anything unknown can touch every VM
+      allHosts = true;
+      addScope(key, change.field, null);
+    }
+  }
+
+  if (roles.size > 0 && !fullRun) {
+    tags.add(USER_ROLES_TAG);
+  }
+
+  // Only use tags the server knows; anything else has to run everything
+  const { availableTags } = options;
+  if (!fullRun && availableTags && availableTags.length > 0) {
+    const unknown = [...tags].filter(tag => !availableTags.includes(tag));
+    if (unknown.length > 0) {
+      warnings.push(`Tags not offered by this Ludus server (${unknown.join(', ')}); falling back to all tags for the affected VMs`);
+      fullRun = true;
+    }
+  }
+
+  const totalVms = Array.isArray(after?.ludus) ? after.ludus.length : 0;
+  const vmHosts = [...hosts].filter(host => diff.addedVms.some(vm => vm.vm_name === host) || diff.changedVms.some(vm => vm.vm_name === host));
+  const needed = reasons.some(reason => reason.tags === null || reason.tags.length > 0);
+  const rangeId = options.rangeId || '*';
+  const resolvedHosts = [...hosts].map(host => host.replace(RANGE_ID_PATTERN, rangeId));
+
+  // With all tags, onlyRoles limits the user-defined roles of every host in the run: keep it only
+  // when it lists all roles of those hosts, or a full run would skip the roles of the others
+  const routerName = after?.router?.vm_name || DEFAULT_ROUTER_VM;
+  const hostRoles = (host: string) => host === routerName ? roleNames(after?.router) : roleNames(findVm(after, host));
+  const keepOnlyRoles = !fullRun || (!allHosts && [...hosts].every(host => hostRoles(host).every(role => roles.has(role))));
+
+  const plan: RedeployPlan = {
+    needed,
+    fullDeploy: needed && fullRun && allHosts,
+    hosts: allHosts ? [] : resolvedHosts,
+    tags: fullRun ? [] : [...tags].sort(),
+    onlyRoles: keepOnlyRoles ? [...roles].sort() : [],
+    affectedVms: allHosts ? totalVms : vmHosts.length,
+    totalVms,
+    reasons,
+    warnings,
+    deployArgs: {}
+  };
+
+  if (needed) {
+    if (options.user) plan.deployArgs.user = options.user;
+    if (options.targetRangeId) plan.deployArgs.rangeId = options.targetRangeId;
+    if (plan.tags.length > 0) plan.deployArgs.tags = plan.tags.join(',');
+    // Ludus needs localhost in the limit, or none of its plays run
+    if (plan.hosts.length > 0) plan.deployArgs.limit = ['localhost', ...plan.hosts].join(',');
+    if (plan.onlyRoles.length > 0) plan.deployArgs.onlyRoles = plan.onlyRoles.join(',');
+    plan.command = `deploy_range(${JSON.stringify(plan.deployArgs)})`;
+  }
+
+  return plan;
+}
+
+export async function handlePlanRedeploy(
+  args: PlanRedeployArgs,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper
+): Promise<any> {
+  const { from = 'active', to, user, rangeId: targetRangeId } = args;
+
+  try {
+    if (!to) {
+      throw new Error('"to" is required');
+    }
+
+    logger.info('Planning targeted redeploy', { from, to, user, rangeId: targetRangeId });
+
+    const before = await loadRangeConfigReference(from, logger, cliWrapper, user, targetRangeId);
+    const after = await loadRangeConfigReference(to, logger, cliWrapper, user, targetRangeId);
+    const diff = diffRangeConfigs(before, after);
+
+    let availableTags: string[] | undefined;
+    let rangeId = targetRangeId;
+    if (cliWrapper) {
+      const tagsResult = await cliWrapper.getTags(user, targetRangeId);
+      if (tagsResult.success) {
+        availableTags = parseTagList(tagsResult.data, tagsResult.rawOutput);
+      } else {
+        logger.warn('Could not get deployment tags, using the tag mapping unverified', { user, error: tagsResult.message });
+      }
+      if (!rangeId) {
+        const statusResult = await cliWrapper.getRangeStatus(user, targetRangeId);
+        const range = statusResult.success ? parseRangeStatus(statusResult.data) : null;
+        // Ludus versions with one range per user report no range ID; there the range ID is the user ID
+        rangeId = range ? range.rangeId || range.userId : undefined;
+      }
+    }
+
+    const options: PlanRedeployOptions = {};
+    if (availableTags) options.availableTags = availableTags;
+    if (rangeId) options.rangeId = rangeId;
+    if (user) options.user = user;
+    if (targetRangeId) options.targetRangeId = targetRangeId;
+    const plan = planRedeploy(diff, before, after, options);
+
+    if (!availableTags) {
+      plan.warnings.push('Tags were not checked against get_tags');
+    }
+    if (!options.rangeId && plan.hosts.some(host => host.includes('*'))) {
+      plan.warnings.push('Range ID unknown: {{ range_id }} in VM names was replaced with a * wildcard in the limit');
+    }
+
+    const nextSteps: string[] = [];
+    if (plan.needed) {
+      if (from === 'active' && to !== 'active') {
+        nextSteps.push(`Apply the new config: set_range_config({ file: "${to.startsWith('base:') ? `base-configs/${to.slice('base:'.length)}` : to}"${diff.removedVms.length > 0 ? ', confirmDestructiveAction: true' : ''} })`);
+      }
+      nextSteps.push(`Confirm with the user, then deploy: ${plan.command}`);
+      nextSteps.push('Monitor with watch_deployment (poll about once a minute)');
+    }
+
+    const scope = plan.fullDeploy
+      ? 'full redeploy of the range'
+      : `${plan.affectedVms} of ${plan.totalVms} VM(s)` +
+        (plan.tags.length > 0 ? `, tags ${plan.tags.join(',')}` : ', all tags') +
+        (plan.onlyRoles.length > 0 ? `, roles ${plan.onlyRoles.join(',')}` : '');
+
+    return {
+      success: true,
+      from,
+      to,
+      plan,
+      diffSummary: {
+        addedVms: diff.addedVms.length,
+        removedVms: diff.removedVms.length,
+        changedVms: diff.changedVms.length,
+        unchangedVms: diff.unchangedVms.length
+      },
+      message: !diff.hasChanges
+        ? `${from} and ${to} are structurally identical: no redeploy needed`
+        : plan.needed
+          ? `Targeted redeploy (${from} -> ${to}): ${scope}`
+          : `${from} -> ${to}: nothing to redeploy`,
+      nextSteps
+    };
+  } catch (error: any) {
+    logger.error('Failed to plan redeploy', { from, to, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      troubleshooting: [
+        'Use "active", "base:<file>" or a relative path under ~/.ludus-mcp/range-config-templates/',
+        'Plan before set_range_config so "active" is still the deployed config',
+        'Verify both configs are valid YAML with validate_range_config'
+      ]
+    };
+  }
+}
@@ -0,0 +1,393 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'js-yaml';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { loadAllYamlSchemas } from './ludusReadRoleCollectionSchema.js';
+import { parseInstalledAnsible } from './ansible.js';
+import { readConfigContent } from './rangeConfig.js';
+
+const SCHEMAS_DIR = path.join(os.homedir(), '.ludus-mcp', 'schemas');
+
+export interface ResolveRoleDependenciesArgs {
+  source?: string;
+  content?: string;
+  user?: string;
+  checkInstalled?: boolean;
+}
+
+export interface VmRoleResolution {
+  vm_name: string;
+  roles: string[];              // roles listed on the VM, in order
+  resolved: string[];           // roles plus their transitive dependencies, dependencies first
+}
+
+export interface RoleOrderingProblem {
+  vm_name: string;
+  role: string;
+  mustRunAfter: string;
+  message: string;
+}
+
+export interface MissingRoleInstall {
+  role: string;
+  requiredBy: string[];
+  installation_method?: string;
+}
+
+export interface RoleDependencyReport {
+  vms: VmRoleResolution[];
+  allRoles: string[];                 // every role the range needs, including dependencies
+  unknownRoles: string[];             // configured roles with no local schema
+  missingInstalls: MissingRoleInstall[];
+  orderingProblems: RoleOrderingProblem[];
+  cycles: string[][];
+  installCheck: 'checked' | 'skipped' | 'unavailable';
+  warnings: string[];
+}
+
+interface RoleEntry {
+  name: string;
+  dependsOn: Array<{ vm_name?: string; role?: string }>;
+}
+
+interface RoleSchemaInfo {
+  dependencies: string[];
+  runAfter: string[];
+  installation_method?: string;
+}
+
+export function createResolveRoleDependenciesTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'resolve_role_dependencies',
+    description: 'Resolve the Ansible role dependencies of a range configuration using the local role schemas (~/.ludus-mcp/schemas). Computes the transitive dependency set per VM, reports roles/dependencies not installed on the Ludus server (with their installation_method), and flags ordering problems such as ludus_child_domain_join running before ludus_child_domain.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description: 'Relative path to a range config under ~/.ludus-mcp/range-config-templates/ (e.g., "base-configs/acme.yml") or a URL'
+        },
+        content: {
+          type: 'string',
+          description: 'Inline YAML range configuration (alternative to source)'
+        },
+        user: {
+          type: 'string',
+          description: 'User whose installed roles are checked (admin only). If omitted, uses current user.'
+        },
+        checkInstalled: {
+          type: 'boolean',
+          description: 'Check roles against those installed on the Ludus server (default: true)',
+          default: true
+        }
+      },
+      required: []
+    }
+  };
+}
+
+/**
+ * Normalize a VM's roles: list. Entries are either role names or { name, depends_on } objects.
+ */
+function getVmRoleEntries(vm: any): RoleEntry[] {
+  if (!Array.isArray(vm?.roles)) {
+    return [];
+  }
+
+  return vm.roles
+    .map((role: any): RoleEntry | null => {
+      if (typeof role === 'string') {
+        return { name: role, dependsOn: [] };
+      }
+      if (role && typeof role.name === 'string') {
+        return { name: role.name, dependsOn: Array.isArray(role.depends_on) ? role.depends_on : [] };
+      }
+      return null;
+    })
+    .filter((entry: RoleEntry | null): entry is RoleEntry => entry !== null);
+}
+
+function toStringList(value: any): string[] {
+  return Array.isArray(value) ? value.filter((item: any): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Look up a role in the aggregated schema. Collection roles (namespace.collection.role)
+ * inherit the collection's dependencies and installation method.
+ */
+function lookupRoleSchema(roleName: string, schema: any): RoleSchemaInfo | null {
+  const roles = schema?.ludus_roles_schema?.roles || {};
+  const collections = schema?.ludus_roles_schema?.collections || {};
+
+  const role = roles[roleName];
+  if (role) {
+    const info: RoleSchemaInfo = { dependencies: toStringList(role.dependencies), runAfter: toStringList(role.run_after) };
+    if (role.installation_method) info.installation_method = role.installation_method;
+    return info;
+  }
+
+  const parts = roleName.split('.');
+  if (parts.length >= 3) {
+    const collection = collections[`${parts[0]}.${parts[1]}`];
+    if (collection) {
+      const subRole = collection.roles?.[parts.slice(2).join('.')] || {};
+      const info: RoleSchemaInfo = {
+        dependencies: [...toStringList(collection.dependencies), ...toStringList(subRole.dependencies)],
+        runAfter: toStringList(subRole.run_after)
+      };
+      if (collection.installation_method) info.installation_method = collection.installation_method;
+      return info;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve role dependencies for a parsed range config.
+ * installed is the output of parseInstalledAnsible(); pass undefined to skip the install check.
+ */
+export function resolveRoleDependencies(
+  config: any,
+  schema: any,
+  installed?: Array<{ name: string; type: 'role' | 'collection' }>
+): RoleDependencyReport {
+  const vms: any[] = config && Array.isArray(config.ludus) ? config.ludus : [];
+  const report: RoleDependencyReport = {
+    vms: [],
+    allRoles: [],
+    unknownRoles: [],
+    missingInstalls: [],
+    orderingProblems: [],
+    cycles: [],
+    installCheck: installed ? 'checked' : 'skipped',
+    warnings: []
+  };
+
+  const schemaCache = new Map<string, RoleSchemaInfo | null>();
+  const getSchema = (roleName: string): RoleSchemaInfo | null => {
+    if (!schemaCache.has(roleName)) {
+      schemaCache.set(roleName, lookupRoleSchema(roleName, schema));
+    }
+    return schemaCache.get(roleName)!;
+  };
+
+  const allRoles = new Set<string>();
+  const requiredBy = new Map<string, Set<string>>();
+  const seenCycles = new Set<string>();
+
+  // Depth-first walk so dependencies land before the roles that need them
+  const visit = (roleName: string, stack: string[], out: string[]): void => {
+    if (stack.includes(roleName)) {
+      const cycle = [...stack.slice(stack.indexOf(roleName)), roleName];
+      const key = cycle.join(' -> ');
+      if (!seenCycles.has(key)) {
+        seenCycles.add(key);
+        report.cycles.push(cycle);
+      }
+      return;
+    }
+    if (out.includes(roleName)) {
+      return;
+    }
+    for (const dependency of getSchema(roleName)?.dependencies || []) {
+      if (!requiredBy.has(dependency)) requiredBy.set(dependency, new Set());
+      requiredBy.get(dependency)!.add(roleName);
+      visit(dependency, [...stack, roleName], out);
+    }
+    out.push(roleName);
+  };
+
+  // Position of each role in the range: first VM index that runs it
+  const roleVmIndex = new Map<string, { index: number; vm_name: string }>();
+  vms.forEach((vm, index) => {
+    for (const entry of getVmRoleEntries(vm)) {
+      if (!roleVmIndex.has(entry.name)) {
+        roleVmIndex.set(entry.name, { index, vm_name: vm.vm_name || vm.hostname || `vm[${index}]` });
+      }
+    }
+  });
+
+  vms.forEach((vm, index) => {
+    const vmName = vm.vm_name || vm.hostname || `vm[${index}]`;
+    const entries = getVmRoleEntries(vm);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const resolved: string[] = [];
+    for (const entry of entries) {
+      if (!requiredBy.has(entry.name)) requiredBy.set(entry.name, new Set());
+      requiredBy.get(entry.name)!.add(vmName);
+      visit(entry.name, [], resolved);
+    }
+    resolved.forEach(role => allRoles.add(role));
+    report.vms.push({ vm_name: vmName, roles: entries.map(entry => entry.name), resolved });
+
+    const listed = entries.map(entry => entry.name);
+    entries.forEach((entry, position) => {
+      const roleSchema = getSchema(entry.name);
+      if (!roleSchema) {
+        return;
+      }
+
+      // Same-VM ordering: roles run in list order, so a listed dependency must come first
+      for (const dependency of roleSchema.dependencies) {
+        const dependencyPosition = listed.indexOf(dependency);
+        if (dependencyPosition > position) {
+          report.orderingProblems.push({
+            vm_name: vmName,
+            role: entry.name,
+            mustRunAfter: dependency,
+            message: `${vmName}: ${entry.name} is listed before its dependency ${dependency}; move ${dependency} above it`
+          });
+        }
+      }
+
+      // Cross-VM ordering declared with run_after in the role schema
+      if (roleSchema.runAfter.length === 0) {
+        return;
+      }
+      const presentPrerequisites = roleSchema.runAfter.filter(prerequisite => roleVmIndex.has(prerequisite));
+      if (presentPrerequisites.length === 0) {
+        report.warnings.push(`${vmName}: ${entry.name} expects one of [${roleSchema.runAfter.join(', ')}] to run first, but none are in this range (fine only if that infrastructure already exists)`);
+        return;
+      }
+      for (const prerequisite of presentPrerequisites) {
+        const prerequisiteVm = roleVmIndex.get(prerequisite)!;
+        const listedEarlierOnSameVm = prerequisiteVm.index === index && listed.indexOf(prerequisite) < position;
+        const declared = entry.dependsOn.some(dep => dep.role === prerequisite && (!dep.vm_name || dep.vm_name === prerequisiteVm.vm_name));
+        if (prerequisiteVm.index < index || listedEarlierOnSameVm || declared) {
+          continue;
+        }
+        report.orderingProblems.push({
+          vm_name: vmName,
+          role: entry.name,
+          mustRunAfter: prerequisite,
+          message: prerequisiteVm.index === index
+            ? `${vmName}: ${entry.name} is listed before ${prerequisite}; move ${prerequisite} above it`
+            : `${vmName}: ${entry.name} must run after ${prerequisite} on ${prerequisiteVm.vm_name}, but that VM is defined later. Move it earlier or add depends_on: [{ vm_name: "${prerequisiteVm.vm_name}", role: "${prerequisite}" }]`
+        });
+      }
+    });
+  });
+
+  report.allRoles = [...allRoles];
+  report.unknownRoles = [...new Set(report.vms.flatMap(vm => vm.roles))].filter(role => !getSchema(role));
+
+  if (installed) {
+    const roleNames = new Set(installed.filter(item => item.type === 'role').map(item => item.name));
+    const collectionNames = new Set(installed.filter(item => item.type === 'collection').map(item => item.name));
+
+    for (const role of report.allRoles) {
+      const parts = role.split('.');
+      const isInstalled = roleNames.has(role) || (parts.length >= 3 && collectionNames.has(`${parts[0]}.${parts[1]}`));
+      if (isInstalled) {
+        continue;
+      }
+      const missing: MissingRoleInstall = { role, requiredBy: [...(requiredBy.get(role) || [])] };
+      const installationMethod = getSchema(role)?.installation_method;
+      if (installationMethod) missing.installation_method = installationMethod;
+      report.missingInstalls.push(missing);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Load the aggregated local role schemas, or an empty schema when none are available
+ */
+export async function loadRoleSchemas(logger: Logger): Promise<any> {
+  try {
+    return await loadAllYamlSchemas(SCHEMAS_DIR);
+  } catch (error: any) {
+    logger.warn('Local role schemas unavailable', { error: error.message });
+    return {};
+  }
+}
+
+/**
+ * Load the local role schemas and resolve dependencies for a parsed config,
+ * checking installed roles on the server when a CLI wrapper is supplied.
+ */
+export async function analyzeRoleDependencies(
+  config: any,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper,
+  user?: string,
+  schema?: any
+): Promise<RoleDependencyReport> {
+  const roleSchemas = schema ?? await loadRoleSchemas(logger);
+
+  let installed: ReturnType<typeof parseInstalledAnsible> | undefined;
+  let installCheckUnavailable = false;
+  if (cliWrapper) {
+    const result = await cliWrapper.listAnsibleRoles(user);
+    if (result.success) {
+      installed = parseInstalledAnsible(result.data);
+    } else {
+      installCheckUnavailable = true;
+      logger.warn('Could not list installed roles for dependency resolution', { message: result.message });
+    }
+  }
+
+  const report = resolveRoleDependencies(config, roleSchemas, installed);
+  if (installCheckUnavailable) {
+    report.installCheck = 'unavailable';
+  }
+  return report;
+}
+
+export async function handleResolveRoleDependencies(
+  args: ResolveRoleDependenciesArgs,
+  logger: Logger,
+  cliWrapper?: LudusCliWrapper
+): Promise<any> {
+  const { source, content, user, checkInstalled = true } = args;
+
+  try {
+    let configContent: string;
+    if (content) {
+      configContent = content;
+    } else if (source) {
+      configContent = await readConfigContent(source, logger);
+    } else {
+      throw new Error('Either source or content must be provided');
+    }
+
+    const config = yaml.load(configContent);
+    logger.info('Resolving role dependencies', { source: source || 'inline content', checkInstalled });
+
+    const report = await analyzeRoleDependencies(config, logger, checkInstalled ? cliWrapper : undefined, user);
+    const problems = report.orderingProblems.length + report.missingInstalls.length + report.cycles.length;
+
+    return {
+      success: true,
+      source: source || 'inline content',
+      report,
+      message: problems === 0
+        ? `Resolved ${report.allRoles.length} role(s) with no dependency problems`
+        : `Found ${problems} role dependency problem(s) across ${report.allRoles.length} role(s)`,
+      nextSteps: [
+        ...(report.missingInstalls.length > 0 ? ['Install missing roles with ansible_role_add / ansible_collection_add using the installation_method shown'] : []),
+        ...(report.orderingProblems.length > 0 ? ['Reorder VMs/roles or add depends_on entries, then re-run validate_range_config'] : []),
+        ...(report.unknownRoles.length > 0 ? ['Roles without a local schema cannot be checked; use ludus_roles_search to research them'] : [])
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to resolve role dependencies', { source, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      troubleshooting: [
+        'Provide either source (relative path or URL) or inline content',
+        'Verify YAML syntax with validate_range_config',
+        'Ensure schemas have been downloaded to ~/.ludus-mcp/schemas/'
+      ]
+    };
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Validate VM role_vars against the variable definitions in the local role schemas
+ * (~/.ludus-mcp/schemas/*.yaml). Each schema lists variables with type, default,
+ * description and optionally required / valid_options.
+ */
+
+export interface RoleVarIssue {
+  vm_name: string;
+  variable: string;
+  severity: 'error' | 'warning';
+  kind: 'unknown_variable' | 'type_mismatch' | 'invalid_option' | 'missing_required';
+  message: string;
+  suggestions?: string[];
+}
+
+export interface RoleVarsReport {
+  issues: RoleVarIssue[];
+  checkedVms: number;
+  skippedVms: string[];   // VMs with role_vars but at least one role lacking a schema
+}
+
+interface VariableDefinition {
+  role: string;
+  type?: string;
+  default?: any;
+  required?: boolean;
+  validOptions?: any[];
+}
+
+/**
+ * Collect variable definitions for a role. Collection roles (namespace.collection.role)
+ * read variables from the collection's roles.<role>.variables block.
+ */
+function getRoleVariables(roleName: string, schema: any): Record<string, any> | null {
+  const roles = schema?.ludus_roles_schema?.roles || {};
+  const collections = schema?.ludus_roles_schema?.collections || {};
+
+  if (roles[roleName]) {
+    return roles[roleName].variables || {};
+  }
+
+  const parts = roleName.split('.');
+  if (parts.length >= 3) {
+    const collection = collections[`${parts[0]}.${parts[1]}`];
+    if (collection) {
+      return collection.roles?.[parts.slice(2).join('.')]?.variables || {};
+    }
+  }
+
+  return null;
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!;
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]!;
+      previous[j] = Math.min(
+        above + 1,
+        previous[j - 1]! + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Suggest known variable names close to an unknown one
+ */
+function suggestVariables(name: string, known: string[]): string[] {
+  const lower = name.toLowerCase();
+  const threshold = Math.max(2, Math.floor(name.length / 4));
+
+  return known
+    .map(candidate => ({ candidate, distance: levenshtein(lower, candidate.toLowerCase()) }))
+    .filter(({ candidate, distance }) => distance <= threshold || candidate.toLowerCase().includes(lower) || lower.includes(candidate.toLowerCase()))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Values that Ansible resolves at deploy time cannot be type checked here
+ */
+function isTemplated(value: any): boolean {
+  return typeof value === 'string' && value.includes('{{');
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type.toLowerCase()) {
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+    case 'bool':
+      return typeof value === 'boolean';
+    case 'integer':
+    case 'int':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+    case 'float':
+      return typeof value === 'number';
+    case 'array':
+    case 'list':
+      return Array.isArray(value);
+    case 'object':
+    case 'dict':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function describeValueType(value: any): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function hasDefault(definition: VariableDefinition): boolean {
+  return definition.default !== undefined && definition.default !== null && definition.default !== '';
+}
+
+/**
+ * Validate role_vars on every VM of a parsed range config against the role schemas
+ */
+export function validateRoleVars(config: any, schema: any): RoleVarsReport {
+  const vms: any[] = config && Array.isArray(config.ludus) ? config.ludus : [];
+  const report: RoleVarsReport = { issues: [], checkedVms: 0, skippedVms: [] };
+
+  vms.forEach((vm, index) => {
+    const vmName = vm?.vm_name || vm?.hostname || `vm[${index}]`;
+    const roleNames: string[] = (Array.isArray(vm?.roles) ? vm.roles : [])
+      .map((role: any) => (typeof role === 'string' ? role : role?.name))
+      .filter((name: any): name is string => typeof name === 'string');
+    const roleVars: Record<string, any> = vm?.role_vars && typeof vm.role_vars === 'object' ? vm.role_vars : {};
+
+    if (roleNames.length === 0) {
+      return;
+    }
+
+    // role_vars is a flat map shared by all roles on the VM
+    const definitions = new Map<string, VariableDefinition>();
+    let allRolesKnown = true;
+    for (const roleName of roleNames) {
+      const variables = getRoleVariables(roleName, schema);
+      if (!variables) {
+        allRolesKnown = false;
+        continue;
+      }
+      for (const [variable, spec] of Object.entries<any>(variables)) {
+        if (definitions.has(variable)) {
+          continue;
+        }
+        const definition: VariableDefinition = { role: roleName, required: spec?.required === true };
+        if (spec?.type !== undefined) definition.type = String(spec.type);
+        if (spec?.default !== undefined) definition.default = spec.default;
+        const options = spec?.valid_options ?? spec?.enum;
+        if (Array.isArray(options)) definition.validOptions = options;
+        definitions.set(variable, definition);
+      }
+    }
+
+    report.checkedVms++;
+    const known = [...definitions.keys()];
+
+    for (const [variable, value] of Object.entries(roleVars)) {
+      const definition = definitions.get(variable);
+
+      if (!definition) {
+        // Only flag unknown names when every role on the VM has a schema to compare against
+        if (!allRolesKnown) {
+          continue;
+        }
+        const suggestions = suggestVariables(variable, known);
+        const issue: RoleVarIssue = {
+          vm_name: vmName,
+          variable,
+          severity: 'warning',
+          kind: 'unknown_variable',
+          message: `${vmName}: role_vars.${variable} is not defined by ${roleNames.join(', ')}` +
+                   (suggestions.length > 0 ? ` - did you mean ${suggestions.join(' or ')}?` : '')
+        };
+        if (suggestions.length > 0) issue.suggestions = suggestions;
+        report.issues.push(issue);
+        continue;
+      }
+
+      if (isTemplated(value)) {
+        continue;
+      }
+
+      // Skip the type check when the schema's own default contradicts its declared type
+      const typeReliable = !!definition.type && (!hasDefault(definition) || matchesType(definition.default, definition.type));
+      if (typeReliable && !matchesType(value, definition.type!)) {
+        report.issues.push({
+          vm_name: vmName,
+          variable,
+          severity: 'error',
+          kind: 'type_mismatch',
+          message: `${vmName}: role_vars.${variable} should be ${definition.type} (${definition.role}) but is ${describeValueType(value)}`
+        });
+        continue;
+      }
+
+      const values = Array.isArray(value) ? value : [value];
+      if (definition.validOptions && !values.every(item => definition.validOptions!.some(option => option === item))) {
+        report.issues.push({
+          vm_name: vmName,
+          variable,
+          severity: 'warning',
+          kind: 'invalid_option',
+          message: `${vmName}: role_vars.${variable} = ${JSON.stringify(value)} is not one of [${definition.validOptions.map(option => JSON.stringify(option)).join(', ')}] (${definition.role})`
+        });
+      }
+    }
+
+    for (const [variable, definition] of definitions) {
+      if (definition.required && !hasDefault(definition) && !(variable in roleVars)) {
+        report.issues.push({
+          vm_name: vmName,
+          variable,
+          severity: 'error',
+          kind: 'missing_required',
+          message: `${vmName}: ${definition.role} requires role_vars.${variable} (no default)`
+        });
+      }
+    }
+
+    if (!allRolesKnown && Object.keys(roleVars).length > 0) {
+      report.skippedVms.push(vmName);
+    }
+  });
+
+  return report;
+}
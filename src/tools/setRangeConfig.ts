@@ -1,6 +1,10 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { checkConfigRolesInstalled } from './ansible.js';
+import { RangeConfigDiff, diffRangeConfigs, formatRangeConfigDiff, loadRangeConfigReference } from './rangeConfigDiff.js';
+import { errorKindOf } from '../ludusMCP/commandErrors.js';
+import * as yaml from 'js-yaml';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -30,6 +34,9 @@ IMPORTANT LLM BEHAVIORAL PROMPTS:
 - Configuration changes overwrite existing settings - warn users about data loss
 - Force flag should only be used when explicitly requested by the user
 - REDACT credentials when showing config content to users
+- If the new config removes VMs from the active config, the tool returns the diff and requires confirmDestructiveAction: true
+- If the active config cannot be loaded or diffed (other than no config set yet), it also requires confirmDestructiveAction: true
+- Use showDiff (or diff_range_config) to show the user what changes before applying
 
 CRITICAL WORKFLOW REMINDER:
 - This step SETS the active configuration - it's required before deployment
@@ -47,6 +54,10 @@ CRITICAL WORKFLOW REMINDER:
           type: 'string',
           description: 'User ID to set the configuration for (admin only)',
         },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.',
+        },
         force: {
           type: 'boolean',
           description: 'Force the configuration update even with testing enabled',
@@ -57,6 +68,16 @@ CRITICAL WORKFLOW REMINDER:
           description: 'Enable verbose output',
           default: false,
         },
+        showDiff: {
+          type: 'boolean',
+          description: 'Include a per-VM diff against the currently active configuration in the output',
+          default: false,
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required when the new configuration removes VMs that are in the active configuration, or when the active configuration cannot be loaded or diffed (not needed when no configuration is set yet)',
+          default: false,
+        },
       },
       required: ['file'],
     },
@@ -66,8 +87,11 @@ CRITICAL WORKFLOW REMINDER:
 export interface SetRangeConfigArgs {
   file: string;
   user?: string;
+  rangeId?: string;
   force?: boolean;
   verbose?: boolean;
+  showDiff?: boolean;
+  confirmDestructiveAction?: boolean;
 }
 
 export async function handleSetRangeConfig(
@@ -75,9 +99,9 @@ export async function handleSetRangeConfig(
   logger: Logger,
   cliWrapper: LudusCliWrapper
 ): Promise<any> {
-  const { file, user, force = false, verbose = false } = args;
+  const { file, user, rangeId, force = false, verbose = false, showDiff = false, confirmDestructiveAction = false } = args;
 
-  logger.info('Setting range configuration', { file, user, force, verbose });
+  logger.info('Setting range configuration', { file, user, rangeId, force, verbose, showDiff });
 
   try {
     // Resolve the file path
@@ -121,6 +145,73 @@ export async function handleSetRangeConfig(
       };
     }
 
+    // Compare against the active config so VM removals are never applied silently
+    let diff: RangeConfigDiff | null = null;
+    let diffError: string | undefined;
+    try {
+      const newConfig = yaml.load(fs.readFileSync(resolvedFilePath, 'utf-8')) || {};
+      let activeConfig: any;
+      try {
+        activeConfig = await loadRangeConfigReference('active', logger, cliWrapper, user, rangeId);
+      } catch (error: any) {
+        // No config set yet (e.g. a new user): there are no VMs to remove
+        if (errorKindOf(error) !== 'not_found') {
+          throw error;
+        }
+        logger.info('No active range config yet, diffing against an empty range', { file, user, rangeId });
+        activeConfig = {};
+      }
+      diff = diffRangeConfigs(activeConfig, newConfig);
+    } catch (error: any) {
+      diffError = error.message;
+      logger.warn('Could not diff against the active range config', { file, error: diffError });
+    }
+
+    // Without a diff, VM removals cannot be ruled out: the gate stays closed until confirmed
+    if (!diff && !confirmDestructiveAction) {
+      return {
+        confirmationRequired: true,
+        content: [
+          {
+            type: 'text',
+            text: `Could not compare ${file} with the active range configuration for ${user || 'current user'}
+
+` +
+                  `Diff error: ${diffError}
+
+` +
+                  `Reason: without the diff it is unknown whether the new configuration removes VMs from the range
+
+` +
+                  `To proceed:
+` +
+                  `- Check the active config with get_range_config, or compare with diff_range_config
+` +
+                  `- Confirm with the user, then call set_range_config again with confirmDestructiveAction: true
+` +
+                  `- Example: set_range_config({ file: "${file}", confirmDestructiveAction: true })`
+          }
+        ]
+      };
+    }
+
+    if (diff && diff.removedVms.length > 0 && !confirmDestructiveAction) {
+      return {
+        confirmationRequired: true,
+        content: [
+          {
+            type: 'text',
+            text: `Setting ${file} would remove ${diff.removedVms.length} VM(s) from the active range configuration for ${user || 'current user'}\n\n` +
+                  `${formatRangeConfigDiff(diff)}\n\n` +
+                  `Reason: VMs missing from the new configuration are no longer managed by the range\n\n` +
+                  `To proceed:\n` +
+                  `- Confirm with the user, then call set_range_config again with confirmDestructiveAction: true\n` +
+                  `- Example: set_range_config({ file: "${file}", confirmDestructiveAction: true })`
+          }
+        ]
+      };
+    }
+
     // Build the command arguments
     const cmdArgs: string[] = ['config', 'set'];
     
@@ -139,6 +230,7 @@ export async function handleSetRangeConfig(
     if (user) {
       cmdArgs.push('--user', user);
     }
+    cmdArgs.push(...cliWrapper.rangeArgs(rangeId, user));
 
     // Execute the command
     const result = await cliWrapper.executeCommand('range', cmdArgs);
@@ -146,6 +238,21 @@ export async function handleSetRangeConfig(
     const targetUser = user || 'current user';
     
     if (result.success) {
+      // Warn (but don't fail) when the config references roles that aren't installed on the server
+      let roleWarning = '';
+      try {
+        const roleCheck = await checkConfigRolesInstalled(fs.readFileSync(resolvedFilePath, 'utf-8'), cliWrapper, logger, user);
+        if (roleCheck.notInstalled.length > 0) {
+          roleWarning = `WARNING: roles referenced in this config are not installed on the server:\n` +
+                        roleCheck.notInstalled.map(role => `- ${role}`).join('\n') + `\n` +
+                        `Install them with ansible_role_add (or ansible_collection_add) before deploy_range.\n\n`;
+        } else if (!roleCheck.checked && roleCheck.message) {
+          roleWarning = `Note: ${roleCheck.message}\n\n`;
+        }
+      } catch (roleError: any) {
+        logger.warn('Role installation check failed', { file, error: roleError.message });
+      }
+
       return {
         content: [
           {
@@ -155,6 +262,9 @@ export async function handleSetRangeConfig(
                   `${force ? ' Force mode was enabled\n' : ''}` +
                   `Output:\n` +
                   `\`\`\`\n${result.rawOutput || result.message}\n\`\`\`\n\n` +
+                  (showDiff && diff ? `Changes from previous configuration:\n${formatRangeConfigDiff(diff)}\n\n` : '') +
+                  (showDiff && !diff ? `Note: could not diff against the previous configuration\n\n` : '') +
+                  roleWarning +
                   `Next steps:\n` +
                   `- Use get_range_status to check current range state\n` +
                   `- Use deploy_range to deploy this configuration\n` +
@@ -0,0 +1,491 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, errorKindResponse, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+
+export interface SnapshotListArgs {
+  user?: string;
+  rangeId?: string;
+  help?: boolean;
+}
+
+export interface SnapshotCreateArgs {
+  name: string;
+  user?: string;
+  rangeId?: string;
+  vmIds?: string;
+  description?: string;
+  includeRAM?: boolean;
+  help?: boolean;
+}
+
+export interface SnapshotRevertArgs {
+  name: string;
+  user?: string;
+  rangeId?: string;
+  vmIds?: string;
+  confirmDestructiveAction?: boolean;
+  help?: boolean;
+}
+
+export interface SnapshotRemoveArgs {
+  name: string;
+  user?: string;
+  rangeId?: string;
+  vmIds?: string;
+  confirmDestructiveAction?: boolean;
+  help?: boolean;
+}
+
+export function createSnapshotListTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'snapshot_list',
+    description: 'List snapshots for the VMs in a Ludus range. Shows snapshot names, descriptions, parent snapshots and which VMs each snapshot exists on.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID to list snapshots for (admin only). If omitted, lists snapshots for current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus snapshot list command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createSnapshotCreateTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'snapshot_create',
+    description: 'Create a named snapshot of all VMs or selected VMs in a Ludus range. Use before exercises so the range can be reset with snapshot_revert.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the snapshot to create (e.g., "clean-baseline")'
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to create the snapshot for (admin only). If omitted, snapshots the current user\'s range.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        vmIds: {
+          type: 'string',
+          description: 'Comma-separated Proxmox VM IDs to snapshot (e.g., "104,105"). If omitted, snapshots all VMs in the range. Use get_range_status to find VM IDs.'
+        },
+        description: {
+          type: 'string',
+          description: 'Optional description stored with the snapshot'
+        },
+        includeRAM: {
+          type: 'boolean',
+          description: 'Include VM RAM state in the snapshot. Defaults to true; set false for faster, smaller snapshots.',
+          default: true
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus snapshot create command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+export function createSnapshotRevertTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'snapshot_revert',
+    description: 'Revert all VMs or selected VMs in a Ludus range to a named snapshot. Revert operations require confirmation as all changes made since the snapshot are lost.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the snapshot to revert to'
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to revert the snapshot for (admin only). If omitted, reverts the current user\'s range.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        vmIds: {
+          type: 'string',
+          description: 'Comma-separated Proxmox VM IDs to revert (e.g., "104,105"). If omitted, reverts all VMs in the range.'
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required confirmation for revert operations. Must be true to revert VMs.',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus snapshot revert command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+export function createSnapshotRemoveTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'snapshot_remove',
+    description: 'Remove a named snapshot from all VMs or selected VMs in a Ludus range. Remove operations require confirmation as deleted snapshots cannot be recovered.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the snapshot to remove'
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to remove the snapshot for (admin only). If omitted, removes from the current user\'s range.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        vmIds: {
+          type: 'string',
+          description: 'Comma-separated Proxmox VM IDs to remove the snapshot from (e.g., "104,105"). If omitted, removes from all VMs in the range.'
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required confirmation for remove operations. Must be true to remove snapshots.',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus snapshot rm command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+/**
+ * Run `ludus snapshot <subcommand> --help` and return it in the standard help shape
+ */
+async function getSnapshotHelp(subcommand: string, logger: Logger, cliWrapper: LudusCliWrapper): Promise<any> {
+  logger.info('Getting help for ludus snapshot command', { subcommand });
+  const result = await cliWrapper.executeArbitraryCommand('snapshot', [subcommand, '--help']);
+
+  if (result.success) {
+    return {
+      success: true,
+      message: `Help information for ludus snapshot ${subcommand} command`,
+      help: true,
+      content: result.rawOutput || result.message
+    };
+  } else {
+    throw new Error(`Failed to get help: ${result.message}`);
+  }
+}
+
+export async function handleSnapshotList(
+  args: SnapshotListArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, rangeId, help = false } = args;
+
+  if (help) {
+    return getSnapshotHelp('list', logger, cliWrapper);
+  }
+
+  try {
+    logger.info('Listing snapshots', { user, rangeId });
+
+    const result = await cliWrapper.listSnapshots(user, rangeId);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const targetUser = user || 'current user';
+    const snapshots = Array.isArray(result.data) ? result.data : [];
+
+    return {
+      success: true,
+      message: Array.isArray(result.data)
+        ? `Found ${snapshots.length} snapshot(s) for ${targetUser}`
+        : `Snapshot information retrieved for ${targetUser}`,
+      user: targetUser,
+      snapshots: result.data,
+      rawOutput: result.rawOutput
+    };
+  } catch (error: any) {
+    logger.error('Failed to list snapshots', { user, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { ...(user ? { user } : {}), what: `Range of ${user || 'current user'}`, listWith: 'list_ranges()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the user has a deployed range',
+        'Check if you have admin permissions (if querying other users)',
+        'Try get_range_status() to check current range state'
+      ])
+    };
+  }
+}
+
+export async function handleSnapshotCreate(
+  args: SnapshotCreateArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, user, rangeId, vmIds, description, includeRAM = true, help = false } = args;
+
+  if (help) {
+    return getSnapshotHelp('create', logger, cliWrapper);
+  }
+
+  try {
+    if (!name) {
+      throw new Error('Snapshot name is required');
+    }
+
+    logger.info('Creating snapshot', { name, user, rangeId, vmIds, includeRAM });
+
+    const options: { user?: string; rangeId?: string; vmIds?: string; description?: string; includeRAM?: boolean } = { includeRAM };
+    if (user !== undefined) options.user = user;
+    if (rangeId !== undefined) options.rangeId = rangeId;
+    if (vmIds !== undefined) options.vmIds = vmIds;
+    if (description !== undefined) options.description = description;
+
+    const result = await cliWrapper.createSnapshot(name, options);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const targetUser = user || 'current user';
+    const vmTarget = vmIds ? `VM(s) ${vmIds}` : 'all VMs';
+
+    return {
+      success: true,
+      message: `Snapshot "${name}" created for ${vmTarget} in range of ${targetUser}`,
+      name,
+      user: targetUser,
+      vmIds: vmIds || 'all',
+      includeRAM,
+      data: result.data,
+      nextSteps: [
+        'Use snapshot_list() to confirm the snapshot exists on every VM',
+        `Use snapshot_revert({ name: "${name}", confirmDestructiveAction: true }) to reset the range later`
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to create snapshot', { name, user, vmIds, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { ...(user ? { user } : {}), what: `Range of ${user || 'current user'}${vmIds ? ` or VM(s) ${vmIds}` : ''}`, listWith: 'list_ranges() and get_range_status()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      name,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the user has a deployed range',
+        'Check that a snapshot with the same name does not already exist (snapshot_list)',
+        'Check that the VM IDs belong to the range (get_range_status)',
+        'Check if you have admin permissions (if managing other users)'
+      ])
+    };
+  }
+}
+
+export async function handleSnapshotRevert(
+  args: SnapshotRevertArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, user, rangeId, vmIds, confirmDestructiveAction = false, help = false } = args;
+
+  if (help) {
+    return getSnapshotHelp('revert', logger, cliWrapper);
+  }
+
+  // Checked before the confirmation gate, so an empty name is never confirmed
+  if (!name) {
+    return {
+      success: false,
+      message: 'Snapshot name is required',
+      user: user || 'current user',
+      nextSteps: [
+        'Use snapshot_list() to see the snapshot names',
+        `Example: snapshot_revert({ name: "clean-state", confirmDestructiveAction: true })`
+      ]
+    };
+  }
+
+  // Safety check for revert operations
+  if (!confirmDestructiveAction) {
+    return {
+      success: false,
+      message: 'Snapshot revert operation requires confirmation',
+      name,
+      user: user || 'current user',
+      confirmationRequired: true,
+      reason: 'Reverting discards every change made to the VMs since the snapshot was taken',
+      instructions: [
+        'To confirm this action, call the tool again with confirmDestructiveAction: true',
+        `Example: snapshot_revert({ name: "${name}", confirmDestructiveAction: true })`,
+        vmIds ? `This will revert VM(s) ${vmIds} to snapshot "${name}"` : `This will revert all VMs in the range to snapshot "${name}"`
+      ]
+    };
+  }
+
+  try {
+    logger.info('Reverting snapshot', { name, user, rangeId, vmIds });
+
+    const result = await cliWrapper.revertSnapshot(name, user, vmIds, rangeId);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const targetUser = user || 'current user';
+    const vmTarget = vmIds ? `VM(s) ${vmIds}` : 'All VMs';
+
+    return {
+      success: true,
+      message: `${vmTarget} reverted to snapshot "${name}" for ${targetUser}`,
+      name,
+      user: targetUser,
+      vmIds: vmIds || 'all',
+      data: result.data,
+      nextSteps: [
+        'VMs may be powered off after reverting a snapshot taken without RAM',
+        'Use get_range_status() to check VM power state',
+        'Use ludus_power({ action: "on" }) to start VMs if needed'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to revert snapshot', { name, user, vmIds, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { ...(user ? { user } : {}), what: `Snapshot "${name}"`, listWith: 'snapshot_list()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      name,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use snapshot_list() to verify the snapshot name exists on the targeted VMs',
+        'Check if you have admin permissions (if managing other users)',
+        'Try get_range_status() to check current range state'
+      ])
+    };
+  }
+}
+
+export async function handleSnapshotRemove(
+  args: SnapshotRemoveArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, user, rangeId, vmIds, confirmDestructiveAction = false, help = false } = args;
+
+  if (help) {
+    return getSnapshotHelp('rm', logger, cliWrapper);
+  }
+
+  // Checked before the confirmation gate, so an empty name is never confirmed
+  if (!name) {
+    return {
+      success: false,
+      message: 'Snapshot name is required',
+      user: user || 'current user',
+      nextSteps: [
+        'Use snapshot_list() to see the snapshot names',
+        `Example: snapshot_remove({ name: "clean-state", confirmDestructiveAction: true })`
+      ]
+    };
+  }
+
+  // Safety check for remove operations
+  if (!confirmDestructiveAction) {
+    return {
+      success: false,
+      message: 'Snapshot remove operation requires confirmation',
+      name,
+      user: user || 'current user',
+      confirmationRequired: true,
+      reason: 'Removed snapshots cannot be recovered and the range can no longer be reverted to them',
+      instructions: [
+        'To confirm this action, call the tool again with confirmDestructiveAction: true',
+        `Example: snapshot_remove({ name: "${name}", confirmDestructiveAction: true })`,
+        vmIds ? `This will remove snapshot "${name}" from VM(s) ${vmIds}` : `This will remove snapshot "${name}" from all VMs in the range`
+      ]
+    };
+  }
+
+  try {
+    logger.info('Removing snapshot', { name, user, rangeId, vmIds });
+
+    const result = await cliWrapper.removeSnapshot(name, user, vmIds, rangeId);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const targetUser = user || 'current user';
+    const vmTarget = vmIds ? `VM(s) ${vmIds}` : 'all VMs';
+
+    return {
+      success: true,
+      message: `Snapshot "${name}" removed from ${vmTarget} for ${targetUser}`,
+      name,
+      user: targetUser,
+      vmIds: vmIds || 'all',
+      data: result.data,
+      nextSteps: [
+        'Use snapshot_list() to review remaining snapshots'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to remove snapshot', { name, user, vmIds, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { ...(user ? { user } : {}), what: `Snapshot "${name}"`, listWith: 'snapshot_list()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      name,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use snapshot_list() to verify the snapshot name exists on the targeted VMs',
+        'Check if you have admin permissions (if managing other users)'
+      ])
+    };
+  }
+}
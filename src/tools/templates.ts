@@ -0,0 +1,526 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, errorKindResponse, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+
+export interface TemplatesListArgs {
+  help?: boolean;
+}
+
+export interface TemplatesBuildArgs {
+  names?: string;
+  parallel?: number;
+  help?: boolean;
+}
+
+export interface TemplatesStatusArgs {
+  includeLogs?: boolean;
+  logLines?: number;
+  help?: boolean;
+}
+
+export interface TemplatesAddArgs {
+  directory: string;
+  force?: boolean;
+  help?: boolean;
+}
+
+export interface TemplatesRemoveArgs {
+  name: string;
+  confirmDestructiveAction?: boolean;
+  help?: boolean;
+}
+
+export interface TemplateInfo {
+  name: string;
+  built: boolean;
+}
+
+export interface TemplateCheckResult {
+  checked: boolean;        // false when the template list could not be retrieved
+  referenced: string[];    // templates referenced by the config
+  missing: string[];       // referenced but unknown to the server
+  unbuilt: string[];       // known to the server but not built yet
+  message?: string;
+}
+
+export function createTemplatesListTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'templates_list',
+    description: 'List VM templates available on the Ludus server with their built/not-built state. Range configs can only deploy VMs from built templates.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus templates list command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTemplatesBuildTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'templates_build',
+    description: 'Start building VM templates on the Ludus server. Builds run in the background and can take 30+ minutes per template; use templates_status to poll progress and logs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        names: {
+          type: 'string',
+          description: 'Comma-separated template names to build (e.g., "win2022-server-x64-template,debian-12-x64-server-template"). If omitted, all unbuilt templates are built.'
+        },
+        parallel: {
+          type: 'number',
+          description: 'Number of templates to build in parallel (default: 1). Higher values need more host RAM.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus templates build command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTemplatesStatusTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'templates_status',
+    description: 'Show which VM templates are currently building and optionally the tail of the template build logs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeLogs: {
+          type: 'boolean',
+          description: 'Include the tail of the template build logs (default: true)',
+          default: true
+        },
+        logLines: {
+          type: 'number',
+          description: 'Number of log lines to return from the end of the build log (default: 50)',
+          default: 50
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus templates status command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTemplatesAddTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'templates_add',
+    description: 'Upload a local Packer template directory to the Ludus server so it can be built with templates_build.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Path to the local template directory containing the Packer files'
+        },
+        force: {
+          type: 'boolean',
+          description: 'Overwrite an existing template with the same name',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus templates add command',
+          default: false
+        }
+      },
+      required: ['directory']
+    }
+  };
+}
+
+export function createTemplatesRemoveTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'templates_remove',
+    description: 'Remove a VM template from the Ludus server. Requires confirmation as ranges referencing the template can no longer be deployed until it is re-added and rebuilt.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the template to remove'
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required confirmation. Must be true to remove the template.',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus templates rm command',
+          default: false
+        }
+      },
+      required: ['name']
+    }
+  };
+}
+
+/**
+ * Normalize `ludus templates list` output into name/built pairs
+ */
+export function parseTemplateList(data: any): TemplateInfo[] {
+  const entries = Array.isArray(data) ? data : (data && Array.isArray(data.result) ? data.result : []);
+
+  return entries
+    .filter((entry: any) => entry && typeof entry.name === 'string')
+    .map((entry: any) => ({ name: entry.name, built: Boolean(entry.built) }));
+}
+
+/**
+ * Check that every template referenced by a range config exists and is built on the server
+ */
+export async function checkConfigTemplates(
+  configContent: string,
+  cliWrapper: LudusCliWrapper,
+  logger: Logger
+): Promise<TemplateCheckResult> {
+  let config: any;
+  try {
+    config = yaml.load(configContent);
+  } catch (error: any) {
+    return { checked: false, referenced: [], missing: [], unbuilt: [], message: `Could not parse range config: ${error.message}` };
+  }
+
+  const vms: any[] = config && Array.isArray(config.ludus) ? config.ludus : [];
+  const referenced = [...new Set(
+    vms.map(vm => vm?.template).filter((template): template is string => typeof template === 'string' && template.length > 0)
+  )];
+
+  if (referenced.length === 0) {
+    return { checked: true, referenced, missing: [], unbuilt: [] };
+  }
+
+  const result = await cliWrapper.listTemplates();
+  const templates = result.success ? parseTemplateList(result.data) : [];
+  if (templates.length === 0) {
+    logger.warn('Could not retrieve template list for template check', { message: result.message });
+    return { checked: false, referenced, missing: [], unbuilt: [], message: 'Template list unavailable - template check skipped' };
+  }
+
+  const byName = new Map(templates.map(t => [t.name, t]));
+  const missing = referenced.filter(name => !byName.has(name));
+  const unbuilt = referenced.filter(name => byName.has(name) && !byName.get(name)!.built);
+
+  return { checked: true, referenced, missing, unbuilt };
+}
+
+/**
+ * Run `ludus templates <subcommand> --help` and return it in the standard help shape
+ */
+async function getTemplatesHelp(subcommand: string, logger: Logger, cliWrapper: LudusCliWrapper): Promise<any> {
+  logger.info('Getting help for ludus templates command', { subcommand });
+  const result = await cliWrapper.executeArbitraryCommand('templates', [subcommand, '--help']);
+
+  if (result.success) {
+    return {
+      success: true,
+      message: `Help information for ludus templates ${subcommand} command`,
+      help: true,
+      content: result.rawOutput || result.message
+    };
+  } else {
+    throw new Error(`Failed to get help: ${result.message}`);
+  }
+}
+
+export async function handleTemplatesList(
+  args: TemplatesListArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { help = false } = args;
+
+  if (help) {
+    return getTemplatesHelp('list', logger, cliWrapper);
+  }
+
+  try {
+    logger.info('Listing templates');
+
+    const result = await cliWrapper.listTemplates();
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const templates = parseTemplateList(result.data);
+    const built = templates.filter(t => t.built);
+    const unbuilt = templates.filter(t => !t.built);
+
+    return {
+      success: true,
+      message: `Found ${templates.length} template(s): ${built.length} built, ${unbuilt.length} not built`,
+      templates,
+      built: built.map(t => t.name),
+      unbuilt: unbuilt.map(t => t.name),
+      nextSteps: unbuilt.length > 0
+        ? [`Use templates_build({ names: "${unbuilt.map(t => t.name).join(',')}" }) to build missing templates`]
+        : ['All templates are built and ready for deployment']
+    };
+  } catch (error: any) {
+    logger.error('Failed to list templates', { error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Check connectivity to the Ludus server',
+        'Use ludus_help({ command: "templates" }) for more information'
+      ])
+    };
+  }
+}
+
+export async function handleTemplatesBuild(
+  args: TemplatesBuildArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { names, parallel, help = false } = args;
+
+  if (help) {
+    return getTemplatesHelp('build', logger, cliWrapper);
+  }
+
+  try {
+    logger.info('Building templates', { names, parallel });
+
+    const result = await cliWrapper.buildTemplates(names, parallel);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Template build started for ${names || 'all unbuilt templates'}`,
+      names: names || 'all',
+      data: result.data,
+      nextSteps: [
+        'Template builds typically take 30+ minutes each',
+        'Use templates_status() to monitor build progress and logs',
+        'Use templates_list() to confirm templates show as built'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to build templates', { names, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { ...(names ? { what: `Template(s) ${names}` } : {}), listWith: 'templates_list()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use templates_list() to verify template names',
+        'Check whether a build is already running (templates_status)',
+        'Reduce parallel builds if the host is low on RAM'
+      ])
+    };
+  }
+}
+
+export async function handleTemplatesStatus(
+  args: TemplatesStatusArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { includeLogs = true, logLines = 50, help = false } = args;
+
+  if (help) {
+    return getTemplatesHelp('status', logger, cliWrapper);
+  }
+
+  try {
+    logger.info('Getting template build status', { includeLogs, logLines });
+
+    const statusResult = await cliWrapper.getTemplateStatus();
+
+    if (!statusResult.success) {
+      throw new LudusCommandError(statusResult.message, statusResult);
+    }
+
+    const building = Array.isArray(statusResult.data) ? statusResult.data : [];
+
+    let logs: string | undefined;
+    if (includeLogs) {
+      const logsResult = await cliWrapper.getTemplateLogs();
+      if (logsResult.success) {
+        const logText = typeof logsResult.data === 'object' && logsResult.data && typeof logsResult.data.result === 'string'
+          ? logsResult.data.result
+          : (logsResult.rawOutput || '');
+        logs = logText.split('\n').slice(-logLines).join('\n');
+      } else {
+        logger.warn('Failed to get template logs', { message: logsResult.message });
+      }
+    }
+
+    return {
+      success: true,
+      message: building.length > 0
+        ? `${building.length} template(s) currently building`
+        : 'No templates are currently building',
+      building,
+      status: statusResult.data,
+      logs,
+      nextSteps: building.length > 0
+        ? ['Call templates_status() again to poll progress']
+        : ['Use templates_list() to confirm which templates are built']
+    };
+  } catch (error: any) {
+    logger.error('Failed to get template status', { error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Check connectivity to the Ludus server',
+        'Use ludus_help({ command: "templates" }) for more information'
+      ])
+    };
+  }
+}
+
+export async function handleTemplatesAdd(
+  args: TemplatesAddArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { directory, force = false, help = false } = args;
+
+  if (help) {
+    return getTemplatesHelp('add', logger, cliWrapper);
+  }
+
+  try {
+    if (!directory) {
+      throw new Error('Template directory is required');
+    }
+
+    // The CLI runs from ~/.ludus-mcp, so pass an absolute path
+    const templateDir = path.resolve(directory);
+    logger.info('Adding template', { directory: templateDir, force });
+
+    const result = await cliWrapper.addTemplate(templateDir, force);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Template uploaded from ${templateDir}`,
+      directory: templateDir,
+      data: result.data,
+      nextSteps: [
+        'Use templates_list() to confirm the template is registered',
+        'Use templates_build({ names: "<template-name>" }) to build it'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to add template', { directory, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the directory exists and contains the Packer template files',
+        'Use force: true to overwrite an existing template with the same name'
+      ])
+    };
+  }
+}
+
+export async function handleTemplatesRemove(
+  args: TemplatesRemoveArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { name, confirmDestructiveAction = false, help = false } = args;
+
+  if (help) {
+    return getTemplatesHelp('rm', logger, cliWrapper);
+  }
+
+  // Checked before the confirmation gate, so a blank name is never confirmed
+  if (!name || !name.trim()) {
+    return {
+      success: false,
+      message: 'Template name is required',
+      nextSteps: [
+        'Use templates_list() to see the template names',
+        'Example: templates_remove({ name: "debian-12-x64-server-template", confirmDestructiveAction: true })'
+      ]
+    };
+  }
+
+  // Safety check for remove operations
+  if (!confirmDestructiveAction) {
+    return {
+      success: false,
+      message: 'Template remove operation requires confirmation',
+      name,
+      confirmationRequired: true,
+      reason: 'Ranges that reference this template cannot be deployed until it is re-added and rebuilt',
+      instructions: [
+        'To confirm this action, call the tool again with confirmDestructiveAction: true',
+        `Example: templates_remove({ name: "${name}", confirmDestructiveAction: true })`
+      ]
+    };
+  }
+
+  try {
+    logger.info('Removing template', { name });
+
+    const result = await cliWrapper.removeTemplate(name);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Template "${name}" removed`,
+      name,
+      data: result.data,
+      nextSteps: [
+        'Use templates_list() to review remaining templates'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to remove template', { name, error: error.message });
+
+    const kindResponse = errorKindResponse(error, { what: `Template "${name}"`, listWith: 'templates_list()' });
+    return {
+      success: false,
+      message: kindResponse?.message || error.message,
+      ...(kindResponse ? { nextSteps: kindResponse.nextSteps } : {}),
+      name,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Use templates_list() to verify the template name',
+        'Removing built-in templates may require admin permissions'
+      ])
+    };
+  }
+}
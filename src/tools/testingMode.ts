@@ -0,0 +1,441 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import { parseRangeStatus } from './rangeStatus.js';
+
+export interface TestingStartArgs {
+  user?: string;
+  rangeId?: string;
+  help?: boolean;
+}
+
+export interface TestingStopArgs {
+  user?: string;
+  rangeId?: string;
+  force?: boolean;
+  confirmDestructiveAction?: boolean;
+  help?: boolean;
+}
+
+export interface TestingRuleArgs {
+  domains?: string;
+  ips?: string;
+  user?: string;
+  rangeId?: string;
+  help?: boolean;
+}
+
+export interface TestingStatusArgs {
+  user?: string;
+  rangeId?: string;
+}
+
+export function createTestingStartTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'testing_start',
+    description: 'Enter testing mode for a Ludus range. Snapshots all testing-enabled VMs and blocks their internet access so malware or untrusted tooling can be run safely. Use testing_allow to open specific domains/IPs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID to start testing mode for (admin only). If omitted, uses current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus testing start command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTestingStopTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'testing_stop',
+    description: 'Exit testing mode for a Ludus range. Reverts VMs to the snapshots taken by testing_start and restores internet access. Requires confirmation as all changes made during testing are discarded.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID to stop testing mode for (admin only). If omitted, uses current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        force: {
+          type: 'boolean',
+          description: 'Force testing mode off even if the range is in an unexpected state',
+          default: false
+        },
+        confirmDestructiveAction: {
+          type: 'boolean',
+          description: 'Required confirmation. Must be true to stop testing mode and revert VMs.',
+          default: false
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus testing stop command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTestingAllowTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'testing_allow',
+    description: 'Allow specific domains and/or IPs through the firewall while a Ludus range is in testing mode (e.g., to reach a C2 server or update service).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domains: {
+          type: 'string',
+          description: 'Comma-separated domains to allow (e.g., "example.com,updates.example.org")'
+        },
+        ips: {
+          type: 'string',
+          description: 'Comma-separated IP addresses to allow (e.g., "1.2.3.4,5.6.7.8")'
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to manage the allowlist for (admin only). If omitted, uses current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus testing allow command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTestingDenyTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'testing_deny',
+    description: 'Remove previously allowed domains and/or IPs from the testing mode allowlist of a Ludus range.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domains: {
+          type: 'string',
+          description: 'Comma-separated domains to deny'
+        },
+        ips: {
+          type: 'string',
+          description: 'Comma-separated IP addresses to deny'
+        },
+        user: {
+          type: 'string',
+          description: 'User ID to manage the allowlist for (admin only). If omitted, uses current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        help: {
+          type: 'boolean',
+          description: 'Show help information for the ludus testing deny command',
+          default: false
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export function createTestingStatusTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'testing_status',
+    description: 'Report whether a Ludus range is in testing mode and which domains and IPs are currently allowed through the testing firewall.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID to check (admin only). If omitted, uses current user.'
+        }
+      },
+      required: []
+    }
+  };
+}
+
+/**
+ * Run `ludus testing <subcommand> --help` and return it in the standard help shape
+ */
+async function getTestingHelp(subcommand: string, logger: Logger, cliWrapper: LudusCliWrapper): Promise<any> {
+  logger.info('Getting help for ludus testing command', { subcommand });
+  const result = await cliWrapper.executeArbitraryCommand('testing', [subcommand, '--help']);
+
+  if (result.success) {
+    return {
+      success: true,
+      message: `Help information for ludus testing ${subcommand} command`,
+      help: true,
+      content: result.rawOutput || result.message
+    };
+  } else {
+    throw new Error(`Failed to get help: ${result.message}`);
+  }
+}
+
+export async function handleTestingStart(
+  args: TestingStartArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, rangeId, help = false } = args;
+
+  if (help) {
+    return getTestingHelp('start', logger, cliWrapper);
+  }
+
+  try {
+    logger.info('Starting testing mode', { user, rangeId });
+
+    const result = await cliWrapper.startTesting(user, rangeId);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Testing mode started for ${user || 'current user'}`,
+      user: user || 'current user',
+      data: result.data,
+      nextSteps: [
+        'VMs are being snapshotted and internet access is blocked',
+        'Use testing_allow({ domains: "...", ips: "..." }) to open specific destinations',
+        'Use testing_status() to review the current allowlist',
+        'Use testing_stop({ confirmDestructiveAction: true }) to revert VMs and leave testing mode'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to start testing mode', { user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the range is fully deployed (get_range_status)',
+        'Check whether testing mode is already enabled (testing_status)',
+        'Check if you have admin permissions (if managing other users)'
+      ])
+    };
+  }
+}
+
+export async function handleTestingStop(
+  args: TestingStopArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, rangeId, force = false, confirmDestructiveAction = false, help = false } = args;
+
+  if (help) {
+    return getTestingHelp('stop', logger, cliWrapper);
+  }
+
+  // Safety check - stopping testing reverts VMs to their testing snapshots
+  if (!confirmDestructiveAction) {
+    return {
+      success: false,
+      message: 'Stopping testing mode requires confirmation',
+      user: user || 'current user',
+      confirmationRequired: true,
+      reason: 'Stopping testing mode reverts VMs to the snapshots taken when testing started and restores internet access',
+      instructions: [
+        'To confirm this action, call the tool again with confirmDestructiveAction: true',
+        'Example: testing_stop({ confirmDestructiveAction: true })',
+        'Any changes made to VMs while in testing mode will be lost'
+      ]
+    };
+  }
+
+  try {
+    logger.info('Stopping testing mode', { user, rangeId, force });
+
+    const result = await cliWrapper.stopTesting(user, force, rangeId);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    return {
+      success: true,
+      message: `Testing mode stopped for ${user || 'current user'}`,
+      user: user || 'current user',
+      data: result.data,
+      nextSteps: [
+        'VMs are being reverted and internet access restored',
+        'Use get_range_status() to confirm VMs are back online'
+      ]
+    };
+  } catch (error: any) {
+    logger.error('Failed to stop testing mode', { user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Check whether testing mode is enabled (testing_status)',
+        'Retry with force: true if the range is in an inconsistent state',
+        'Check if you have admin permissions (if managing other users)'
+      ])
+    };
+  }
+}
+
+async function handleTestingRule(
+  action: 'allow' | 'deny',
+  args: TestingRuleArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { domains, ips, user, rangeId, help = false } = args;
+
+  if (help) {
+    return getTestingHelp(action, logger, cliWrapper);
+  }
+
+  try {
+    if (!domains && !ips) {
+      throw new Error('At least one of domains or ips is required');
+    }
+
+    logger.info(`Updating testing ${action} list`, { domains, ips, user, rangeId });
+
+    const options: { domains?: string; ips?: string; user?: string; rangeId?: string } = {};
+    if (domains) options.domains = domains;
+    if (ips) options.ips = ips;
+    if (user) options.user = user;
+    if (rangeId) options.rangeId = rangeId;
+
+    const result = action === 'allow'
+      ? await cliWrapper.allowTesting(options)
+      : await cliWrapper.denyTesting(options);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const targets = [domains, ips].filter(Boolean).join(', ');
+
+    return {
+      success: true,
+      message: action === 'allow'
+        ? `Allowed ${targets} through testing firewall for ${user || 'current user'}`
+        : `Removed ${targets} from testing allowlist for ${user || 'current user'}`,
+      user: user || 'current user',
+      data: result.data,
+      nextSteps: [
+        'Use testing_status() to review the current allowlist'
+      ]
+    };
+  } catch (error: any) {
+    logger.error(`Failed to ${action} testing destinations`, { domains, ips, user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Testing allow/deny only works while testing mode is enabled (testing_status)',
+        'Separate multiple domains or IPs with commas',
+        'Check if you have admin permissions (if managing other users)'
+      ])
+    };
+  }
+}
+
+export async function handleTestingAllow(
+  args: TestingRuleArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  return handleTestingRule('allow', args, logger, cliWrapper);
+}
+
+export async function handleTestingDeny(
+  args: TestingRuleArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  return handleTestingRule('deny', args, logger, cliWrapper);
+}
+
+export async function handleTestingStatus(
+  args: TestingStatusArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, rangeId } = args;
+
+  try {
+    logger.info('Getting testing mode status', { user, rangeId });
+
+    // Testing state is part of the range object returned by `ludus range list`
+    const result = await cliWrapper.getRangeStatus(user, rangeId);
+
+    if (!result.success) {
+      throw new LudusCommandError(result.message, result);
+    }
+
+    const range = parseRangeStatus(result.data);
+    if (!range) {
+      throw new LudusCommandError(`Unexpected range status output: ${result.rawOutput || result.message}`, result);
+    }
+
+    const { testingEnabled, allowedDomains } = range;
+    const allowedIPs = range.allowedIps;
+
+    return {
+      success: true,
+      message: `Testing mode is ${testingEnabled ? 'ENABLED' : 'disabled'} for ${user || 'current user'}`,
+      user: user || 'current user',
+      testingEnabled,
+      allowedDomains,
+      allowedIPs,
+      nextSteps: testingEnabled
+        ? ['Use testing_allow/testing_deny to change the allowlist', 'Use testing_stop({ confirmDestructiveAction: true }) to leave testing mode']
+        : ['Use testing_start() to snapshot VMs and block internet access']
+    };
+  } catch (error: any) {
+    logger.error('Failed to get testing status', { user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: user || 'current user',
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the user has a deployed range',
+        'Check if you have admin permissions (if querying other users)'
+      ])
+    };
+  }
+}
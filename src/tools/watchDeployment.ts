@@ -0,0 +1,199 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+import { LudusCliWrapper } from '../ludusMCP/cliWrapper.js';
+import { LudusCommandError, errorKindOf, troubleshootingFor } from '../ludusMCP/commandErrors.js';
+import {
+  DEPLOYMENT_PHASES,
+  HostProgress,
+  extractLogText,
+  parseDeploymentLog,
+  estimatePercentComplete,
+  formatDuration
+} from './deploymentLog.js';
+import { parseRangeStatus } from './rangeStatus.js';
+import { TYPICAL_DEPLOY_MINUTES } from './estimateRangeResources.js';
+
+export interface WatchDeploymentArgs {
+  user?: string;
+  rangeId?: string;
+  tailLines?: number;      // raw log lines to include from the end of the log
+  includeHosts?: boolean;  // per-VM breakdown (default: true)
+}
+
+export interface DeploymentFailedHost {
+  host: string;
+  task: string;
+  kind: 'failed' | 'unreachable';
+  message: string;
+}
+
+// Ludus range states that mean the deployment is no longer running
+const FINISHED_STATES = ['SUCCESS', 'ERROR', 'ABORTED', 'DESTROYED', 'NEVER DEPLOYED'];
+const POLL_INTERVAL_SECONDS = 60;
+const MAX_TAIL_LINES = 200;
+
+export function createWatchDeploymentTool(logger: Logger, cliWrapper: LudusCliWrapper): Tool {
+  return {
+    name: 'watch_deployment',
+    description: `Summarize the progress of a range deployment from its Ansible logs. Use this after deploy_range instead of reading raw \`range logs\` output.
+
+Returns a compact, pollable summary:
+- Range state (DEPLOYING, SUCCESS, ERROR, ...) and whether the deployment finished
+- Estimated percent complete and the current phase (${DEPLOYMENT_PHASES.map(phase => phase.label).join(' > ')})
+- Current PLAY and TASK, elapsed time
+- Per-VM phase, last task and ok/changed/failed counts (includeHosts: false to omit)
+- Failed and unreachable hosts with the failing task and error message
+- The PLAY RECAP once the playbook finished
+
+Deployments take ${TYPICAL_DEPLOY_MINUTES.min}-${TYPICAL_DEPLOY_MINUTES.max} minutes (parent-child domain labs ~${TYPICAL_DEPLOY_MINUTES.parentChildDomain}; estimate_range_resources gives a per-config estimate). While the state is DEPLOYING, call this tool again after about ${POLL_INTERVAL_SECONDS} seconds rather than continuously. Percent complete is estimated from the phases reached, not from a task count.
+
+Requires admin privileges to watch other users' deployments.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user: {
+          type: 'string',
+          description: 'User ID whose deployment to watch (admin only). If omitted, watches the current user.'
+        },
+        rangeId: {
+          type: 'string',
+          description: 'Range ID when the user has several ranges (see list_ranges). If omitted, uses the current range (set_current_range) or the user\'s default range.'
+        },
+        tailLines: {
+          type: 'number',
+          description: `Also return the last N raw log lines (max ${MAX_TAIL_LINES}, default: 0)`
+        },
+        includeHosts: {
+          type: 'boolean',
+          description: 'Include the per-VM breakdown (default: true)',
+          default: true
+        }
+      },
+      required: []
+    }
+  };
+}
+
+export async function handleWatchDeployment(
+  args: WatchDeploymentArgs,
+  logger: Logger,
+  cliWrapper: LudusCliWrapper
+): Promise<any> {
+  const { user, rangeId, tailLines = 0, includeHosts = true } = args;
+  const targetUser = user || 'current user';
+
+  try {
+    logger.info('Watching range deployment', { user, rangeId });
+
+    const logsResult = await cliWrapper.getRangeLogs(user, false, rangeId);
+    if (!logsResult.success) {
+      throw new LudusCommandError(`Failed to get range logs: ${logsResult.message}`, logsResult);
+    }
+
+    // The range state decides whether the deployment is still running; the log alone
+    // cannot tell a finished run from one paused between playbooks
+    let rangeState: string | undefined;
+    let lastDeployment: string | undefined;
+    const statusResult = await cliWrapper.getRangeStatus(user, rangeId);
+    const range = statusResult.success ? parseRangeStatus(statusResult.data) : null;
+    if (range) {
+      rangeState = range.state !== 'UNKNOWN' ? range.state : undefined;
+      lastDeployment = range.lastDeployment;
+    } else {
+      logger.warn('Could not get range state, using the log only', { user, error: statusResult.message });
+    }
+
+    const logText = extractLogText(logsResult);
+    const summary = parseDeploymentLog(logText);
+
+    const finished = rangeState ? FINISHED_STATES.includes(rangeState) : summary.recapComplete;
+    const deploying = rangeState ? rangeState === 'DEPLOYING' : !summary.recapComplete;
+    const failedHosts: DeploymentFailedHost[] = summary.failures.map(failure => ({
+      host: failure.host,
+      task: failure.task,
+      kind: failure.kind,
+      message: failure.message
+    }));
+    // Failures rescued by a block still print "fatal:", so the range state and recap decide success
+    const succeeded = finished && (rangeState
+      ? rangeState === 'SUCCESS'
+      : summary.recap.every(entry => entry.failed === 0 && entry.unreachable === 0));
+    const percentComplete = estimatePercentComplete(summary, finished && succeeded);
+
+    // Elapsed: Ansible's own timer when the log has it, otherwise since the deployment started
+    let elapsedSeconds = summary.elapsedSeconds;
+    if (elapsedSeconds === undefined && lastDeployment && deploying) {
+      const started = Date.parse(lastDeployment);
+      if (!Number.isNaN(started)) {
+        elapsedSeconds = Math.max(0, Math.round((Date.now() - started) / 1000));
+      }
+    }
+
+    const currentPhase = summary.currentPhase ? DEPLOYMENT_PHASES.find(phase => phase.id === summary.currentPhase) : undefined;
+    const hosts: HostProgress[] = includeHosts ? summary.hosts : [];
+
+    const state = rangeState || (summary.recapComplete ? 'FINISHED' : summary.plays.length > 0 ? 'DEPLOYING' : 'UNKNOWN');
+    const parts = [`${state}`, `~${percentComplete}%`];
+    if (deploying && currentPhase) parts.push(`phase: ${currentPhase.label}`);
+    if (elapsedSeconds !== undefined) parts.push(`elapsed ${formatDuration(elapsedSeconds)}`);
+    if (failedHosts.length > 0) parts.push(`${new Set(failedHosts.map(host => host.host)).size} failed host(s)`);
+
+    const response: any = {
+      success: true,
+      message: `Deployment for ${targetUser}: ${parts.join(' - ')}`,
+      user: targetUser,
+      state,
+      deploying,
+      finished,
+      succeeded,
+      percentComplete,
+      currentPhase: summary.currentPhase,
+      currentPhaseLabel: currentPhase?.label,
+      currentPlay: summary.currentPlay,
+      currentTask: summary.currentTask,
+      elapsedSeconds,
+      elapsed: elapsedSeconds !== undefined ? formatDuration(elapsedSeconds) : undefined,
+      playCount: summary.plays.length,
+      taskCount: summary.taskCount,
+      hosts,
+      failedHosts,
+      recap: summary.recapComplete ? summary.recap : [],
+      pollAfterSeconds: deploying ? POLL_INTERVAL_SECONDS : undefined,
+      nextSteps: [] as string[]
+    };
+
+    if (tailLines > 0) {
+      response.tail = logText.trimEnd().split('\n').slice(-Math.min(tailLines, MAX_TAIL_LINES)).join('\n');
+    }
+
+    if (summary.plays.length === 0 && !logText.trim()) {
+      response.nextSteps.push('No deployment log yet. If you just ran deploy_range, wait a minute and watch again');
+    }
+    if (deploying) {
+      response.nextSteps.push(`Call watch_deployment again in about ${POLL_INTERVAL_SECONDS} seconds`);
+      if (failedHosts.length > 0) {
+        response.nextSteps.push('Hosts already failed; the deployment will likely end in ERROR. Use diagnose_deployment for causes and fixes, or range_abort to stop early');
+      }
+    } else if (succeeded) {
+      response.nextSteps.push('Deployment finished. Use get_connection_info to access the VMs');
+    } else if (finished) {
+      response.nextSteps.push('Run diagnose_deployment to classify the failures and get fixes and a targeted retry command');
+    }
+
+    return response;
+  } catch (error: any) {
+    logger.error('Failed to watch deployment', { user, error: error.message });
+
+    return {
+      success: false,
+      message: error.message,
+      user: targetUser,
+      errorKind: errorKindOf(error),
+      troubleshooting: troubleshootingFor(error, [
+        'Verify the user has a range with a deployment (get_range_status)',
+        'Check if you have admin permissions (if watching other users)',
+        'Ensure your Ludus server connection is working'
+      ])
+    };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Bundled fallback for the official Ludus range configuration schema
+ * (https://docs.ludus.cloud/schemas/range-config.json).
+ *
+ * Used by validate_range_config when ~/.ludus-mcp/schemas/range-config.json has never been
+ * downloaded or cannot be read. It covers the documented range-config keys and is kept
+ * permissive where the official schema allows free-form values (role_vars, linux packages).
+ */
+
+const functionalLevels = ['Win2003', 'Win2008', 'Win2008R2', 'Win2012', 'Win2012R2', 'WinThreshold', 'Win2025'];
+
+const firewallAction = { type: 'string', enum: ['ACCEPT', 'REJECT', 'DROP'] };
+
+const vlanReference = {
+  anyOf: [
+    { type: 'integer', minimum: 2, maximum: 255 },
+    { type: 'string', enum: ['public', 'all', 'wireguard'] }
+  ]
+};
+
+const roleReference = {
+  anyOf: [
+    { type: 'string' },
+    {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        depends_on: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['vm_name', 'role'],
+            properties: {
+              vm_name: { type: 'string' },
+              role: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  ]
+};
+
+export const BUNDLED_RANGE_CONFIG_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://docs.ludus.cloud/schemas/range-config.json',
+  title: 'Ludus Range Configuration',
+  type: 'object',
+  required: ['ludus'],
+  properties: {
+    ludus: {
+      type: 'array',
+      description: 'The VMs in the range',
+      items: {
+        type: 'object',
+        required: ['vm_name', 'hostname', 'template', 'vlan', 'ip_last_octet', 'ram_gb', 'cpus'],
+        properties: {
+          vm_name: { type: 'string', description: 'The name of the VM in Proxmox. {{ range_id }} resolves to the range ID' },
+          hostname: { type: 'string', description: 'The hostname for the VM (Windows hostnames are limited to 15 characters)' },
+          template: { type: 'string', description: 'The template this VM is built from (ludus templates list)' },
+          vlan: { type: 'integer', minimum: 2, maximum: 255, description: 'Third octet of the VM IP' },
+          ip_last_octet: { type: 'integer', minimum: 1, maximum: 255, description: 'Last octet of the VM IP, unique per VLAN' },
+          force_ip: { type: 'boolean' },
+          ram_gb: { type: 'number', exclusiveMinimum: 0 },
+          ram_min_gb: { type: 'number', exclusiveMinimum: 0 },
+          cpus: { type: 'integer', minimum: 1 },
+          full_clone: { type: 'boolean' },
+          unmanaged: { type: 'boolean' },
+          windows: {
+            type: 'object',
+            properties: {
+              sysprep: { type: 'boolean' },
+              gpos: { type: 'array', items: { type: 'string' } },
+              chocolatey_ignore_checksums: { type: 'boolean' },
+              chocolatey_packages: { type: 'array', items: { type: 'string' } },
+              office_version: { type: 'integer', enum: [2013, 2016, 2019, 2021] },
+              office_arch: { type: 'string', enum: ['64bit', '32bit'] },
+              visual_studio_version: { type: 'integer' },
+              autologon_user: { type: 'string' },
+              autologon_password: { type: 'string' },
+              install_additional_tools: { type: 'boolean' }
+            }
+          },
+          linux: {
+            anyOf: [
+              { type: 'boolean' },
+              {
+                type: 'object',
+                properties: {
+                  packages: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            ]
+          },
+          macOS: { type: 'boolean' },
+          domain: {
+            type: 'object',
+            required: ['fqdn', 'role'],
+            properties: {
+              fqdn: { type: 'string' },
+              role: { type: 'string', enum: ['primary-dc', 'alt-dc', 'member'] }
+            }
+          },
+          testing: {
+            type: 'object',
+            properties: {
+              snapshot: { type: 'boolean' },
+              block_internet: { type: 'boolean' }
+            }
+          },
+          roles: { type: 'array', items: roleReference },
+          role_vars: { type: 'object' },
+          ansible_groups: { type: 'array', items: { type: 'string' } },
+          dns_rewrites: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    },
+    global_role_vars: { type: 'object' },
+    router: {
+      type: 'object',
+      properties: {
+        vm_name: { type: 'string' },
+        hostname: { type: 'string' },
+        template: { type: 'string' },
+        ram_gb: { type: 'number', exclusiveMinimum: 0 },
+        ram_min_gb: { type: 'number', exclusiveMinimum: 0 },
+        cpus: { type: 'integer', minimum: 1 },
+        roles: { type: 'array', items: roleReference },
+        role_vars: { type: 'object' },
+        outbound_wireguard_config: { type: 'string' },
+        outbound_wireguard_vlans: { type: 'array', items: { type: 'integer', minimum: 2, maximum: 255 } },
+        inbound_wireguard: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            server_cidr: { type: 'string' },
+            port: { type: 'integer', minimum: 1, maximum: 65535 },
+            allowed_vlans: { type: 'array', items: { type: 'integer', minimum: 2, maximum: 255 } }
+          }
+        },
+        iptables_commands: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    network: {
+      type: 'object',
+      properties: {
+        inter_vlan_default: firewallAction,
+        external_default: firewallAction,
+        wireguard_vlan_default: firewallAction,
+        always_blocked_networks: { type: 'array', items: { type: 'string' } },
+        rules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'vlan_src', 'vlan_dst', 'protocol', 'ports', 'action'],
+            properties: {
+              name: { type: 'string' },
+              vlan_src: vlanReference,
+              vlan_dst: vlanReference,
+              ip_last_octet_src: { anyOf: [{ type: 'integer', minimum: 1, maximum: 255 }, { type: 'string' }] },
+              ip_last_octet_dst: { anyOf: [{ type: 'integer', minimum: 1, maximum: 255 }, { type: 'string' }] },
+              protocol: { type: 'string', enum: ['tcp', 'udp', 'udplite', 'icmp', 'ipv6-icmp', 'esp', 'ah', 'sctp', 'all'] },
+              ports: { anyOf: [{ type: 'integer', minimum: 0, maximum: 65535 }, { type: 'string' }] },
+              action: firewallAction
+            }
+          }
+        }
+      }
+    },
+    defaults: {
+      type: 'object',
+      properties: {
+        snapshot_with_RAM: { type: 'boolean' },
+        stale_hours: { type: 'integer', minimum: 0 },
+        ad_domain_functional_level: { type: 'string', enum: functionalLevels },
+        ad_forest_functional_level: { type: 'string', enum: functionalLevels },
+        ad_domain_admin: { type: 'string' },
+        ad_domain_admin_password: { type: 'string' },
+        ad_domain_user: { type: 'string' },
+        ad_domain_user_password: { type: 'string' },
+        ad_domain_safe_mode_password: { type: 'string' },
+        timezone: { type: 'string' },
+        enable_dynamic_wallpaper: { type: 'boolean' }
+      }
+    },
+    notify: {
+      type: 'object',
+      properties: {
+        urls: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  }
+};
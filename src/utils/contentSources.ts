@@ -0,0 +1,292 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import yaml from 'js-yaml';
+import { Logger } from './logger.js';
+
+/**
+ * Where each synced cache (docs, schemas, base configs) comes from.
+ *
+ * Precedence, highest first:
+ *   1. Environment: LUDUS_MCP_DOCS_SOURCES, LUDUS_MCP_SCHEMAS_SOURCES, LUDUS_MCP_BASE_CONFIGS_SOURCES
+ *      (comma-separated source specs), LUDUS_MCP_<NAME>_SOURCE_MODE, LUDUS_MCP_CONTENT_MAX_AGE_HOURS
+ *   2. The content_sources section of the MCP config file (~/.ludus-mcp/config.yml, or LUDUS_MCP_CONFIG)
+ *   3. The public upstream repositories
+ * A higher level replaces the source list of a cache as a whole; lists are never concatenated.
+ *
+ * Source spec strings: "<git url>[#ref][::subdir]", "<dir>[::subdir]" or "<file.tar.gz>[::subdir]".
+ * The type is inferred (URLs and git@ are git, .tar.gz/.tgz are archives, anything else is a
+ * local directory) and can be forced with a "git:", "local:" or "archive:" prefix.
+ */
+
+const LUDUS_MCP_DIR = path.join(os.homedir(), '.ludus-mcp');
+export const MCP_CONFIG_PATH = path.join(LUDUS_MCP_DIR, 'config.yml');
+export const DEFAULT_MAX_AGE_HOURS = 24;
+
+export type ContentCacheName = 'docs' | 'schemas' | 'base-configs';
+
+export type ContentSourceLocation =
+  | { type: 'git'; url: string; ref?: string; subPath?: string }
+  | { type: 'local'; path: string; subPath?: string }
+  | { type: 'archive'; path: string; subPath?: string };
+
+/**
+ * first: use the first source that syncs successfully (mirror, then fallbacks)
+ * merge: overlay every source, earlier sources winning on conflicting files; all must succeed
+ */
+export type ContentSourceMode = 'first' | 'merge';
+
+export interface ContentSpec {
+  name: ContentCacheName;
+  description: string;
+  targetDir: string;
+  sources: ContentSourceLocation[];
+  mode: ContentSourceMode;
+  preserveLocalFiles: boolean;  // keep files upstream does not ship (custom schemas/configs)
+  requiredPattern: RegExp;      // synced content must contain at least one matching file
+  maxAgeHours: number;          // git sources younger than this are not re-fetched
+  configuredBy: 'default' | 'config' | 'env';
+}
+
+const CONTENT_DEFAULTS: Record<ContentCacheName, Omit<ContentSpec, 'maxAgeHours' | 'configuredBy'>> = {
+  'docs': {
+    name: 'docs',
+    description: 'Ludus documentation',
+    targetDir: path.join(LUDUS_MCP_DIR, 'docs'),
+    sources: [{ type: 'git', url: 'https://gitlab.com/badsectorlabs/ludus.git', subPath: 'docs/docs' }],
+    mode: 'first',
+    preserveLocalFiles: false,
+    requiredPattern: /\.mdx?$/
+  },
+  'schemas': {
+    name: 'schemas',
+    description: 'Role and collection schemas',
+    targetDir: path.join(LUDUS_MCP_DIR, 'schemas'),
+    sources: [{ type: 'git', url: 'https://github.com/NocteDefensor/LudusMCP.git', ref: 'main', subPath: 'schemas' }],
+    mode: 'first',
+    preserveLocalFiles: true,
+    requiredPattern: /\.ya?ml$/
+  },
+  'base-configs': {
+    name: 'base-configs',
+    description: 'Base range configuration templates',
+    targetDir: path.join(LUDUS_MCP_DIR, 'range-config-templates', 'base-configs'),
+    sources: [{ type: 'git', url: 'https://github.com/NocteDefensor/LudusMCP.git', subPath: 'base-configs' }],
+    mode: 'first',
+    preserveLocalFiles: true,
+    requiredPattern: /\.ya?ml$/
+  }
+};
+
+export const CONTENT_CACHE_NAMES = Object.keys(CONTENT_DEFAULTS) as ContentCacheName[];
+
+function envPrefix(name: ContentCacheName): string {
+  return `LUDUS_MCP_${name.toUpperCase().replace(/-/g, '_')}`;
+}
+
+function expandHome(value: string): string {
+  return value.startsWith('~') ? path.join(os.homedir(), value.slice(1)) : value;
+}
+
+function isArchivePath(value: string): boolean {
+  return /\.(tar\.gz|tgz)$/i.test(value);
+}
+
+function isGitUrl(value: string): boolean {
+  return /^(https?|ssh|git|file):\/\//i.test(value) || /^[^/\s]+@[^:\s]+:/.test(value);
+}
+
+/**
+ * Parse a source spec string such as "https://git.internal/ludus.git#v1.2::docs/docs"
+ */
+export function parseContentSourceSpec(spec: string): ContentSourceLocation {
+  let value = spec.trim();
+  if (!value) {
+    throw new Error('Empty content source');
+  }
+
+  let forced: ContentSourceLocation['type'] | undefined;
+  const prefix = value.match(/^(git|local|archive):(?!\/\/)/);
+  if (prefix) {
+    forced = prefix[1] as ContentSourceLocation['type'];
+    value = value.slice(prefix[0].length);
+  }
+
+  let subPath: string | undefined;
+  const subPathIndex = value.lastIndexOf('::');
+  if (subPathIndex !== -1) {
+    subPath = value.slice(subPathIndex + 2).replace(/^\/+|\/+$/g, '') || undefined;
+    value = value.slice(0, subPathIndex);
+  }
+
+  const type = forced || (isArchivePath(value) ? 'archive' : isGitUrl(value) ? 'git' : 'local');
+
+  if (type === 'git') {
+    const [url, ref] = value.split('#', 2) as [string, string | undefined];
+    const location: ContentSourceLocation = { type: 'git', url };
+    if (ref) location.ref = ref;
+    if (subPath) location.subPath = subPath;
+    return location;
+  }
+
+  const location: ContentSourceLocation = { type, path: path.resolve(expandHome(value)) };
+  if (subPath) location.subPath = subPath;
+  return location;
+}
+
+/**
+ * Parse one entry of a content_sources list in the config file: a spec string or
+ * { git: url, ref?, path? } / { local: dir, path? } / { archive: file, path? }
+ */
+function parseConfigSource(entry: any): ContentSourceLocation {
+  if (typeof entry === 'string') {
+    return parseContentSourceSpec(entry);
+  }
+  if (!entry || typeof entry !== 'object') {
+    throw new Error(`Invalid content source: ${JSON.stringify(entry)}`);
+  }
+
+  let location: ContentSourceLocation;
+  if (typeof entry.git === 'string') {
+    location = { type: 'git', url: entry.git };
+    if (entry.ref) location.ref = String(entry.ref);
+  } else if (typeof entry.local === 'string') {
+    location = { type: 'local', path: path.resolve(expandHome(entry.local)) };
+  } else if (typeof entry.archive === 'string') {
+    location = { type: 'archive', path: path.resolve(expandHome(entry.archive)) };
+  } else {
+    throw new Error(`Content source needs one of git, local or archive: ${JSON.stringify(entry)}`);
+  }
+
+  if (typeof entry.path === 'string' && entry.path.trim()) {
+    location.subPath = entry.path.trim().replace(/^\/+|\/+$/g, '');
+  }
+  return location;
+}
+
+function parseMode(value: unknown, where: string): ContentSourceMode {
+  if (value === 'first' || value === 'merge') {
+    return value;
+  }
+  throw new Error(`${where}: mode must be "first" or "merge", got ${JSON.stringify(value)}`);
+}
+
+function parseMaxAge(value: unknown, where: string): number {
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(`${where}: max_age_hours must be a non-negative number, got ${JSON.stringify(value)}`);
+  }
+  return hours;
+}
+
+/**
+ * Parsed MCP config file (~/.ludus-mcp/config.yml, or LUDUS_MCP_CONFIG); {} when missing or unreadable
+ */
+export function loadMcpConfigFile(logger?: Logger): any {
+  const configPath = process.env.LUDUS_MCP_CONFIG ? expandHome(process.env.LUDUS_MCP_CONFIG) : MCP_CONFIG_PATH;
+  if (!existsSync(configPath)) {
+    return {};
+  }
+  try {
+    const content = yaml.load(readFileSync(configPath, 'utf-8')) as any;
+    logger?.debug('Loaded MCP config file', { path: configPath });
+    return content && typeof content === 'object' ? content : {};
+  } catch (error) {
+    logger?.warn('Failed to read MCP config file, using defaults', {
+      path: configPath,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return {};
+  }
+}
+
+function readConfigFile(logger?: Logger): any {
+  return loadMcpConfigFile(logger).content_sources || {};
+}
+
+/**
+ * Resolve the content spec of every cache from defaults, the config file and the environment.
+ * Invalid entries are reported and that level is skipped, so a typo never disables syncing.
+ */
+export function resolveContentSpecs(logger?: Logger): Record<ContentCacheName, ContentSpec> {
+  const fileConfig = readConfigFile(logger);
+  const specs = {} as Record<ContentCacheName, ContentSpec>;
+
+  let globalMaxAge = DEFAULT_MAX_AGE_HOURS;
+  try {
+    if (fileConfig.max_age_hours !== undefined) {
+      globalMaxAge = parseMaxAge(fileConfig.max_age_hours, 'content_sources');
+    }
+    if (process.env.LUDUS_MCP_CONTENT_MAX_AGE_HOURS) {
+      globalMaxAge = parseMaxAge(process.env.LUDUS_MCP_CONTENT_MAX_AGE_HOURS, 'LUDUS_MCP_CONTENT_MAX_AGE_HOURS');
+    }
+  } catch (error) {
+    logger?.warn('Ignoring invalid content max age', { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  for (const name of CONTENT_CACHE_NAMES) {
+    const spec: ContentSpec = { ...CONTENT_DEFAULTS[name], maxAgeHours: globalMaxAge, configuredBy: 'default' };
+
+    // Config file: either a list of sources or { sources, mode, max_age_hours }
+    const fileEntry = fileConfig[name];
+    if (fileEntry !== undefined) {
+      try {
+        const list = Array.isArray(fileEntry) ? fileEntry : fileEntry.sources;
+        if (list !== undefined) {
+          const sources = (Array.isArray(list) ? list : [list]).map(parseConfigSource);
+          if (sources.length > 0) {
+            spec.sources = sources;
+            spec.configuredBy = 'config';
+          }
+        }
+        if (!Array.isArray(fileEntry) && fileEntry.mode !== undefined) {
+          spec.mode = parseMode(fileEntry.mode, `content_sources.${name}`);
+        }
+        if (!Array.isArray(fileEntry) && fileEntry.max_age_hours !== undefined) {
+          spec.maxAgeHours = parseMaxAge(fileEntry.max_age_hours, `content_sources.${name}`);
+        }
+      } catch (error) {
+        logger?.warn(`Ignoring invalid content_sources.${name} in MCP config`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Environment overrides
+    const prefix = envPrefix(name);
+    const envSources = process.env[`${prefix}_SOURCES`];
+    if (envSources) {
+      try {
+        spec.sources = envSources.split(',').filter(part => part.trim()).map(parseContentSourceSpec);
+        spec.configuredBy = 'env';
+      } catch (error) {
+        logger?.warn(`Ignoring invalid ${prefix}_SOURCES`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    const envMode = process.env[`${prefix}_SOURCE_MODE`];
+    if (envMode) {
+      try {
+        spec.mode = parseMode(envMode, `${prefix}_SOURCE_MODE`);
+      } catch (error) {
+        logger?.warn(`Ignoring invalid ${prefix}_SOURCE_MODE`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    specs[name] = spec;
+  }
+
+  return specs;
+}
+
+export function resolveContentSpec(name: ContentCacheName, logger?: Logger): ContentSpec {
+  return resolveContentSpecs(logger)[name];
+}
+
+/**
+ * Human-readable form of a source, also used as its identity in the manifest
+ */
+export function describeContentSource(source: ContentSourceLocation): string {
+  const subPath = source.subPath ? `::${source.subPath}` : '';
+  if (source.type === 'git') {
+    return `git:${source.url}${source.ref ? `#${source.ref}` : ''}${subPath}`;
+  }
+  return `${source.type}:${source.path}${subPath}`;
+}
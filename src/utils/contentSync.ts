@@ -0,0 +1,507 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { Logger } from './logger.js';
+import {
+  ContentCacheName,
+  ContentSourceLocation,
+  ContentSourceMode,
+  ContentSpec,
+  describeContentSource,
+  resolveContentSpecs
+} from './contentSources.js';
+
+/**
+ * Shared refresh logic for the synced caches (docs, schemas, base configs).
+ *
+ * Each cache is built from its configured sources (git repositories, local directories
+ * or .tar.gz bundles, see contentSources.ts) in a staging directory and only swapped
+ * into place once every needed source produced the expected files, so an offline start
+ * or a broken mirror never destroys a working cache. Each sync records the sources used,
+ * their revision and the fetch time in ~/.ludus-mcp/content-manifest.json. Caches built
+ * from git are not re-fetched while younger than their max age; local directories and
+ * archives are cheap to check and are re-read on every sync (and copied only when changed).
+ */
+
+const LUDUS_MCP_DIR = path.join(os.homedir(), '.ludus-mcp');
+const MANIFEST_PATH = path.join(LUDUS_MCP_DIR, 'content-manifest.json');
+const MANIFEST_VERSION = 2;
+
+// Never let an unreachable remote or a huge bundle hang server startup
+const GIT_TIMEOUT_MS = 120000;
+const TAR_TIMEOUT_MS = 120000;
+
+export interface ContentManifestEntry {
+  name: ContentCacheName;
+  mode: ContentSourceMode;
+  sources: string[];            // configured sources, in precedence order
+  usedSources?: string[];       // sources the cached content was built from
+  targetDir: string;
+  revision?: string;            // git commit or content hash of the used sources ('+'-joined when merged)
+  fetchedAt?: string;           // last successful sync (ISO timestamp)
+  fileCount?: number;
+  lastAttemptAt: string;
+  lastError?: string;           // set when the most recent attempt failed
+}
+
+interface ContentManifest {
+  version: number;
+  caches: Partial<Record<ContentCacheName, ContentManifestEntry>>;
+}
+
+export type ContentSyncStatus = 'updated' | 'unchanged' | 'fresh' | 'failed';
+
+export interface ContentSyncResult {
+  name: ContentCacheName;
+  status: ContentSyncStatus;
+  revision?: string;
+  usedSources?: string[];
+  fetchedAt?: string;
+  fileCount?: number;
+  error?: string;
+}
+
+export interface ContentCacheStatus {
+  name: ContentCacheName;
+  description: string;
+  targetDir: string;
+  exists: boolean;
+  fileCount: number;
+  mode: ContentSourceMode;
+  sources: string[];
+  configuredBy: ContentSpec['configuredBy'];
+  usedSources?: string[];
+  sourcesChanged: boolean;      // the cache was built from a different source list than is configured now
+  revision?: string;
+  fetchedAt?: string;
+  ageHours?: number;
+  maxAgeHours: number;
+  fresh: boolean;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+interface FetchedSource {
+  label: string;
+  dir: string;                  // directory holding the content to copy
+  revision: string;
+}
+
+export async function readContentManifest(): Promise<ContentManifest> {
+  try {
+    const manifest: ContentManifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf-8'));
+    if (manifest.version === MANIFEST_VERSION && manifest.caches) {
+      return manifest;
+    }
+  } catch {
+    // Missing or unreadable manifest; start a new one
+  }
+  return { version: MANIFEST_VERSION, caches: {} };
+}
+
+async function updateManifestEntry(entry: ContentManifestEntry): Promise<void> {
+  const manifest = await readContentManifest();
+  manifest.caches[entry.name] = entry;
+
+  await fs.mkdir(LUDUS_MCP_DIR, { recursive: true });
+  const tempPath = `${MANIFEST_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  await fs.rename(tempPath, MANIFEST_PATH);
+}
+
+function hoursSince(timestamp: string | undefined): number | undefined {
+  if (!timestamp) {
+    return undefined;
+  }
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? undefined : (Date.now() - time) / 3600000;
+}
+
+async function directoryExists(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function countFiles(dir: string, pattern?: RegExp): Promise<number> {
+  let count = 0;
+  try {
+    const items = await fs.readdir(dir, { withFileTypes: true });
+    for (const item of items) {
+      if (item.isDirectory()) {
+        count += await countFiles(path.join(dir, item.name), pattern);
+      } else if (item.isFile() && (!pattern || pattern.test(item.name))) {
+        count++;
+      }
+    }
+  } catch {
+    // Directory doesn't exist or can't be read
+  }
+  return count;
+}
+
+/**
+ * Windows-safe recursive directory copy
+ */
+async function copyDirectoryRecursive(source: string, destination: string): Promise<void> {
+  await fs.mkdir(destination, { recursive: true });
+
+  const items = await fs.readdir(source, { withFileTypes: true });
+  for (const item of items) {
+    const sourcePath = path.join(source, item.name);
+    const destPath = path.join(destination, item.name);
+
+    if (item.isDirectory()) {
+      await copyDirectoryRecursive(sourcePath, destPath);
+    } else if (item.isFile()) {
+      await fs.copyFile(sourcePath, destPath);
+    }
+  }
+}
+
+/**
+ * Windows-safe directory removal
+ */
+async function removeDirectorySafe(dirPath: string): Promise<void> {
+  try {
+    await fs.rm(dirPath, { recursive: true, force: true });
+  } catch {
+    // Directory doesn't exist or couldn't be removed - that's fine for cleanup
+  }
+}
+
+/**
+ * git and tar failures embed the whole command and stderr; keep the "fatal:"/"tar:" lines
+ */
+function summarizeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const fatal = message.split('\n').filter(line => line.startsWith('fatal:') || line.startsWith('tar:'));
+  return fatal.length > 0 ? fatal.join(' ') : message.split('\n')[0]!;
+}
+
+/**
+ * Replace targetDir with stagedDir. The old directory is moved aside first and restored
+ * if the swap fails, so targetDir is never left missing.
+ */
+async function swapIntoPlace(stagedDir: string, targetDir: string): Promise<void> {
+  const backupDir = `${targetDir}.previous`;
+  await removeDirectorySafe(backupDir);
+
+  const hadTarget = await directoryExists(targetDir);
+  if (hadTarget) {
+    await fs.rename(targetDir, backupDir);
+  }
+
+  try {
+    await fs.rename(stagedDir, targetDir);
+  } catch (error) {
+    if (hadTarget) {
+      await fs.rename(backupDir, targetDir);
+    }
+    throw error;
+  }
+
+  await removeDirectorySafe(backupDir);
+}
+
+/**
+ * Short form of a revision for logs and tables (git commits are cut to 12 characters)
+ */
+export function shortRevision(revision: string): string {
+  return revision.split('+').map(part => /^[0-9a-f]{40}$/.test(part) ? part.slice(0, 12) : part).join('+');
+}
+
+function hashToRevision(hash: crypto.Hash): string {
+  return `sha256:${hash.digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Fingerprint of a local directory from its file paths, sizes and modification times
+ */
+async function fingerprintDirectory(dir: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const walk = async (current: string): Promise<void> => {
+    const items = (await fs.readdir(current, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const item of items) {
+      const itemPath = path.join(current, item.name);
+      if (item.isDirectory()) {
+        if (item.name !== '.git') {
+          await walk(itemPath);
+        }
+      } else if (item.isFile()) {
+        const stats = await fs.stat(itemPath);
+        hash.update(`${path.relative(dir, itemPath)}\0${stats.size}\0${stats.mtimeMs}\n`);
+      }
+    }
+  };
+  await walk(dir);
+  return hashToRevision(hash);
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await new Promise<void>((resolve, reject) => {
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+  return hashToRevision(hash);
+}
+
+/**
+ * Shallow clone of a git source (sparse when only a subdirectory is needed); returns the
+ * commit that was checked out
+ */
+function cloneGitSource(source: Extract<ContentSourceLocation, { type: 'git' }>, cloneDir: string): string {
+  const options = { stdio: 'pipe' as const, timeout: GIT_TIMEOUT_MS };
+  const args = ['clone', '--depth', '1'];
+  if (source.subPath) args.push('--filter=blob:none', '--sparse');
+  if (source.ref) args.push('--branch', source.ref);
+
+  execFileSync('git', [...args, source.url, cloneDir], options);
+  if (source.subPath) {
+    execFileSync('git', ['-C', cloneDir, 'sparse-checkout', 'set', source.subPath], options);
+  }
+  return execFileSync('git', ['-C', cloneDir, 'rev-parse', 'HEAD'], options).toString().trim();
+}
+
+/**
+ * Make one source available on disk and identify its revision. Git sources are cloned and
+ * archives extracted into workDir; local directories are read in place.
+ */
+async function fetchSource(source: ContentSourceLocation, spec: ContentSpec, workDir: string): Promise<FetchedSource> {
+  const label = describeContentSource(source);
+  let dir: string;
+  let revision: string;
+
+  switch (source.type) {
+    case 'git': {
+      const cloneDir = path.join(workDir, 'repo');
+      revision = cloneGitSource(source, cloneDir);
+      dir = path.join(cloneDir, source.subPath || '');
+      break;
+    }
+    case 'local': {
+      dir = path.join(source.path, source.subPath || '');
+      if (!(await directoryExists(dir))) {
+        throw new Error(`Directory not found: ${dir}`);
+      }
+      revision = await fingerprintDirectory(dir);
+      break;
+    }
+    case 'archive': {
+      await fs.access(source.path).catch(() => {
+        throw new Error(`Archive not found: ${source.path}`);
+      });
+      revision = await hashFile(source.path);
+      const extractDir = path.join(workDir, 'archive');
+      await fs.mkdir(extractDir, { recursive: true });
+      execFileSync('tar', ['-xzf', source.path, '-C', extractDir], { stdio: 'pipe', timeout: TAR_TIMEOUT_MS });
+
+      dir = extractDir;
+      if (source.subPath) {
+        dir = path.join(extractDir, source.subPath);
+      } else {
+        // Bundles usually wrap everything in one top-level directory
+        const entries = await fs.readdir(extractDir, { withFileTypes: true });
+        if (entries.length === 1 && entries[0]!.isDirectory()) {
+          dir = path.join(extractDir, entries[0]!.name);
+        }
+      }
+      break;
+    }
+  }
+
+  const matching = await countFiles(dir, spec.requiredPattern);
+  if (matching === 0) {
+    throw new Error(`${source.subPath || 'Source'} contains no files matching ${spec.requiredPattern}`);
+  }
+
+  return { label, dir, revision };
+}
+
+function sameList(a: string[] | undefined, b: string[]): boolean {
+  return !!a && a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Refresh one cache from its configured sources. Never throws: failures leave the
+ * existing cache untouched and are reported in the result and the manifest.
+ *
+ * In 'first' mode sources are tried in order and the first one that succeeds is used.
+ * In 'merge' mode every source must succeed; they are overlaid so that earlier sources
+ * win on conflicting files.
+ */
+export async function syncContentCache(
+  spec: ContentSpec,
+  logger: Logger,
+  options: { force?: boolean } = {}
+): Promise<ContentSyncResult> {
+  const manifest = await readContentManifest();
+  const previous = manifest.caches[spec.name];
+  const targetExists = await directoryExists(spec.targetDir);
+  const labels = spec.sources.map(describeContentSource);
+  const sameSources = previous?.mode === spec.mode && sameList(previous?.sources, labels);
+
+  // Fresh enough: no network access at all. Only caches built purely from git are
+  // skipped; local directories and archives are re-checked every time.
+  const age = hoursSince(previous?.fetchedAt);
+  const builtFromGit = !!previous?.usedSources && previous.usedSources.every(label => label.startsWith('git:'));
+  if (!options.force && targetExists && sameSources && builtFromGit && age !== undefined && age < spec.maxAgeHours) {
+    logger.info(`${spec.description} cache is fresh, skipping refresh`, {
+      cache: spec.name,
+      revision: previous?.revision && shortRevision(previous.revision),
+      ageHours: Math.round(age * 10) / 10
+    });
+    const result: ContentSyncResult = { name: spec.name, status: 'fresh' };
+    if (previous?.revision) result.revision = previous.revision;
+    if (previous?.usedSources) result.usedSources = previous.usedSources;
+    if (previous?.fetchedAt) result.fetchedAt = previous.fetchedAt;
+    if (previous?.fileCount !== undefined) result.fileCount = previous.fileCount;
+    return result;
+  }
+
+  const stagingRoot = path.join(LUDUS_MCP_DIR, `.sync-${spec.name}`);
+  // Staged next to the target so the final rename stays on one filesystem
+  const stagedDir = `${spec.targetDir}.staging`;
+  const attemptedAt = new Date().toISOString();
+
+  const baseEntry: ContentManifestEntry = {
+    name: spec.name,
+    mode: spec.mode,
+    sources: labels,
+    targetDir: spec.targetDir,
+    lastAttemptAt: attemptedAt
+  };
+
+  try {
+    logger.info(`Refreshing ${spec.description}...`, { cache: spec.name, mode: spec.mode, sources: labels });
+    await removeDirectorySafe(stagingRoot);
+    await removeDirectorySafe(stagedDir);
+    await fs.mkdir(path.dirname(spec.targetDir), { recursive: true });
+    await fs.mkdir(stagingRoot, { recursive: true });
+
+    const fetched: FetchedSource[] = [];
+    const sourceErrors: string[] = [];
+    for (const [index, source] of spec.sources.entries()) {
+      const label = labels[index]!;
+      try {
+        fetched.push(await fetchSource(source, spec, path.join(stagingRoot, `source-${index}`)));
+      } catch (error) {
+        const message = summarizeError(error);
+        if (spec.mode === 'merge') {
+          throw new Error(`${label}: ${message}`);
+        }
+        logger.warn(`Content source unavailable, trying the next one`, { cache: spec.name, source: label, error: message });
+        sourceErrors.push(`${label}: ${message}`);
+        continue;
+      }
+      if (spec.mode === 'first') {
+        break;
+      }
+    }
+    if (fetched.length === 0) {
+      throw new Error(sourceErrors.length > 0 ? sourceErrors.join('; ') : 'No content sources configured');
+    }
+
+    const revision = fetched.map(source => source.revision).join('+');
+    const usedSources = fetched.map(source => source.label);
+
+    if (targetExists && sameSources && previous?.revision === revision && sameList(previous?.usedSources, usedSources)) {
+      const fileCount = await countFiles(spec.targetDir);
+      await updateManifestEntry({ ...baseEntry, usedSources, revision, fetchedAt: attemptedAt, fileCount });
+      logger.info(`${spec.description} already up to date`, { cache: spec.name, revision: shortRevision(revision) });
+      return { name: spec.name, status: 'unchanged', revision, usedSources, fetchedAt: attemptedAt, fileCount };
+    }
+
+    // Build the complete new directory before touching the live one. Lower-precedence
+    // sources are copied first so earlier ones overwrite them.
+    if (spec.preserveLocalFiles && targetExists) {
+      await copyDirectoryRecursive(spec.targetDir, stagedDir);
+    }
+    for (const source of [...fetched].reverse()) {
+      await copyDirectoryRecursive(source.dir, stagedDir);
+    }
+
+    await swapIntoPlace(stagedDir, spec.targetDir);
+
+    const fileCount = await countFiles(spec.targetDir);
+    await updateManifestEntry({ ...baseEntry, usedSources, revision, fetchedAt: attemptedAt, fileCount });
+    logger.info(`Updated ${spec.description}`, {
+      cache: spec.name,
+      sources: usedSources,
+      revision: shortRevision(revision),
+      previousRevision: previous?.revision && shortRevision(previous.revision),
+      files: fileCount
+    });
+
+    return { name: spec.name, status: 'updated', revision, usedSources, fetchedAt: attemptedAt, fileCount };
+  } catch (error) {
+    const errorMessage = summarizeError(error);
+    await removeDirectorySafe(stagedDir);
+
+    // The manifest keeps describing what is on disk; only the failed attempt is recorded
+    const entry: ContentManifestEntry = { ...(previous || baseEntry), lastAttemptAt: attemptedAt, lastError: errorMessage };
+    try {
+      await updateManifestEntry(entry);
+    } catch {
+      // Manifest is informational; a write failure must not mask the sync error
+    }
+
+    logger.warn(`Failed to refresh ${spec.description}; ${targetExists ? 'keeping the existing cache' : 'no cached copy is available'}`, {
+      cache: spec.name,
+      error: errorMessage,
+      cachedRevision: previous?.revision && shortRevision(previous.revision),
+      cachedAt: previous?.fetchedAt
+    });
+    return { name: spec.name, status: 'failed', error: errorMessage };
+  } finally {
+    await removeDirectorySafe(stagingRoot);
+  }
+}
+
+/**
+ * Sources, age, revision and health of every content cache, for content_sync_status
+ */
+export async function getContentCacheStatus(logger?: Logger): Promise<ContentCacheStatus[]> {
+  const manifest = await readContentManifest();
+  const specs = resolveContentSpecs(logger);
+  const statuses: ContentCacheStatus[] = [];
+
+  for (const spec of Object.values(specs)) {
+    const entry = manifest.caches[spec.name];
+    const exists = await directoryExists(spec.targetDir);
+    const ageHours = hoursSince(entry?.fetchedAt);
+    const sources = spec.sources.map(describeContentSource);
+
+    const status: ContentCacheStatus = {
+      name: spec.name,
+      description: spec.description,
+      targetDir: spec.targetDir,
+      exists,
+      fileCount: exists ? await countFiles(spec.targetDir) : 0,
+      mode: spec.mode,
+      sources,
+      configuredBy: spec.configuredBy,
+      sourcesChanged: !!entry && !(entry.mode === spec.mode && sameList(entry.sources, sources)),
+      maxAgeHours: spec.maxAgeHours,
+      fresh: exists && ageHours !== undefined && ageHours < spec.maxAgeHours
+    };
+    if (entry?.usedSources) status.usedSources = entry.usedSources;
+    if (entry?.revision) status.revision = entry.revision;
+    if (entry?.fetchedAt) status.fetchedAt = entry.fetchedAt;
+    if (ageHours !== undefined) status.ageHours = Math.round(ageHours * 10) / 10;
+    if (entry?.lastAttemptAt) status.lastAttemptAt = entry.lastAttemptAt;
+    if (entry?.lastError) status.lastError = entry.lastError;
+
+    statuses.push(status);
+  }
+
+  return statuses;
+}
@@ -0,0 +1,339 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { Logger } from './logger.js';
+import { MarkdownSection, splitMarkdownSections } from './markdownSections.js';
+
+/**
+ * Persistent inverted index over the cached Ludus documentation (~/.ludus-mcp/docs).
+ *
+ * Markdown files are split into sections at headings; each section is one indexed
+ * document. Queries are scored with BM25, with heading matches boosted, and support
+ * quoted phrases ("child domain") alongside plain terms.
+ */
+
+const LUDUS_MCP_DIR = path.join(os.homedir(), '.ludus-mcp');
+export const DOCS_DIR = path.join(LUDUS_MCP_DIR, 'docs');
+// Kept outside docs/ because the docs directory is replaced on every refresh
+const INDEX_PATH = path.join(LUDUS_MCP_DIR, 'docs-index.json');
+
+// Bump when the on-disk format or tokenization changes
+const INDEX_VERSION = 2;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const HEADING_BOOST = 3;
+const PHRASE_BOOST = 2;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'which', 'will', 'with', 'you', 'your'
+]);
+
+export interface DocsSection extends MarkdownSection {
+  path: string;          // relative to ~/.ludus-mcp/docs, forward slashes
+  length: number;        // token count, for BM25 length normalization
+}
+
+// [section index, body term frequency, heading term frequency, token positions]
+type Posting = [number, number, number, number[]];
+
+export interface DocsIndex {
+  version: number;
+  builtAt: string;
+  fingerprint: string;
+  sections: DocsSection[];
+  averageLength: number;
+  postings: Record<string, Posting[]>;
+}
+
+export interface DocsSearchOptions {
+  pathPrefix?: string;   // e.g. "environment-guides/"
+  paths?: string[];      // restrict to these files
+  maxResults?: number;
+}
+
+export interface DocsSearchHit {
+  path: string;
+  anchor: string;        // section anchor; read it with file_path "<path>#<anchor>"
+  heading: string;
+  headingPath: string[];
+  score: number;
+  snippet: string;
+  text: string;          // full section text
+  matchedTerms: string[];
+}
+
+let memoryIndex: DocsIndex | null = null;
+
+/**
+ * Light suffix stripping so "trusts"/"trusted"/"trusting" match "trust"
+ */
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 4 && token.endsWith('sses')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Split text into normalized terms. Underscores, dots and dashes separate words, so
+ * "ludus_child_domain" matches a search for "child domain".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+async function findMarkdownFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  try {
+    const items = await fs.readdir(dir, { withFileTypes: true });
+    for (const item of items) {
+      const fullPath = path.join(dir, item.name);
+      if (item.isDirectory()) {
+        files.push(...await findMarkdownFiles(fullPath));
+      } else if (item.isFile() && (item.name.endsWith('.md') || item.name.endsWith('.mdx'))) {
+        files.push(fullPath);
+      }
+    }
+  } catch {
+    // Directory doesn't exist or can't be read
+  }
+  return files.sort();
+}
+
+/**
+ * Hash of file names, sizes and modification times; changes whenever the docs are refreshed
+ */
+async function fingerprintDocs(files: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    const stats = await fs.stat(file);
+    hash.update(`${path.relative(DOCS_DIR, file)}:${stats.size}:${stats.mtimeMs}\n`);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Build the index from the markdown files currently in ~/.ludus-mcp/docs
+ */
+async function buildIndex(files: string[], fingerprint: string): Promise<DocsIndex> {
+  const sections: DocsSection[] = [];
+  const postings: Record<string, Posting[]> = {};
+  let totalLength = 0;
+
+  for (const file of files) {
+    const relativePath = path.relative(DOCS_DIR, file).split(path.sep).join('/');
+    const content = await fs.readFile(file, 'utf-8');
+
+    for (const section of splitMarkdownSections(content)) {
+      const sectionIndex = sections.length;
+      const headingTokens = tokenize(section.headingPath.join(' '));
+      const bodyTokens = tokenize(section.text);
+      const termStats = new Map<string, Posting>();
+
+      bodyTokens.forEach((token, position) => {
+        const posting = termStats.get(token) || [sectionIndex, 0, 0, []];
+        posting[1]++;
+        posting[3].push(position);
+        termStats.set(token, posting);
+      });
+      for (const token of headingTokens) {
+        const posting = termStats.get(token) || [sectionIndex, 0, 0, []];
+        posting[2]++;
+        termStats.set(token, posting);
+      }
+
+      for (const [term, posting] of termStats) {
+        (postings[term] ||= []).push(posting);
+      }
+
+      sections.push({ ...section, path: relativePath, length: bodyTokens.length });
+      totalLength += bodyTokens.length;
+    }
+  }
+
+  return {
+    version: INDEX_VERSION,
+    builtAt: new Date().toISOString(),
+    fingerprint,
+    sections,
+    averageLength: sections.length > 0 ? totalLength / sections.length : 0,
+    postings
+  };
+}
+
+/**
+ * Rebuild and persist the docs index. Called after the docs are downloaded.
+ */
+export async function rebuildDocsIndex(logger: Logger): Promise<DocsIndex> {
+  const files = await findMarkdownFiles(DOCS_DIR);
+  const fingerprint = await fingerprintDocs(files);
+  const index = await buildIndex(files, fingerprint);
+
+  try {
+    const tempPath = `${INDEX_PATH}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index), 'utf-8');
+    await fs.rename(tempPath, INDEX_PATH);
+  } catch (error) {
+    logger.warn('Failed to persist docs index (search will rebuild it in memory)', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  memoryIndex = index;
+  logger.info('Built docs search index', {
+    files: files.length,
+    sections: index.sections.length,
+    terms: Object.keys(index.postings).length
+  });
+  return index;
+}
+
+/**
+ * Current docs index: in memory, then on disk, rebuilt when the docs have changed
+ */
+export async function getDocsIndex(logger: Logger): Promise<DocsIndex> {
+  const files = await findMarkdownFiles(DOCS_DIR);
+  const fingerprint = await fingerprintDocs(files);
+
+  if (memoryIndex && memoryIndex.fingerprint === fingerprint) {
+    return memoryIndex;
+  }
+
+  try {
+    const stored: DocsIndex = JSON.parse(await fs.readFile(INDEX_PATH, 'utf-8'));
+    if (stored.version === INDEX_VERSION && stored.fingerprint === fingerprint) {
+      memoryIndex = stored;
+      return stored;
+    }
+  } catch {
+    // No index yet or unreadable; rebuild below
+  }
+
+  logger.info('Docs index missing or out of date, rebuilding');
+  return rebuildDocsIndex(logger);
+}
+
+/**
+ * Split a query into quoted phrases and loose terms
+ */
+function parseQuery(query: string): { phrases: string[][]; terms: string[] } {
+  const phrases: string[][] = [];
+  const loose = query.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 0) phrases.push(tokens);
+    return ' ';
+  });
+
+  const terms = [...new Set([...phrases.flat(), ...tokenize(loose)])];
+  return { phrases, terms };
+}
+
+function containsPhrase(index: DocsIndex, sectionIndex: number, phrase: string[]): boolean {
+  const positionLists = phrase.map(term => index.postings[term]?.find(posting => posting[0] === sectionIndex)?.[3]);
+  if (positionLists.some(positions => !positions || positions.length === 0)) {
+    return false;
+  }
+  const [first, ...rest] = positionLists as number[][];
+  return first!.some(start => rest.every((positions, offset) => positions.includes(start + offset + 1)));
+}
+
+function bestSnippet(section: DocsSection, terms: string[]): string {
+  const lines = section.text.split('\n');
+  let bestIndex = 0;
+  let bestCount = -1;
+
+  lines.forEach((line, index) => {
+    if (/^\s*#/.test(line) && lines.length > 1) return;
+    const lineTerms = new Set(tokenize(line));
+    const count = terms.filter(term => lineTerms.has(term)).length;
+    if (count > bestCount) {
+      bestCount = count;
+      bestIndex = index;
+    }
+  });
+
+  const context = lines.slice(Math.max(0, bestIndex - 1), bestIndex + 2)
+    .filter(line => !/^\s*#{1,6}\s/.test(line))
+    .join(' ').replace(/\s+/g, ' ').trim();
+  return context.length > 240 ? `${context.substring(0, 240)}...` : context;
+}
+
+/**
+ * Ranked search over the docs index
+ */
+export function searchDocsIndex(index: DocsIndex, query: string, options: DocsSearchOptions = {}): DocsSearchHit[] {
+  const { phrases, terms } = parseQuery(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const inScope = (section: DocsSection) =>
+    (!options.pathPrefix || section.path.startsWith(options.pathPrefix)) &&
+    (!options.paths || options.paths.includes(section.path));
+
+  const sectionCount = index.sections.length;
+  const scores = new Map<number, { score: number; matched: Set<string> }>();
+
+  for (const term of terms) {
+    const postings = index.postings[term] || [];
+    const idf = Math.log(1 + (sectionCount - postings.length + 0.5) / (postings.length + 0.5));
+
+    for (const [sectionIndex, bodyTf, headingTf] of postings) {
+      const section = index.sections[sectionIndex]!;
+      if (!inScope(section)) continue;
+
+      const tf = bodyTf + HEADING_BOOST * headingTf;
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * (section.length / (index.averageLength || 1)));
+      const entry = scores.get(sectionIndex) || { score: 0, matched: new Set<string>() };
+      entry.score += idf * (tf * (BM25_K1 + 1)) / (tf + norm);
+      entry.matched.add(term);
+      scores.set(sectionIndex, entry);
+    }
+  }
+
+  const hits: DocsSearchHit[] = [];
+  for (const [sectionIndex, entry] of scores) {
+    const section = index.sections[sectionIndex]!;
+
+    // Quoted phrases are required; sections containing them rank higher
+    if (phrases.length > 0 && !phrases.every(phrase => containsPhrase(index, sectionIndex, phrase))) {
+      continue;
+    }
+
+    // Favour sections that match every query term over ones repeating a single term
+    const coverage = entry.matched.size / terms.length;
+    const score = entry.score * coverage * (phrases.length > 0 ? PHRASE_BOOST : 1);
+    hits.push({
+      path: section.path,
+      anchor: section.anchor,
+      heading: section.heading,
+      headingPath: section.headingPath,
+      score: Math.round(score * 1000) / 1000,
+      snippet: bestSnippet(section, terms),
+      text: section.text,
+      matchedTerms: [...entry.matched]
+    });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxResults ?? 10);
+}
+
+/**
+ * Convenience wrapper: load (or rebuild) the index and search it
+ */
+export async function searchDocs(query: string, logger: Logger, options: DocsSearchOptions = {}): Promise<DocsSearchHit[]> {
+  const index = await getDocsIndex(logger);
+  return searchDocsIndex(index, query, options);
+}
@@ -1,108 +1,78 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import { execSync } from 'child_process';
 import { Logger } from './logger.js';
+import { rebuildDocsIndex } from './docsIndex.js';
+import { syncContentCache, shortRevision } from './contentSync.js';
+import { resolveContentSpec } from './contentSources.js';
 
-export async function downloadLudusDocumentation(logger: Logger): Promise<void> {
-  const repoUrl = 'https://gitlab.com/badsectorlabs/ludus.git';
-  const targetPath = 'docs/docs';
-  const ludusConfigDir = path.join(os.homedir(), '.ludus-mcp');
-  const docsDir = path.join(ludusConfigDir, 'docs');
-  const tempDir = path.join(ludusConfigDir, 'temp-docs-download');
+export async function downloadLudusDocumentation(logger: Logger, options: { force?: boolean } = {}): Promise<void> {
+  const spec = resolveContentSpec('docs', logger);
+  const docsDir = spec.targetDir;
 
-  try {
-    logger.info('Downloading fresh Ludus documentation...');
-
-    // Ensure .ludus-mcp directory exists
-    await fs.mkdir(ludusConfigDir, { recursive: true });
-
-    // Clean up any existing temp and docs directories (Windows-safe)
-    await removeDirectorySafe(tempDir);
-    await removeDirectorySafe(docsDir);
-
-    // Clone only the specific docs folder
-    logger.info('Cloning documentation from GitLab repository...');
-    execSync(`git clone --filter=blob:none --sparse --depth 1 "${repoUrl}" "${tempDir}"`, { stdio: 'pipe' });
-    execSync(`git -C "${tempDir}" sparse-checkout set "${targetPath}"`, { stdio: 'pipe' });
-
-    // Move docs to final location (Windows-safe approach)
-    const sourceDocsPath = path.join(tempDir, targetPath);
-    await copyDirectoryRecursive(sourceDocsPath, docsDir);
-
-    // Verify we got the important subdirectories
-    const importantDirs = ['environment-guides', 'quick-start', 'troubleshooting'];
-    const foundDirs: string[] = [];
-    const missingDirs: string[] = [];
-
-    for (const dirName of importantDirs) {
-      const dirPath = path.join(docsDir, dirName);
-      try {
-        const stat = await fs.stat(dirPath);
-        if (stat.isDirectory()) {
-          const files = await findMarkdownFiles(dirPath);
-          foundDirs.push(`${dirName} (${files.length} files)`);
-        } else {
-          missingDirs.push(dirName);
-        }
-      } catch {
-        missingDirs.push(dirName);
-      }
-    }
+  // Staged clone + atomic swap: an offline start keeps the existing docs
+  const result = await syncContentCache(spec, logger, options);
 
-    // Clean up temp directory
-    await removeDirectorySafe(tempDir);
+  if (result.status === 'failed') {
+    const cached = await findMarkdownFiles(docsDir);
+    if (cached.length === 0) {
+      throw new Error(`Documentation download failed: ${result.error}`);
+    }
+    logger.info(`Using cached Ludus documentation (${cached.length} files)`);
+    return;
+  }
 
-    // Get total file count and structure
-    const allFiles = await findAllFiles(docsDir);
-    const markdownFiles = await findMarkdownFiles(docsDir);
-    
-    logger.info(`Successfully downloaded Ludus documentation to ~/.ludus-mcp/docs/`, {
-      totalFiles: allFiles.length,
-      markdownFiles: markdownFiles.length,
-      foundDirectories: foundDirs,
-      missingDirectories: missingDirs.length > 0 ? missingDirs : undefined
-    });
+  if (result.status !== 'updated') {
+    return;
+  }
 
-    if (foundDirs.length > 0) {
-      logger.info(`📂 Key documentation sections available: ${foundDirs.join(', ')}`);
+  // Verify we got the important subdirectories
+  const importantDirs = ['environment-guides', 'quick-start', 'troubleshooting'];
+  const foundDirs: string[] = [];
+  const missingDirs: string[] = [];
+
+  for (const dirName of importantDirs) {
+    const dirPath = path.join(docsDir, dirName);
+    try {
+      const stat = await fs.stat(dirPath);
+      if (stat.isDirectory()) {
+        const files = await findMarkdownFiles(dirPath);
+        foundDirs.push(`${dirName} (${files.length} files)`);
+      } else {
+        missingDirs.push(dirName);
+      }
+    } catch {
+      missingDirs.push(dirName);
     }
+  }
 
-    if (missingDirs.length > 0) {
-      logger.warn(` Some expected directories were not found: ${missingDirs.join(', ')}`);
-    }
+  const markdownFiles = await findMarkdownFiles(docsDir);
+  
+  logger.info(`Successfully downloaded Ludus documentation to ~/.ludus-mcp/docs/`, {
+    totalFiles: result.fileCount,
+    markdownFiles: markdownFiles.length,
+    sources: result.usedSources,
+    revision: result.revision && shortRevision(result.revision),
+    foundDirectories: foundDirs,
+    missingDirectories: missingDirs.length > 0 ? missingDirs : undefined
+  });
+
+  if (foundDirs.length > 0) {
+    logger.info(`📂 Key documentation sections available: ${foundDirs.join(', ')}`);
+  }
 
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error('Failed to download Ludus documentation', { error: errorMessage });
-    
-    // Clean up on error
-    await removeDirectorySafe(tempDir);
-    throw new Error(`Documentation download failed: ${errorMessage}`);
+  if (missingDirs.length > 0) {
+    logger.warn(` Some expected directories were not found: ${missingDirs.join(', ')}`);
   }
-}
 
-async function findAllFiles(dir: string): Promise<string[]> {
-  const files: string[] = [];
-  
+  // Refresh the search index so queries never run against the previous docs
   try {
-    const items = await fs.readdir(dir, { withFileTypes: true });
-    
-    for (const item of items) {
-      const fullPath = path.join(dir, item.name);
-      
-      if (item.isDirectory()) {
-        const subFiles = await findAllFiles(fullPath);
-        files.push(...subFiles);
-      } else if (item.isFile()) {
-        files.push(fullPath);
-      }
-    }
-  } catch (error) {
-    // Directory doesn't exist or can't be read
+    await rebuildDocsIndex(logger);
+  } catch (indexError) {
+    logger.warn('Failed to build docs search index (it will be rebuilt on first search)', {
+      error: indexError instanceof Error ? indexError.message : String(indexError)
+    });
   }
-  
-  return files.sort();
 }
 
 async function findMarkdownFiles(dir: string): Promise<string[]> {
@@ -167,37 +137,3 @@ async function buildDirectoryTree(dirPath: string, basePath: string): Promise<an
 
   return tree;
 }
-
-/**
- * Windows-safe recursive directory copy
- */
-async function copyDirectoryRecursive(source: string, destination: string): Promise<void> {
-  // Ensure destination directory exists
-  await fs.mkdir(destination, { recursive: true });
-
-  const items = await fs.readdir(source, { withFileTypes: true });
-
-  for (const item of items) {
-    const sourcePath = path.join(source, item.name);
-    const destPath = path.join(destination, item.name);
-
-    if (item.isDirectory()) {
-      await copyDirectoryRecursive(sourcePath, destPath);
-    } else if (item.isFile()) {
-      await fs.copyFile(sourcePath, destPath);
-    }
-  }
-}
-
-/**
- * Windows-safe directory removal
- */
-async function removeDirectorySafe(dirPath: string): Promise<void> {
-  try {
-    await fs.access(dirPath);
-    // Directory exists, try to remove it
-    await fs.rm(dirPath, { recursive: true, force: true });
-  } catch (error) {
-    // Directory doesn't exist or couldn't be removed - that's fine for cleanup
-  }
-} 
\ No newline at end of file
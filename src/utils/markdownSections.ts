@@ -0,0 +1,275 @@
+/**
+ * Markdown parsing shared by the docs tools: heading-delimited sections with stable
+ * anchors, tables of contents, and token-bounded chunks for long pages.
+ */
+
+// Rough size used for chunking; the docs are English prose and YAML, ~4 characters per token
+const CHARS_PER_TOKEN = 4;
+export const DEFAULT_MAX_TOKENS = 4000;
+
+// Anchor of the text before the first heading
+export const PREAMBLE_ANCHOR = 'top';
+
+export interface MarkdownSection {
+  heading: string;       // section heading ('' for text before the first heading)
+  headingPath: string[]; // parent headings from the top of the file down to this one
+  anchor: string;        // GitHub/Docusaurus-style slug, unique within the file
+  level: number;         // heading level, 0 for the preamble
+  startLine: number;     // 1-based
+  endLine: number;
+  text: string;
+}
+
+export interface MarkdownReadOptions {
+  section?: string;      // anchor of the section to return (with its subsections)
+  toc?: boolean;         // return only the table of contents
+  maxTokens?: number;    // chunk size, defaults to DEFAULT_MAX_TOKENS
+  chunk?: number;        // 1-based chunk to return
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Slug for a heading, matching the anchors docs.ludus.cloud generates. An explicit
+ * Docusaurus id ("## Title {#custom-id}") wins.
+ */
+export function slugifyHeading(heading: string): string {
+  const explicit = heading.match(/\{#([^}]+)\}\s*$/);
+  if (explicit) {
+    return explicit[1]!.trim();
+  }
+  return heading
+    .toLowerCase()
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*~]/g, '')
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Split markdown into heading-delimited sections, ignoring '#' lines inside code fences.
+ * Frontmatter is skipped (line numbers are kept); its title becomes the preamble heading.
+ */
+export function splitMarkdownSections(content: string): MarkdownSection[] {
+  const lines = content.split('\n');
+  const sections: MarkdownSection[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  const anchorCounts = new Map<string, number>();
+  let current: MarkdownSection = { heading: '', headingPath: [], anchor: PREAMBLE_ANCHOR, level: 0, startLine: 1, endLine: 1, text: '' };
+  let buffer: string[] = [];
+  let inFence = false;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end > 0) {
+      const title = lines.slice(1, end).map(line => line.match(/^title:\s*["']?(.+?)["']?\s*$/)).find(Boolean);
+      if (title?.[1]) {
+        current.heading = title[1];
+        current.headingPath = [title[1]];
+      }
+      lines.fill('', 0, end + 1);
+    }
+  }
+
+  const uniqueAnchor = (slug: string): string => {
+    const count = anchorCounts.get(slug) || 0;
+    anchorCounts.set(slug, count + 1);
+    return count === 0 ? slug : `${slug}-${count}`;
+  };
+
+  const flush = (endLine: number) => {
+    current.endLine = endLine;
+    current.text = buffer.join('\n').trim();
+    if (current.text) {
+      sections.push(current);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = !inFence ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+    if (heading) {
+      flush(index);
+      const level = heading[1]!.length;
+      const rawText = heading[2]!;
+      const text = rawText.replace(/\{#[^}]*\}\s*$/, '').trim();
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1]!.level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text });
+      current = {
+        heading: text,
+        headingPath: headingStack.map(entry => entry.text),
+        anchor: uniqueAnchor(slugifyHeading(rawText) || 'section'),
+        level,
+        startLine: index + 1,
+        endLine: index + 1,
+        text: ''
+      };
+      buffer = [line];
+      return;
+    }
+    buffer.push(line);
+  });
+  flush(lines.length);
+
+  return sections;
+}
+
+/**
+ * A section together with its subsections (everything up to the next heading of the same or higher level)
+ */
+export function extractSection(content: string, sections: MarkdownSection[], anchor: string): { section: MarkdownSection; text: string } | null {
+  // Accept the anchor itself or the heading text it was generated from
+  const normalized = anchor.replace(/^#/, '').toLowerCase();
+  const slug = slugifyHeading(anchor.replace(/^#/, ''));
+  let index = sections.findIndex(section => section.anchor.toLowerCase() === normalized);
+  if (index === -1) {
+    index = sections.findIndex(section => section.anchor === slug);
+  }
+  if (index === -1) {
+    return null;
+  }
+
+  const section = sections[index]!;
+  let endLine = section.endLine;
+  if (section.level > 0) {
+    for (const next of sections.slice(index + 1)) {
+      if (next.level <= section.level) break;
+      endLine = next.endLine;
+    }
+  }
+
+  const text = content.split('\n').slice(section.startLine - 1, endLine).join('\n').trim();
+  return { section, text };
+}
+
+/**
+ * Indented table of contents with anchors and approximate section sizes
+ */
+export function formatMarkdownToc(sections: MarkdownSection[]): string {
+  const headed = sections.filter(section => section.level > 0);
+  const minLevel = headed.length > 0 ? Math.min(...headed.map(section => section.level)) : 1;
+
+  return sections.map(section => {
+    const indent = '  '.repeat(Math.max(0, section.level - minLevel));
+    const title = section.heading || 'Introduction';
+    return `${indent}- ${title} \`#${section.anchor}\` (~${estimateTokens(section.text)} tokens)`;
+  }).join('\n');
+}
+
+/**
+ * Split text into chunks of at most maxTokens, breaking at headings or blank lines
+ * outside code fences where possible
+ */
+export function chunkMarkdown(text: string, maxTokens: number = DEFAULT_MAX_TOKENS): string[] {
+  const maxChars = Math.max(1, maxTokens) * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  let lastBreak = -1;     // index in current after which a clean break is possible
+  let inFence = false;
+
+  const emit = (count: number) => {
+    chunks.push(current.slice(0, count).join('\n').trim());
+    current = current.slice(count);
+    currentLength = current.reduce((total, line) => total + line.length + 1, 0);
+    lastBreak = -1;
+  };
+
+  for (const line of text.split('\n')) {
+    // Hard-split single lines longer than a whole chunk
+    const pieces = line.length > maxChars ? line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g'))! : [line];
+    for (const piece of pieces) {
+      while (currentLength + piece.length + 1 > maxChars && current.length > 0) {
+        // Prefer the last clean break if it keeps at least half a chunk
+        const breakAt = lastBreak >= 0 && lastBreak + 1 >= current.length / 2 ? lastBreak + 1 : current.length;
+        emit(breakAt);
+      }
+
+      if (/^\s*(```|~~~)/.test(piece)) {
+        inFence = !inFence;
+      }
+      if (!inFence && /^#{1,6}\s/.test(piece) && current.length > 0) {
+        lastBreak = current.length - 1;
+      }
+      current.push(piece);
+      currentLength += piece.length + 1;
+      if (!inFence && piece.trim() === '') {
+        lastBreak = current.length - 1;
+      }
+    }
+  }
+  if (current.length > 0) {
+    emit(current.length);
+  }
+
+  return chunks.filter(chunk => chunk.length > 0);
+}
+
+/**
+ * Read options from the snake_case arguments the docs tools accept
+ */
+export function readOptionsFromArgs(args: { section?: string | undefined; toc?: boolean | undefined; chunk?: number | undefined; max_tokens?: number | undefined }): MarkdownReadOptions {
+  const options: MarkdownReadOptions = {};
+  if (args.section) options.section = args.section;
+  if (args.toc) options.toc = true;
+  if (args.chunk !== undefined) options.chunk = args.chunk;
+  if (args.max_tokens !== undefined) options.maxTokens = args.max_tokens;
+  return options;
+}
+
+/**
+ * Render a markdown document (or one section of it) for a docs tool response: a table
+ * of contents, the requested section, or the requested chunk with a continuation hint
+ */
+export function renderMarkdownDocument(title: string, content: string, options: MarkdownReadOptions = {}): string {
+  const sections = splitMarkdownSections(content);
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+  if (options.toc) {
+    return `**${title}** - Table of contents (~${estimateTokens(content)} tokens)\n\n${formatMarkdownToc(sections)}\n\n` +
+           `Read one section with \`section: "<anchor>"\`.`;
+  }
+
+  let heading = title;
+  let body = content.trim();
+  if (options.section) {
+    const extracted = extractSection(content, sections, options.section);
+    if (!extracted) {
+      return `Section "${options.section}" not found in ${title}. Available sections:\n\n${formatMarkdownToc(sections)}`;
+    }
+    heading = `${title}#${extracted.section.anchor}`;
+    body = extracted.text;
+  }
+
+  const chunks = chunkMarkdown(body, maxTokens);
+  if (chunks.length === 1) {
+    return `**${heading}**\n\n${body}`;
+  }
+
+  const chunkNumber = options.chunk ?? 1;
+  if (chunkNumber < 1 || chunkNumber > chunks.length) {
+    return `Chunk ${chunkNumber} does not exist: ${heading} has ${chunks.length} chunks of up to ~${maxTokens} tokens.`;
+  }
+
+  let output = `**${heading}** (chunk ${chunkNumber} of ${chunks.length}, up to ~${maxTokens} tokens each)\n\n`;
+  if (chunkNumber === 1 && !options.section) {
+    output += `**Contents:**\n${formatMarkdownToc(sections)}\n\n---\n\n`;
+  }
+  output += chunks[chunkNumber - 1];
+  output += chunkNumber < chunks.length
+    ? `\n\n---\n**Next chunk:** repeat this call with \`chunk: ${chunkNumber + 1}\`, or read a single section with \`section: "<anchor>"\`.`
+    : '\n\n---\n(last chunk)';
+
+  return output;
+}
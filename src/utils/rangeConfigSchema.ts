@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { Logger } from './logger.js';
+import { BUNDLED_RANGE_CONFIG_SCHEMA } from './bundledRangeConfigSchema.js';
+
+export const RANGE_CONFIG_SCHEMA_URL = 'https://docs.ludus.cloud/schemas/range-config.json';
+
+/**
+ * Where the range-config schema used for a validation came from
+ */
+export interface RangeConfigSchemaSource {
+  type: 'cache' | 'bundled';
+  version: string;         // sha256:<first 12 hex chars> of the schema file content
+  path?: string;
+  url?: string;
+  fetchedAt?: string;      // ISO timestamp of the download that produced the cached copy
+}
+
+export interface LoadedRangeConfigSchema {
+  schema: any;
+  source: RangeConfigSchemaSource;
+}
+
+export interface RangeConfigSchemaMeta {
+  version: string;
+  url: string;
+  fetchedAt: string;
+}
+
+const SCHEMAS_DIR = path.join(os.homedir(), '.ludus-mcp', 'schemas');
+export const RANGE_CONFIG_SCHEMA_PATH = path.join(SCHEMAS_DIR, 'range-config.json');
+const RANGE_CONFIG_SCHEMA_META_PATH = path.join(SCHEMAS_DIR, 'range-config.meta.json');
+
+// In-memory copy of the cached schema, re-read when the file on disk changes
+let memoryCache: { mtimeMs: number; loaded: LoadedRangeConfigSchema } | null = null;
+let bundledFallbackLogged = false;
+
+function schemaVersion(content: string): string {
+  return `sha256:${createHash('sha256').update(content).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Version, URL and fetch time of the cached schema, or null when it was never downloaded
+ */
+export function readRangeConfigSchemaMeta(): RangeConfigSchemaMeta | null {
+  try {
+    return JSON.parse(fs.readFileSync(RANGE_CONFIG_SCHEMA_META_PATH, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function isSchemaObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+         (value.properties !== undefined || value.definitions !== undefined || value.$defs !== undefined);
+}
+
+/**
+ * The schema shipped with the package, used when no cached copy is available
+ */
+export function getBundledRangeConfigSchema(): LoadedRangeConfigSchema {
+  return {
+    schema: BUNDLED_RANGE_CONFIG_SCHEMA,
+    source: {
+      type: 'bundled',
+      version: schemaVersion(JSON.stringify(BUNDLED_RANGE_CONFIG_SCHEMA)),
+      url: RANGE_CONFIG_SCHEMA_URL
+    }
+  };
+}
+
+/**
+ * Load the range-config schema without touching the network: the cached
+ * ~/.ludus-mcp/schemas/range-config.json first, the bundled schema otherwise
+ */
+export function loadRangeConfigSchema(logger: Logger): LoadedRangeConfigSchema {
+  try {
+    const stats = fs.statSync(RANGE_CONFIG_SCHEMA_PATH);
+    if (memoryCache && memoryCache.mtimeMs === stats.mtimeMs) {
+      return memoryCache.loaded;
+    }
+
+    const content = fs.readFileSync(RANGE_CONFIG_SCHEMA_PATH, 'utf-8');
+    const schema = JSON.parse(content);
+    if (!isSchemaObject(schema)) {
+      throw new Error('file does not contain a JSON schema object');
+    }
+
+    const version = schemaVersion(content);
+    const meta = readRangeConfigSchemaMeta();
+    const source: RangeConfigSchemaSource = {
+      type: 'cache',
+      version,
+      path: RANGE_CONFIG_SCHEMA_PATH,
+      url: meta?.url || RANGE_CONFIG_SCHEMA_URL,
+      // Older installs have no meta file; fall back to the file's modification time
+      fetchedAt: meta && meta.version === version ? meta.fetchedAt : stats.mtime.toISOString()
+    };
+
+    memoryCache = { mtimeMs: stats.mtimeMs, loaded: { schema, source } };
+    bundledFallbackLogged = false;
+    logger.debug('Loaded cached Ludus range-config schema', { ...source });
+    return memoryCache.loaded;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!bundledFallbackLogged) {
+      logger.warn('Cached range-config schema unavailable, using bundled schema', {
+        path: RANGE_CONFIG_SCHEMA_PATH,
+        error: errorMessage
+      });
+      bundledFallbackLogged = true;
+    }
+    memoryCache = null;
+    return getBundledRangeConfigSchema();
+  }
+}
+
+/**
+ * Store a freshly downloaded range-config schema in the cache. Content that is not a
+ * JSON schema is rejected so a bad download never replaces a working copy.
+ */
+export function saveRangeConfigSchema(content: string, logger: Logger, url: string = RANGE_CONFIG_SCHEMA_URL): RangeConfigSchemaSource {
+  const schema = JSON.parse(content);
+  if (!isSchemaObject(schema)) {
+    throw new Error('Downloaded range-config schema is not a JSON schema object');
+  }
+
+  fs.mkdirSync(SCHEMAS_DIR, { recursive: true });
+
+  const version = schemaVersion(content);
+  const previous = readRangeConfigSchemaMeta();
+  const fetchedAt = new Date().toISOString();
+
+  // Write to a temp file and rename so readers never see a partial schema
+  const tempPath = `${RANGE_CONFIG_SCHEMA_PATH}.tmp`;
+  fs.writeFileSync(tempPath, content, 'utf-8');
+  fs.renameSync(tempPath, RANGE_CONFIG_SCHEMA_PATH);
+
+  const meta: RangeConfigSchemaMeta = { version, url, fetchedAt };
+  fs.writeFileSync(RANGE_CONFIG_SCHEMA_META_PATH, JSON.stringify(meta, null, 2), 'utf-8');
+
+  if (previous && previous.version !== version) {
+    logger.info('Ludus range-config schema changed', { previousVersion: previous.version, version });
+  }
+
+  return { type: 'cache', version, path: RANGE_CONFIG_SCHEMA_PATH, url, fetchedAt };
+}